@@ -1,121 +1,829 @@
-import { useState, useMemo, useCallback, useSyncExternalStore } from 'react';
+import { useState, useMemo, useCallback, useRef, useEffect, useEffectEvent, useSyncExternalStore } from 'react';
 import { Sidebar } from './components/Sidebar';
-import { Scene } from './components/Scene';
-import { parseShape, parseTensor, computeLayout, type BoxInstance } from './lib/layout';
+import { Scene, type CameraApi, type CaptureApi, type SceneCaption } from './components/Scene';
+import { PngExportDialog } from './components/PngExportDialog';
+import { RecordingDialog } from './components/RecordingDialog';
+import {
+  parseShape, computeDimIndices, arrangeSideBySide, cellKey, instanceAt, packInstances, unpackLayout,
+  type Axis, type BoxInstance, type LayoutConfig, type PackedLayout,
+} from './lib/layout';
+import { parseSliceExpression, resolveSelections } from './lib/slice';
 import type { AxisLabels } from './components/AxisTriad';
-import type { ColorMode } from './components/TensorGrid';
+import type { GridTransition, ValueColoring } from './components/TensorGrid';
+import { OpTimeline } from './components/OpTimeline';
+import type { RegionTool } from './components/RegionSelectOverlay';
+import { parseNumpyFile, type NamedTensor } from './lib/npy';
+import { createTensor, numel, tensorGet, type DType, type Tensor } from './lib/tensor';
+import { createLayoutClient, inlineWorker, LayoutCancelledError } from './lib/layoutWorker';
+import { compareTensors, diffInstances, DEFAULT_TOLERANCE, type CompareMode, type DiffMetric, type Tolerance } from './lib/compare';
+import { computeValueRange, DEFAULT_COLOR_SCALE, type ColorScaleSettings } from './lib/colormap';
+import {
+  parseViewState, serializeViewState, VIEW_STATE_VERSION, type CameraPose, type ColorModeName, type Projection, type ViewState,
+} from './lib/viewState';
+import { PRESET_DIRECTIONS, type CameraPreset } from './lib/cameraFit';
+import {
+  normalizeAssignment, outerDimsOf, presetAssignment, presetLayout, tileDimsByAxis, type DimAssignment, type DimOrderPreset,
+} from './lib/dimAssignment';
+import { createStore } from './lib/store';
+import { fiberGroups } from './lib/fiber';
+import { formatReduction, reduceDims, reducedIndex, reducedShape, reduceTensor, type ReductionSpec } from './lib/reduction';
+import { HISTOGRAM_BINS, histogram, histogramBin, statisticsAlong, tensorStatistics, type Histogram } from './lib/statistics';
+import { addCells, indexKey, parseIndexKey, selectionExpression, summarizeValues, toggleCell } from './lib/cellSelection';
+import {
+  formatByteAddress, layoutProperties, linearOffset, memoryOrderPath, offsetRange, resolveMemoryLayout,
+  DEFAULT_MEMORY_LAYOUT, type MemoryLayoutSettings,
+} from './lib/memoryLayout';
+import { DEFAULT_CELL_LABELS, type CellLabelSettings } from './lib/cellLabels';
+import {
+  buildVectorDrawing, layoutBoxes, paintDrawing, toPdf, toSvg, SCENE_THEMES, type BoxColoring, type LegendSpec,
+} from './lib/vectorExport';
+import { exportBackground, resolveExportSize, DEFAULT_PNG_EXPORT, ExportSizeError, type PngExportSettings } from './lib/pngExport';
+import {
+  createWebmRecorder, frameCount, orbitPose, recordingSize, sweepIndex, webmSupported, DEFAULT_RECORDING, type RecordingSettings,
+} from './lib/recording';
+import { GifEncoder } from './lib/gif';
+import { bindEinsumShapes, contributesTo, einsumFormula, einsumLayouts, letterColors, parseEinsum, EINSUM_OUTPUT_GROUP } from './lib/einsum';
+import { broadcastLayouts, broadcastShapes, operandName, parseShapeList } from './lib/broadcast';
+import {
+  attentionPatternLayout, convOutputShape, convPatternLayout, maskDensity, parseConvSpec, DEFAULT_ATTENTION, DEFAULT_CONV_FIELDS,
+  PATTERN_GROUPS, type AttentionSpec, type ConvFields, type PatternKind,
+} from './lib/receptiveField';
+import { applyTensorOp, buildOpTransition, formatTensorOp, opResultLabels, parseTensorOp, type OpView, type TensorOp } from './lib/tensorOps';
+import { buildHash, decodeTensorParam, decodeViewParam, embedTensor, encodeViewParam, parseHash } from './lib/urlState';
+import {
+  activeTensor, addTensor, createWorkspace, duplicateTensor, indexedDbStorage, memoryStorage, removeTensor, renameTensor,
+  updateTensor, workspaceLayoutConfig, workspaceTensorData, type Workspace, type WorkspaceLayout, type WorkspaceTensor,
+} from './lib/workspace';
 
-/**
- * A tiny external store for hover state.
- * This avoids re-rendering the 3D scene when hover changes — only the
- * tooltip component subscribes and re-renders.
- */
-function createHoverStore() {
-  let current: BoxInstance | null = null;
-  const listeners = new Set<() => void>();
+// Hash edits closer together than this replace the current history entry instead of adding one
+const HISTORY_COALESCE_MS = 500;
+// The workspace is saved this long after the last edit
+const WORKSPACE_SAVE_DELAY_MS = 500;
+
+// Hover state lives outside React state so only the tooltip re-renders on hover
+const hoverStore = createStore<BoxInstance | null>(null);
+// Op preview timeline position (0 = source layout, 1 = result layout), read by the grid every frame
+const opProgressStore = createStore(0);
+// Fraction of frames written by a running recording
+const recordingProgressStore = createStore(0);
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+const NO_CELLS: ReadonlySet<string> = new Set();
+
+// Layouts are computed and JSON data parsed in a worker, so slider drags don't block the page
+const layoutClient = createLayoutClient(typeof Worker === 'undefined'
+  ? inlineWorker()
+  : new Worker(new URL('./lib/layout.worker.ts', import.meta.url), { type: 'module' }));
+const EMPTY_LAYOUT = packInstances([]);
+
+const workspaceStorage = typeof indexedDB === 'undefined' ? memoryStorage() : indexedDbStorage();
+
+// A cancelled worker request has been superseded by a newer one; other failures are reported
+const onWorkerError = (report: (message: string) => void) => (e: unknown) => {
+  if (!(e instanceof LayoutCancelledError)) report(e instanceof Error ? e.message : String(e));
+};
+
+/** Push a new history entry for the hash, or replace the current one when restoring or editing rapidly */
+function writeHistory(hash: string, restoring: boolean, lastPushRef: { current: number }) {
+  const now = Date.now();
+  if (restoring || now - lastPushRef.current < HISTORY_COALESCE_MS) {
+    window.history.replaceState(null, '', hash);
+  } else {
+    window.history.pushState(null, '', hash);
+  }
+  lastPushRef.current = now;
+}
+
+/** Triad labels for an assignment: the spatial dim names plus the dims tiled along each axis */
+function buildAxisLabels(labels: string[], assignment: DimAssignment, tiling: boolean): AxisLabels {
+  const getLabel = (dimIdx: number | null, fallback: string) => {
+    if (dimIdx === null) return fallback;
+    return labels[dimIdx] || `d${dimIdx}`;
+  };
+  const [sx, sy, sz] = assignment.spatial;
+
+  // Tiled dims per axis come from the same assignment that computeLayout uses
+  const tiled = tileDimsByAxis(tiling ? assignment.tiles : []);
+  const tiledLabels = (dims: number[]) => dims.map(dim => labels[dim] || `d${dim}`);
 
   return {
-    set(value: BoxInstance | null) {
-      if (current === value) return;
-      current = value;
-      listeners.forEach(l => l());
-    },
-    subscribe(listener: () => void) {
-      listeners.add(listener);
-      return () => { listeners.delete(listener); };
-    },
-    getSnapshot() {
-      return current;
-    },
+    x: { primary: getLabel(sx, 'X'), tiled: tiledLabels(tiled.x) },
+    y: { primary: getLabel(sy, 'Y'), tiled: tiledLabels(tiled.y) },
+    z: { primary: getLabel(sz, 'Z'), tiled: tiledLabels(tiled.z) },
   };
 }
 
-const hoverStore = createHoverStore();
-
 export default function App() {
   const [shapeStr, setShapeStr] = useState('2, 3, 4, 5'); // Example shape [B, C, H, W]
   const [dataStr, setDataStr] = useState('');
 
+  // Arrays loaded from a .npy / .npz file take precedence over pasted JSON
+  const [loadedFile, setLoadedFile] = useState<{ fileName: string; arrays: NamedTensor[] } | null>(null);
+  const [selectedArray, setSelectedArray] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+
+  const cameraApiRef = useRef<CameraApi | null>(null);
+  const captureApiRef = useRef<CaptureApi | null>(null);
+  const [cameraVersion, setCameraVersion] = useState(0);
+  const [projection, setProjection] = useState<Projection>('perspective');
+  const [autoFit, setAutoFit] = useState(true);
+  // A restored camera pose; the scene applies it once the layout it belongs to is shown
+  const [pendingPose, setPendingPose] = useState<CameraPose | null>(null);
+
+  // Share link state
+  const [embedData, setEmbedData] = useState(false);
+  const [embedded, setEmbedded] = useState<{ tensor: Tensor; param: string | null; warning: string | null } | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const hydratedRef = useRef(false);
+  const restoringRef = useRef(false);
+  const lastPushRef = useRef(0);
+  const lastDataParamRef = useRef<string | null>(null);
+
   // Reset when shape string changes
   const handleSetShapeStr = (s: string) => {
     setShapeStr(s);
     setSliceIndices({});
   };
   const [labelsStr, setLabelsStr] = useState('B, C, H, W');
+  const labels = useMemo(() => labelsStr.split(',').map(s => s.trim()).filter(Boolean), [labelsStr]);
   const [maxCells, setMaxCells] = useState(8);
+  // NumPy-style per-dim selection, e.g. "x[0, :, 2:10:2]"; empty shows every dim (downsampled to maxCells)
+  const [sliceExpr, setSliceExpr] = useState('');
   const [mode, setMode] = useState<'tiling' | 'slicing'>('tiling');
 
-  const [dimOrder, setDimOrder] = useState<'first-to-last' | 'last-to-first'>('first-to-last');
+  const [dimOrder, setDimOrder] = useState<DimOrderPreset>('first-to-last');
+  // User-defined mapping of dims to spatial/tile axes; null follows the dimOrder preset
+  const [customAssignment, setCustomAssignment] = useState<DimAssignment | null>(null);
 
-  const [colorMode, setColorMode] = useState<ColorMode>('uniform');
+  const handleSetDimOrder = (order: DimOrderPreset) => {
+    setDimOrder(order);
+    setCustomAssignment(null);
+  };
+
+  const [colorMode, setColorMode] = useState<ColorModeName>('uniform');
   const [cubeColor, setCubeColor] = useState('#646a96');
+  const [colorScale, setColorScale] = useState<ColorScaleSettings>(DEFAULT_COLOR_SCALE);
+  // Strides and storage offset for the 'memory' color mode
+  const [memoryLayout, setMemoryLayout] = useState<MemoryLayoutSettings>(DEFAULT_MEMORY_LAYOUT);
+  // Value or index text drawn on each cell
+  const [cellLabels, setCellLabels] = useState<CellLabelSettings>(DEFAULT_CELL_LABELS);
+  // PNG export dialog: settings, and the canvas size while the dialog is open
+  const [pngExport, setPngExport] = useState<PngExportSettings>(DEFAULT_PNG_EXPORT);
+  const [pngViewport, setPngViewport] = useState<{ width: number; height: number } | null>(null);
+  // Animation recording dialog, likewise open while the canvas size is set
+  const [recordSettings, setRecordSettings] = useState<RecordingSettings>(DEFAULT_RECORDING);
+  const [recordViewport, setRecordViewport] = useState<{ width: number; height: number } | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [recordError, setRecordError] = useState<string | null>(null);
+  const recordJobRef = useRef<{ cancelled: boolean } | null>(null);
 
   const [sliceIndices, setSliceIndices] = useState<Record<number, number>>({});
 
-  // Compute derived state
-  const tensorData = useMemo(() => {
-    if (!dataStr.trim()) return null;
-    return parseTensor(dataStr);
+  // Cells picked by click, box or lasso, as index keys of the shape they were picked in
+  const [cellSelection, setCellSelection] = useState<{ shapeKey: string; cells: ReadonlySet<string> }>({ shapeKey: '', cells: NO_CELLS });
+  const [regionTool, setRegionTool] = useState<RegionTool | null>(null);
+  // Dims along which hovering highlights the whole fiber (one dim) or slice (several dims)
+  const [highlightDims, setHighlightDims] = useState<number[]>([]);
+  // Statistics panel: histogram bins, the bin whose cells are highlighted, and the dim of the per-index table
+  const [histogramBins, setHistogramBins] = useState<number>(HISTOGRAM_BINS[1]);
+  const [histogramPick, setHistogramPick] = useState<{ histogram: Histogram; bin: number } | null>(null);
+  const [statsDim, setStatsDim] = useState<number | null>(null);
+
+  // Alternative scene contents replacing the tensor grid; at most one is shown at a time
+  const [activeView, setActiveView] = useState<'op' | 'reduce' | 'broadcast' | 'einsum' | 'compare' | 'pattern' | null>(null);
+  const toggleView = (view: 'op' | 'reduce' | 'broadcast' | 'einsum' | 'compare' | 'pattern') => (active: boolean) => {
+    setActiveView(current => (active ? view : current === view ? null : current));
+  };
+
+  // Shape op preview (reshape / permute / ...), animated from the current layout to the result
+  const [opStr, setOpStr] = useState('');
+
+  // Reduction preview: the input next to its reduced result
+  const [reduction, setReduction] = useState<ReductionSpec>({ op: 'sum', dims: [], keepdim: false });
+
+  // Broadcasting view: operands (one shape per line) and their result side by side
+  const [broadcastStr, setBroadcastStr] = useState('');
+
+  // Einsum view: operands and output, with cells related by shared index letters
+  const [einsumStr, setEinsumStr] = useState('');
+  const [einsumShapesStr, setEinsumShapesStr] = useState('');
+  // Receptive field preview: a convolution or an attention mask
+  const [patternKind, setPatternKind] = useState<PatternKind>('conv');
+  const [convFields, setConvFields] = useState<ConvFields>(DEFAULT_CONV_FIELDS);
+  const [attention, setAttention] = useState<AttentionSpec>(DEFAULT_ATTENTION);
+
+  // Comparison of the data (the reference) with a candidate tensor, pasted as JSON or loaded from a file
+  const [candidateStr, setCandidateStr] = useState('');
+  const [candidateFile, setCandidateFile] = useState<{ fileName: string; arrays: NamedTensor[] } | null>(null);
+  const [candidateArray, setCandidateArray] = useState(0);
+  const [candidateError, setCandidateError] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('side-by-side');
+  const [diffMetric, setDiffMetric] = useState<DiffMetric>('absolute');
+  const [tolerance, setTolerance] = useState<Tolerance>(DEFAULT_TOLERANCE);
+
+  // Named tensors; the active one is edited in the state above. Null until the saved workspace is loaded
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+
+  // Typing JSON data replaces any loaded file
+  const handleSetDataStr = (s: string) => {
+    setDataStr(s);
+    setLoadedFile(null);
+    setLoadError(null);
+  };
+
+  const handleLoadFile = async (file: File) => {
+    try {
+      const arrays = await parseNumpyFile(await file.arrayBuffer(), file.name);
+      setLoadedFile({ fileName: file.name, arrays });
+      setSelectedArray(0);
+      setSliceIndices({});
+      setDataStr('');
+      setLoadError(null);
+    } catch (e) {
+      setLoadError(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleSelectArray = (index: number) => {
+    setSelectedArray(index);
+    setSliceIndices({});
+  };
+
+  const handleClearFile = () => {
+    setLoadedFile(null);
+    setLoadError(null);
+    setSliceIndices({});
+  };
+
+  // Typing candidate JSON replaces a loaded candidate file, and the other way round
+  const handleSetCandidateStr = (s: string) => {
+    setCandidateStr(s);
+    setCandidateFile(null);
+    setCandidateError(null);
+  };
+
+  const handleLoadCandidateFile = async (file: File) => {
+    try {
+      const arrays = await parseNumpyFile(await file.arrayBuffer(), file.name);
+      setCandidateFile({ fileName: file.name, arrays });
+      setCandidateArray(0);
+      setCandidateStr('');
+      setCandidateError(null);
+    } catch (e) {
+      setCandidateError(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  // Pasted JSON is parsed in the worker; the previous data stays shown until the new text is parsed
+  const [parsedData, setParsedData] = useState<Tensor | null>(null);
+  const [parseError, setParseError] = useState<{ text: string; message: string } | null>(null);
+  useEffect(() => {
+    if (!dataStr.trim()) return;
+    const job = layoutClient.parse(dataStr);
+    job.result.then(setParsedData, onWorkerError(message => setParseError({ text: dataStr, message })));
+    return job.cancel;
   }, [dataStr]);
+  const dataError = parseError?.text === dataStr ? parseError.message : null;
+
+  // Compute derived state
+  const tensor = useMemo((): Tensor | null => {
+    if (loadedFile) {
+      return (loadedFile.arrays[selectedArray] ?? loadedFile.arrays[0]).tensor;
+    }
+    return dataStr.trim() ? parsedData : null;
+  }, [dataStr, parsedData, loadedFile, selectedArray]);
+
+  const [parsedCandidate, setParsedCandidate] = useState<Tensor | null>(null);
+  const [candidateParseError, setCandidateParseError] = useState<{ text: string; message: string } | null>(null);
+  useEffect(() => {
+    if (!candidateStr.trim()) return;
+    const job = layoutClient.parse(candidateStr);
+    job.result.then(setParsedCandidate, onWorkerError(message => setCandidateParseError({ text: candidateStr, message })));
+    return job.cancel;
+  }, [candidateStr]);
+
+  const candidate = useMemo((): Tensor | null => {
+    if (candidateFile) return (candidateFile.arrays[candidateArray] ?? candidateFile.arrays[0]).tensor;
+    return candidateStr.trim() ? parsedCandidate : null;
+  }, [candidateStr, parsedCandidate, candidateFile, candidateArray]);
+
+  // Errors over every element, not just the displayed cells
+  const comparison = useMemo(() => {
+    if (!tensor || !candidate) return { summary: null, error: null };
+    try {
+      return { summary: compareTensors(tensor, candidate, tolerance), error: null };
+    } catch (e) {
+      return { summary: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [tensor, candidate, tolerance]);
 
   const shape = useMemo(() => {
-    if (tensorData) return tensorData.shape;
+    if (tensor) return tensor.shape;
     return parseShape(shapeStr);
-  }, [shapeStr, tensorData]);
-
-  // Determine active spatial dims based on dimension order
-  const effectiveSpatialDims = useMemo(() => {
-    const l = shape.length;
-    if (dimOrder === 'first-to-last') {
-      // First dims map to spatial: dim0→Y, dim1→X, dim2→Z
-      return [
-        l >= 2 ? 1 : null, // X
-        l >= 1 ? 0 : null, // Y
-        l >= 3 ? 2 : null, // Z
-      ] as [number | null, number | null, number | null];
-    } else {
-      // Last dims map to spatial: last→Y, second-to-last→X, third-to-last→Z
-      return [
-        l >= 2 ? l - 2 : null, // X
-        l >= 1 ? l - 1 : null, // Y
-        l >= 3 ? l - 3 : null, // Z
-      ] as [number | null, number | null, number | null];
-    }
-  }, [dimOrder, shape.length]);
-
-  const validSpatialDims = effectiveSpatialDims.map(d => (d !== null && d >= 0 && d < shape.length) ? d : null) as [number | null, number | null, number | null];
-  const outerDims = useMemo(() => {
-    return shape.map((_, i) => i).filter(d => !validSpatialDims.includes(d));
-  }, [shape, validSpatialDims]);
-
-  const layout = useMemo(() => {
-    return computeLayout({
-      shape,
-      spatialDims: validSpatialDims,
-      outerDims,
-      mode,
-      sliceIndices,
-      maxCellsPerDim: maxCells,
-      data: tensorData?.data
+  }, [shapeStr, tensor]);
+
+  // Determine spatial and tiled dims from the preset or the custom assignment
+  const assignment = useMemo(() => {
+    if (customAssignment) return normalizeAssignment(customAssignment, shape.length);
+    return presetAssignment(shape.length, dimOrder);
+  }, [customAssignment, dimOrder, shape.length]);
+
+  const validSpatialDims = assignment.spatial;
+  const outerDims = useMemo(() => outerDimsOf(assignment), [assignment]);
+
+  // Resolve the slice expression to explicit indices; an invalid expression falls back to the full tensor
+  const selection = useMemo((): { indices: (number[] | null)[]; error: string | null } => {
+    try {
+      const sels = parseSliceExpression(sliceExpr, shape.length);
+      const resolved = resolveSelections(sels, shape);
+      return { indices: sels.map((sel, d) => (sel.kind === 'all' ? null : resolved[d])), error: null };
+    } catch (e) {
+      return { indices: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [sliceExpr, shape]);
+
+  const layoutConfig = useMemo((): LayoutConfig => ({
+    shape,
+    spatialDims: validSpatialDims,
+    outerDims,
+    tileAssignments: assignment.tiles,
+    mode,
+    sliceIndices,
+    maxCellsPerDim: maxCells,
+    selectedIndices: selection.indices,
+    tensor: tensor ?? undefined,
+  }), [shape, validSpatialDims, outerDims, assignment, mode, sliceIndices, maxCells, selection, tensor]);
+
+  // The layout arrives from the worker, in partial steps for large ones. The previous layout stays
+  // on screen while the next one is computed, unless the shape changed
+  const [layoutResult, setLayoutResult] = useState<{ config: LayoutConfig; layout: PackedLayout; progress: number | null } | null>(null);
+  const [layoutFailure, setLayoutFailure] = useState<{ config: LayoutConfig; message: string } | null>(null);
+  useEffect(() => {
+    const job = layoutClient.layout(layoutConfig, (partial, progress) => setLayoutResult({ config: layoutConfig, layout: partial, progress }));
+    job.result.then(
+      result => setLayoutResult({ config: layoutConfig, layout: result, progress: null }),
+      onWorkerError(message => setLayoutFailure({ config: layoutConfig, message })),
+    );
+    return job.cancel;
+  }, [layoutConfig]);
+  const layout = layoutResult && layoutResult.config.shape.join(',') === shape.join(',') ? layoutResult.layout : EMPTY_LAYOUT;
+  const layoutError = layoutFailure?.config === layoutConfig ? layoutFailure.message : null;
+  // Fraction of the layout computed while the worker is busy; null when it's up to date (or failed)
+  const layoutProgress = layoutError !== null ? null
+    : !layoutResult || layoutResult.config !== layoutConfig ? 0 : layoutResult.progress;
+  const layoutBusyRef = useRef(false);
+  useEffect(() => {
+    layoutBusyRef.current = layoutProgress !== null;
+  }, [layoutProgress]);
+
+  const opResult = useMemo((): { op: TensorOp; view: OpView } | { error: string } | null => {
+    if (!opStr.trim() || shape.length === 0) return null;
+    try {
+      const op = parseTensorOp(opStr);
+      return { op, view: applyTensorOp(shape, op) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [opStr, shape]);
+
+  // The result is laid out with the current dimension order preset, fully tiled
+  const opTransition = useMemo((): (GridTransition & { assignment: DimAssignment; view: OpView; op: TensorOp }) | null => {
+    if (activeView !== 'op' || !opResult || 'error' in opResult) return null;
+    const { op, view } = opResult;
+    const target = presetLayout(view.shape, { dimOrder, maxCellsPerDim: maxCells });
+    return {
+      data: buildOpTransition(unpackLayout(layout), shape, target, view),
+      getProgress: opProgressStore.getSnapshot,
+      assignment: presetAssignment(view.shape.length, dimOrder),
+      view,
+      op,
+    };
+  }, [activeView, opResult, dimOrder, maxCells, layout, shape]);
+
+  const handleStartOpPreview = () => {
+    opProgressStore.set(0);
+    setActiveView('op');
+  };
+
+  const reductionSpec = useMemo(
+    () => ({ ...reduction, dims: reduction.dims.filter(d => d < shape.length) }),
+    [reduction, shape.length],
+  );
+
+  // Input (the current layout) and the reduced output side by side; values come from the loaded data
+  const reduceView = useMemo(() => {
+    if (activeView !== 'reduce' || shape.length === 0) return null;
+    const dims = reduceDims(reductionSpec, shape.length);
+    const outShape = reducedShape(shape, reductionSpec);
+    // A full reduction is a scalar, drawn as a single cell
+    const displayShape = outShape.length > 0 ? outShape : [1];
+    const reduced = tensor ? reduceTensor(tensor, reductionSpec) : null;
+    const outTensor = reduced && createTensor(reduced.data, displayShape, reduced.dtype);
+
+    const input = unpackLayout(layout).map(inst => ({ ...inst, id: `in:${inst.id}`, group: 'Input' }));
+    const output = presetLayout(displayShape, { dimOrder, maxCellsPerDim: maxCells, tensor: outTensor ?? undefined })
+      .map(inst => ({ ...inst, id: `out:${inst.id}`, group: 'Output' }));
+    const call = formatReduction(reductionSpec, shape.length);
+    // Captions travel with their layouts: an input still being laid out is skipped, not mislabeled
+    const { instances, panels } = arrangeSideBySide([input, output], [`x [${shape.join(', ')}]`, `${call} [${outShape.join(', ')}]`]);
+    const captions = panels.map((panel): SceneCaption => ({
+      text: panel.caption,
+      position: [panel.center[0], panel.top + 1.5, panel.center[2]],
+    }));
+
+    // Each input cell belongs to the output cell it collapses into (if that cell is displayed)
+    const outputIds = new Map(output.map((inst, i) => [inst.id, input.length + i]));
+    const inputsOf = new Map<number, number[]>();
+    const outputOf = input.map((inst, i) => {
+      const outPath = reducedIndex(inst.indexPath, dims, reductionSpec.keepdim);
+      const outId = outputIds.get(`out:${(outPath.length > 0 ? outPath : [0]).join(',')}`);
+      if (outId !== undefined) {
+        const group = inputsOf.get(outId);
+        if (group) group.push(i);
+        else inputsOf.set(outId, [i]);
+      }
+      return outId;
+    });
+    // Hovering an output cell highlights its inputs; hovering an input shows its siblings and their output
+    const getRelated = (instanceId: number) => {
+      if (instanceId >= input.length) return inputsOf.get(instanceId) ?? [];
+      const outId = outputOf[instanceId];
+      return outId === undefined ? [] : [...(inputsOf.get(outId) ?? []), outId];
+    };
+
+    const allLabels = shape.map((_, d) => labels[d] || `d${d}`);
+    const groupLabels = {
+      Input: allLabels,
+      Output: reductionSpec.keepdim ? allLabels : allLabels.filter((_, d) => !dims.includes(d)),
+    };
+    const groupTensors: Record<string, Tensor> = {};
+    if (tensor && outTensor) Object.assign(groupTensors, { Input: tensor, Output: outTensor });
+    return { instances, captions, getRelated, groupLabels, groupTensors };
+  }, [activeView, shape, reductionSpec, tensor, layout, dimOrder, maxCells, labels]);
+
+  // Reference and candidate side by side (hovering a cell highlights its counterpart), or one grid of their differences
+  const compareView = useMemo(() => {
+    if (activeView !== 'compare' || !tensor || !candidate || !comparison.summary) return null;
+    const cells = unpackLayout(layout);
+    if (compareMode === 'diff') {
+      return { instances: diffInstances(cells, tensor, candidate, diffMetric, tolerance) };
+    }
+    const reference = cells.map(inst => ({ ...inst, id: `ref:${inst.id}`, group: 'Reference' }));
+    const other = cells.map(inst => ({ ...inst, id: `cand:${inst.id}`, group: 'Candidate', value: tensorGet(candidate, inst.indexPath) }));
+    const { instances, panels } = arrangeSideBySide([reference, other], ['Reference', 'Candidate']);
+    const captions = panels.map((panel): SceneCaption => ({
+      text: `${panel.caption} [${shape.join(', ')}]`,
+      position: [panel.center[0], panel.top + 1.5, panel.center[2]],
+    }));
+    const n = cells.length;
+    const getRelated = (instanceId: number) => [instanceId < n ? instanceId + n : instanceId - n];
+    return { instances, captions, getRelated, groupTensors: { Reference: tensor, Candidate: candidate } as Record<string, Tensor> };
+  }, [activeView, tensor, candidate, comparison, layout, compareMode, diffMetric, tolerance, shape]);
+
+  const broadcast = useMemo(() => {
+    const shapes = parseShapeList(broadcastStr);
+    return { shapes, result: broadcastShapes(shapes) };
+  }, [broadcastStr]);
+
+  const broadcastView = useMemo((): { instances: BoxInstance[]; captions: SceneCaption[] } | null => {
+    const { shapes, result } = broadcast;
+    if (activeView !== 'broadcast' || shapes.length < 2) return null;
+    const layouts = broadcastLayouts(shapes, result, { dimOrder, maxCellsPerDim: maxCells });
+    const names = shapes.map((shape, i) => `${operandName(i)} [${shape.join(', ')}]`);
+    if (result.shape) names.push(`Result [${result.shape.join(', ')}]`);
+    const { instances, panels } = arrangeSideBySide(layouts, names);
+    return {
+      instances,
+      // Look the operand up by caption; an empty layout has no panel
+      captions: panels.map(panel => {
+        const i = names.indexOf(panel.caption);
+        return {
+          text: panel.caption,
+          position: [panel.center[0], panel.top + 1.5, panel.center[2]],
+          tone: !result.shape && result.axes.some(a => a.roles[i] === 'conflict') ? 'error' : 'normal',
+        };
+      }),
+    };
+  }, [broadcast, activeView, dimOrder, maxCells]);
+
+  const einsum = useMemo(() => {
+    try {
+      const spec = parseEinsum(einsumStr);
+      const { sizes, outputShape } = bindEinsumShapes(spec, parseShapeList(einsumShapesStr));
+      return { spec, sizes, outputShape, error: null };
+    } catch (e) {
+      return { spec: null, sizes: null, outputShape: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [einsumStr, einsumShapesStr]);
+  const einsumColors = useMemo(() => (einsum.spec ? letterColors(einsum.spec) : {}), [einsum]);
+  const einsumNames = einsum.spec ? einsum.spec.inputs.map((_, i) => operandName(i)) : [];
+
+  const einsumView = useMemo(() => {
+    const { spec, outputShape } = einsum;
+    if (activeView !== 'einsum' || !spec || !outputShape) return null;
+    const shapes = parseShapeList(einsumShapesStr);
+    const terms = [...spec.inputs, spec.output];
+    const groups = [...spec.inputs.map((_, i) => operandName(i)), EINSUM_OUTPUT_GROUP];
+    const { instances, panels } = arrangeSideBySide(
+      einsumLayouts(shapes, outputShape, { dimOrder, maxCellsPerDim: maxCells }),
+      groups,
+    );
+    // Empty layouts get no panel, so each panel finds its operand by its group caption
+    const captions = panels.map((panel): SceneCaption => {
+      const term = terms[groups.indexOf(panel.caption)];
+      return {
+        text: `${panel.caption} ${term}`,
+        parts: [
+          { text: `${panel.caption} ` },
+          ...[...term].map(ch => ({ text: ch, color: einsumColors[ch], underline: spec.contracted.includes(ch) })),
+        ],
+        position: [panel.center[0], panel.top + 1.5, panel.center[2]],
+      };
+    });
+    // Hovering an output cell highlights every input cell that is multiplied into it
+    const outputStart = instances.findIndex(inst => inst.group === EINSUM_OUTPUT_GROUP);
+    const getRelated = (instanceId: number) => {
+      if (instanceId < outputStart) return [];
+      const outIndex = instances[instanceId].indexPath;
+      const related: number[] = [];
+      for (let i = 0; i < outputStart; i++) {
+        const operand = groups.indexOf(instances[i].group ?? '');
+        if (contributesTo(spec, operand, instances[i].indexPath, outIndex)) related.push(i);
+      }
+      return related;
+    };
+    const groupLabels = Object.fromEntries(groups.map((g, i) => [g, [...terms[i]]]));
+    return { instances, captions, getRelated, groupLabels, rank: outputShape.length };
+  }, [einsum, einsumColors, einsumShapesStr, activeView, dimOrder, maxCells]);
+
+  // Summary line for the receptive field panel, or why the settings are invalid
+  const pattern = useMemo((): { summary: string | null; error: string | null } => {
+    try {
+      if (patternKind === 'attention') {
+        return { summary: `${Math.round(maskDensity(attention) * 100)}% of query–key pairs attended`, error: null };
+      }
+      const spec = parseConvSpec(convFields);
+      const extent = spec.kernel.map((k, d) => spec.dilation[d] * (k - 1) + 1);
+      return { summary: `Output [${convOutputShape(spec).join(', ')}], each reading ${extent.join(' × ')} inputs`, error: null };
+    } catch (e) {
+      return { summary: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [patternKind, convFields, attention]);
+
+  // Input and output of a convolution, or an attention mask between its keys and queries; hovering
+  // an output cell highlights the input cells it reads
+  const patternView = useMemo(() => {
+    if (activeView !== 'pattern' || pattern.error) return null;
+    const conv = patternKind === 'conv' ? parseConvSpec(convFields) : null;
+    const { instances, panels, related } = conv ? convPatternLayout(conv, dimOrder) : attentionPatternLayout(attention);
+    const captions = panels.map((panel): SceneCaption => ({
+      text: panel.caption,
+      position: [panel.center[0], panel.top + 1.5, panel.center[2]],
+    }));
+    const getRelated = (instanceId: number) => related[instanceId] ?? [];
+    if (conv) {
+      const dims = ['D', 'H', 'W'].slice(3 - conv.input.length);
+      if (conv.input.length === 1) dims[0] = 'L';
+      return {
+        instances, captions, getRelated,
+        groupLabels: { [PATTERN_GROUPS.input]: dims, [PATTERN_GROUPS.output]: dims } as Record<string, string[]>,
+        axisLabels: buildAxisLabels(dims, presetAssignment(dims.length, dimOrder), true),
+      };
+    }
+    return {
+      instances, captions, getRelated,
+      groupLabels: { [PATTERN_GROUPS.keys]: ['k'], [PATTERN_GROUPS.mask]: ['q', 'k'], [PATTERN_GROUPS.queries]: ['q'] } as Record<string, string[]>,
+      axisLabels: buildAxisLabels(['q', 'k'], { spatial: [1, 0, null], tiles: [] }, true),
+    };
+  }, [activeView, pattern, patternKind, convFields, attention, dimOrder]);
+
+  // Strides for the memory color mode; invalid custom strides fall back to uniform coloring
+  const memory = useMemo(() => {
+    try {
+      const { strides, offset } = resolveMemoryLayout(shape, memoryLayout, tensor);
+      return {
+        strides, offset,
+        range: offsetRange(shape, strides, offset),
+        properties: layoutProperties(shape, strides),
+        error: null,
+      };
+    } catch (e) {
+      return { strides: null, offset: 0, range: null, properties: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [shape, memoryLayout, tensor]);
+
+  // Cells carry their linear offset as the value, so the grid's value coloring shows memory order
+  const memoryView = useMemo(() => {
+    const { strides, offset } = memory;
+    if (colorMode !== 'memory' || !strides || activeView !== null) return null;
+    const { count, rank, indexPaths } = layout;
+    const values = Float64Array.from({ length: count }, (_, i) => linearOffset(indexPaths.subarray(i * rank, (i + 1) * rank), strides, offset));
+    const path = memoryLayout.showPath
+      ? memoryOrderPath(Array.from(values, (value, i) => ({ position: instanceAt(layout, i).position, offset: value })))
+      : undefined;
+    return { layout: { ...layout, values, valid: null }, path };
+  }, [memory, colorMode, activeView, layout, memoryLayout.showPath]);
+
+  // Data and layouts of the tensors not being edited, laid out in the worker from their saved
+  // settings. As with the active tensor, earlier layouts stay shown until the new ones arrive;
+  // null marks a tensor that could not be laid out
+  const [workspaceLayouts, setWorkspaceLayouts] = useState<ReadonlyMap<string, WorkspaceLayout | null>>(new Map());
+  useEffect(() => {
+    if (!workspace?.showAll) return;
+    const cancels: (() => void)[] = [];
+    let stopped = false;
+    const update = (id: string, entry: WorkspaceLayout | null) => setWorkspaceLayouts(prev => new Map(prev).set(id, entry));
+    for (const entry of workspace.tensors) {
+      if (entry.id === workspace.activeId) continue;
+      const report = onWorkerError(message => {
+        update(entry.id, null);
+        setWorkspaceError(`${entry.name}: ${message}`);
+      });
+      const layOut = (tensor: Tensor | null) => {
+        if (stopped) return;
+        const config = workspaceLayoutConfig(entry.view, tensor);
+        const job = layoutClient.layout(config, (layout, progress) => update(entry.id, { tensor, shape: config.shape, layout, progress }));
+        cancels.push(job.cancel);
+        job.result.then(layout => update(entry.id, { tensor, shape: config.shape, layout, progress: null }), report);
+      };
+      // Pasted JSON is parsed in the worker too; loaded files are already tensors
+      if (entry.file || !entry.dataStr.trim()) {
+        layOut(workspaceTensorData(entry));
+      } else {
+        const job = layoutClient.parse(entry.dataStr);
+        cancels.push(job.cancel);
+        job.result.then(layOut, report);
+      }
+    }
+    return () => {
+      stopped = true;
+      cancels.forEach(cancel => cancel());
+    };
+  }, [workspace]);
+  const workspaceOthers = useMemo(() => {
+    if (!workspace?.showAll) return null;
+    return new Map(workspace.tensors.flatMap(entry => {
+      const laidOut = entry.id !== workspace.activeId && workspaceLayouts.get(entry.id);
+      return laidOut ? [[entry.id, { tensor: laidOut.tensor, shape: laidOut.shape, cells: unpackLayout(laidOut.layout) }] as const] : [];
+    }));
+  }, [workspace, workspaceLayouts]);
+
+  // Every tensor of the workspace arranged along an axis, the active one with its live layout.
+  // The memory mode shows one tensor's offsets, so it keeps the single tensor
+  const workspaceView = useMemo(() => {
+    if (!workspace || !workspaceOthers || workspace.tensors.length < 2 || activeView !== null || colorMode === 'memory') return null;
+    // Tensors whose first layout hasn't arrived yet are left out until it does
+    const entries = workspace.tensors.flatMap(entry => {
+      if (entry.id === workspace.activeId) return [{ name: entry.name, labels, tensor, shape, cells: unpackLayout(layout) }];
+      const other = workspaceOthers.get(entry.id);
+      return other ? [{ name: entry.name, labels: entry.view.labels, ...other }] : [];
     });
-  }, [shape, validSpatialDims, outerDims, mode, sliceIndices, maxCells, tensorData]);
+    const { instances, panels } = arrangeSideBySide(
+      entries.map(({ name, cells }) => cells.map(inst => ({ ...inst, id: `${name}:${inst.id}`, group: name }))),
+      entries.map(({ name, shape }) => `${name} [${shape.join(', ')}]`),
+      4,
+      workspace.axis,
+    );
+    const captions = panels.map((panel): SceneCaption => ({
+      text: panel.caption,
+      position: [panel.center[0], panel.top + 1.5, panel.center[2]],
+    }));
+    const groupLabels = Object.fromEntries(entries.map(e => [e.name, e.shape.map((_, d) => e.labels[d] || `d${d}`)]));
+    const groupTensors: Record<string, Tensor> = {};
+    for (const e of entries) if (e.tensor) groupTensors[e.name] = e.tensor;
+    return { instances, captions, groupLabels, groupTensors };
+  }, [workspace, workspaceOthers, activeView, colorMode, labels, tensor, shape, layout]);
+
+  // The busy indicator also covers the other tensors while they are laid out
+  const sceneLayoutProgress = useMemo(() => {
+    if (!workspaceView || !workspace) return layoutProgress;
+    const pending = workspace.tensors.flatMap(entry => {
+      if (entry.id === workspace.activeId) return layoutProgress === null ? [] : [layoutProgress];
+      const laidOut = workspaceLayouts.get(entry.id);
+      if (laidOut === undefined) return [0];
+      return laidOut === null || laidOut.progress === null ? [] : [laidOut.progress];
+    });
+    return pending.length > 0 ? Math.min(...pending) : null;
+  }, [workspaceView, workspace, workspaceLayouts, layoutProgress]);
+
+  // A selection made for another shape no longer applies
+  const selectedCells = cellSelection.shapeKey === shape.join(',') ? cellSelection.cells : NO_CELLS;
+  const setSelectedCells = (cells: ReadonlySet<string>) => setCellSelection({ shapeKey: shape.join(','), cells });
+
+  const selectedExpression = useMemo(() => selectionExpression(selectedCells, shape), [selectedCells, shape]);
+  const selectedSummary = useMemo(() => (tensor && selectedCells.size > 0
+    ? summarizeValues([...selectedCells].map(key => tensorGet(tensor, parseIndexKey(key))))
+    : null), [tensor, selectedCells]);
+  const selectedShownCount = useMemo(
+    () => {
+      if (selectedCells.size === 0) return 0;
+      let n = 0;
+      for (let i = 0; i < layout.count; i++) if (selectedCells.has(cellKey(layout, i))) n++;
+      return n;
+    },
+    [layout, selectedCells],
+  );
+
+  // Statistics over the whole tensor, not just the displayed cells
+  const tensorStats = useMemo(() => (tensor ? tensorStatistics(tensor) : null), [tensor]);
+  const valueHistogram = useMemo(
+    () => (tensor && tensorStats ? histogram(tensor, histogramBins, tensorStats) : null),
+    [tensor, tensorStats, histogramBins],
+  );
+  const dimStats = useMemo(
+    () => (tensor && statsDim !== null && statsDim < tensor.shape.length ? statisticsAlong(tensor, statsDim) : null),
+    [tensor, statsDim],
+  );
+  // A bin picked in an earlier histogram (other data or bin count) no longer applies
+  const histogramBinPicked = histogramPick && histogramPick.histogram === valueHistogram ? histogramPick.bin : null;
+  const histogramMatches = useMemo(() => {
+    if (!valueHistogram || histogramBinPicked === null || !layout.values) return null;
+    const mask = new Uint8Array(layout.count);
+    let count = 0;
+    // Missing values are NaN in the layout, which falls in no bin
+    for (let c = 0; c < layout.count; c++) {
+      if (histogramBin(valueHistogram, layout.values[c]) === histogramBinPicked) {
+        mask[c] = 1;
+        count++;
+      }
+    }
+    return { mask, count };
+  }, [layout, valueHistogram, histogramBinPicked]);
+
+  // Hovering a cell highlights every displayed cell that differs from it only along the highlight dims
+  const fiberRelated = useMemo(() => {
+    const dims = highlightDims.filter(d => d < shape.length);
+    if (dims.length === 0) return undefined;
+    const { count, rank, indexPaths } = layout;
+    const groups = fiberGroups(Array.from({ length: count }, (_, i) => indexPaths.subarray(i * rank, (i + 1) * rank)), dims);
+    return (instanceId: number) => groups[instanceId] ?? [];
+  }, [highlightDims, shape.length, layout]);
+
+  const dimCellCounts = useMemo(() => computeDimIndices(layoutConfig).map(indices => indices.length), [layoutConfig]);
+
+  // Value range over the displayed cells, resolved from the color scale settings
+  const valueColoring = useMemo((): ValueColoring => ({
+    colormap: colorScale.colormap,
+    range: computeValueRange(layout.values?.filter((_, i) => !layout.valid || layout.valid[i] === 1) ?? [], colorScale),
+    nanColor: colorScale.nanColor,
+  }), [layout, colorScale]);
+
+  // During an op preview cells are colored by their source element's flat index, so each element keeps its color
+  const sceneValueColoring = useMemo((): ValueColoring => (opTransition ? {
+    colormap: colorScale.colormap,
+    range: { min: 0, max: Math.max(1, numel(shape) - 1) },
+    nanColor: colorScale.nanColor,
+    label: 'Source element',
+  } : memoryView && memory.range ? {
+    colormap: colorScale.colormap,
+    range: { min: memory.range.min, max: Math.max(memory.range.min + 1, memory.range.max) },
+    nanColor: colorScale.nanColor,
+    label: 'Memory offset',
+  } : reduceView || compareView || workspaceView ? {
+    // One range over the values of every panel, so equal colors mean equal values across them
+    colormap: colorScale.colormap,
+    range: computeValueRange((reduceView ?? compareView ?? workspaceView)!.instances.map(inst => inst.value), colorScale),
+    nanColor: colorScale.nanColor,
+    label: compareMode === 'diff' && compareView ? (diffMetric === 'absolute' ? 'Absolute difference' : 'Relative difference') : undefined,
+  } : valueColoring), [opTransition, memoryView, memory, reduceView, compareView, workspaceView, compareMode, diffMetric, colorScale, shape, valueColoring]);
 
   const handleSetSliceIndex = (dim: number, idx: number) => {
     setSliceIndices(prev => ({ ...prev, [dim]: idx }));
   };
 
   const handleExportPng = () => {
-    const canvas = document.querySelector('#tensor-canvas canvas') as HTMLCanvasElement;
-    if (!canvas) return;
-    const link = document.createElement('a');
-    link.download = 'tensor-grid.png';
-    link.href = canvas.toDataURL('image/png');
-    link.click();
+    const view = cameraApiRef.current?.getProjection();
+    if (!view || recording) return;
+    setRecordViewport(null);
+    setPngViewport({ width: view.width, height: view.height });
   };
 
+  const handleOpenRecording = () => {
+    const view = cameraApiRef.current?.getProjection();
+    if (!view) return;
+    setPngViewport(null);
+    setRecordError(null);
+    setRecordViewport({ width: view.width, height: view.height });
+  };
+
+
+  // The active tensor's view settings, as written to settings files and kept in the workspace
+  const currentView = (): ViewState => ({
+    version: VIEW_STATE_VERSION,
+    shape, labels, dimOrder, mode, maxCells, sliceIndices, colorMode, cubeColor, colorScale,
+    selection: sliceExpr.trim() || undefined,
+    memoryLayout: colorMode === 'memory' ? memoryLayout : undefined,
+    dimAssignment: customAssignment ? assignment : undefined,
+    camera: cameraApiRef.current?.getPose(),
+  });
+
   const handleExportJson = () => {
-    const config = { shape, spatialDims: validSpatialDims, outerDims, mode, maxCells, sliceIndices };
-    const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+    const json = serializeViewState(currentView());
+    const blob = new Blob([json], { type: 'application/json' });
     const link = document.createElement('a');
     link.download = 'tensor-grid-settings.json';
     link.href = URL.createObjectURL(blob);
@@ -123,38 +831,405 @@ export default function App() {
     URL.revokeObjectURL(link.href);
   };
 
-  const labels = labelsStr.split(',').map(s => s.trim()).filter(Boolean);
+  // Restore a validated view state; the shape only changes when no data is loaded
+  const applyViewState = (state: ViewState) => {
+    if (!tensor) setShapeStr(state.shape.join(', '));
+    setLabelsStr(state.labels.join(', '));
+    setDimOrder(state.dimOrder);
+    setCustomAssignment(state.dimAssignment ?? null);
+    setMode(state.mode);
+    setMaxCells(state.maxCells);
+    setSliceIndices(state.sliceIndices);
+    setSliceExpr(state.selection ?? '');
+    setColorMode(state.colorMode);
+    setCubeColor(state.cubeColor);
+    setColorScale(state.colorScale);
+    setMemoryLayout(state.memoryLayout ?? DEFAULT_MEMORY_LAYOUT);
+    if (state.camera) {
+      setProjection(state.camera.projection ?? 'perspective');
+      setPendingPose(state.camera);
+    }
+  };
+
+  // The workspace with the active tensor's stored entry brought up to date
+  const snapshotActive = (ws: Workspace) => updateTensor(ws, ws.activeId, {
+    view: currentView(), dataStr, file: loadedFile, selectedArray,
+  });
+
+  // Make a workspace tensor the one being edited; switching replaces the history entry instead of adding one
+  const openTensor = (entry: WorkspaceTensor) => {
+    setDataStr(entry.dataStr);
+    setLoadedFile(entry.file);
+    setSelectedArray(entry.selectedArray);
+    setLoadError(null);
+    applyViewState(entry.view);
+    setShapeStr(entry.view.shape.join(', '));
+    restoringRef.current = true;
+  };
+
+  const handleSelectTensor = (id: string) => {
+    const entry = workspace?.tensors.find(t => t.id === id);
+    if (!workspace || !entry || id === workspace.activeId) return;
+    setWorkspace({ ...snapshotActive(workspace), activeId: id });
+    openTensor(entry);
+  };
+
+  // New tensors start from the current view settings, without data
+  const handleAddTensor = () => {
+    if (!workspace) return;
+    const next = addTensor(snapshotActive(workspace), { name: 'Tensor', view: currentView(), dataStr: '', file: null, selectedArray: 0 });
+    setWorkspace(next);
+    openTensor(activeTensor(next));
+  };
+
+  const handleDuplicateTensor = (id: string) => {
+    if (!workspace) return;
+    const next = duplicateTensor(snapshotActive(workspace), id);
+    setWorkspace(next);
+    openTensor(activeTensor(next));
+  };
+
+  const handleRemoveTensor = (id: string) => {
+    if (!workspace) return;
+    const next = removeTensor(snapshotActive(workspace), id);
+    setWorkspace(next);
+    if (next.activeId !== workspace.activeId) openTensor(activeTensor(next));
+  };
+
+  const handleRenameTensor = (id: string, name: string) => {
+    if (workspace) setWorkspace(renameTensor(workspace, id, name));
+  };
+
+  const handleImportSettings = async (file: File) => {
+    try {
+      applyViewState(parseViewState(await file.text(), tensor?.shape));
+      setSettingsError(null);
+    } catch (e) {
+      setSettingsError(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  // Compress the data tensor for the share link when embedding is enabled
+  useEffect(() => {
+    if (!embedData || !tensor) return;
+    let cancelled = false;
+    embedTensor(tensor).then(
+      result => {
+        if (!cancelled) setEmbedded({ tensor, ...result });
+      },
+      e => {
+        const reason = e instanceof Error ? e.message : String(e);
+        if (!cancelled) setEmbedded({ tensor, param: null, warning: `Could not compress the data (${reason}); the link only contains the view.` });
+      },
+    );
+    return () => { cancelled = true; };
+  }, [embedData, tensor]);
+  const embeddedFor = embedData && embedded?.tensor === tensor ? embedded : null;
+
+  // Write the view state into the URL hash; rapid edits (slider drags) coalesce into one history entry
+  useEffect(() => {
+    if (!hydratedRef.current) return;
+    const view = encodeViewParam({
+      shape,
+      labels: labelsStr.split(',').map(s => s.trim()).filter(Boolean),
+      dimOrder, mode, maxCells, sliceIndices, colorMode, cubeColor, colorScale,
+      selection: sliceExpr.trim() || undefined,
+      memoryLayout: colorMode === 'memory' ? memoryLayout : undefined,
+      dimAssignment: customAssignment ? assignment : undefined,
+      camera: cameraApiRef.current?.getPose(),
+    });
+    const hash = buildHash({ view, data: embeddedFor?.param ?? undefined });
+    const restoring = restoringRef.current;
+    restoringRef.current = false;
+    if (hash === window.location.hash) return;
+
+    writeHistory(hash, restoring, lastPushRef);
+  }, [shape, labelsStr, dimOrder, customAssignment, assignment, mode, maxCells, sliceIndices, sliceExpr, colorMode, cubeColor, colorScale, memoryLayout, cameraVersion, embeddedFor]);
+
+  // Restore from the URL hash on load and on browser back/forward
+  const restoreFromHash = useEffectEvent(async () => {
+    const { view, data } = parseHash(window.location.hash);
+    try {
+      let fixedShape = tensor?.shape ?? null;
+      if (data && data !== lastDataParamRef.current) {
+        const linked = await decodeTensorParam(data);
+        lastDataParamRef.current = data;
+        setLoadedFile({ fileName: 'shared link', arrays: [{ name: 'data', tensor: linked }] });
+        setSelectedArray(0);
+        setDataStr('');
+        setEmbedData(true);
+        fixedShape = linked.shape;
+      }
+      if (view) {
+        restoringRef.current = true;
+        applyViewState(decodeViewParam(view, fixedShape));
+      }
+      setShareError(null);
+    } catch (e) {
+      setShareError(`Could not restore the link: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    hydratedRef.current = true;
+  });
+
+  // Open the saved workspace, or start one from the initial view
+  const openWorkspace = useEffectEvent((stored: Workspace | null) => {
+    if (stored) {
+      setWorkspace(stored);
+      openTensor(activeTensor(stored));
+    } else {
+      setWorkspace(createWorkspace({ name: 'Tensor', view: currentView(), dataStr, file: loadedFile, selectedArray }));
+    }
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    workspaceStorage.load()
+      .catch((e: unknown) => {
+        setWorkspaceError(`Could not load the saved workspace: ${e instanceof Error ? e.message : String(e)}`);
+        return null;
+      })
+      .then(stored => {
+        if (!cancelled) openWorkspace(stored);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // The URL hash is restored on top of the workspace's active tensor
+  const workspaceReady = workspace !== null;
+  useEffect(() => {
+    if (!workspaceReady) return;
+    restoreFromHash();
+    const onPopState = () => { restoreFromHash(); };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [workspaceReady]);
+
+  // Save the workspace shortly after edits, with the active tensor's current state
+  const saveWorkspace = useEffectEvent(() => {
+    if (!workspace) return;
+    workspaceStorage.save(snapshotActive(workspace)).then(
+      () => setWorkspaceError(null),
+      (e: unknown) => setWorkspaceError(`Could not save the workspace: ${e instanceof Error ? e.message : String(e)}`),
+    );
+  });
+
+  useEffect(() => {
+    if (!workspaceReady) return;
+    const timer = setTimeout(saveWorkspace, WORKSPACE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspaceReady, workspace, dataStr, loadedFile, selectedArray, shape, labelsStr, dimOrder, customAssignment, mode, maxCells, sliceIndices, sliceExpr, colorMode, cubeColor, colorScale, memoryLayout, cameraVersion]);
+
+  const handleCameraChange = useCallback(() => setCameraVersion(v => v + 1), []);
+
+  const handleFitCamera = (preset?: CameraPreset) => {
+    cameraApiRef.current?.fit(preset && PRESET_DIRECTIONS[preset]);
+    handleCameraChange();
+  };
+
+  const handleCopyLink = () => {
+    if (!navigator.clipboard) {
+      setShareError('Could not copy the link: the clipboard is not available on this page');
+      return;
+    }
+    navigator.clipboard.writeText(window.location.href).then(
+      () => setShareError(null),
+      e => setShareError(`Could not copy the link: ${e instanceof Error ? e.message : String(e)}`),
+    );
+  };
+
+  // Dropped files are routed by extension: .json settings, otherwise NumPy data
+  const handleDropFile = (file: File) => {
+    if (file.name.toLowerCase().endsWith('.json')) handleImportSettings(file);
+    else handleLoadFile(file);
+  };
 
   // Build axis labels for the coordinate triad
   // Includes primary spatial dim labels + tiled dim labels grouped by axis
-  const axisLabels = useMemo((): AxisLabels => {
-    const getLabel = (dimIdx: number | null, fallback: string) => {
-      if (dimIdx === null) return fallback;
-      return labels[dimIdx] || `d${dimIdx}`;
-    };
-    const [sx, sy, sz] = validSpatialDims;
-
-    // Compute tiled dims per axis (cycle: Y → X → Z → repeat)
-    // This mirrors the logic in layout.ts activeTileDims.forEach
-    const tiledX: string[] = [];
-    const tiledY: string[] = [];
-    const tiledZ: string[] = [];
-    if (mode === 'tiling') {
-      outerDims.forEach((dim, i) => {
-        const axisIdx = i % 3;
-        const dimLabel = labels[dim] || `d${dim}`;
-        if (axisIdx === 0) tiledY.push(dimLabel);      // tile cycle: Y first
-        else if (axisIdx === 1) tiledX.push(dimLabel);  // then X
-        else tiledZ.push(dimLabel);                     // then Z
-      });
+  const opLabels = opTransition ? opResultLabels(labels, shape.length, opTransition.op) : [];
+  const axisLabels = patternView
+    ? patternView.axisLabels
+    : broadcastView
+      ? buildAxisLabels([], presetAssignment(broadcast.result.axes.length, dimOrder), true)
+      : einsumView && einsum.spec
+        // Operands have different ranks; the triad follows the output's index letters
+        ? buildAxisLabels([...einsum.spec.output], presetAssignment(einsumView.rank, dimOrder), true)
+        : opTransition
+          ? buildAxisLabels(opLabels, opTransition.assignment, true)
+          : buildAxisLabels(labels, assignment, mode === 'tiling');
+
+  // Broadcast, einsum and receptive field views are built from bare shapes, without values
+  const shapeView = broadcastView ?? einsumView ?? patternView;
+  // Shape-only views have no values (or memory), so those modes fall back to the uniform color;
+  // op previews, the memory mode and the diff grid color by value (source element / linear offset / difference)
+  const gridColorMode = shapeView
+    ? (colorMode === 'axis' ? 'axis' : 'uniform')
+    : opTransition || memoryView || (compareView && compareMode === 'diff')
+      ? 'value'
+      : colorMode === 'memory' ? 'uniform' : colorMode;
+
+  // Selection works on the tensor's own cells, not on the op / reduction / comparison previews or the shape-only views
+  const selectable = !shapeView && !opTransition && !reduceView && !compareView && !workspaceView;
+  const viewInstances = shapeView?.instances ?? opTransition?.data.instances ?? reduceView?.instances ?? compareView?.instances
+    ?? workspaceView?.instances;
+  const sceneLayout = useMemo(
+    () => (viewInstances ? packInstances(viewInstances) : memoryView?.layout ?? layout),
+    [viewInstances, memoryView, layout],
+  );
+
+  // Click replaces the selection (clicking the only selected cell clears it); shift-click toggles a cell
+  const handleSelectCell = (instance: BoxInstance, additive: boolean) => {
+    const key = indexKey(instance.indexPath);
+    if (additive) setSelectedCells(toggleCell(selectedCells, instance.indexPath));
+    else setSelectedCells(selectedCells.size === 1 && selectedCells.has(key) ? NO_CELLS : new Set([key]));
+  };
+
+  const handleRegionSelect = (instanceIds: number[], additive: boolean) => {
+    setSelectedCells(addCells(additive ? selectedCells : NO_CELLS, instanceIds.map(i => instanceAt(sceneLayout, i).indexPath)));
+  };
+
+  // The legend shown on the canvas in value color modes
+  const legend: LegendSpec | undefined = gridColorMode === 'value' && sceneLayout.count > 0 ? sceneValueColoring : undefined;
+
+  // Vector figure of the current view: same camera, colors, triad and legend as the canvas
+  const handleExportVector = (format: 'svg' | 'pdf') => {
+    const view = cameraApiRef.current?.getProjection();
+    if (!view || sceneLayout.count === 0) return;
+    const coloring: BoxColoring = gridColorMode === 'axis'
+      ? { mode: 'axis' }
+      : gridColorMode === 'value'
+        ? { mode: 'value', colormap: sceneValueColoring.colormap, range: sceneValueColoring.range, nanColor: sceneValueColoring.nanColor }
+        : { mode: 'uniform', color: cubeColor };
+    const drawing = buildVectorDrawing(layoutBoxes(unpackLayout(sceneLayout), coloring), view, { triad: axisLabels, legend });
+    const blob = format === 'svg'
+      ? new Blob([toSvg(drawing)], { type: 'image/svg+xml' })
+      : new Blob([toPdf(drawing)], { type: 'application/pdf' });
+    const link = document.createElement('a');
+    link.download = `tensor-grid.${format}`;
+    link.href = URL.createObjectURL(blob);
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  let pngSize: { width: number; height: number; overlayScale: number } | null = null;
+  let pngSizeError: string | null = null;
+  if (pngViewport) {
+    try {
+      pngSize = resolveExportSize(pngExport, pngViewport);
+    } catch (e) {
+      if (!(e instanceof ExportSizeError)) throw e;
+      pngSizeError = e.message;
     }
+  }
 
-    return {
-      x: { primary: getLabel(sx, 'X'), tiled: tiledX },
-      y: { primary: getLabel(sy, 'Y'), tiled: tiledY },
-      z: { primary: getLabel(sz, 'Z'), tiled: tiledZ },
-    };
-  }, [validSpatialDims, labels, outerDims, mode]);
+  // Render the scene offscreen at the export size, then draw background and overlays around it
+  const handleSavePng = () => {
+    const view = cameraApiRef.current?.getProjection();
+    const capture = captureApiRef.current;
+    if (!view || !capture || !pngSize) return;
+    const { width, height, overlayScale } = pngSize;
+    const theme = SCENE_THEMES[pngExport.theme];
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    const background = exportBackground(pngExport, theme.background);
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(capture.render(width, height), 0, 0);
+    ctx.scale(overlayScale, overlayScale);
+    paintDrawing(ctx, buildVectorDrawing([], { ...view, width: width / overlayScale, height: height / overlayScale }, {
+      theme: pngExport.theme,
+      triad: pngExport.includeTriad ? axisLabels : undefined,
+      legend: pngExport.includeLegend ? legend : undefined,
+    }));
+
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      const link = document.createElement('a');
+      link.download = 'tensor-grid.png';
+      link.href = URL.createObjectURL(blob);
+      link.click();
+      URL.revokeObjectURL(link.href);
+    }, 'image/png');
+    setPngViewport(null);
+  };
+
+  // Slice sweeps step through the selected indices of a sliced (outer) dim
+  const sweepDims = mode === 'slicing'
+    ? outerDims.map(dim => ({ dim, label: labels[dim] || `d${dim}`, count: selection.indices[dim]?.length ?? shape[dim] }))
+    : [];
+  const sweepDim = sweepDims.some(d => d.dim === recordSettings.sweepDim) ? recordSettings.sweepDim : sweepDims[0]?.dim ?? null;
+  const recordKind = recordSettings.kind === 'sweep' && sweepDim === null ? 'orbit' : recordSettings.kind;
+
+  // Render every frame offscreen (camera turned, or slice index stepped) and feed it to the encoder
+  const handleRecord = async () => {
+    const cameraApi = cameraApiRef.current;
+    const capture = captureApiRef.current;
+    if (!cameraApi || !capture || !recordViewport || recording) return;
+    const settings = recordSettings;
+    const { width, height } = recordingSize(recordViewport, settings.height);
+    const frames = frameCount(settings);
+    const startPose = cameraApi.getPose();
+    const startSlices = sliceIndices;
+    const domain = sweepDim === null ? [] : selection.indices[sweepDim] ?? Array.from({ length: shape[sweepDim] }, (_, i) => i);
+
+    const job = { cancelled: false };
+    recordJobRef.current = job;
+    recordingProgressStore.set(0);
+    setRecordError(null);
+    setRecording(true);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: settings.format === 'gif' })!;
+    try {
+      const webm = settings.format === 'webm' ? createWebmRecorder(canvas, settings.fps) : null;
+      const gif = settings.format === 'gif' ? new GifEncoder(width, height, { delayMs: 1000 / settings.fps }) : null;
+      for (let f = 0; f < frames && !job.cancelled; f++) {
+        if (recordKind === 'orbit') {
+          cameraApi.setPose(orbitPose(startPose, f / frames));
+        } else if (sweepDim !== null) {
+          const index = sweepIndex(domain, f, frames);
+          setSliceIndices(prev => (prev[sweepDim] === index ? prev : { ...prev, [sweepDim]: index }));
+          // Let React commit the new layout config, the worker lay it out and the grid write its instances
+          await nextFrame();
+          while (layoutBusyRef.current && !job.cancelled) await nextFrame();
+          await nextFrame();
+          await nextFrame();
+        }
+        ctx.fillStyle = SCENE_THEMES.dark.background;
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(capture.render(width, height), 0, 0);
+        if (webm) {
+          await webm.frame();
+        } else {
+          gif!.addFrame(ctx.getImageData(0, 0, width, height).data);
+          await nextFrame(); // keep the page responsive
+        }
+        recordingProgressStore.set((f + 1) / frames);
+      }
+
+      const blob = webm ? await webm.finish() : new Blob([gif!.finish() as BlobPart], { type: 'image/gif' });
+      if (!job.cancelled) {
+        const link = document.createElement('a');
+        link.download = `tensor-grid.${settings.format}`;
+        link.href = URL.createObjectURL(blob);
+        link.click();
+        URL.revokeObjectURL(link.href);
+      }
+    } catch (e) {
+      setRecordError(e instanceof Error ? e.message : String(e));
+    } finally {
+      cameraApi.setPose(startPose);
+      if (recordKind === 'sweep') setSliceIndices(startSlices);
+      recordJobRef.current = null;
+      setRecording(false);
+    }
+  };
 
   // Stable callback ref for hover — writes to external store, doesn't trigger App re-render
   const handleHover = useCallback((instance: BoxInstance | null) => {
@@ -164,53 +1239,309 @@ export default function App() {
   return (
     <div className="flex w-screen h-screen overflow-hidden bg-zinc-950 font-sans text-sm selection:bg-zinc-700">
       <Sidebar
+        workspaceTensors={workspace && workspace.tensors.map(({ id, name, view }) => ({
+          id, name, shape: id === workspace.activeId ? shape : view.shape,
+        }))}
+        activeTensorId={workspace?.activeId ?? ''}
+        onSelectTensor={handleSelectTensor}
+        onAddTensor={handleAddTensor}
+        onRenameTensor={handleRenameTensor}
+        onDuplicateTensor={handleDuplicateTensor}
+        onRemoveTensor={handleRemoveTensor}
+        showAllTensors={workspace?.showAll ?? false}
+        setShowAllTensors={showAll => workspace && setWorkspace({ ...workspace, showAll })}
+        workspaceAxis={workspace?.axis ?? 'x'}
+        setWorkspaceAxis={(axis: Axis) => workspace && setWorkspace({ ...workspace, axis })}
+        workspaceError={workspaceError}
         shapeStr={shapeStr} setShapeStr={handleSetShapeStr}
-        dataStr={dataStr} setDataStr={setDataStr}
+        dataStr={dataStr} setDataStr={handleSetDataStr}
+        loadedFile={loadedFile}
+        selectedArray={selectedArray} setSelectedArray={handleSelectArray}
+        onLoadFile={handleLoadFile}
+        onClearFile={handleClearFile}
+        loadError={loadError}
+        dataError={dataError}
+        layoutError={layoutError}
         labelsStr={labelsStr} setLabelsStr={setLabelsStr}
         maxCells={maxCells} setMaxCells={setMaxCells}
         mode={mode} setMode={setMode}
-        dimOrder={dimOrder} setDimOrder={setDimOrder}
+        dimOrder={dimOrder} setDimOrder={handleSetDimOrder}
+        assignment={assignment}
+        isCustomAssignment={customAssignment !== null}
+        setAssignment={setCustomAssignment}
         outerDims={outerDims}
         sliceIndices={sliceIndices} setSliceIndex={handleSetSliceIndex}
+        sliceExpr={sliceExpr} setSliceExpr={setSliceExpr}
+        selectedIndices={selection.indices}
+        selectionError={selection.error}
+        dimCellCounts={dimCellCounts}
+        selectedCellCount={selectedCells.size}
+        selectedShownCount={selectedShownCount}
+        selectedExpression={selectedExpression}
+        selectedSummary={selectedSummary}
+        regionTool={regionTool} setRegionTool={setRegionTool}
+        onClearSelectedCells={() => setSelectedCells(NO_CELLS)}
+        tensorStats={tensorStats}
+        histogram={valueHistogram}
+        histogramBins={histogramBins}
+        setHistogramBins={setHistogramBins}
+        histogramBin={histogramBinPicked}
+        setHistogramBin={bin => setHistogramPick(valueHistogram && bin !== null ? { histogram: valueHistogram, bin } : null)}
+        histogramMatchCount={histogramMatches?.count ?? 0}
+        statsDim={statsDim}
+        setStatsDim={setStatsDim}
+        dimStats={dimStats}
+        highlightDims={highlightDims.filter(d => d < shape.length)} setHighlightDims={setHighlightDims}
+        opStr={opStr} setOpStr={setOpStr}
+        opResultShape={opResult && 'view' in opResult ? opResult.view.shape : null}
+        opError={opResult && 'error' in opResult ? opResult.error : null}
+        opPreview={activeView === 'op'}
+        onStartOpPreview={handleStartOpPreview}
+        onStopOpPreview={() => toggleView('op')(false)}
+        reduction={reductionSpec} setReduction={setReduction}
+        reductionCall={formatReduction(reductionSpec, shape.length)}
+        reductionShape={reducedShape(shape, reductionSpec)}
+        reductionActive={activeView === 'reduce'} setReductionActive={toggleView('reduce')}
+        broadcastStr={broadcastStr} setBroadcastStr={setBroadcastStr}
+        broadcastShapes={broadcast.shapes}
+        broadcastResult={broadcast.result}
+        broadcastActive={activeView === 'broadcast'} setBroadcastActive={toggleView('broadcast')}
+        einsumStr={einsumStr} setEinsumStr={setEinsumStr}
+        einsumShapesStr={einsumShapesStr} setEinsumShapesStr={setEinsumShapesStr}
+        einsumSpec={einsum.spec}
+        einsumSizes={einsum.sizes}
+        einsumColors={einsumColors}
+        einsumFormula={einsum.spec ? einsumFormula(einsum.spec, einsumNames) : null}
+        einsumError={einsum.error}
+        einsumActive={activeView === 'einsum'} setEinsumActive={toggleView('einsum')}
+        patternKind={patternKind} setPatternKind={setPatternKind}
+        convFields={convFields} setConvFields={setConvFields}
+        attention={attention} setAttention={setAttention}
+        patternSummary={pattern.summary}
+        patternError={pattern.error}
+        patternActive={activeView === 'pattern'} setPatternActive={toggleView('pattern')}
+        candidateStr={candidateStr} setCandidateStr={handleSetCandidateStr}
+        candidateFile={candidateFile}
+        candidateArray={candidateArray} setCandidateArray={setCandidateArray}
+        onLoadCandidateFile={handleLoadCandidateFile}
+        onClearCandidateFile={() => setCandidateFile(null)}
+        compareMode={compareMode} setCompareMode={setCompareMode}
+        diffMetric={diffMetric} setDiffMetric={setDiffMetric}
+        tolerance={tolerance} setTolerance={setTolerance}
+        compareSummary={comparison.summary}
+        compareError={candidateError ?? (candidateParseError?.text === candidateStr ? candidateParseError.message : null) ?? comparison.error}
+        compareActive={activeView === 'compare'} setCompareActive={toggleView('compare')}
         shape={shape}
+        projection={projection} setProjection={setProjection}
+        autoFit={autoFit} setAutoFit={setAutoFit}
+        onCameraPreset={handleFitCamera}
+        onFitCamera={() => handleFitCamera()}
         onExportPng={handleExportPng}
+        onRecord={handleOpenRecording}
+        onExportVector={handleExportVector}
         onExportJson={handleExportJson}
+        onImportSettings={handleImportSettings}
+        settingsError={settingsError}
+        embedData={embedData} setEmbedData={setEmbedData}
+        embedWarning={embeddedFor?.warning ?? null}
+        shareError={shareError}
+        onCopyLink={handleCopyLink}
         colorMode={colorMode}
         setColorMode={setColorMode}
         cubeColor={cubeColor}
         setCubeColor={setCubeColor}
+        colorScale={colorScale}
+        setColorScale={setColorScale}
+        memoryLayout={memoryLayout}
+        setMemoryLayout={setMemoryLayout}
+        memoryStrides={memory.strides}
+        memoryProperties={memory.properties}
+        memoryRange={memory.range}
+        memoryError={memory.error}
+        cellLabels={cellLabels}
+        setCellLabels={setCellLabels}
+        hasData={tensor !== null}
       />
 
-      <div className="flex-1 relative">
-        <Scene layout={layout} onHover={handleHover} axisLabels={axisLabels} colorMode={colorMode} cubeColor={cubeColor} />
+      <div
+        className="flex-1 relative"
+        onDragOver={e => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setIsDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) handleDropFile(file);
+        }}
+      >
+        <Scene
+          layout={sceneLayout}
+          onHover={handleHover}
+          axisLabels={axisLabels}
+          colorMode={gridColorMode}
+          cubeColor={cubeColor}
+          valueColoring={sceneValueColoring}
+          transition={opTransition ?? undefined}
+          captions={shapeView?.captions ?? reduceView?.captions ?? compareView?.captions ?? workspaceView?.captions}
+          getRelated={einsumView?.getRelated ?? patternView?.getRelated ?? reduceView?.getRelated ?? compareView?.getRelated ?? (selectable ? fiberRelated : undefined)}
+          path={memoryView?.path}
+          cellLabels={shapeView ? undefined : cellLabels}
+          highlighted={sceneLayout === layout ? histogramMatches?.mask : undefined}
+          selected={selectable ? selectedCells : undefined}
+          onSelect={selectable ? handleSelectCell : undefined}
+          onClearSelection={selectable ? () => setSelectedCells(NO_CELLS) : undefined}
+          regionTool={selectable ? regionTool : null}
+          onRegionSelect={handleRegionSelect}
+          cameraApiRef={cameraApiRef}
+          onCameraChange={handleCameraChange}
+          captureApiRef={captureApiRef}
+          theme={pngViewport ? pngExport.theme : 'dark'}
+          projection={projection}
+          autoFit={autoFit}
+          layoutProgress={sceneLayoutProgress}
+          pendingPose={pendingPose}
+        />
 
         {/* Tooltip — subscribes to hover store independently, no App re-render */}
-        <HoverTooltip labels={labels} />
+        <HoverTooltip
+          labels={shapeView ? [] : labels}
+          resultLabels={opLabels}
+          groupLabels={einsumView?.groupLabels ?? patternView?.groupLabels ?? reduceView?.groupLabels ?? workspaceView?.groupLabels}
+          groupTensors={reduceView?.groupTensors ?? compareView?.groupTensors ?? workspaceView?.groupTensors}
+          tensor={shapeView ? null : tensor}
+          compare={compareView && tensor && candidate ? { reference: tensor, candidate } : undefined}
+          memory={memoryView && memory.strides ? { strides: memory.strides, offset: memory.offset, dtype: memoryLayout.dtype } : undefined}
+        />
+
+        {opTransition && (
+          <OpTimeline
+            label={`[${shape.join(', ')}] → ${formatTensorOp(opTransition.op)} → [${opTransition.view.shape.join(', ')}]`}
+            progress={opProgressStore}
+            onClose={() => toggleView('op')(false)}
+          />
+        )}
+
+        {pngViewport && (
+          <PngExportDialog
+            settings={pngExport}
+            setSettings={setPngExport}
+            size={pngSize}
+            error={pngSizeError}
+            hasLegend={legend !== undefined}
+            onExport={handleSavePng}
+            onClose={() => setPngViewport(null)}
+          />
+        )}
+
+        {recordViewport && (
+          <RecordingDialog
+            settings={{ ...recordSettings, kind: recordKind }}
+            setSettings={setRecordSettings}
+            size={recordingSize(recordViewport, recordSettings.height)}
+            frames={frameCount(recordSettings)}
+            sweepDims={sweepDims}
+            sweepDim={sweepDim}
+            webmSupported={webmSupported()}
+            recording={recording}
+            progress={recordingProgressStore}
+            error={recordError}
+            onRecord={handleRecord}
+            onCancel={() => { if (recordJobRef.current) recordJobRef.current.cancelled = true; }}
+            onClose={() => setRecordViewport(null)}
+          />
+        )}
+
+        {isDragging && (
+          <div className="absolute inset-0 z-30 flex items-center justify-center bg-zinc-950/70 border-2 border-dashed border-blue-500 text-blue-300 text-base pointer-events-none">
+            Drop a .npy / .npz file to load data, or a settings .json to restore a view
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
 /** Isolated tooltip component that subscribes to hover state via external store */
-function HoverTooltip({ labels }: { labels: string[] }) {
+function HoverTooltip({ labels, resultLabels, groupLabels, groupTensors, tensor, memory, compare }: {
+  labels: string[];
+  resultLabels: string[];
+  groupLabels?: Record<string, string[]>; // per-group dim names, e.g. einsum index letters
+  groupTensors?: Record<string, Tensor>; // per-group values, e.g. the reduction output
+  tensor: Tensor | null;
+  memory?: { strides: number[]; offset: number; dtype: DType }; // memory layout mode
+  compare?: { reference: Tensor; candidate: Tensor }; // comparison views show both values and their difference
+}) {
   const hovered = useSyncExternalStore(hoverStore.subscribe, hoverStore.getSnapshot);
 
   if (!hovered) return null;
+  // In an op preview the cell's index is in the result; values and the main index path refer to the source element
+  const sourcePath = hovered.sourceIndexPath ?? hovered.indexPath;
+  const valueTensor = (hovered.group && groupTensors?.[hovered.group]) || tensor;
+  const value = valueTensor ? tensorGet(valueTensor, sourcePath) : undefined;
+  const memoryOffset = memory ? linearOffset(sourcePath, memory.strides, memory.offset) : null;
+  const compared = compare && {
+    reference: tensorGet(compare.reference, sourcePath),
+    candidate: tensorGet(compare.candidate, sourcePath),
+  };
+  const delta = compared && compared.reference !== undefined && compared.candidate !== undefined
+    ? compared.candidate - compared.reference
+    : undefined;
+
+  const indexChips = (path: number[], names: string[]) => (
+    <div className="font-mono text-xs flex gap-1.5 flex-wrap">
+      {path.map((idx, i) => (
+        <span key={i} className="bg-zinc-800 border border-zinc-700 px-1.5 py-0.5 rounded text-zinc-100">
+          {names[i] || `d${i}`}=<span className="text-blue-400">{idx}</span>
+        </span>
+      ))}
+    </div>
+  );
 
   return (
     <div className="absolute bottom-6 left-6 bg-zinc-900 border border-zinc-700 text-white px-4 py-3 rounded-lg shadow-xl pointer-events-none z-10 transition-opacity">
-      <div className="font-semibold text-zinc-300 mb-2">Index Path</div>
-      <div className="font-mono text-xs flex gap-1.5 flex-wrap">
-        {hovered.indexPath.map((idx, i) => (
-          <span key={i} className="bg-zinc-800 border border-zinc-700 px-1.5 py-0.5 rounded text-zinc-100">
-            {labels[i] || `d${i}`}=<span className="text-blue-400">{idx}</span>
-          </span>
-        ))}
+      <div className="font-semibold text-zinc-300 mb-2">
+        Index Path{hovered.group && <span className="text-zinc-500 font-normal"> — {hovered.group}</span>}
       </div>
-      {hovered.value !== undefined && (
+      {indexChips(sourcePath, (hovered.group && groupLabels?.[hovered.group]) || labels)}
+      {hovered.sourceIndexPath && (
+        <>
+          <div className="font-semibold text-zinc-300 mt-3 mb-2">Result Index</div>
+          {indexChips(hovered.indexPath, resultLabels)}
+        </>
+      )}
+      {compared && (
+        <div className="mt-3 text-sm border-t border-zinc-800 pt-2 grid grid-cols-[auto_auto] gap-x-3">
+          <span className="text-zinc-500">Reference:</span>
+          <span className="font-mono text-emerald-400 font-medium">{compared.reference ?? '—'}</span>
+          <span className="text-zinc-500">Candidate:</span>
+          <span className="font-mono text-emerald-400 font-medium">{compared.candidate ?? '—'}</span>
+          <span className="text-zinc-500">Δ:</span>
+          <span className="font-mono text-amber-400 font-medium">
+            {delta ?? '—'}
+            {delta !== undefined && compared.reference !== 0 && (
+              <span className="text-zinc-500 font-normal"> ({(Math.abs(delta / compared.reference!) * 100).toPrecision(3)}%)</span>
+            )}
+          </span>
+        </div>
+      )}
+      {value !== undefined && !compared && (
         <div className="mt-3 text-sm border-t border-zinc-800 pt-2">
           <span className="text-zinc-500">Value:</span>{' '}
-          <span className="font-mono text-emerald-400 font-medium">{hovered.value}</span>
+          <span className="font-mono text-emerald-400 font-medium">{value}</span>
+          <span className="text-zinc-600 text-xs ml-2">{valueTensor?.dtype}</span>
+        </div>
+      )}
+      {memory && memoryOffset !== null && (
+        <div className="mt-3 text-sm border-t border-zinc-800 pt-2">
+          <span className="text-zinc-500">Offset:</span>{' '}
+          <span className="font-mono text-amber-400 font-medium">{memoryOffset}</span>
+          <span className="text-zinc-500 ml-3">Address:</span>{' '}
+          <span className="font-mono text-amber-400 font-medium">{formatByteAddress(memoryOffset, memory.dtype)}</span>
+          <span className="text-zinc-600 text-xs ml-2">{memory.dtype}</span>
         </div>
       )}
     </div>
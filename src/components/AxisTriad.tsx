@@ -30,10 +30,12 @@ function ArrowLine({
     dir,
     color,
     label,
+    onClick,
 }: {
     dir: [number, number, number];
     color: string;
     label: AxisLabelInfo;
+    onClick?: () => void;
 }) {
     const length = 1;
     const headLength = 0.2;
@@ -78,42 +80,59 @@ function ArrowLine({
                 <meshBasicMaterial color={color} />
             </mesh>
 
+            {/* Invisible, thicker hit target along the whole arrow */}
+            {onClick && (
+                <mesh
+                    position={[dir[0] * length / 2, dir[1] * length / 2, dir[2] * length / 2]}
+                    quaternion={quat}
+                    onClick={e => { e.stopPropagation(); onClick(); }}
+                    onPointerOver={() => { document.body.style.cursor = 'pointer'; }}
+                    onPointerOut={() => { document.body.style.cursor = ''; }}
+                >
+                    <cylinderGeometry args={[0.18, 0.18, length, 8]} />
+                    <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+                </mesh>
+            )}
+
             {/* Label: primary dimension + tiled dimensions */}
             <Html
                 position={labelPos}
                 center
                 style={{
-                    pointerEvents: 'none',
+                    pointerEvents: onClick ? 'auto' : 'none',
+                    cursor: onClick ? 'pointer' : undefined,
                     userSelect: 'none',
                     textAlign: 'center',
                     lineHeight: 1.2,
                     whiteSpace: 'nowrap',
                 }}
             >
-                {/* Primary spatial label */}
-                <div style={{
-                    color,
-                    fontSize: '11px',
-                    fontWeight: 700,
-                    fontFamily: 'Inter, system-ui, sans-serif',
-                    textShadow: '0 0 4px rgba(0,0,0,0.9)',
-                }}>
-                    {label.primary}
-                </div>
-                {/* Tiled dimension labels — shown smaller and dimmer */}
-                {label.tiled.length > 0 && (
+                <div onClick={onClick}>
+                    {/* Primary spatial label */}
                     <div style={{
                         color,
-                        fontSize: '8px',
-                        fontWeight: 500,
+                        fontSize: '11px',
+                        fontWeight: 700,
                         fontFamily: 'Inter, system-ui, sans-serif',
-                        opacity: 0.55,
-                        textShadow: '0 0 3px rgba(0,0,0,0.8)',
-                        marginTop: 1,
+                        textShadow: '0 0 4px rgba(0,0,0,0.9)',
                     }}>
-                        {label.tiled.join(', ')}
+                        {label.primary}
                     </div>
-                )}
+                    {/* Tiled dimension labels — shown smaller and dimmer */}
+                    {label.tiled.length > 0 && (
+                        <div style={{
+                            color,
+                            fontSize: '8px',
+                            fontWeight: 500,
+                            fontFamily: 'Inter, system-ui, sans-serif',
+                            opacity: 0.55,
+                            textShadow: '0 0 3px rgba(0,0,0,0.8)',
+                            marginTop: 1,
+                        }}>
+                            {label.tiled.join(', ')}
+                        </div>
+                    )}
+                </div>
             </Html>
         </group>
     );
@@ -144,9 +163,11 @@ function CameraSync({ mainCamera }: { mainCamera: Camera | null }) {
 function TriadContent({
     mainCamera,
     axisLabels,
+    onAxisClick,
 }: {
     mainCamera: Camera | null;
     axisLabels: AxisLabels;
+    onAxisClick?: (axis: keyof AxisLabels) => void;
 }) {
     return (
         <>
@@ -164,9 +185,9 @@ function TriadContent({
                 Y: indices increase in -Y  (y = -rY - addY)
                 Z: indices increase in -Z  (z = -rZ - addZ)
             */}
-            <ArrowLine dir={[1, 0, 0]} color="#ef4444" label={axisLabels.x} />
-            <ArrowLine dir={[0, -1, 0]} color="#22c55e" label={axisLabels.y} />
-            <ArrowLine dir={[0, 0, -1]} color="#3b82f6" label={axisLabels.z} />
+            <ArrowLine dir={[1, 0, 0]} color="#ef4444" label={axisLabels.x} onClick={onAxisClick && (() => onAxisClick('x'))} />
+            <ArrowLine dir={[0, -1, 0]} color="#22c55e" label={axisLabels.y} onClick={onAxisClick && (() => onAxisClick('y'))} />
+            <ArrowLine dir={[0, 0, -1]} color="#3b82f6" label={axisLabels.z} onClick={onAxisClick && (() => onAxisClick('z'))} />
         </>
     );
 }
@@ -177,6 +198,7 @@ function TriadContent({
 export interface AxisTriadProps {
     mainCamera: Camera | null;
     axisLabels?: AxisLabels;
+    onAxisClick?: (axis: keyof AxisLabels) => void; // arrows and labels become clickable
 }
 
 const DEFAULT_LABELS: AxisLabels = {
@@ -185,7 +207,7 @@ const DEFAULT_LABELS: AxisLabels = {
     z: { primary: 'Z', tiled: [] },
 };
 
-export function AxisTriad({ mainCamera, axisLabels }: AxisTriadProps) {
+export function AxisTriad({ mainCamera, axisLabels, onAxisClick }: AxisTriadProps) {
     const labels = axisLabels ?? DEFAULT_LABELS;
 
     return (
@@ -197,7 +219,7 @@ export function AxisTriad({ mainCamera, axisLabels }: AxisTriadProps) {
                 width: 140,
                 height: 140,
                 zIndex: 20,
-                pointerEvents: 'none',
+                pointerEvents: onAxisClick ? 'auto' : 'none',
                 borderRadius: 12,
                 background: 'rgba(24, 24, 27, 0.65)',
                 backdropFilter: 'blur(8px)',
@@ -208,9 +230,9 @@ export function AxisTriad({ mainCamera, axisLabels }: AxisTriadProps) {
             <Canvas
                 orthographic
                 camera={{ zoom: 50, near: 0.1, far: 100, position: [0, 0, 4] }}
-                style={{ pointerEvents: 'none' }}
+                style={{ pointerEvents: onAxisClick ? 'auto' : 'none' }}
             >
-                <TriadContent mainCamera={mainCamera} axisLabels={labels} />
+                <TriadContent mainCamera={mainCamera} axisLabels={labels} onAxisClick={onAxisClick} />
             </Canvas>
         </div>
     );
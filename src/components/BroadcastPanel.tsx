@@ -0,0 +1,75 @@
+import { operandName, type BroadcastResult, type BroadcastRole } from '../lib/broadcast';
+
+interface BroadcastPanelProps {
+    shapesStr: string;
+    setShapesStr: (s: string) => void;
+    shapes: number[][];
+    result: BroadcastResult;
+    active: boolean;
+    setActive: (active: boolean) => void;
+}
+
+const ROLE_CLASS: Record<BroadcastRole, string> = {
+    match: 'text-zinc-200',
+    stretched: 'text-zinc-500 italic',
+    missing: 'text-zinc-600',
+    conflict: 'text-red-400 font-bold',
+};
+
+/** Shapes input and per-axis table explaining how the operands broadcast */
+export function BroadcastPanel({ shapesStr, setShapesStr, shapes, result, active, setActive }: BroadcastPanelProps) {
+    const canShow = shapes.length >= 2;
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-white font-semibold">Broadcasting</h2>
+                <button
+                    onClick={() => setActive(!active)}
+                    disabled={!active && !canShow}
+                    className={`px-3 py-1 rounded text-xs font-medium transition-colors disabled:opacity-40 ${active
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                        }`}
+                >
+                    {active ? 'Hide' : 'Show'}
+                </button>
+            </div>
+            <textarea
+                value={shapesStr}
+                onChange={e => setShapesStr(e.target.value)}
+                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono text-xs h-16 resize-y"
+                placeholder={'One shape per line, e.g.\n8, 1, 6\n7, 1'}
+            />
+            {canShow && (
+                <>
+                    <table className="text-xs font-mono mt-1">
+                        <thead>
+                            <tr className="text-zinc-500">
+                                <th className="text-left font-normal pr-2">axis</th>
+                                {shapes.map((_, i) => <th key={i} className="text-right font-normal pr-2">{operandName(i)}</th>)}
+                                <th className="text-right font-normal">result</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {result.axes.map((axis, a) => (
+                                <tr key={a} className={axis.size === null ? 'bg-red-950/50' : undefined}>
+                                    <td className="text-zinc-500 pr-2">{a - result.axes.length}</td>
+                                    {axis.sizes.map((size, i) => (
+                                        <td key={i} className={`text-right pr-2 ${ROLE_CLASS[axis.roles[i]]}`}>
+                                            {size === null ? '–' : axis.roles[i] === 'stretched' ? `1→${axis.size ?? '?'}` : size}
+                                        </td>
+                                    ))}
+                                    <td className="text-right">{axis.size ?? '✕'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {result.shape
+                        ? <div className="text-zinc-400 text-xs font-mono">Result: [{result.shape.join(', ')}]</div>
+                        : <div className="text-red-400 text-xs">{result.error}</div>}
+                </>
+            )}
+        </div>
+    );
+}
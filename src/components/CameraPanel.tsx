@@ -0,0 +1,47 @@
+import { CAMERA_PRESET_LABELS, type CameraPreset } from '../lib/cameraFit';
+import type { Projection } from '../lib/viewState';
+
+interface CameraPanelProps {
+    projection: Projection;
+    setProjection: (projection: Projection) => void;
+    autoFit: boolean;
+    setAutoFit: (autoFit: boolean) => void;
+    onPreset: (preset: CameraPreset) => void;
+    onFit: () => void;
+}
+
+const PROJECTION_LABELS: Record<Projection, string> = { perspective: 'Perspective', orthographic: 'Orthographic' };
+
+const chip = (selected: boolean) => `flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors ${selected
+    ? 'bg-blue-600 text-white'
+    : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+    }`;
+
+/** Projection, preset views and fitting the camera to the grid */
+export function CameraPanel({ projection, setProjection, autoFit, setAutoFit, onPreset, onFit }: CameraPanelProps) {
+    return (
+        <div>
+            <h2 className="text-white font-semibold mb-2">Camera</h2>
+            <div className="flex gap-2 mb-3">
+                {(Object.keys(PROJECTION_LABELS) as Projection[]).map(p => (
+                    <button key={p} onClick={() => setProjection(p)} className={chip(projection === p)}>
+                        {PROJECTION_LABELS[p]}
+                    </button>
+                ))}
+            </div>
+            <div className="flex gap-1 mb-3">
+                {(Object.keys(CAMERA_PRESET_LABELS) as CameraPreset[]).map(preset => (
+                    <button key={preset} onClick={() => onPreset(preset)} className={chip(false)}>
+                        {CAMERA_PRESET_LABELS[preset]}
+                    </button>
+                ))}
+                <button onClick={onFit} className={chip(false)}>Fit</button>
+            </div>
+            <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input type="checkbox" checked={autoFit} onChange={e => setAutoFit(e.target.checked)} />
+                Fit automatically when the layout changes
+            </label>
+            <p className="text-zinc-500 text-xs mt-1.5">Click an arrow of the axis triad to look along it.</p>
+        </div>
+    );
+}
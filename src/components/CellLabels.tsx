@@ -0,0 +1,129 @@
+import { useEffect, useMemo } from 'react';
+import {
+    CanvasTexture, InstancedBufferAttribute, InstancedBufferGeometry, LinearFilter, PlaneGeometry, ShaderMaterial,
+} from 'three';
+import { useFrame } from '@react-three/fiber';
+import { instanceAt, type PackedLayout } from '../lib/layout';
+import { cellLabelText, labelGlyphs, labelGlyphSize, LABEL_CHARSET, type CellLabelSettings } from '../lib/cellLabels';
+
+interface CellLabelsProps {
+    layout: PackedLayout;
+    settings: CellLabelSettings;
+    cellSize: number; // rendered cube edge length
+}
+
+// Atlas: one row of monospace glyphs, white with a dark outline so they read on any cube color
+const GLYPH_W = 40;
+const GLYPH_H = 64;
+const GLYPH_ASPECT = GLYPH_W / GLYPH_H;
+
+let atlas: CanvasTexture | null = null;
+function glyphAtlas(): CanvasTexture {
+    if (atlas) return atlas;
+    const canvas = document.createElement('canvas');
+    canvas.width = GLYPH_W * LABEL_CHARSET.length;
+    canvas.height = GLYPH_H;
+    const ctx = canvas.getContext('2d')!;
+    ctx.font = `bold ${GLYPH_H * 0.8}px ui-monospace, Menlo, Consolas, monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = 8;
+    ctx.strokeStyle = '#000000';
+    ctx.fillStyle = '#ffffff';
+    [...LABEL_CHARSET].forEach((ch, i) => {
+        const x = (i + 0.5) * GLYPH_W;
+        ctx.strokeText(ch, x, GLYPH_H / 2);
+        ctx.fillText(ch, x, GLYPH_H / 2);
+    });
+    atlas = new CanvasTexture(canvas);
+    atlas.minFilter = LinearFilter;
+    atlas.generateMipmaps = false;
+    return atlas;
+}
+
+// Each glyph is a quad billboarded at its cell's center and lifted towards the camera past the
+// cube's front, so the cube itself never hides its label but nearer cubes still do.
+// Labels of cells smaller than uMinPixels on screen collapse to nothing.
+const LABEL_VERTEX = `
+    attribute vec3 instanceCenter;
+    attribute vec3 instanceGlyph; // x offset in glyph widths, atlas column, glyph height
+    uniform float uColumns;
+    uniform float uAspect;
+    uniform float uCellSize;
+    uniform float uViewportHeight;
+    uniform float uMinPixels;
+    varying vec2 vUv;
+    void main() {
+        vec4 mv = modelViewMatrix * vec4(instanceCenter, 1.0);
+        vec4 a = projectionMatrix * mv;
+        vec4 b = projectionMatrix * (mv + vec4(0.0, uCellSize, 0.0, 0.0));
+        float pixels = abs(b.y / b.w - a.y / a.w) * 0.5 * uViewportHeight;
+
+        mv.z += uCellSize * 0.9;
+        mv.xy += vec2((instanceGlyph.x + position.x) * uAspect, position.y) * instanceGlyph.z;
+        gl_Position = pixels < uMinPixels ? vec4(2.0, 2.0, 2.0, 1.0) : projectionMatrix * mv;
+        vUv = vec2((instanceGlyph.y + position.x + 0.5) / uColumns, position.y + 0.5);
+    }
+`;
+
+const LABEL_FRAGMENT = `
+    uniform sampler2D uAtlas;
+    varying vec2 vUv;
+    void main() {
+        vec4 texel = texture2D(uAtlas, vUv);
+        if (texel.a < 0.5) discard;
+        gl_FragColor = vec4(texel.rgb, 1.0);
+    }
+`;
+
+/** Instanced atlas text: one quad per character for every labeled cell, drawn in a single call */
+export function CellLabels({ layout, settings, cellSize }: CellLabelsProps) {
+    const material = useMemo(() => new ShaderMaterial({
+        vertexShader: LABEL_VERTEX,
+        fragmentShader: LABEL_FRAGMENT,
+        uniforms: {
+            uAtlas: { value: glyphAtlas() },
+            uColumns: { value: LABEL_CHARSET.length },
+            uAspect: { value: GLYPH_ASPECT },
+            uCellSize: { value: cellSize },
+            uViewportHeight: { value: 1 },
+            uMinPixels: { value: settings.minPixels },
+        },
+    }), [cellSize, settings.minPixels]);
+
+    const geometry = useMemo(() => {
+        const texts = Array.from({ length: layout.count }, (_, i) => cellLabelText(instanceAt(layout, i), settings));
+        const count = texts.reduce((n, t) => n + t.length, 0);
+        const centers = new Float32Array(count * 3);
+        const glyphs = new Float32Array(count * 3);
+        let g = 0;
+        texts.forEach((text, i) => {
+            const { columns, offsets } = labelGlyphs(text);
+            const size = labelGlyphSize(text.length, cellSize, GLYPH_ASPECT);
+            for (let c = 0; c < columns.length; c++, g++) {
+                centers.set(layout.positions.subarray(i * 3, i * 3 + 3), g * 3);
+                glyphs[g * 3] = offsets[c];
+                glyphs[g * 3 + 1] = columns[c];
+                glyphs[g * 3 + 2] = size;
+            }
+        });
+
+        const plane = new PlaneGeometry(1, 1);
+        const geo = new InstancedBufferGeometry();
+        geo.index = plane.index;
+        geo.setAttribute('position', plane.getAttribute('position'));
+        geo.setAttribute('instanceCenter', new InstancedBufferAttribute(centers, 3));
+        geo.setAttribute('instanceGlyph', new InstancedBufferAttribute(glyphs, 3));
+        geo.instanceCount = count;
+        return geo;
+    }, [layout, settings, cellSize]);
+
+    useEffect(() => () => geometry.dispose(), [geometry]);
+    useEffect(() => () => material.dispose(), [material]);
+
+    useFrame(({ size }) => {
+        material.uniforms.uViewportHeight.value = size.height;
+    });
+
+    return <mesh geometry={geometry} material={material} frustumCulled={false} raycast={() => null} />;
+}
@@ -0,0 +1,85 @@
+import type { CellLabelContent, CellLabelSettings, NumberNotation } from '../lib/cellLabels';
+
+interface CellLabelsPanelProps {
+    settings: CellLabelSettings;
+    setSettings: (settings: CellLabelSettings) => void;
+    hasData: boolean;
+}
+
+const CONTENT_LABELS: Record<CellLabelContent, string> = { off: 'Off', value: 'Value', index: 'Index' };
+const NOTATION_LABELS: Record<NumberNotation, string> = { auto: 'Auto', fixed: 'Fixed', scientific: 'Scientific' };
+
+/** Text shown on each cell and how numbers are formatted */
+export function CellLabelsPanel({ settings, setSettings, hasData }: CellLabelsPanelProps) {
+    const update = (patch: Partial<CellLabelSettings>) => setSettings({ ...settings, ...patch });
+
+    return (
+        <div>
+            <h2 className="text-white font-semibold mb-2">Cell Labels</h2>
+            <div className="flex gap-2 mb-3">
+                {(Object.keys(CONTENT_LABELS) as CellLabelContent[]).map(content => (
+                    <button
+                        key={content}
+                        onClick={() => update({ content })}
+                        className={`flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors ${settings.content === content
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                            }`}
+                    >
+                        {CONTENT_LABELS[content]}
+                    </button>
+                ))}
+            </div>
+
+            {settings.content !== 'off' && (
+                <div className="flex flex-col gap-2 text-xs">
+                    {settings.content === 'value' && (
+                        <>
+                            {!hasData && <p className="text-amber-500">Load data to label cells with their values.</p>}
+                            <div className="flex items-center justify-between gap-2">
+                                <label className="text-zinc-400">Notation</label>
+                                <select
+                                    value={settings.notation}
+                                    onChange={e => update({ notation: e.target.value as NumberNotation })}
+                                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                                >
+                                    {(Object.keys(NOTATION_LABELS) as NumberNotation[]).map(notation => (
+                                        <option key={notation} value={notation}>{NOTATION_LABELS[notation]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="flex items-center justify-between gap-2">
+                                <label className="text-zinc-400">Precision</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={8}
+                                    value={settings.precision}
+                                    onChange={e => {
+                                        const precision = parseInt(e.target.value, 10);
+                                        if (Number.isFinite(precision)) update({ precision: Math.max(0, Math.min(8, precision)) });
+                                    }}
+                                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono w-16"
+                                />
+                            </div>
+                        </>
+                    )}
+                    <div className="flex flex-col gap-1">
+                        <div className="flex justify-between">
+                            <span className="text-zinc-400">Hide on cells smaller than</span>
+                            <span className="text-zinc-300">{settings.minPixels}px</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={0}
+                            max={80}
+                            step={2}
+                            value={settings.minPixels}
+                            onChange={e => update({ minPixels: parseInt(e.target.value, 10) })}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+import type { SelectionExpression, ValueSummary } from '../lib/cellSelection';
+import type { RegionTool } from './RegionSelectOverlay';
+
+interface CellSelectionPanelProps {
+    count: number;
+    shownCount: number; // selected cells present in the current layout
+    expression: SelectionExpression | null;
+    summary: ValueSummary | null;
+    regionTool: RegionTool | null;
+    setRegionTool: (tool: RegionTool | null) => void;
+    onClear: () => void;
+}
+
+const formatStat = (v: number) => (Number.isInteger(v) ? String(v) : v.toPrecision(5));
+
+/** Selected cells: region tools, the selection as a slice expression, and statistics of the selected values */
+export function CellSelectionPanel(props: CellSelectionPanelProps) {
+    const { expression, summary } = props;
+
+    const toolButton = (tool: RegionTool, label: string) => (
+        <button
+            onClick={() => props.setRegionTool(props.regionTool === tool ? null : tool)}
+            className={`flex-1 px-3 py-1 rounded text-xs font-medium transition-colors ${props.regionTool === tool
+                ? 'bg-blue-600 text-white'
+                : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                }`}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <h2 className="text-white font-semibold">Selected Cells</h2>
+                <button
+                    onClick={props.onClear}
+                    disabled={props.count === 0}
+                    className="px-3 py-1 rounded text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700 disabled:opacity-40"
+                >
+                    Clear
+                </button>
+            </div>
+            <div className="flex gap-2">
+                {toolButton('box', 'Box select')}
+                {toolButton('lasso', 'Lasso select')}
+            </div>
+            {props.count === 0 ? (
+                <p className="text-zinc-500 text-xs">Click a cell to select it; shift-click adds or removes cells.</p>
+            ) : (
+                <>
+                    <div className="text-zinc-400 text-xs">
+                        {props.count} selected{props.shownCount < props.count && ` (${props.shownCount} shown)`}
+                    </div>
+                    {expression && (
+                        <div className="font-mono text-xs text-zinc-200 break-all" title={expression.exact ? undefined : `Covers ${expression.gridSize} cells`}>
+                            {expression.expression}
+                            {!expression.exact && <span className="text-zinc-500 font-sans"> (bounding grid)</span>}
+                        </div>
+                    )}
+                    {summary && (
+                        <table className="font-mono text-xs">
+                            <tbody>
+                                {summary.count > 0 && ([
+                                    ['sum', summary.sum], ['mean', summary.mean], ['std', summary.std],
+                                    ['min', summary.min], ['max', summary.max],
+                                ] as const).map(([name, v]) => (
+                                    <tr key={name}>
+                                        <td className="text-zinc-500 pr-3">{name}</td>
+                                        <td className="text-emerald-400">{formatStat(v)}</td>
+                                    </tr>
+                                ))}
+                                {summary.missing > 0 && (
+                                    <tr>
+                                        <td className="text-zinc-500 pr-3">missing</td>
+                                        <td className="text-amber-500">{summary.missing}</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,34 @@
+import { colormapGradientCss, formatLegendTick, COLORMAP_LABELS, type ColormapName, type ValueRange } from '../lib/colormap';
+
+interface ColorLegendProps {
+    colormap: ColormapName;
+    range: ValueRange | null;
+    nanColor: string;
+    title?: string;
+}
+
+/** On-canvas color legend bar for value color mode (top-right overlay) */
+export function ColorLegend({ colormap, range, nanColor, title = 'Value' }: ColorLegendProps) {
+    return (
+        <div className="absolute top-4 right-4 z-20 w-56 bg-zinc-900/70 backdrop-blur border border-zinc-700/50 rounded-xl px-3 py-2 text-xs text-zinc-300 shadow-xl pointer-events-none">
+            <div className="flex justify-between mb-1">
+                <span className="font-semibold text-zinc-200">{title}</span>
+                <span className="text-zinc-500">{COLORMAP_LABELS[colormap]}</span>
+            </div>
+            <div className="h-3 rounded-sm border border-zinc-700" style={{ background: colormapGradientCss(colormap) }} />
+            {range ? (
+                <div className="flex justify-between mt-1 font-mono text-[10px] text-zinc-400">
+                    <span>{formatLegendTick(range.min)}</span>
+                    <span>{formatLegendTick((range.min + range.max) / 2)}</span>
+                    <span>{formatLegendTick(range.max)}</span>
+                </div>
+            ) : (
+                <div className="mt-1 text-[10px] text-zinc-500 italic">No numeric data loaded</div>
+            )}
+            <div className="flex items-center gap-1.5 mt-1.5 text-[10px] text-zinc-400">
+                <span className="inline-block w-2.5 h-2.5 rounded-sm border border-zinc-700" style={{ background: nanColor }} />
+                NaN / missing
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,165 @@
+import type { CompareMode, CompareSummary, DiffMetric, ErrorLocation, Tolerance } from '../lib/compare';
+import type { NamedTensor } from '../lib/npy';
+
+interface ComparePanelProps {
+    candidateStr: string;
+    setCandidateStr: (s: string) => void;
+    candidateFile: { fileName: string; arrays: NamedTensor[] } | null;
+    selectedArray: number;
+    setSelectedArray: (index: number) => void;
+    onLoadFile: (file: File) => void;
+    onClearFile: () => void;
+    mode: CompareMode;
+    setMode: (mode: CompareMode) => void;
+    metric: DiffMetric;
+    setMetric: (metric: DiffMetric) => void;
+    tolerance: Tolerance;
+    setTolerance: (tolerance: Tolerance) => void;
+    summary: CompareSummary | null;
+    error: string | null;
+    dimLabels: string[];
+    hasData: boolean;
+    active: boolean;
+    setActive: (active: boolean) => void;
+}
+
+const MODE_LABELS: Record<CompareMode, string> = { 'side-by-side': 'Side by side', diff: 'Difference' };
+const METRIC_LABELS: Record<DiffMetric, string> = { absolute: '|Δ|', relative: '|Δ| / |ref|' };
+
+const chip = (selected: boolean) => `flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${selected
+    ? 'bg-blue-600 text-white'
+    : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+    }`;
+
+const formatError = (v: number) => (Number.isFinite(v) ? v.toPrecision(4) : String(v));
+
+/** Reference (the loaded data) against a candidate tensor: grids, tolerance and the largest errors */
+export function ComparePanel(props: ComparePanelProps) {
+    const { tolerance, summary } = props;
+    const setTolerance = (patch: Partial<Tolerance>) => props.setTolerance({ ...tolerance, ...patch });
+
+    const location = (title: string, at: ErrorLocation | null) => at && (
+        <div className="flex justify-between gap-2">
+            <span className="text-zinc-500">{title}</span>
+            <span className="font-mono text-zinc-200 text-right">
+                {formatError(at.error)}
+                <span className="text-zinc-500"> at [{at.indexPath.map((idx, d) => `${props.dimLabels[d]}=${idx}`).join(', ')}]</span>
+            </span>
+        </div>
+    );
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <h2 className="text-white font-semibold">Compare</h2>
+                <button
+                    onClick={() => props.setActive(!props.active)}
+                    disabled={!props.active && (!summary || !props.hasData)}
+                    className={`px-3 py-1 rounded text-xs font-medium transition-colors disabled:opacity-40 ${props.active
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                        }`}
+                >
+                    {props.active ? 'Hide' : 'Show'}
+                </button>
+            </div>
+            <span className="text-zinc-500 text-xs">The loaded data is the reference; add a candidate of the same shape.</span>
+            <textarea
+                value={props.candidateStr}
+                onChange={e => props.setCandidateStr(e.target.value)}
+                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white h-14 resize-none font-mono text-xs"
+                placeholder="Candidate JSON, e.g. [[1, 2], [3, 4]]"
+            />
+            <label className="bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded py-1.5 text-center cursor-pointer transition-colors">
+                Load candidate file…
+                <input
+                    type="file"
+                    accept=".npy,.npz"
+                    className="hidden"
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) props.onLoadFile(file);
+                        e.target.value = '';
+                    }}
+                />
+            </label>
+            {props.candidateFile && (
+                <div className="flex flex-col gap-2 bg-zinc-800/60 border border-zinc-700 rounded px-2 py-1.5 text-xs">
+                    <div className="flex justify-between items-center gap-2">
+                        <span className="text-zinc-200 font-mono truncate">{props.candidateFile.fileName}</span>
+                        <button onClick={props.onClearFile} className="text-zinc-500 hover:text-white">Clear</button>
+                    </div>
+                    {props.candidateFile.arrays.length > 1 && (
+                        <select
+                            value={props.selectedArray}
+                            onChange={e => props.setSelectedArray(parseInt(e.target.value, 10))}
+                            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono"
+                        >
+                            {props.candidateFile.arrays.map(({ name }, i) => (
+                                <option key={name} value={i}>{name}</option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                {(Object.keys(MODE_LABELS) as CompareMode[]).map(mode => (
+                    <button key={mode} onClick={() => props.setMode(mode)} className={chip(props.mode === mode)}>
+                        {MODE_LABELS[mode]}
+                    </button>
+                ))}
+            </div>
+            {props.mode === 'diff' && (
+                <div className="flex gap-2">
+                    {(Object.keys(METRIC_LABELS) as DiffMetric[]).map(metric => (
+                        <button key={metric} onClick={() => props.setMetric(metric)} className={`${chip(props.metric === metric)} font-mono`}>
+                            {METRIC_LABELS[metric]}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex gap-2 text-xs">
+                <label className="flex flex-1 items-center gap-1.5 text-zinc-400">
+                    atol
+                    <input
+                        type="number" min={0} step="any"
+                        value={tolerance.atol}
+                        onChange={e => setTolerance({ atol: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono"
+                    />
+                </label>
+                <label className="flex flex-1 items-center gap-1.5 text-zinc-400">
+                    rtol
+                    <input
+                        type="number" min={0} step="any"
+                        value={tolerance.rtol}
+                        onChange={e => setTolerance({ rtol: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono"
+                    />
+                </label>
+            </div>
+            {props.mode === 'diff' && (
+                <span className="text-zinc-600 text-xs">Cells within |Δ| ≤ atol + rtol·|ref| are drawn small and faded.</span>
+            )}
+
+            {summary && (
+                <div className="flex flex-col gap-1 bg-zinc-800/60 border border-zinc-700 rounded px-2 py-1.5 text-xs">
+                    <div className={summary.exceeding > 0 ? 'text-red-400' : 'text-emerald-400'}>
+                        {summary.exceeding === 0
+                            ? `All ${summary.count.toLocaleString()} elements within tolerance`
+                            : `${summary.exceeding.toLocaleString()} of ${summary.count.toLocaleString()} elements outside tolerance`}
+                    </div>
+                    {location('Max abs error', summary.maxAbs)}
+                    {location('Max rel error', summary.maxRel)}
+                    <div className="flex justify-between gap-2">
+                        <span className="text-zinc-500">Mean abs error</span>
+                        <span className="font-mono text-zinc-200">{formatError(summary.meanAbs)}</span>
+                    </div>
+                </div>
+            )}
+            {props.error && <span className="text-red-400 text-xs">{props.error}</span>}
+            {!props.hasData && <span className="text-amber-500 text-xs">Load data to use as the reference.</span>}
+        </div>
+    );
+}
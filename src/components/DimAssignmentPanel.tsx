@@ -0,0 +1,123 @@
+import { useState, type DragEvent } from 'react';
+import { assignSpatial, assignTile, moveTile, setTileAxis, AXES, type DimAssignment } from '../lib/dimAssignment';
+import type { Axis } from '../lib/layout';
+
+interface DimAssignmentPanelProps {
+    assignment: DimAssignment;
+    shape: number[];
+    getLabel: (dim: number) => string;
+    onChange: (assignment: DimAssignment) => void;
+}
+
+// Axis colors matching the coordinate triad (AxisTriad.tsx)
+const AXIS_COLORS: Record<Axis, string> = { x: '#ef4444', y: '#22c55e', z: '#3b82f6' };
+
+const DIM_MIME = 'application/x-tensor-dim';
+
+/** Drag-and-drop editor mapping each dimension to a spatial axis or an ordered tiling axis */
+export function DimAssignmentPanel({ assignment, shape, getLabel, onChange }: DimAssignmentPanelProps) {
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+    const dropProps = (target: string, onDropDim: (dim: number) => void) => ({
+        onDragOver: (e: DragEvent) => {
+            if (!e.dataTransfer.types.includes(DIM_MIME)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropTarget(target);
+        },
+        onDragLeave: () => setDropTarget(t => (t === target ? null : t)),
+        onDrop: (e: DragEvent) => {
+            const dim = parseInt(e.dataTransfer.getData(DIM_MIME), 10);
+            if (Number.isNaN(dim)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropTarget(null);
+            onDropDim(dim);
+        },
+    });
+
+    const chip = (dim: number) => (
+        <span
+            draggable
+            onDragStart={e => {
+                e.dataTransfer.setData(DIM_MIME, String(dim));
+                e.dataTransfer.effectAllowed = 'move';
+            }}
+            className="inline-flex items-center gap-1 bg-zinc-700 hover:bg-zinc-600 border border-zinc-600 rounded px-1.5 py-0.5 text-white cursor-grab font-mono"
+            title="Drag onto an axis"
+        >
+            {getLabel(dim)}
+            <span className="text-zinc-400">{shape[dim]}</span>
+        </span>
+    );
+
+    const zoneClass = (target: string) =>
+        `rounded border border-dashed px-2 py-1.5 transition-colors ${dropTarget === target ? 'border-blue-500 bg-blue-500/10' : 'border-zinc-700'}`;
+
+    return (
+        <div className="flex flex-col gap-2 text-xs">
+            <div className="grid grid-cols-3 gap-2">
+                {AXES.map((axis, axisIndex) => {
+                    const dim = assignment.spatial[axisIndex];
+                    const target = `spatial-${axis}`;
+                    return (
+                        <div key={axis} className={`${zoneClass(target)} flex flex-col items-center gap-1 min-h-14`}
+                            {...dropProps(target, d => onChange(assignSpatial(assignment, d, axisIndex)))}>
+                            <span className="font-bold" style={{ color: AXIS_COLORS[axis] }}>{axis.toUpperCase()}</span>
+                            {dim !== null ? chip(dim) : <span className="text-zinc-600 italic">empty</span>}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="text-zinc-400">Tiles <span className="text-zinc-600">(innermost first)</span></div>
+            {assignment.tiles.length > 0 ? (
+                <ol className="flex flex-col gap-1">
+                    {assignment.tiles.map((tile, i) => (
+                        <li key={tile.dim} className={`${zoneClass(`tile-${i}`)} flex items-center gap-2`}
+                            {...dropProps(`tile-${i}`, d => onChange(assignTile(assignment, d, tile.axis, i)))}>
+                            <span className="text-zinc-600 w-3">{i + 1}</span>
+                            {chip(tile.dim)}
+                            <span className="text-zinc-500">along</span>
+                            <select
+                                value={tile.axis}
+                                onChange={e => onChange(setTileAxis(assignment, i, e.target.value as Axis))}
+                                className="bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5"
+                                style={{ color: AXIS_COLORS[tile.axis] }}
+                            >
+                                {AXES.map(a => <option key={a} value={a}>{a.toUpperCase()}</option>)}
+                            </select>
+                            <span className="ml-auto flex gap-1">
+                                <button
+                                    onClick={() => onChange(moveTile(assignment, i, i - 1))}
+                                    disabled={i === 0}
+                                    className="text-zinc-400 hover:text-white disabled:text-zinc-700"
+                                    title="Nest further inside"
+                                >↑</button>
+                                <button
+                                    onClick={() => onChange(moveTile(assignment, i, i + 1))}
+                                    disabled={i === assignment.tiles.length - 1}
+                                    className="text-zinc-400 hover:text-white disabled:text-zinc-700"
+                                    title="Nest further outside"
+                                >↓</button>
+                            </span>
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                <div className="text-zinc-600 italic">No tiled dimensions</div>
+            )}
+
+            <div className="flex gap-2 items-center">
+                <span className="text-zinc-500">Tile along</span>
+                {AXES.map(axis => (
+                    <div key={axis} className={`${zoneClass(`new-${axis}`)} flex-1 text-center font-bold`}
+                        style={{ color: AXIS_COLORS[axis] }}
+                        {...dropProps(`new-${axis}`, d => onChange(assignTile(assignment, d, axis)))}>
+                        {axis.toUpperCase()}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,89 @@
+import type { EinsumSpec } from '../lib/einsum';
+
+interface EinsumPanelProps {
+    expr: string;
+    setExpr: (expr: string) => void;
+    shapesStr: string;
+    setShapesStr: (s: string) => void;
+    spec: EinsumSpec | null;
+    sizes: Record<string, number> | null;
+    colors: Record<string, string>;
+    formula: string | null;
+    error: string | null;
+    active: boolean;
+    setActive: (active: boolean) => void;
+}
+
+const PRESETS: { label: string; expr: string; shapes: string }[] = [
+    { label: 'matmul', expr: 'ij,jk->ik', shapes: '3, 4\n4, 5' },
+    { label: 'batched', expr: 'bij,bjk->bik', shapes: '2, 3, 4\n2, 4, 3' },
+    { label: 'attention', expr: 'bhqd,bhkd->bhqk', shapes: '1, 2, 4, 3\n1, 2, 5, 3' },
+    { label: 'outer', expr: 'i,j->ij', shapes: '4\n3' },
+];
+
+/** Einsum expression and operand shapes, with a legend of index letters */
+export function EinsumPanel(props: EinsumPanelProps) {
+    const { spec, sizes, colors } = props;
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-white font-semibold">Einsum</h2>
+                <button
+                    onClick={() => props.setActive(!props.active)}
+                    disabled={!props.active && !!props.error}
+                    className={`px-3 py-1 rounded text-xs font-medium transition-colors disabled:opacity-40 ${props.active
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                        }`}
+                >
+                    {props.active ? 'Hide' : 'Show'}
+                </button>
+            </div>
+            <div className="flex gap-1 flex-wrap mb-1">
+                {PRESETS.map(p => (
+                    <button
+                        key={p.label}
+                        onClick={() => { props.setExpr(p.expr); props.setShapesStr(p.shapes); }}
+                        className="px-2 py-0.5 rounded text-xs bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700"
+                    >
+                        {p.label}
+                    </button>
+                ))}
+            </div>
+            <input
+                value={props.expr}
+                onChange={e => props.setExpr(e.target.value)}
+                className={`bg-zinc-800 border rounded px-2 py-1 text-white font-mono ${props.error && props.expr ? 'border-red-500' : 'border-zinc-700'}`}
+                placeholder="e.g. bhqd,bhkd->bhqk"
+            />
+            <textarea
+                value={props.shapesStr}
+                onChange={e => props.setShapesStr(e.target.value)}
+                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono text-xs h-14 resize-y"
+                placeholder={'One shape per operand, e.g.\n2, 4, 8, 16\n2, 4, 6, 16'}
+            />
+            {props.error && (props.expr || props.shapesStr) && <div className="text-red-400 text-xs">{props.error}</div>}
+            {spec && sizes && !props.error && (
+                <>
+                    <div className="flex gap-1 flex-wrap mt-1 font-mono text-xs">
+                        {spec.letters.map(ch => (
+                            <span
+                                key={ch}
+                                className="px-1.5 py-0.5 rounded border border-zinc-700 bg-zinc-800"
+                                title={spec.contracted.includes(ch) ? 'Summed over' : 'Kept in the output'}
+                            >
+                                <span style={{ color: colors[ch] }} className={spec.contracted.includes(ch) ? 'underline decoration-2 underline-offset-2' : undefined}>{ch}</span>
+                                <span className="text-zinc-500">={sizes[ch]}</span>
+                            </span>
+                        ))}
+                    </div>
+                    {spec.contracted.length > 0 && (
+                        <div className="text-zinc-400 text-xs">Summed over (underlined): {spec.contracted.join(', ')}</div>
+                    )}
+                    <div className="text-zinc-500 text-xs font-mono break-all">{props.formula}</div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,110 @@
+import { COLORMAP_LABELS, type ColormapName } from '../lib/colormap';
+import { STRIDE_PRESET_LABELS, type LayoutProperties, type MemoryLayoutSettings, type StridePreset } from '../lib/memoryLayout';
+import { DTYPE_SIZES, type DType } from '../lib/tensor';
+
+interface MemoryLayoutPanelProps {
+    settings: MemoryLayoutSettings;
+    setSettings: (settings: MemoryLayoutSettings) => void;
+    strides: number[] | null;
+    properties: LayoutProperties | null;
+    range: { min: number; max: number } | null;
+    error: string | null;
+    colormap: ColormapName;
+    setColormap: (colormap: ColormapName) => void;
+    hasData: boolean;
+}
+
+/** Settings for the memory color mode: stride preset or custom strides, storage offset and dtype */
+export function MemoryLayoutPanel(props: MemoryLayoutPanelProps) {
+    const { settings, properties, range } = props;
+    const update = (patch: Partial<MemoryLayoutSettings>) => props.setSettings({ ...settings, ...patch });
+
+    // The custom field starts from the current strides so they can be edited rather than retyped
+    const handleSetPreset = (preset: StridePreset) => {
+        update(preset === 'custom' && !settings.customStrides && props.strides
+            ? { preset, customStrides: props.strides.join(', ') }
+            : { preset });
+    };
+
+    const flags = properties ? [
+        properties.cContiguous && 'C-contiguous',
+        properties.fContiguous && 'F-contiguous',
+        !properties.cContiguous && !properties.fContiguous && 'Non-contiguous',
+        properties.overlapping && 'overlapping',
+        properties.gaps && 'with gaps',
+    ].filter(Boolean).join(', ') : null;
+
+    return (
+        <div className="flex flex-col gap-2 text-xs">
+            <div className="flex items-center justify-between gap-2">
+                <label className="text-zinc-400">Strides</label>
+                <select
+                    value={settings.preset}
+                    onChange={e => handleSetPreset(e.target.value as StridePreset)}
+                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                >
+                    {(Object.keys(STRIDE_PRESET_LABELS) as StridePreset[])
+                        .filter(preset => preset !== 'data' || props.hasData)
+                        .map(preset => (
+                            <option key={preset} value={preset}>{STRIDE_PRESET_LABELS[preset]}</option>
+                        ))}
+                </select>
+            </div>
+            {settings.preset === 'custom' && (
+                <input
+                    value={settings.customStrides}
+                    onChange={e => update({ customStrides: e.target.value })}
+                    className={`bg-zinc-800 border rounded px-2 py-1 text-white font-mono ${props.error ? 'border-red-500' : 'border-zinc-700'}`}
+                    placeholder="Strides in elements, e.g. 60, 1, 15, 3"
+                />
+            )}
+            {props.error && <div className="text-red-400">{props.error}</div>}
+            <div className="flex items-center justify-between gap-2">
+                <label className="text-zinc-400">Storage offset</label>
+                <input
+                    type="number"
+                    min={0}
+                    value={settings.offset}
+                    disabled={settings.preset === 'data'}
+                    onChange={e => update({ offset: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono w-20 disabled:opacity-40"
+                />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+                <label className="text-zinc-400">Element type</label>
+                <select
+                    value={settings.dtype}
+                    onChange={e => update({ dtype: e.target.value as DType })}
+                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                >
+                    {(Object.keys(DTYPE_SIZES) as DType[]).map(dtype => (
+                        <option key={dtype} value={dtype}>{dtype} ({DTYPE_SIZES[dtype]} B)</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+                <label className="text-zinc-400">Colormap</label>
+                <select
+                    value={props.colormap}
+                    onChange={e => props.setColormap(e.target.value as ColormapName)}
+                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                >
+                    {(Object.keys(COLORMAP_LABELS) as ColormapName[]).map(name => (
+                        <option key={name} value={name}>{COLORMAP_LABELS[name]}</option>
+                    ))}
+                </select>
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer text-zinc-400">
+                <input type="checkbox" checked={settings.showPath} onChange={e => update({ showPath: e.target.checked })} />
+                Draw path in memory order
+            </label>
+            {props.strides && range && (
+                <div className="text-zinc-500 font-mono">
+                    <div>strides ({props.strides.join(', ')})</div>
+                    <div>offsets {range.min}…{range.max}</div>
+                    <div className="font-sans">{flags}</div>
+                </div>
+            )}
+        </div>
+    );
+}
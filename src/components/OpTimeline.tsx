@@ -0,0 +1,65 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import type { Store } from '../lib/store';
+
+interface OpTimelineProps {
+    label: string; // e.g. "[2, 3, 4] → permute(2, 0, 1) → [4, 2, 3]"
+    progress: Store<number>;
+    onClose: () => void;
+}
+
+const DURATION_MS = 1500;
+
+/** Scrubbable play/pause timeline for the op preview, shown over the bottom of the canvas */
+export function OpTimeline({ label, progress, onClose }: OpTimelineProps) {
+    const t = useSyncExternalStore(progress.subscribe, progress.getSnapshot);
+    const [playing, setPlaying] = useState(false);
+
+    // Advance the store from its current value; stops at the end
+    useEffect(() => {
+        if (!playing) return;
+        let frame = 0;
+        let last = performance.now();
+        const tick = (now: number) => {
+            const next = Math.min(1, progress.getSnapshot() + (now - last) / DURATION_MS);
+            last = now;
+            progress.set(next);
+            if (next < 1) frame = requestAnimationFrame(tick);
+            else setPlaying(false);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [playing, progress]);
+
+    const togglePlay = () => {
+        if (!playing && progress.getSnapshot() >= 1) progress.set(0);
+        setPlaying(p => !p);
+    };
+
+    const buttonClass = 'px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:text-white hover:bg-zinc-700';
+
+    return (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 w-[min(36rem,90%)] bg-zinc-900/90 backdrop-blur border border-zinc-700 rounded-xl px-4 py-3 text-xs text-zinc-300 shadow-xl">
+            <div className="flex items-center justify-between mb-2">
+                <span className="font-mono text-zinc-200 truncate">{label}</span>
+                <button onClick={onClose} className="text-zinc-500 hover:text-white ml-2" title="Close preview">✕</button>
+            </div>
+            <div className="flex items-center gap-2">
+                <button onClick={() => { setPlaying(false); progress.set(0); }} className={buttonClass} title="Source layout">⏮</button>
+                <button onClick={togglePlay} className={`${buttonClass} w-16`}>{playing ? 'Pause' : 'Play'}</button>
+                <button onClick={() => { setPlaying(false); progress.set(1); }} className={buttonClass} title="Result layout">⏭</button>
+                <input
+                    type="range"
+                    min={0}
+                    max={1000}
+                    value={Math.round(t * 1000)}
+                    onChange={e => {
+                        setPlaying(false);
+                        progress.set(parseInt(e.target.value, 10) / 1000);
+                    }}
+                    className="flex-1"
+                />
+                <span className="font-mono w-10 text-right text-zinc-400">{Math.round(t * 100)}%</span>
+            </div>
+        </div>
+    );
+}
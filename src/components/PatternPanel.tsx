@@ -0,0 +1,113 @@
+import { MAX_PATTERN_SIZE, type AttentionMask, type AttentionSpec, type ConvFields, type PatternKind } from '../lib/receptiveField';
+
+interface PatternPanelProps {
+    kind: PatternKind;
+    setKind: (kind: PatternKind) => void;
+    convFields: ConvFields;
+    setConvFields: (fields: ConvFields) => void;
+    attention: AttentionSpec;
+    setAttention: (spec: AttentionSpec) => void;
+    summary: string | null;
+    error: string | null;
+    active: boolean;
+    setActive: (active: boolean) => void;
+}
+
+const KIND_LABELS: Record<PatternKind, string> = { conv: 'Convolution', attention: 'Attention' };
+const MASK_LABELS: Record<AttentionMask, string> = { causal: 'Causal', 'sliding-window': 'Sliding window', 'block-sparse': 'Block-sparse' };
+const CONV_FIELDS: { key: keyof ConvFields; label: string; placeholder: string }[] = [
+    { key: 'input', label: 'Input size', placeholder: '8, 8' },
+    { key: 'kernel', label: 'Kernel', placeholder: '3' },
+    { key: 'stride', label: 'Stride', placeholder: '1' },
+    { key: 'padding', label: 'Padding', placeholder: '1' },
+    { key: 'dilation', label: 'Dilation', placeholder: '1' },
+];
+
+const chip = (selected: boolean) => `flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${selected
+    ? 'bg-blue-600 text-white'
+    : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+    }`;
+
+const clampSize = (value: string) => Math.min(MAX_PATTERN_SIZE, Math.max(1, Math.floor(Number(value)) || 1));
+
+/** Convolution or attention mask settings for the receptive field preview */
+export function PatternPanel(props: PatternPanelProps) {
+    const { convFields, attention } = props;
+    const setAttention = (patch: Partial<AttentionSpec>) => props.setAttention({ ...attention, ...patch });
+
+    const numberField = (label: string, value: number, onChange: (value: number) => void) => (
+        <label className="flex flex-1 items-center gap-1.5 text-zinc-400">
+            {label}
+            <input
+                type="number" min={1} max={MAX_PATTERN_SIZE}
+                value={value}
+                onChange={e => onChange(clampSize(e.target.value))}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono"
+            />
+        </label>
+    );
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <h2 className="text-white font-semibold">Receptive Field</h2>
+                <button
+                    onClick={() => props.setActive(!props.active)}
+                    disabled={!props.active && props.error !== null}
+                    className={`px-3 py-1 rounded text-xs font-medium transition-colors disabled:opacity-40 ${props.active
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                        }`}
+                >
+                    {props.active ? 'Hide' : 'Show'}
+                </button>
+            </div>
+            <div className="flex gap-2">
+                {(Object.keys(KIND_LABELS) as PatternKind[]).map(kind => (
+                    <button key={kind} onClick={() => props.setKind(kind)} className={chip(props.kind === kind)}>
+                        {KIND_LABELS[kind]}
+                    </button>
+                ))}
+            </div>
+
+            {props.kind === 'conv' ? (
+                <div className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-1 text-xs">
+                    {CONV_FIELDS.map(({ key, label, placeholder }) => (
+                        <label key={key} className="contents">
+                            <span className="text-zinc-400">{label}</span>
+                            <input
+                                value={convFields[key]}
+                                onChange={e => props.setConvFields({ ...convFields, [key]: e.target.value })}
+                                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono"
+                                placeholder={placeholder}
+                            />
+                        </label>
+                    ))}
+                </div>
+            ) : (
+                <>
+                    <div className="flex gap-1">
+                        {(Object.keys(MASK_LABELS) as AttentionMask[]).map(mask => (
+                            <button key={mask} onClick={() => setAttention({ mask })} className={chip(attention.mask === mask)}>
+                                {MASK_LABELS[mask]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-2 text-xs">
+                        {numberField('Length', attention.length, length => setAttention({ length }))}
+                        {attention.mask === 'sliding-window' && numberField('Window', attention.window, window => setAttention({ window }))}
+                        {attention.mask === 'block-sparse' && numberField('Block', attention.block, block => setAttention({ block }))}
+                    </div>
+                </>
+            )}
+
+            <span className="text-zinc-600 text-xs">
+                {props.kind === 'conv'
+                    ? 'Hover an output cell to see the input cells it reads; padding is drawn faded.'
+                    : 'Hover a query to see the keys it attends to; masked pairs are drawn faded.'}
+            </span>
+            {props.summary && <span className="text-zinc-400 text-xs font-mono">{props.summary}</span>}
+            {props.error && <span className="text-red-400 text-xs">{props.error}</span>}
+        </div>
+    );
+}
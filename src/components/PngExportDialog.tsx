@@ -0,0 +1,124 @@
+import { EXPORT_SCALES, type PngExportSettings } from '../lib/pngExport';
+
+interface PngExportDialogProps {
+    settings: PngExportSettings;
+    setSettings: (settings: PngExportSettings) => void;
+    size: { width: number; height: number } | null; // resolved output size
+    error: string | null;
+    hasLegend: boolean;
+    onExport: () => void;
+    onClose: () => void;
+}
+
+const chip = (selected: boolean) => `flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${selected
+    ? 'bg-blue-600 text-white'
+    : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+    }`;
+
+/** Size, background, theme and overlays of a PNG export; the scene previews the chosen theme while open */
+export function PngExportDialog({ settings, setSettings, size, error, hasLegend, onExport, onClose }: PngExportDialogProps) {
+    const update = (patch: Partial<PngExportSettings>) => setSettings({ ...settings, ...patch });
+    const pixels = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+    return (
+        <div className="absolute top-4 left-4 z-30 w-72 flex flex-col gap-3 bg-zinc-900/95 backdrop-blur border border-zinc-700 rounded-xl p-4 text-xs text-zinc-300 shadow-xl">
+            <h2 className="text-white font-semibold text-sm">Export PNG</h2>
+
+            <div className="flex flex-col gap-1.5">
+                <div className="flex gap-1">
+                    <button onClick={() => update({ sizeMode: 'scale' })} className={chip(settings.sizeMode === 'scale')}>Scale</button>
+                    <button onClick={() => update({ sizeMode: 'pixels' })} className={chip(settings.sizeMode === 'pixels')}>Pixel size</button>
+                </div>
+                {settings.sizeMode === 'scale' ? (
+                    <div className="flex gap-1">
+                        {EXPORT_SCALES.map(scale => (
+                            <button key={scale} onClick={() => update({ scale })} className={chip(settings.scale === scale)}>
+                                {scale}×
+                            </button>
+                        ))}
+                    </div>
+                ) : (
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            min={1}
+                            value={settings.width}
+                            onChange={e => update({ width: pixels(e.target.value) })}
+                            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono w-full"
+                            aria-label="Width in pixels"
+                        />
+                        <span className="text-zinc-500">×</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={settings.height}
+                            onChange={e => update({ height: pixels(e.target.value) })}
+                            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono w-full"
+                            aria-label="Height in pixels"
+                        />
+                    </div>
+                )}
+                {size && <span className="text-zinc-500 font-mono">{size.width} × {size.height} px</span>}
+                {error && <span className="text-red-400">{error}</span>}
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+                <span className="text-zinc-400">Theme</span>
+                <div className="flex gap-1">
+                    <button onClick={() => update({ theme: 'light' })} className={chip(settings.theme === 'light')}>Light</button>
+                    <button onClick={() => update({ theme: 'dark' })} className={chip(settings.theme === 'dark')}>Dark</button>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+                <span className="text-zinc-400">Background</span>
+                <div className="flex gap-1">
+                    <button onClick={() => update({ background: 'theme' })} className={chip(settings.background === 'theme')}>Theme</button>
+                    <button onClick={() => update({ background: 'transparent' })} className={chip(settings.background === 'transparent')}>Transparent</button>
+                    <button onClick={() => update({ background: 'custom' })} className={chip(settings.background === 'custom')}>Custom</button>
+                </div>
+                {settings.background === 'custom' && (
+                    <div className="flex items-center gap-3">
+                        <input
+                            type="color"
+                            value={settings.backgroundColor}
+                            onChange={e => update({ backgroundColor: e.target.value })}
+                            className="w-6 h-6 rounded border border-zinc-700 bg-zinc-800 cursor-pointer"
+                            style={{ padding: 0 }}
+                        />
+                        <span className="font-mono text-zinc-400">{settings.backgroundColor}</span>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-col gap-1">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={settings.includeTriad} onChange={e => update({ includeTriad: e.target.checked })} />
+                    Include axis triad
+                </label>
+                <label className={`flex items-center gap-2 ${hasLegend ? 'cursor-pointer' : 'text-zinc-600'}`}>
+                    <input
+                        type="checkbox"
+                        checked={settings.includeLegend && hasLegend}
+                        disabled={!hasLegend}
+                        onChange={e => update({ includeLegend: e.target.checked })}
+                    />
+                    Include color legend
+                </label>
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={onExport}
+                    disabled={!size}
+                    className="flex-1 bg-blue-600 hover:bg-blue-500 text-white py-1.5 rounded transition-colors disabled:opacity-40"
+                >
+                    Export
+                </button>
+                <button onClick={onClose} className="flex-1 bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors">
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,159 @@
+import { useSyncExternalStore } from 'react';
+import type { Store } from '../lib/store';
+import {
+    MAX_RECORDING_DURATION, RECORDING_FPS, RECORDING_HEIGHTS, type RecordingFormat, type RecordingKind, type RecordingSettings,
+} from '../lib/recording';
+
+interface RecordingDialogProps {
+    settings: RecordingSettings;
+    setSettings: (settings: RecordingSettings) => void;
+    size: { width: number; height: number };
+    frames: number;
+    sweepDims: { dim: number; label: string; count: number }[]; // sliced dims and how many slices each shows
+    sweepDim: number | null;
+    webmSupported: boolean;
+    recording: boolean;
+    progress: Store<number>; // fraction of frames recorded
+    error: string | null;
+    onRecord: () => void;
+    onCancel: () => void; // stops a running recording
+    onClose: () => void;
+}
+
+const chip = (selected: boolean) => `flex-1 px-2 py-1 rounded text-xs font-medium transition-colors disabled:opacity-40 ${selected
+    ? 'bg-blue-600 text-white'
+    : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+    }`;
+
+const KIND_LABELS: Record<RecordingKind, string> = { orbit: 'Orbit', sweep: 'Slice sweep' };
+const FORMAT_LABELS: Record<RecordingFormat, string> = { webm: 'WebM', gif: 'GIF' };
+
+/** Animation, format, duration, frame rate and resolution of a recording, with progress while it runs */
+export function RecordingDialog(props: RecordingDialogProps) {
+    const { settings, setSettings, recording } = props;
+    const update = (patch: Partial<RecordingSettings>) => setSettings({ ...settings, ...patch });
+    const progress = useSyncExternalStore(props.progress.subscribe, props.progress.getSnapshot);
+    const canSweep = props.sweepDims.length > 0;
+
+    return (
+        <div className="absolute top-4 left-4 z-30 w-72 flex flex-col gap-3 bg-zinc-900/95 backdrop-blur border border-zinc-700 rounded-xl p-4 text-xs text-zinc-300 shadow-xl">
+            <h2 className="text-white font-semibold text-sm">Record Animation</h2>
+
+            <fieldset disabled={recording} className="flex flex-col gap-3">
+                <div className="flex flex-col gap-1.5">
+                    <div className="flex gap-1">
+                        {(Object.keys(KIND_LABELS) as RecordingKind[]).map(kind => (
+                            <button
+                                key={kind}
+                                onClick={() => update({ kind })}
+                                disabled={kind === 'sweep' && !canSweep}
+                                className={chip(settings.kind === kind)}
+                            >
+                                {KIND_LABELS[kind]}
+                            </button>
+                        ))}
+                    </div>
+                    {settings.kind === 'orbit' && <span className="text-zinc-500">One full turn around the grid.</span>}
+                    {settings.kind === 'sweep' && canSweep && (
+                        <div className="flex items-center justify-between gap-2">
+                            <label className="text-zinc-400">Dimension</label>
+                            <select
+                                value={props.sweepDim ?? ''}
+                                onChange={e => update({ sweepDim: parseInt(e.target.value, 10) })}
+                                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                            >
+                                {props.sweepDims.map(({ dim, label, count }) => (
+                                    <option key={dim} value={dim}>{label} ({count} slices)</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    {!canSweep && <span className="text-zinc-600">Slice sweeps need Slicing mode with an outer dimension.</span>}
+                </div>
+
+                <div className="flex gap-1">
+                    {(Object.keys(FORMAT_LABELS) as RecordingFormat[]).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => update({ format })}
+                            disabled={format === 'webm' && !props.webmSupported}
+                            className={chip(settings.format === format)}
+                        >
+                            {FORMAT_LABELS[format]}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                    <label className="text-zinc-400">Duration (s)</label>
+                    <input
+                        type="number"
+                        min={0.5}
+                        max={MAX_RECORDING_DURATION}
+                        step={0.5}
+                        value={settings.duration}
+                        onChange={e => {
+                            const duration = parseFloat(e.target.value);
+                            if (Number.isFinite(duration)) update({ duration: Math.max(0.5, Math.min(MAX_RECORDING_DURATION, duration)) });
+                        }}
+                        className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono w-20"
+                    />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                    <label className="text-zinc-400">Frame rate</label>
+                    <select
+                        value={settings.fps}
+                        onChange={e => update({ fps: parseInt(e.target.value, 10) })}
+                        className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                    >
+                        {RECORDING_FPS.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                    </select>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                    <label className="text-zinc-400">Resolution</label>
+                    <select
+                        value={settings.height ?? ''}
+                        onChange={e => update({ height: e.target.value ? parseInt(e.target.value, 10) : null })}
+                        className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                    >
+                        <option value="">Canvas size</option>
+                        {RECORDING_HEIGHTS.map(h => <option key={h} value={h}>{h}p</option>)}
+                    </select>
+                </div>
+                <span className="text-zinc-500 font-mono">
+                    {props.size.width} × {props.size.height} px, {props.frames} frames
+                </span>
+                {settings.format === 'gif' && settings.fps > 50 && (
+                    <span className="text-amber-500">GIF frame delays are rounded to 1/100 s; 60 fps plays at 50 fps.</span>
+                )}
+            </fieldset>
+
+            {recording && (
+                <div className="flex flex-col gap-1">
+                    <div className="h-2 rounded bg-zinc-800 overflow-hidden">
+                        <div className="h-full bg-blue-600" style={{ width: `${Math.round(progress * 100)}%` }} />
+                    </div>
+                    <span className="text-zinc-500">Recording… {Math.round(progress * 100)}%</span>
+                </div>
+            )}
+            {props.error && <span className="text-red-400">{props.error}</span>}
+
+            <div className="flex gap-2">
+                {recording ? (
+                    <button onClick={props.onCancel} className="flex-1 bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors">
+                        Cancel
+                    </button>
+                ) : (
+                    <>
+                        <button onClick={props.onRecord} className="flex-1 bg-blue-600 hover:bg-blue-500 text-white py-1.5 rounded transition-colors">
+                            Record
+                        </button>
+                        <button onClick={props.onClose} className="flex-1 bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors">
+                            Close
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
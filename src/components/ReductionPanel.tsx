@@ -0,0 +1,67 @@
+import { REDUCE_OPS, type ReductionSpec } from '../lib/reduction';
+
+interface ReductionPanelProps {
+    spec: ReductionSpec;
+    setSpec: (spec: ReductionSpec) => void;
+    dimLabels: string[];
+    call: string; // e.g. x.sum(dim=1)
+    resultShape: number[];
+    hasData: boolean;
+    active: boolean;
+    setActive: (active: boolean) => void;
+}
+
+/** Reduce op, dims and keepdim for the reduction preview */
+export function ReductionPanel({ spec, setSpec, dimLabels, call, resultShape, hasData, active, setActive }: ReductionPanelProps) {
+    const toggleDim = (dim: number) => setSpec({
+        ...spec,
+        dims: spec.dims.includes(dim) ? spec.dims.filter(d => d !== dim) : [...spec.dims, dim].sort((a, b) => a - b),
+    });
+
+    const chip = (selected: boolean) => `px-2 py-0.5 rounded text-xs font-mono transition-colors ${selected
+        ? 'bg-blue-600 text-white'
+        : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+        }`;
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-white font-semibold">Reduction</h2>
+                <button
+                    onClick={() => setActive(!active)}
+                    disabled={!active && dimLabels.length === 0}
+                    className={`px-3 py-1 rounded text-xs font-medium transition-colors disabled:opacity-40 ${active
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                        }`}
+                >
+                    {active ? 'Hide' : 'Show'}
+                </button>
+            </div>
+            <div className="flex gap-1 flex-wrap">
+                {REDUCE_OPS.map(op => (
+                    <button key={op} onClick={() => setSpec({ ...spec, op })} className={chip(spec.op === op)}>
+                        {op}
+                    </button>
+                ))}
+            </div>
+            <div className="flex items-center gap-1 flex-wrap mt-1">
+                <span className="text-zinc-400 text-xs mr-1">dim</span>
+                {dimLabels.map((label, dim) => (
+                    <button key={dim} onClick={() => toggleDim(dim)} className={chip(spec.dims.includes(dim))}>
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer text-zinc-400 text-xs mt-1">
+                <input type="checkbox" checked={spec.keepdim} onChange={e => setSpec({ ...spec, keepdim: e.target.checked })} />
+                keepdim
+            </label>
+            <div className="text-zinc-500 text-xs font-mono">
+                {call} → [{resultShape.join(', ')}]
+            </div>
+            {spec.dims.length === 0 && <span className="text-zinc-600 text-xs">No dims picked: reduces over all of them.</span>}
+            {!hasData && <span className="text-amber-500 text-xs">Load data to compute the result values.</span>}
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+import { useState, type PointerEvent } from 'react';
+import { rectPolygon, type Point2 } from '../lib/cellSelection';
+
+export type RegionTool = 'box' | 'lasso';
+
+interface RegionSelectOverlayProps {
+    tool: RegionTool;
+    onComplete: (polygon: Point2[], additive: boolean) => void; // canvas pixel coordinates
+}
+
+// Drags shorter than this (in pixels) are treated as clicks and ignored
+const MIN_DRAG = 3;
+
+/** Captures drags over the canvas while a region tool is active and draws the box or lasso outline */
+export function RegionSelectOverlay({ tool, onComplete }: RegionSelectOverlayProps) {
+    const [points, setPoints] = useState<Point2[] | null>(null);
+
+    const toLocal = (e: PointerEvent<HTMLDivElement>): Point2 => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return [e.clientX - rect.left, e.clientY - rect.top];
+    };
+
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setPoints([toLocal(e)]);
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (!points) return;
+        const p = toLocal(e);
+        setPoints(tool === 'box' ? [points[0], p] : [...points, p]);
+    };
+
+    const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+        if (!points) return;
+        const polygon = tool === 'box' ? rectPolygon(points[0], toLocal(e)) : points;
+        const xs = polygon.map(p => p[0]);
+        const ys = polygon.map(p => p[1]);
+        if (Math.max(...xs) - Math.min(...xs) >= MIN_DRAG && Math.max(...ys) - Math.min(...ys) >= MIN_DRAG) {
+            onComplete(polygon, e.shiftKey);
+        }
+        setPoints(null);
+    };
+
+    const outline = points && (tool === 'box' && points.length === 2 ? rectPolygon(points[0], points[1]) : points);
+
+    return (
+        <div
+            className="absolute inset-0 z-10 cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+        >
+            {outline && outline.length > 1 && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                    <polygon
+                        points={outline.map(p => p.join(',')).join(' ')}
+                        fill="rgba(251, 191, 36, 0.1)"
+                        stroke="#fbbf24"
+                        strokeWidth={1}
+                        strokeDasharray="4 3"
+                    />
+                </svg>
+            )}
+        </div>
+    );
+}
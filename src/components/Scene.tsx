@@ -1,55 +1,396 @@
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useState, useEffect, useMemo, type RefObject } from 'react';
 import { Canvas, useThree } from '@react-three/fiber';
-import { OrbitControls, Center } from '@react-three/drei';
-import { TensorGrid, type ColorMode } from './TensorGrid';
+import { OrbitControls, Center, Html, Line, PerspectiveCamera as DefaultPerspectiveCamera, OrthographicCamera as DefaultOrthographicCamera } from '@react-three/drei';
+import { TensorGrid, type ColorMode, type GridTransition, type ValueColoring } from './TensorGrid';
 import { AxisTriad, type AxisLabels } from './AxisTriad';
-import type { BoxInstance } from '../lib/layout';
-import type { Camera } from 'three';
+import { ColorLegend } from './ColorLegend';
+import { RegionSelectOverlay, type RegionTool } from './RegionSelectOverlay';
+import type { BoxInstance, PackedLayout } from '../lib/layout';
+import type { CameraPose, Projection, Vec3 as Tuple3 } from '../lib/viewState';
+import { pointInPolygon, type Point2 } from '../lib/cellSelection';
+import type { CellLabelSettings } from '../lib/cellLabels';
+import { CUBE_SCALE, SCENE_THEMES, type ProjectionView, type SceneThemeName } from '../lib/vectorExport';
+import { exportTiles } from '../lib/pngExport';
+import { boundsKey, fitCamera, layoutBounds, matchingZoom, AXIS_VIEW_DIRECTIONS, type Bounds } from '../lib/cameraFit';
+import { OrthographicCamera, PerspectiveCamera, Vector2, Vector3 as Vec3, type Camera, type Group, type Vector3 } from 'three';
+
+/** Imperative access to the main camera pose (position + orbit target) */
+export interface CameraApi {
+    getPose(): CameraPose;
+    setPose(pose: CameraPose): void;
+    getProjection(): ProjectionView; // camera and canvas size, for vector export
+    fit(direction?: Tuple3): void; // frame the whole grid, looking from `direction` (default: the current one)
+}
+
+const CAMERA_FOV = 50;
+
+/** Offscreen rendering of the scene at any size, for high-resolution PNG export */
+export interface CaptureApi {
+    // Scene on a transparent background; the camera's framing is kept (fit to the new aspect)
+    render(width: number, height: number): HTMLCanvasElement;
+}
+
+/** A text label anchored in the scene, e.g. the operand captions of the broadcast view */
+export interface SceneCaption {
+    text: string;
+    parts?: CaptionPart[]; // styled pieces rendered instead of `text`
+    position: [number, number, number];
+    tone?: 'normal' | 'error';
+}
+
+export interface CaptionPart {
+    text: string;
+    color?: string;
+    underline?: boolean;
+}
 
 interface SceneProps {
-    layout: BoxInstance[];
+    layout: PackedLayout;
     onHover: (b: BoxInstance | null) => void;
     axisLabels?: AxisLabels;
     colorMode: ColorMode;
     cubeColor: string;
+    valueColoring?: ValueColoring;
+    transition?: GridTransition;
+    captions?: SceneCaption[];
+    getRelated?: (instanceId: number) => number[];
+    path?: [number, number, number][]; // polyline through cell centers, e.g. in memory order
+    selected?: ReadonlySet<string>;
+    highlighted?: Uint8Array; // per cell, see TensorGrid
+    onSelect?: (instance: BoxInstance, additive: boolean) => void;
+    onClearSelection?: () => void; // click on empty space
+    cellLabels?: CellLabelSettings;
+    regionTool?: RegionTool | null; // box / lasso drag selection; orbiting is paused while active
+    onRegionSelect?: (instanceIds: number[], additive: boolean) => void;
+    cameraApiRef?: RefObject<CameraApi | null>;
+    onCameraChange?: () => void;
+    projection?: Projection;
+    autoFit?: boolean; // fit the camera to the grid whenever its bounds change
+    layoutProgress?: number | null; // fraction of the layout computed while it's being laid out (busy indicator)
+    pendingPose?: CameraPose | null; // restored pose, applied once its projection is active (instead of an automatic fit)
+    captureApiRef?: RefObject<CaptureApi | null>;
+    theme?: SceneThemeName;
 }
 
-/** Tiny helper rendered *inside* the main Canvas to expose the camera ref */
+/** Tiny helper rendered *inside* the main Canvas to expose the camera ref (again when the projection switches) */
 function CameraExposer({ onCamera }: { onCamera: (c: Camera) => void }) {
     const { camera } = useThree();
-    const reported = useRef(false);
     useEffect(() => {
-        if (!reported.current) {
-            onCamera(camera);
-            reported.current = true;
-        }
+        onCamera(camera);
     }, [camera, onCamera]);
     return null;
 }
 
-export function Scene({ layout, onHover, axisLabels, colorMode, cubeColor }: SceneProps) {
+interface OrbitControlsLike {
+    object: Camera;
+    target: Vector3;
+    update(): void;
+    addEventListener(type: 'end', listener: () => void): void;
+    removeEventListener(type: 'end', listener: () => void): void;
+}
+
+/** Projects flat x, y, z layout positions to canvas pixels through the transform of a group at the layout origin (inside <Center>) */
+type Projector = (positions: ArrayLike<number>) => Point2[];
+
+function SelectionProjector({ projectorRef, groupRef }: { projectorRef: RefObject<Projector | null>; groupRef: RefObject<Group | null> }) {
+    const camera = useThree(s => s.camera);
+    const size = useThree(s => s.size);
+
+    useEffect(() => {
+        projectorRef.current = positions => {
+            const group = groupRef.current;
+            group?.updateWorldMatrix(true, false);
+            const v = new Vec3();
+            return Array.from({ length: positions.length / 3 }, (_, i): Point2 => {
+                v.set(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+                if (group) v.applyMatrix4(group.matrixWorld);
+                v.project(camera);
+                return [(v.x + 1) / 2 * size.width, (1 - v.y) / 2 * size.height];
+            });
+        };
+        return () => { projectorRef.current = null; };
+    }, [projectorRef, groupRef, camera, size]);
+
+    return null;
+}
+
+const projectionOf = (camera: Camera): Projection => (camera instanceof OrthographicCamera ? 'orthographic' : 'perspective');
+
+// Distance from the target at which a perspective camera shows the scale of an orthographic zoom
+const matchingDistance = (zoom: number, viewportHeight: number) => viewportHeight / (2 * zoom * Math.tan((CAMERA_FOV * Math.PI) / 360));
+
+/**
+ * Publishes a CameraApi backed by the default camera and OrbitControls. The pose carries over
+ * when the projection switches, and the camera is refit when the grid bounds change (autoFit)
+ * unless a restored pose is waiting to be applied.
+ */
+function CameraController({ apiRef, anchorRef, bounds, autoFit, pendingPose, onChange }: {
+    apiRef: RefObject<CameraApi | null>;
+    anchorRef: RefObject<Group | null>; // group at the layout origin, inside <Center>
+    bounds: Bounds | null; // of the layout, in layout coordinates
+    autoFit: boolean;
+    pendingPose: CameraPose | null;
+    onChange?: () => void;
+}) {
+    const camera = useThree(s => s.camera);
+    const size = useThree(s => s.size);
+    const controls = useThree(s => s.controls) as unknown as OrbitControlsLike | null;
+    // OrbitControls are recreated for a new camera, so both change one after the other
+    const ready = controls !== null && controls.object === camera;
+    const outgoingPoseRef = useRef<CameraPose | null>(null);
+    const appliedPoseRef = useRef<CameraPose | null>(null);
+
+    // Report finished orbit/zoom gestures
+    useEffect(() => {
+        if (!controls || !onChange) return;
+        controls.addEventListener('end', onChange);
+        return () => controls.removeEventListener('end', onChange);
+    }, [controls, onChange]);
+
+    useEffect(() => {
+        if (!ready) return;
+        const getPose = (): CameraPose => ({
+            position: camera.position.toArray() as CameraPose['position'],
+            target: controls.target.toArray() as CameraPose['target'],
+            projection: projectionOf(camera),
+            zoom: camera instanceof OrthographicCamera ? camera.zoom : undefined,
+        });
+        apiRef.current = {
+            getPose,
+            setPose: ({ position, target, zoom }) => {
+                camera.position.set(...position);
+                if (camera instanceof OrthographicCamera && zoom !== undefined) {
+                    camera.zoom = zoom;
+                    camera.updateProjectionMatrix();
+                }
+                controls.target.set(...target);
+                controls.update();
+            },
+            getProjection: () => {
+                const origin = new Vec3();
+                anchorRef.current?.getWorldPosition(origin);
+                return {
+                    eye: camera.position.toArray() as ProjectionView['eye'],
+                    target: controls.target.toArray() as ProjectionView['target'],
+                    up: camera.up.toArray() as ProjectionView['up'],
+                    fov: camera instanceof PerspectiveCamera ? camera.fov : CAMERA_FOV,
+                    zoom: camera instanceof OrthographicCamera ? camera.zoom : undefined,
+                    width: Math.round(size.width),
+                    height: Math.round(size.height),
+                    origin: origin.toArray() as ProjectionView['origin'],
+                };
+            },
+            fit: direction => {
+                if (!bounds) return;
+                const origin = new Vec3();
+                anchorRef.current?.getWorldPosition(origin);
+                const offset = origin.toArray();
+                const world: Bounds = {
+                    min: bounds.min.map((v, a) => v + offset[a]) as Tuple3,
+                    max: bounds.max.map((v, a) => v + offset[a]) as Tuple3,
+                };
+                const current = getPose();
+                apiRef.current?.setPose(fitCamera(world, direction ?? current.position.map((v, a) => v - current.target[a]) as Tuple3, {
+                    projection: projectionOf(camera),
+                    fov: CAMERA_FOV,
+                    viewport: size,
+                }));
+            },
+        };
+        return () => {
+            // Remembered so the next camera can take over the view
+            outgoingPoseRef.current = getPose();
+            apiRef.current = null;
+        };
+    }, [ready, apiRef, anchorRef, camera, controls, size, bounds]);
+
+    const key = boundsKey(bounds);
+    useEffect(() => {
+        const api = apiRef.current;
+        if (!ready || !api) return;
+        const outgoing = outgoingPoseRef.current;
+        outgoingPoseRef.current = null;
+        const projection = projectionOf(camera);
+        if (outgoing && outgoing.projection !== projection) {
+            // Same view direction and the same scale at the orbit target
+            const { height } = api.getProjection();
+            const target = new Vec3(...outgoing.target);
+            const offset = new Vec3(...outgoing.position).sub(target);
+            if (projection === 'orthographic') {
+                api.setPose({ ...outgoing, zoom: matchingZoom(offset.length(), CAMERA_FOV, height) });
+            } else {
+                offset.setLength(matchingDistance(outgoing.zoom ?? 1, height));
+                api.setPose({ ...outgoing, position: offset.add(target).toArray() as Tuple3 });
+            }
+            onChange?.();
+        }
+
+        if (pendingPose && pendingPose !== appliedPoseRef.current && (pendingPose.projection ?? 'perspective') === projection) {
+            appliedPoseRef.current = pendingPose;
+            api.setPose(pendingPose);
+        } else if (autoFit && key) {
+            api.fit();
+            onChange?.();
+        }
+    }, [ready, apiRef, camera, key, autoFit, pendingPose, onChange]);
+
+    return null;
+}
+
+// Larger images are rendered tile by tile through camera view offsets
+const CAPTURE_TILE = 2048;
+
+/** Publishes a CaptureApi that renders the scene in tiles and stitches them on a 2D canvas */
+function SceneCapture({ apiRef }: { apiRef: RefObject<CaptureApi | null> }) {
+    const gl = useThree(s => s.gl);
+    const scene = useThree(s => s.scene);
+    const camera = useThree(s => s.camera);
+
+    useEffect(() => {
+        apiRef.current = {
+            render: (width, height) => {
+                const out = document.createElement('canvas');
+                out.width = width;
+                out.height = height;
+                const ctx = out.getContext('2d')!;
+                if (!(camera instanceof PerspectiveCamera) && !(camera instanceof OrthographicCamera)) return out;
+
+                const size = gl.getSize(new Vector2());
+                const pixelRatio = gl.getPixelRatio();
+                const aspect = camera instanceof PerspectiveCamera ? camera.aspect : 1;
+                const frustum = camera instanceof OrthographicCamera ? [camera.left, camera.right, camera.top, camera.bottom] : [];
+                if (camera instanceof OrthographicCamera) {
+                    // Keep the vertical extent, widen or narrow to the export aspect like the perspective camera does
+                    const halfHeight = (camera.top - camera.bottom) / 2;
+                    camera.left = -halfHeight * width / height;
+                    camera.right = halfHeight * width / height;
+                }
+                gl.setPixelRatio(1);
+                try {
+                    for (const tile of exportTiles(width, height, CAPTURE_TILE)) {
+                        gl.setSize(tile.width, tile.height, false);
+                        camera.setViewOffset(width, height, tile.x, tile.y, tile.width, tile.height);
+                        gl.render(scene, camera);
+                        ctx.drawImage(gl.domElement, 0, 0, tile.width, tile.height, tile.x, tile.y, tile.width, tile.height);
+                    }
+                } finally {
+                    camera.clearViewOffset();
+                    if (camera instanceof PerspectiveCamera) camera.aspect = aspect;
+                    else [camera.left, camera.right, camera.top, camera.bottom] = frustum;
+                    camera.updateProjectionMatrix();
+                    gl.setPixelRatio(pixelRatio);
+                    gl.setSize(size.x, size.y, false);
+                    gl.render(scene, camera);
+                }
+                return out;
+            },
+        };
+        return () => { apiRef.current = null; };
+    }, [apiRef, gl, scene, camera]);
+
+    return null;
+}
+
+export function Scene({
+    layout, onHover, axisLabels, colorMode, cubeColor, valueColoring, transition, captions, getRelated, path,
+    selected, highlighted, onSelect, onClearSelection, cellLabels, regionTool, onRegionSelect, cameraApiRef, onCameraChange,
+    captureApiRef, theme = 'dark', projection = 'perspective', autoFit = false, pendingPose = null,
+    layoutProgress = null,
+}: SceneProps) {
     const [mainCamera, setMainCamera] = useState<Camera | null>(null);
+    const projectorRef = useRef<Projector | null>(null);
+    const anchorRef = useRef<Group>(null);
+    const ownCameraApiRef = useRef<CameraApi | null>(null);
+    const apiRef = cameraApiRef ?? ownCameraApiRef;
+    // Partial layouts cover only part of the grid, so the camera fits the last complete one
+    const [fitLayout, setFitLayout] = useState(layout);
+    if (layoutProgress === null && fitLayout !== layout) setFitLayout(layout);
+    const bounds = useMemo(() => layoutBounds(fitLayout.positions, CUBE_SCALE), [fitLayout]);
+
+    // Clicking a triad arrow looks down that axis
+    const handleAxisClick = (axis: keyof typeof AXIS_VIEW_DIRECTIONS) => {
+        apiRef.current?.fit(AXIS_VIEW_DIRECTIONS[axis]);
+        onCameraChange?.();
+    };
+
+    const handleRegionComplete = (polygon: Point2[], additive: boolean) => {
+        const project = projectorRef.current;
+        if (!project || !onRegionSelect) return;
+        const points = project(layout.positions);
+        const ids: number[] = [];
+        points.forEach((p, i) => {
+            if (pointInPolygon(p, polygon)) ids.push(i);
+        });
+        onRegionSelect(ids, additive);
+    };
 
     return (
-        <div className="w-full h-full bg-zinc-950 relative">
+        <div className="w-full h-full relative" style={{ background: SCENE_THEMES[theme].background }}>
             <Canvas
-                camera={{ position: [5, 5, 5], fov: 50 }}
                 gl={{ preserveDrawingBuffer: true }}
                 id="tensor-canvas"
+                onPointerMissed={e => { if (!e.shiftKey) onClearSelection?.(); }}
             >
+                {projection === 'orthographic'
+                    ? <DefaultOrthographicCamera makeDefault position={[5, 5, 5]} zoom={50} />
+                    : <DefaultPerspectiveCamera makeDefault fov={CAMERA_FOV} position={[5, 5, 5]} />}
                 <CameraExposer onCamera={setMainCamera} />
+                <CameraController
+                    apiRef={apiRef} anchorRef={anchorRef} bounds={bounds} autoFit={autoFit} pendingPose={pendingPose} onChange={onCameraChange}
+                />
+                {captureApiRef && <SceneCapture apiRef={captureApiRef} />}
 
                 <Center>
-                    <TensorGrid layout={layout} onHover={onHover} colorMode={colorMode} cubeColor={cubeColor} />
+                    <TensorGrid
+                        layout={layout} onHover={onHover} colorMode={colorMode} cubeColor={cubeColor} valueColoring={valueColoring}
+                        transition={transition} getRelated={getRelated} selected={selected} onSelect={onSelect} cellLabels={cellLabels}
+                        highlighted={highlighted} theme={theme}
+                    />
+                    <group ref={anchorRef} />
+                    <SelectionProjector projectorRef={projectorRef} groupRef={anchorRef} />
+                    {path && path.length > 1 && (
+                        // Drawn over the cubes and ignored by raycasting so hover still reaches the cells
+                        <Line points={path} color="#fbbf24" lineWidth={2} depthTest={false} renderOrder={1} raycast={() => null} />
+                    )}
+                    {captions?.map((caption, i) => (
+                        <Html
+                            key={i}
+                            position={caption.position}
+                            center
+                            className={`pointer-events-none select-none whitespace-nowrap font-mono text-xs rounded px-2 py-0.5 border bg-zinc-900/80 ${caption.tone === 'error' ? 'text-red-300 border-red-700' : 'text-zinc-200 border-zinc-700'}`}
+                        >
+                            {caption.parts
+                                ? caption.parts.map((part, j) => (
+                                    <span key={j} style={{ color: part.color }} className={part.underline ? 'underline decoration-2 underline-offset-2' : undefined}>
+                                        {part.text}
+                                    </span>
+                                ))
+                                : caption.text}
+                        </Html>
+                    ))}
                 </Center>
-                <OrbitControls makeDefault />
+                <OrbitControls makeDefault enabled={!regionTool} />
             </Canvas>
 
+            {/* Color legend for value color mode */}
+            {colorMode === 'value' && valueColoring && layout.count > 0 && (
+                <ColorLegend colormap={valueColoring.colormap} range={valueColoring.range} nanColor={valueColoring.nanColor} title={valueColoring.label} />
+            )}
+
+            {regionTool && <RegionSelectOverlay tool={regionTool} onComplete={handleRegionComplete} />}
+
             {/* Coordinate system triad overlay */}
-            <AxisTriad mainCamera={mainCamera} axisLabels={axisLabels} />
+            <AxisTriad mainCamera={mainCamera} axisLabels={axisLabels} onAxisClick={handleAxisClick} />
+
+            {layoutProgress !== null && (
+                <div className="absolute top-3 left-3 flex items-center gap-2 rounded border border-zinc-700 bg-zinc-900/80 px-2.5 py-1 text-xs text-zinc-300 pointer-events-none">
+                    <span className="h-3 w-3 rounded-full border-2 border-zinc-500 border-t-blue-400 animate-spin" />
+                    Laying out cells{layoutProgress > 0 ? ` ${Math.round(layoutProgress * 100)}%` : '…'}
+                </div>
+            )}
 
             {/* Fallback msg if no layout */}
-            {layout.length === 0 && (
+            {layout.count === 0 && layoutProgress === null && (
                 <div className="absolute inset-0 flex items-center justify-center text-zinc-500 pointer-events-none">
                     Enter a valid shape to visualize layout
                 </div>
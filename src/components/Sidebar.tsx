@@ -1,11 +1,58 @@
 
-import type { ColorMode } from './TensorGrid';
+import { DimAssignmentPanel } from './DimAssignmentPanel';
+import type { DimAssignment } from '../lib/dimAssignment';
+import { BroadcastPanel } from './BroadcastPanel';
+import { EinsumPanel } from './EinsumPanel';
+import { MemoryLayoutPanel } from './MemoryLayoutPanel';
+import { CellSelectionPanel } from './CellSelectionPanel';
+import { ReductionPanel } from './ReductionPanel';
+import { CellLabelsPanel } from './CellLabelsPanel';
+import { CameraPanel } from './CameraPanel';
+import { ComparePanel } from './ComparePanel';
+import { WorkspacePanel } from './WorkspacePanel';
+import { PatternPanel } from './PatternPanel';
+import { StatisticsPanel } from './StatisticsPanel';
+import type { CellLabelSettings } from '../lib/cellLabels';
+import type { CameraPreset } from '../lib/cameraFit';
+import type { ReductionSpec } from '../lib/reduction';
+import type { CompareMode, CompareSummary, DiffMetric, Tolerance } from '../lib/compare';
+import type { Axis } from '../lib/layout';
+import type { AttentionSpec, ConvFields, PatternKind } from '../lib/receptiveField';
+import type { RegionTool } from './RegionSelectOverlay';
+import type { Histogram, TensorStatistics } from '../lib/statistics';
+import type { SelectionExpression, ValueSummary } from '../lib/cellSelection';
+import type { EinsumSpec } from '../lib/einsum';
+import type { BroadcastResult } from '../lib/broadcast';
+import type { NamedTensor } from '../lib/npy';
+import { COLORMAP_LABELS, isDiverging, type ColorScaleSettings, type ColormapName } from '../lib/colormap';
+import type { LayoutProperties, MemoryLayoutSettings } from '../lib/memoryLayout';
+import type { ColorModeName, Projection } from '../lib/viewState';
 
 interface SidebarProps {
+    workspaceTensors: { id: string; name: string; shape: number[] }[] | null; // null until the workspace is loaded
+    activeTensorId: string;
+    onSelectTensor: (id: string) => void;
+    onAddTensor: () => void;
+    onRenameTensor: (id: string, name: string) => void;
+    onDuplicateTensor: (id: string) => void;
+    onRemoveTensor: (id: string) => void;
+    showAllTensors: boolean;
+    setShowAllTensors: (showAll: boolean) => void;
+    workspaceAxis: Axis;
+    setWorkspaceAxis: (axis: Axis) => void;
+    workspaceError: string | null;
     shapeStr: string;
     setShapeStr: (s: string) => void;
     dataStr: string;
     setDataStr: (s: string) => void;
+    loadedFile: { fileName: string; arrays: NamedTensor[] } | null;
+    selectedArray: number;
+    setSelectedArray: (index: number) => void;
+    onLoadFile: (file: File) => void;
+    onClearFile: () => void;
+    loadError: string | null;
+    dataError: string | null; // pasted JSON could not be parsed
+    layoutError: string | null;
     labelsStr: string;
     setLabelsStr: (s: string) => void;
     maxCells: number;
@@ -14,20 +61,131 @@ interface SidebarProps {
     setMode: (m: 'tiling' | 'slicing') => void;
     dimOrder: 'first-to-last' | 'last-to-first';
     setDimOrder: (order: 'first-to-last' | 'last-to-first') => void;
+    assignment: DimAssignment;
+    isCustomAssignment: boolean;
+    setAssignment: (assignment: DimAssignment) => void;
     outerDims: number[];
     sliceIndices: Record<number, number>;
     setSliceIndex: (dim: number, idx: number) => void;
+    sliceExpr: string;
+    setSliceExpr: (expr: string) => void;
+    selectedIndices: (number[] | null)[];
+    selectionError: string | null;
+    dimCellCounts: number[];
+    selectedCellCount: number;
+    selectedShownCount: number;
+    selectedExpression: SelectionExpression | null;
+    selectedSummary: ValueSummary | null;
+    regionTool: RegionTool | null;
+    setRegionTool: (tool: RegionTool | null) => void;
+    onClearSelectedCells: () => void;
+    tensorStats: TensorStatistics | null;
+    histogram: Histogram | null;
+    histogramBins: number;
+    setHistogramBins: (bins: number) => void;
+    histogramBin: number | null;
+    setHistogramBin: (bin: number | null) => void;
+    histogramMatchCount: number;
+    statsDim: number | null;
+    setStatsDim: (dim: number | null) => void;
+    dimStats: ValueSummary[] | null;
+    highlightDims: number[];
+    setHighlightDims: (dims: number[]) => void;
+    opStr: string;
+    setOpStr: (op: string) => void;
+    opResultShape: number[] | null;
+    opError: string | null;
+    opPreview: boolean;
+    onStartOpPreview: () => void;
+    onStopOpPreview: () => void;
+    reduction: ReductionSpec;
+    setReduction: (spec: ReductionSpec) => void;
+    reductionCall: string;
+    reductionShape: number[];
+    reductionActive: boolean;
+    setReductionActive: (active: boolean) => void;
+    broadcastStr: string;
+    setBroadcastStr: (s: string) => void;
+    broadcastShapes: number[][];
+    broadcastResult: BroadcastResult;
+    broadcastActive: boolean;
+    setBroadcastActive: (active: boolean) => void;
+    einsumStr: string;
+    setEinsumStr: (s: string) => void;
+    einsumShapesStr: string;
+    setEinsumShapesStr: (s: string) => void;
+    einsumSpec: EinsumSpec | null;
+    einsumSizes: Record<string, number> | null;
+    einsumColors: Record<string, string>;
+    einsumFormula: string | null;
+    einsumError: string | null;
+    einsumActive: boolean;
+    setEinsumActive: (active: boolean) => void;
+    patternKind: PatternKind;
+    setPatternKind: (kind: PatternKind) => void;
+    convFields: ConvFields;
+    setConvFields: (fields: ConvFields) => void;
+    attention: AttentionSpec;
+    setAttention: (spec: AttentionSpec) => void;
+    patternSummary: string | null;
+    patternError: string | null;
+    patternActive: boolean;
+    setPatternActive: (active: boolean) => void;
+    candidateStr: string;
+    setCandidateStr: (s: string) => void;
+    candidateFile: { fileName: string; arrays: NamedTensor[] } | null;
+    candidateArray: number;
+    setCandidateArray: (index: number) => void;
+    onLoadCandidateFile: (file: File) => void;
+    onClearCandidateFile: () => void;
+    compareMode: CompareMode;
+    setCompareMode: (mode: CompareMode) => void;
+    diffMetric: DiffMetric;
+    setDiffMetric: (metric: DiffMetric) => void;
+    tolerance: Tolerance;
+    setTolerance: (tolerance: Tolerance) => void;
+    compareSummary: CompareSummary | null;
+    compareError: string | null;
+    compareActive: boolean;
+    setCompareActive: (active: boolean) => void;
     shape: number[];
-    colorMode: ColorMode;
-    setColorMode: (mode: ColorMode) => void;
+    colorMode: ColorModeName;
+    setColorMode: (mode: ColorModeName) => void;
     cubeColor: string;
     setCubeColor: (color: string) => void;
+    colorScale: ColorScaleSettings;
+    setColorScale: (settings: ColorScaleSettings) => void;
+    memoryLayout: MemoryLayoutSettings;
+    setMemoryLayout: (settings: MemoryLayoutSettings) => void;
+    memoryStrides: number[] | null;
+    memoryProperties: LayoutProperties | null;
+    memoryRange: { min: number; max: number } | null;
+    memoryError: string | null;
+    cellLabels: CellLabelSettings;
+    setCellLabels: (settings: CellLabelSettings) => void;
+    hasData: boolean;
+    projection: Projection;
+    setProjection: (projection: Projection) => void;
+    autoFit: boolean;
+    setAutoFit: (autoFit: boolean) => void;
+    onCameraPreset: (preset: CameraPreset) => void;
+    onFitCamera: () => void;
     onExportPng: () => void;
+    onExportVector: (format: 'svg' | 'pdf') => void;
+    onRecord: () => void;
     onExportJson: () => void;
+    onImportSettings: (file: File) => void;
+    settingsError: string | null;
+    embedData: boolean;
+    setEmbedData: (embed: boolean) => void;
+    embedWarning: string | null;
+    shareError: string | null;
+    onCopyLink: () => void;
 }
 
 export function Sidebar(props: SidebarProps) {
-    const { shape, outerDims, sliceIndices, dimOrder, setDimOrder } = props;
+    const { shape, outerDims, sliceIndices, selectedIndices, dimOrder, setDimOrder, colorScale } = props;
+    const updateColorScale = (patch: Partial<ColorScaleSettings>) => props.setColorScale({ ...colorScale, ...patch });
 
     const labels = props.labelsStr.split(',').map(s => s.trim()).filter(Boolean);
     const getLabel = (dimIndex: number) => labels[dimIndex] || `d${dimIndex}`;
@@ -36,6 +194,27 @@ export function Sidebar(props: SidebarProps) {
         <div className="w-80 h-full bg-zinc-900 text-zinc-300 p-4 flex flex-col gap-4 overflow-y-auto border-r border-zinc-800 text-sm">
             <h1 className="text-xl font-bold text-white mb-2">Tensor Grid Boxes</h1>
 
+            {props.workspaceTensors && (
+                <>
+                    <WorkspacePanel
+                        tensors={props.workspaceTensors}
+                        activeId={props.activeTensorId}
+                        onSelect={props.onSelectTensor}
+                        onAdd={props.onAddTensor}
+                        onRename={props.onRenameTensor}
+                        onDuplicate={props.onDuplicateTensor}
+                        onRemove={props.onRemoveTensor}
+                        showAll={props.showAllTensors}
+                        setShowAll={props.setShowAllTensors}
+                        axis={props.workspaceAxis}
+                        setAxis={props.setWorkspaceAxis}
+                        error={props.workspaceError}
+                    />
+
+                    <div className="h-px w-full bg-zinc-800 my-2" />
+                </>
+            )}
+
             <div className="flex flex-col gap-1">
                 <label className="text-zinc-400">Shape (comma separated integers)</label>
                 <input
@@ -44,6 +223,7 @@ export function Sidebar(props: SidebarProps) {
                     className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
                     placeholder="e.g. 2, 3, 4, 5"
                 />
+                {props.layoutError && <span className="text-red-400 text-xs">{props.layoutError}</span>}
             </div>
 
             <div className="flex flex-col gap-1">
@@ -64,6 +244,51 @@ export function Sidebar(props: SidebarProps) {
                     className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white h-20 resize-none font-mono text-xs"
                     placeholder="[[1, 2], [3, 4]]"
                 />
+                {props.dataError && <span className="text-red-400 text-xs">{props.dataError}</span>}
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-zinc-400">NumPy File (.npy / .npz)</label>
+                <label className="bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded py-1.5 text-center cursor-pointer transition-colors">
+                    Load file…
+                    <input
+                        type="file"
+                        accept=".npy,.npz"
+                        className="hidden"
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) props.onLoadFile(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <span className="text-zinc-600 text-xs">Or drag and drop a file onto the canvas.</span>
+                {props.loadedFile && (
+                    <div className="flex flex-col gap-2 bg-zinc-800/60 border border-zinc-700 rounded px-2 py-1.5 text-xs">
+                        <div className="flex justify-between items-center gap-2">
+                            <span className="text-zinc-200 font-mono truncate">{props.loadedFile.fileName}</span>
+                            <button onClick={props.onClearFile} className="text-zinc-500 hover:text-white">Clear</button>
+                        </div>
+                        {props.loadedFile.arrays.length > 1 && (
+                            <select
+                                value={props.selectedArray}
+                                onChange={e => props.setSelectedArray(parseInt(e.target.value, 10))}
+                                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono"
+                            >
+                                {props.loadedFile.arrays.map(({ name }, i) => (
+                                    <option key={name} value={i}>{name}</option>
+                                ))}
+                            </select>
+                        )}
+                        {props.loadedFile.arrays[props.selectedArray] && (
+                            <span className="text-zinc-400 font-mono">
+                                {props.loadedFile.arrays[props.selectedArray].tensor.dtype}
+                                {' '}({props.loadedFile.arrays[props.selectedArray].tensor.shape.join(', ')})
+                            </span>
+                        )}
+                    </div>
+                )}
+                {props.loadError && <span className="text-red-400 text-xs">{props.loadError}</span>}
             </div>
 
             <div className="h-px w-full bg-zinc-800 my-2" />
@@ -73,7 +298,7 @@ export function Sidebar(props: SidebarProps) {
                 <div className="flex gap-2">
                     <button
                         onClick={() => setDimOrder('first-to-last')}
-                        className={`flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors ${dimOrder === 'first-to-last'
+                        className={`flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors ${dimOrder === 'first-to-last' && !props.isCustomAssignment
                             ? 'bg-blue-600 text-white'
                             : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
                             }`}
@@ -82,7 +307,7 @@ export function Sidebar(props: SidebarProps) {
                     </button>
                     <button
                         onClick={() => setDimOrder('last-to-first')}
-                        className={`flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors ${dimOrder === 'last-to-first'
+                        className={`flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors ${dimOrder === 'last-to-first' && !props.isCustomAssignment
                             ? 'bg-blue-600 text-white'
                             : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
                             }`}
@@ -91,12 +316,24 @@ export function Sidebar(props: SidebarProps) {
                     </button>
                 </div>
                 <p className="text-zinc-500 text-xs mt-2">
-                    {dimOrder === 'first-to-last'
-                        ? 'Spatial axes use the first dimensions.'
-                        : 'Spatial axes use the last dimensions.'}
+                    {props.isCustomAssignment
+                        ? 'Custom assignment — pick a preset to reset.'
+                        : dimOrder === 'first-to-last'
+                            ? 'Spatial axes use the first dimensions.'
+                            : 'Spatial axes use the last dimensions.'}
                 </p>
             </div>
 
+            <div>
+                <h2 className="text-white font-semibold mb-2">Dimension Assignment</h2>
+                <DimAssignmentPanel
+                    assignment={props.assignment}
+                    shape={shape}
+                    getLabel={getLabel}
+                    onChange={props.setAssignment}
+                />
+            </div>
+
             <div className="h-px w-full bg-zinc-800 my-2" />
 
             <div>
@@ -127,19 +364,23 @@ export function Sidebar(props: SidebarProps) {
                             // In slicing mode, all outer dims are sliced (pages)
                             if (props.mode === 'tiling') return null;
 
+                            // The slider steps through the selected indices of this dim (all of them by default)
+                            const domain = selectedIndices[dim] ?? Array.from({ length: shape[dim] }, (_, i) => i);
                             const curSlice = sliceIndices[dim] ?? 0;
+                            const position = Math.max(0, domain.indexOf(curSlice));
                             return (
                                 <div key={dim} className="flex flex-col gap-1">
                                     <div className="flex justify-between text-xs">
                                         <span className="text-zinc-300">Slice: {getLabel(dim)}</span>
-                                        <span className="text-zinc-500">[{curSlice} / {shape[dim] - 1}]</span>
+                                        <span className="text-zinc-500">[{domain[position] ?? '–'} / {shape[dim] - 1}]</span>
                                     </div>
                                     <input
                                         type="range"
                                         min={0}
-                                        max={Math.max(0, shape[dim] - 1)}
-                                        value={curSlice}
-                                        onChange={(e) => props.setSliceIndex(dim, parseInt(e.target.value, 10))}
+                                        max={Math.max(0, domain.length - 1)}
+                                        value={position}
+                                        disabled={domain.length === 0}
+                                        onChange={(e) => props.setSliceIndex(dim, domain[parseInt(e.target.value, 10)])}
                                     />
                                 </div>
                             );
@@ -152,6 +393,89 @@ export function Sidebar(props: SidebarProps) {
 
             <div className="h-px w-full bg-zinc-800 my-2" />
 
+            <div className="flex flex-col gap-1">
+                <h2 className="text-white font-semibold mb-2">Selection</h2>
+                <input
+                    value={props.sliceExpr}
+                    onChange={e => props.setSliceExpr(e.target.value)}
+                    className={`bg-zinc-800 border rounded px-2 py-1 text-white font-mono ${props.selectionError ? 'border-red-500' : 'border-zinc-700'}`}
+                    placeholder="e.g. x[0, :, 2:10:2, ::4]"
+                />
+                {props.selectionError && <div className="text-red-400 text-xs">{props.selectionError}</div>}
+                <table className="text-xs mt-1">
+                    <tbody>
+                        {shape.map((size, dim) => (
+                            <tr key={dim} className={selectedIndices[dim] ? 'text-blue-300' : 'text-zinc-400'}>
+                                <td className="font-mono pr-2">{getLabel(dim)}</td>
+                                <td className="text-zinc-500 pr-2">size {size}</td>
+                                <td className="text-right">{props.dimCellCounts[dim] ?? 0} {props.dimCellCounts[dim] === 1 ? 'cell' : 'cells'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <span className="text-zinc-600 text-xs">Selected dims skip Max Cells downsampling.</span>
+            </div>
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <CellSelectionPanel
+                count={props.selectedCellCount}
+                shownCount={props.selectedShownCount}
+                expression={props.selectedExpression}
+                summary={props.selectedSummary}
+                regionTool={props.regionTool}
+                setRegionTool={props.setRegionTool}
+                onClear={props.onClearSelectedCells}
+            />
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <StatisticsPanel
+                stats={props.tensorStats}
+                histogram={props.histogram}
+                bins={props.histogramBins}
+                setBins={props.setHistogramBins}
+                activeBin={props.histogramBin}
+                setActiveBin={props.setHistogramBin}
+                matchingCount={props.histogramMatchCount}
+                dimLabels={shape.map((_, dim) => getLabel(dim))}
+                dim={props.statsDim}
+                setDim={props.setStatsDim}
+                dimStats={props.dimStats}
+            />
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <div className="flex flex-col gap-1">
+                <h2 className="text-white font-semibold mb-2">Highlight Along</h2>
+                <div className="flex gap-1 flex-wrap">
+                    {shape.map((_, dim) => {
+                        const active = props.highlightDims.includes(dim);
+                        return (
+                            <button
+                                key={dim}
+                                onClick={() => props.setHighlightDims(active
+                                    ? props.highlightDims.filter(d => d !== dim)
+                                    : [...props.highlightDims, dim].sort((a, b) => a - b))}
+                                className={`px-2 py-0.5 rounded text-xs font-mono transition-colors ${active
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                                    }`}
+                            >
+                                {getLabel(dim)}
+                            </button>
+                        );
+                    })}
+                </div>
+                <span className="text-zinc-600 text-xs">
+                    {props.highlightDims.length === 0
+                        ? 'Pick dims to highlight the hovered cell\'s fiber or slice.'
+                        : `Hover highlights cells reduced together by sum(dim=${props.highlightDims.length === 1 ? props.highlightDims[0] : `(${props.highlightDims.join(', ')})`}).`}
+                </span>
+            </div>
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
             <div className="flex flex-col gap-1">
                 <div className="flex justify-between">
                     <label className="text-zinc-400">Max Cells / Dim</label>
@@ -169,6 +493,114 @@ export function Sidebar(props: SidebarProps) {
 
             <div className="h-px w-full bg-zinc-800 my-2" />
 
+            <div className="flex flex-col gap-1">
+                <h2 className="text-white font-semibold mb-2">Shape Operation</h2>
+                <div className="flex gap-2">
+                    <input
+                        value={props.opStr}
+                        onChange={e => props.setOpStr(e.target.value)}
+                        className={`flex-1 min-w-0 bg-zinc-800 border rounded px-2 py-1 text-white font-mono ${props.opError ? 'border-red-500' : 'border-zinc-700'}`}
+                        placeholder="e.g. permute(0, 2, 3, 1)"
+                    />
+                    <button
+                        onClick={props.opPreview ? props.onStopOpPreview : props.onStartOpPreview}
+                        disabled={!props.opPreview && !props.opResultShape}
+                        className={`px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-40 ${props.opPreview
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                            }`}
+                    >
+                        {props.opPreview ? 'Stop' : 'Preview'}
+                    </button>
+                </div>
+                {props.opError && <div className="text-red-400 text-xs">{props.opError}</div>}
+                {props.opResultShape && (
+                    <div className="text-zinc-400 text-xs font-mono">[{shape.join(', ')}] → [{props.opResultShape.join(', ')}]</div>
+                )}
+                <span className="text-zinc-600 text-xs">reshape / view, permute, transpose, flatten, unsqueeze</span>
+            </div>
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <ReductionPanel
+                spec={props.reduction}
+                setSpec={props.setReduction}
+                dimLabels={shape.map((_, dim) => getLabel(dim))}
+                call={props.reductionCall}
+                resultShape={props.reductionShape}
+                hasData={props.hasData}
+                active={props.reductionActive}
+                setActive={props.setReductionActive}
+            />
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <BroadcastPanel
+                shapesStr={props.broadcastStr}
+                setShapesStr={props.setBroadcastStr}
+                shapes={props.broadcastShapes}
+                result={props.broadcastResult}
+                active={props.broadcastActive}
+                setActive={props.setBroadcastActive}
+            />
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <EinsumPanel
+                expr={props.einsumStr}
+                setExpr={props.setEinsumStr}
+                shapesStr={props.einsumShapesStr}
+                setShapesStr={props.setEinsumShapesStr}
+                spec={props.einsumSpec}
+                sizes={props.einsumSizes}
+                colors={props.einsumColors}
+                formula={props.einsumFormula}
+                error={props.einsumError}
+                active={props.einsumActive}
+                setActive={props.setEinsumActive}
+            />
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <PatternPanel
+                kind={props.patternKind}
+                setKind={props.setPatternKind}
+                convFields={props.convFields}
+                setConvFields={props.setConvFields}
+                attention={props.attention}
+                setAttention={props.setAttention}
+                summary={props.patternSummary}
+                error={props.patternError}
+                active={props.patternActive}
+                setActive={props.setPatternActive}
+            />
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <ComparePanel
+                candidateStr={props.candidateStr}
+                setCandidateStr={props.setCandidateStr}
+                candidateFile={props.candidateFile}
+                selectedArray={props.candidateArray}
+                setSelectedArray={props.setCandidateArray}
+                onLoadFile={props.onLoadCandidateFile}
+                onClearFile={props.onClearCandidateFile}
+                mode={props.compareMode}
+                setMode={props.setCompareMode}
+                metric={props.diffMetric}
+                setMetric={props.setDiffMetric}
+                tolerance={props.tolerance}
+                setTolerance={props.setTolerance}
+                summary={props.compareSummary}
+                error={props.compareError}
+                dimLabels={shape.map((_, dim) => getLabel(dim))}
+                hasData={props.hasData}
+                active={props.compareActive}
+                setActive={props.setCompareActive}
+            />
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
             <div>
                 <h2 className="text-white font-semibold mb-2">Cube Color</h2>
                 <div className="flex gap-2 mb-3">
@@ -190,9 +622,122 @@ export function Sidebar(props: SidebarProps) {
                     >
                         Axis
                     </button>
+                    <button
+                        onClick={() => props.setColorMode('value')}
+                        className={`flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors ${props.colorMode === 'value'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                            }`}
+                    >
+                        Value
+                    </button>
+                    <button
+                        onClick={() => props.setColorMode('memory')}
+                        className={`flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors ${props.colorMode === 'memory'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                            }`}
+                    >
+                        Memory
+                    </button>
                 </div>
 
-                {props.colorMode === 'uniform' ? (
+                {props.colorMode === 'value' ? (
+                    <div className="flex flex-col gap-2 text-xs">
+                        {!props.hasData && (
+                            <p className="text-amber-500">Paste JSON data or load a NumPy file above to color cells by value.</p>
+                        )}
+                        <div className="flex items-center justify-between gap-2">
+                            <label className="text-zinc-400">Colormap</label>
+                            <select
+                                value={colorScale.colormap}
+                                onChange={e => updateColorScale({ colormap: e.target.value as ColormapName })}
+                                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                            >
+                                {(Object.keys(COLORMAP_LABELS) as ColormapName[]).map(name => (
+                                    <option key={name} value={name}>{COLORMAP_LABELS[name]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex gap-4">
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    checked={colorScale.rangeMode === 'auto'}
+                                    onChange={() => updateColorScale({ rangeMode: 'auto' })}
+                                />
+                                Auto range
+                            </label>
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    checked={colorScale.rangeMode === 'manual'}
+                                    onChange={() => updateColorScale({ rangeMode: 'manual' })}
+                                />
+                                Manual
+                            </label>
+                        </div>
+                        {colorScale.rangeMode === 'auto' ? (
+                            <div className="flex flex-col gap-1">
+                                <div className="flex justify-between">
+                                    <span className="text-zinc-400">Percentile clip</span>
+                                    <span className="text-zinc-300">{colorScale.clipPercent}%</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={10}
+                                    step={0.5}
+                                    value={colorScale.clipPercent}
+                                    onChange={e => updateColorScale({ clipPercent: parseFloat(e.target.value) })}
+                                />
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="number"
+                                    value={colorScale.manualMin}
+                                    onChange={e => updateColorScale({ manualMin: parseFloat(e.target.value) })}
+                                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono w-full"
+                                    aria-label="Minimum value"
+                                />
+                                <span className="text-zinc-500">to</span>
+                                <input
+                                    type="number"
+                                    value={colorScale.manualMax}
+                                    onChange={e => updateColorScale({ manualMax: parseFloat(e.target.value) })}
+                                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-mono w-full"
+                                    aria-label="Maximum value"
+                                />
+                            </div>
+                        )}
+                        {isDiverging(colorScale.colormap) && (
+                            <p className="text-zinc-500">Diverging map is centered at zero.</p>
+                        )}
+                        <div className="flex items-center gap-3">
+                            <input
+                                type="color"
+                                value={colorScale.nanColor}
+                                onChange={e => updateColorScale({ nanColor: e.target.value })}
+                                className="w-6 h-6 rounded border border-zinc-700 bg-zinc-800 cursor-pointer"
+                                style={{ padding: 0 }}
+                            />
+                            <span className="text-zinc-400">NaN / missing color</span>
+                        </div>
+                    </div>
+                ) : props.colorMode === 'memory' ? (
+                    <MemoryLayoutPanel
+                        settings={props.memoryLayout}
+                        setSettings={props.setMemoryLayout}
+                        strides={props.memoryStrides}
+                        properties={props.memoryProperties}
+                        range={props.memoryRange}
+                        error={props.memoryError}
+                        colormap={colorScale.colormap}
+                        setColormap={colormap => updateColorScale({ colormap })}
+                        hasData={props.hasData}
+                    />
+                ) : props.colorMode === 'uniform' ? (
                     <div className="flex items-center gap-3">
                         <input
                             type="color"
@@ -221,7 +766,44 @@ export function Sidebar(props: SidebarProps) {
                 )}
             </div>
 
-            <div className="mt-auto pt-4 flex gap-2">
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <CellLabelsPanel settings={props.cellLabels} setSettings={props.setCellLabels} hasData={props.hasData} />
+
+            <div className="h-px w-full bg-zinc-800 my-2" />
+
+            <CameraPanel
+                projection={props.projection}
+                setProjection={props.setProjection}
+                autoFit={props.autoFit}
+                setAutoFit={props.setAutoFit}
+                onPreset={props.onCameraPreset}
+                onFit={props.onFitCamera}
+            />
+
+            <div className="mt-auto pt-4 flex flex-col gap-2">
+                <h2 className="text-white font-semibold">Share</h2>
+                <p className="text-zinc-500 text-xs">The page URL always encodes the current view. Use back/forward to step through edits.</p>
+                <label className={`flex items-center gap-2 text-xs ${props.hasData ? 'cursor-pointer' : 'text-zinc-600'}`}>
+                    <input
+                        type="checkbox"
+                        checked={props.embedData}
+                        disabled={!props.hasData}
+                        onChange={e => props.setEmbedData(e.target.checked)}
+                    />
+                    Embed data in link (small tensors only)
+                </label>
+                {props.embedData && props.embedWarning && <span className="text-amber-500 text-xs">{props.embedWarning}</span>}
+                {props.shareError && <span className="text-red-400 text-xs">{props.shareError}</span>}
+                <button
+                    onClick={props.onCopyLink}
+                    className="bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors"
+                >
+                    Copy link
+                </button>
+            </div>
+
+            <div className="flex gap-2">
                 <button
                     onClick={props.onExportPng}
                     className="flex-1 bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors"
@@ -235,6 +817,40 @@ export function Sidebar(props: SidebarProps) {
                     Export JSON
                 </button>
             </div>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => props.onExportVector('svg')}
+                    className="flex-1 bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors"
+                >
+                    Export SVG
+                </button>
+                <button
+                    onClick={() => props.onExportVector('pdf')}
+                    className="flex-1 bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors"
+                >
+                    Export PDF
+                </button>
+            </div>
+            <button
+                onClick={props.onRecord}
+                className="bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors"
+            >
+                Record animation
+            </button>
+            <label className="bg-zinc-800 hover:bg-zinc-700 py-1.5 rounded transition-colors text-center cursor-pointer">
+                Import settings
+                <input
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) props.onImportSettings(file);
+                        e.target.value = '';
+                    }}
+                />
+            </label>
+            {props.settingsError && <span className="text-red-400 text-xs -mt-2">{props.settingsError}</span>}
 
         </div>
     );
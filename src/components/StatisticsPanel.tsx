@@ -0,0 +1,140 @@
+import type { ValueSummary } from '../lib/cellSelection';
+import { HISTOGRAM_BINS, type Histogram, type TensorStatistics } from '../lib/statistics';
+
+interface StatisticsPanelProps {
+    stats: TensorStatistics | null;
+    histogram: Histogram | null;
+    bins: number;
+    setBins: (bins: number) => void;
+    activeBin: number | null;
+    setActiveBin: (bin: number | null) => void;
+    matchingCount: number; // displayed cells in the active bin
+    dimLabels: string[];
+    dim: number | null;
+    setDim: (dim: number | null) => void;
+    dimStats: ValueSummary[] | null;
+}
+
+const formatStat = (v: number) => (Number.isInteger(v) ? String(v) : v.toPrecision(5));
+const formatEdge = (v: number) => (Number.isInteger(v) ? String(v) : v.toPrecision(3));
+
+const chip = (selected: boolean) => `px-2 py-0.5 rounded text-xs font-mono transition-colors ${selected
+    ? 'bg-blue-600 text-white'
+    : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+    }`;
+
+/** Statistics and histogram of the whole loaded tensor; clicking a bin highlights its cells */
+export function StatisticsPanel(props: StatisticsPanelProps) {
+    const { stats, histogram, activeBin } = props;
+    if (!stats) {
+        return (
+            <div className="flex flex-col gap-2">
+                <h2 className="text-white font-semibold">Statistics</h2>
+                <p className="text-zinc-500 text-xs">Load data to see statistics over every element.</p>
+            </div>
+        );
+    }
+
+    const rows: [string, string, string?][] = [
+        ['elements', stats.count.toLocaleString()],
+        ...(stats.finite > 0
+            ? ([['min', formatStat(stats.min)], ['max', formatStat(stats.max)], ['mean', formatStat(stats.mean)], ['std', formatStat(stats.std)]] as [string, string][])
+            : []),
+        ['zeros', `${((stats.zeros / stats.count) * 100).toPrecision(3)}%`],
+    ];
+    const special: [string, number][] = [['NaN', stats.nan], ['+Inf', stats.posInf], ['−Inf', stats.negInf], ['missing', stats.missing]];
+    for (const [name, n] of special) if (n > 0) rows.push([name, n.toLocaleString(), 'text-amber-500']);
+
+    const maxCount = histogram ? Math.max(1, ...histogram.counts) : 1;
+    const binRange = (bin: number) => histogram && `[${formatEdge(histogram.edges[bin])}, ${formatEdge(histogram.edges[bin + 1])}${bin === histogram.counts.length - 1 ? ']' : ')'}`;
+
+    return (
+        <div className="flex flex-col gap-2">
+            <h2 className="text-white font-semibold">Statistics</h2>
+            <table className="font-mono text-xs">
+                <tbody>
+                    {rows.map(([name, value, tone]) => (
+                        <tr key={name}>
+                            <td className="text-zinc-500 pr-3">{name}</td>
+                            <td className={tone ?? 'text-emerald-400'}>{value}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {histogram && (
+                <div className="flex flex-col gap-1">
+                    <div className="flex items-center justify-between">
+                        <span className="text-zinc-400 text-xs">Histogram</span>
+                        <div className="flex gap-1">
+                            {HISTOGRAM_BINS.map(bins => (
+                                <button key={bins} onClick={() => props.setBins(bins)} className={chip(props.bins === bins)}>
+                                    {bins}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex items-end gap-px h-16 bg-zinc-800/60 border border-zinc-700 rounded px-1 pt-1">
+                        {histogram.counts.map((count, bin) => (
+                            <button
+                                key={bin}
+                                onClick={() => props.setActiveBin(activeBin === bin ? null : bin)}
+                                title={`${binRange(bin)}: ${count.toLocaleString()}`}
+                                className="flex-1 h-full flex items-end group"
+                            >
+                                <span
+                                    className={`w-full rounded-t-sm transition-colors ${activeBin === bin
+                                        ? 'bg-blue-500'
+                                        : 'bg-zinc-500 group-hover:bg-zinc-300'
+                                        }`}
+                                    style={{ height: `${(count / maxCount) * 100}%`, minHeight: count > 0 ? 1 : 0 }}
+                                />
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex justify-between font-mono text-xs text-zinc-500">
+                        <span>{formatEdge(histogram.edges[0])}</span>
+                        <span>{formatEdge(histogram.edges[histogram.edges.length - 1])}</span>
+                    </div>
+                    <span className="text-zinc-500 text-xs">
+                        {activeBin === null
+                            ? 'Click a bar to highlight the cells in that range.'
+                            : `${histogram.counts[activeBin].toLocaleString()} elements in ${binRange(activeBin)}, ${props.matchingCount.toLocaleString()} of them shown. Click again to clear.`}
+                    </span>
+                </div>
+            )}
+
+            <div className="flex items-center gap-1 flex-wrap mt-1">
+                <span className="text-zinc-400 text-xs mr-1">per</span>
+                {props.dimLabels.map((label, dim) => (
+                    <button key={dim} onClick={() => props.setDim(props.dim === dim ? null : dim)} className={chip(props.dim === dim)}>
+                        {label}
+                    </button>
+                ))}
+            </div>
+            {props.dim !== null && props.dimStats && (
+                <div className="max-h-48 overflow-y-auto">
+                    <table className="w-full font-mono text-xs text-right">
+                        <thead className="text-zinc-500 sticky top-0 bg-zinc-900">
+                            <tr>
+                                <th className="text-left font-normal">{props.dimLabels[props.dim]}</th>
+                                <th className="font-normal">mean</th>
+                                <th className="font-normal">std</th>
+                                <th className="font-normal">min</th>
+                                <th className="font-normal">max</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-zinc-200">
+                            {props.dimStats.map((s, index) => (
+                                <tr key={index}>
+                                    <td className="text-left text-zinc-500">{index}</td>
+                                    {[s.mean, s.std, s.min, s.max].map((v, i) => <td key={i} className="pl-2">{formatEdge(v)}</td>)}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
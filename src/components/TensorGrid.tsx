@@ -1,24 +1,86 @@
-import { useRef, useEffect, useMemo, useCallback } from 'react';
+import { useRef, useEffect, useMemo, useCallback, useState } from 'react';
 import {
-    InstancedMesh, Object3D, Color, BoxGeometry, EdgesGeometry,
+    InstancedMesh, Color, BoxGeometry, EdgesGeometry,
     ShaderMaterial, InstancedBufferGeometry,
-    InstancedBufferAttribute, Float32BufferAttribute
+    InstancedBufferAttribute, Float32BufferAttribute, PerspectiveCamera, OrthographicCamera, Vector3, type Group,
 } from 'three';
-import { useFrame } from '@react-three/fiber';
-import type { BoxInstance } from '../lib/layout';
-
-export type ColorMode = 'uniform' | 'axis';
+import { useFrame, useThree, type ThreeEvent } from '@react-three/fiber';
+import { cellKey, instanceAt, type BoxInstance, type PackedLayout } from '../lib/layout';
+import { blockMeans, blocksContaining, cellBlocks, lodApplies, sameLod, selectLod, LOD_CELL_BUDGET, type LodSelection } from '../lib/lod';
+import type { CellLabelSettings } from '../lib/cellLabels';
+import { CellLabels } from './CellLabels';
+import { transitionFrame, type OpTransition } from '../lib/tensorOps';
+import { valueToColor, type ColormapName, type ValueRange } from '../lib/colormap';
+import { SCENE_THEMES, type SceneThemeName } from '../lib/vectorExport';
+
+export type ColorMode = 'uniform' | 'axis' | 'value';
+
+/** Resolved value-to-color mapping used in 'value' color mode */
+export interface ValueColoring {
+    colormap: ColormapName;
+    range: ValueRange | null;
+    nanColor: string;
+    label?: string; // legend title; defaults to "Value"
+}
 
 interface TensorGridProps {
-    layout: BoxInstance[];
+    layout: PackedLayout;
     onHover: (instance: BoxInstance | null) => void;
     colorMode: ColorMode;
     cubeColor: string;
+    valueColoring?: ValueColoring;
+    transition?: GridTransition;
+    getRelated?: (cell: number) => number[]; // cells (layout order) highlighted together with the hovered one
+    selected?: ReadonlySet<string>; // index keys (see cellSelection.ts) of persistently highlighted cells
+    highlighted?: Uint8Array; // per cell (layout order), 1 for cells picked out e.g. by a histogram bin; the others are faded
+    onSelect?: (instance: BoxInstance, additive: boolean) => void; // click; additive with shift held
+    cellLabels?: CellLabelSettings; // value or index text on each cell (not shown while animating or merging tiles)
+    theme?: SceneThemeName; // edge color and the background ghosts fade into
+}
+
+/** Animated op preview: `layout` holds the transition's instances, moved each frame to the current progress */
+export interface GridTransition {
+    data: OpTransition;
+    getProgress: () => number;
 }
 
-const dummy = new Object3D();
 const SCALE = 0.85;
 const HOVER_COLOR = new Color('#818cf8'); // indigo-400
+const RELATED_COLOR = new Color('#c7d2fe'); // indigo-200
+const WHITE = new Color('#ffffff');
+// Selected cells are tinted rather than replaced so their value color stays readable
+const SELECTED_COLOR = new Color('#fbbf24'); // amber-400
+const SELECTED_TINT = 0.6;
+// Cells outside a highlight fade almost into the background
+const UNHIGHLIGHTED_FADE = 0.85;
+
+// Broadcast replicas are drawn smaller and faded towards the background; conflicting cells in red
+const GHOST_SCALE = 0.6;
+const GHOST_FADE = 0.7;
+const CONFLICT_COLOR = new Color('#dc2626'); // red-600
+
+const instanceScale = (inst: BoxInstance | undefined) => (inst?.style === 'ghost' ? GHOST_SCALE : 1);
+
+// Instance buffers are sized in powers of two, so they grow and shrink with the layout without
+// being reallocated for every small change
+const instanceCapacity = (n: number) => 2 ** Math.ceil(Math.log2(Math.max(512, n)));
+
+// The level of detail is re-evaluated at most this often while the camera moves
+const LOD_INTERVAL = 0.2; // seconds
+const NO_CELLS = new Uint32Array(0);
+
+/** Translation and per-axis scale of instance `i`, written straight into an instance matrix buffer */
+function writeInstanceMatrix(array: Float32Array, i: number, x: number, y: number, z: number, sx: number, sy: number, sz: number) {
+    const o = i * 16;
+    array.fill(0, o, o + 16);
+    array[o] = sx;
+    array[o + 5] = sy;
+    array[o + 10] = sz;
+    array[o + 12] = x;
+    array[o + 13] = y;
+    array[o + 14] = z;
+    array[o + 15] = 1;
+}
 
 // Axis colors matching the coordinate triad (AxisTriad.tsx)
 const AXIS_X_COLOR = new Color('#ef4444'); // red
@@ -43,16 +105,19 @@ const edgeTemplatePositions = (() => {
 
 // Custom shader material for instanced edges — applies per-instance offset
 const edgeShaderMaterial = new ShaderMaterial({
+    uniforms: { uEdgeColor: { value: new Color(SCENE_THEMES.dark.edge) } },
     vertexShader: `
         attribute vec3 instanceOffset;
+        attribute vec3 instanceScale;
         void main() {
-            vec3 transformed = position + instanceOffset;
+            vec3 transformed = position * instanceScale + instanceOffset;
             gl_Position = projectionMatrix * modelViewMatrix * vec4(transformed, 1.0);
         }
     `,
     fragmentShader: `
+        uniform vec3 uEdgeColor;
         void main() {
-            gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0); // black edges
+            gl_FragColor = vec4(uEdgeColor, 1.0);
         }
     `,
 });
@@ -92,12 +157,43 @@ function buildAxisColoredBoxGeometry(): BoxGeometry {
     return geo;
 }
 
-export function TensorGrid({ layout, onHover, colorMode, cubeColor }: TensorGridProps) {
+/** Instanced edge outlines of boxes at `offsets` (x, y, z), scaled per axis relative to a cell */
+function buildEdgesGeometry(offsets: Float32Array, scales: Float32Array): InstancedBufferGeometry {
+    const geo = new InstancedBufferGeometry();
+    geo.setAttribute('position', new Float32BufferAttribute(edgeTemplatePositions, 3));
+    geo.setAttribute('instanceOffset', new InstancedBufferAttribute(offsets, 3));
+    geo.setAttribute('instanceScale', new InstancedBufferAttribute(scales, 3));
+    geo.instanceCount = offsets.length / 3;
+    return geo;
+}
+
+/** Instance color buffer of a mesh, created on first use */
+function instanceColors(mesh: InstancedMesh): Float32Array {
+    if (!mesh.instanceColor) mesh.instanceColor = new InstancedBufferAttribute(new Float32Array(mesh.instanceMatrix.count * 3), 3);
+    return mesh.instanceColor.array as Float32Array;
+}
+
+export function TensorGrid({ layout, onHover, colorMode, cubeColor, valueColoring, transition, getRelated, selected, highlighted, onSelect, cellLabels, theme = 'dark' }: TensorGridProps) {
     const meshRef = useRef<InstancedMesh>(null);
+    const mergedRef = useRef<InstancedMesh>(null);
+    const groupRef = useRef<Group>(null);
     const prevHoveredRef = useRef<number | null>(null);
+    const prevRelatedRef = useRef<number[]>([]);
+    const prevRelatedMergedRef = useRef<number[]>([]); // merged instances lit for related cells inside them
+
+    // Per-instance base colors (RGB triplets), used to restore instances after hover
+    const baseColorsRef = useRef<Float32Array>(new Float32Array(0));
+    // The same for the merged tiles, with the merged instance of each block (-1 when drawn in detail)
+    const mergedBaseColorsRef = useRef<Float32Array>(new Float32Array(0));
+    const mergedInstanceOfRef = useRef<Int32Array | null>(null);
 
     // Track current color state to restore after hover
     const baseColor = useMemo(() => new Color(cubeColor), [cubeColor]);
+    const background = useMemo(() => new Color(SCENE_THEMES[theme].background), [theme]);
+
+    useEffect(() => {
+        edgeShaderMaterial.uniforms.uEdgeColor.value.set(SCENE_THEMES[theme].edge);
+    }, [theme]);
 
     // Throttle: store pending pointer event, process once per frame
     const pendingPointerRef = useRef<{ instanceId: number | undefined } | null>(null);
@@ -108,17 +204,35 @@ export function TensorGrid({ layout, onHover, colorMode, cubeColor }: TensorGrid
     layoutRef.current = layout;
     const onHoverRef = useRef(onHover);
     onHoverRef.current = onHover;
-    const colorModeRef = useRef(colorMode);
-    colorModeRef.current = colorMode;
-    const baseColorRef = useRef(baseColor);
-    baseColorRef.current = baseColor;
-
-    // Stable maxCount — only grows, never shrinks, to avoid remounting the InstancedMesh
-    const maxCountRef = useRef(512);
-    const maxCount = useMemo(() => {
-        maxCountRef.current = Math.max(maxCountRef.current, layout.length);
-        return maxCountRef.current;
-    }, [layout.length]);
+
+    // Large layouts draw distant tiles as single merged boxes (see lod.ts); the selection belongs to
+    // the layout it was made for and starts with every tile merged
+    const lodEnabled = !transition && lodApplies(layout);
+    // Tiles holding selected or highlighted cells stay in detail, so those cells remain visible
+    const pinnedBlocks = useMemo(() => {
+        const checkSelected = selected !== undefined && selected.size > 0;
+        if (!lodEnabled || (!checkSelected && !highlighted)) return null;
+        return blocksContaining(layout, c => highlighted?.[c] === 1 || (checkSelected && selected.has(cellKey(layout, c))));
+    }, [lodEnabled, layout, selected, highlighted]);
+    const blockOfCell = useMemo(() => (lodEnabled ? cellBlocks(layout) : null), [lodEnabled, layout]);
+    const [lodState, setLodState] = useState<{ layout: PackedLayout; pinned: Uint8Array | null; selection: LodSelection } | null>(null);
+    const allMerged = useMemo(
+        () => (lodEnabled ? { detailed: NO_CELLS, merged: Uint32Array.from({ length: layout.blocks.count }, (_, b) => b).filter(b => layout.blocks.start[b + 1] > layout.blocks.start[b]) } : null),
+        [lodEnabled, layout],
+    );
+    const lod = lodEnabled ? (lodState?.layout === layout ? lodState.selection : allMerged) : null;
+    // Cells drawn individually, in instance order; null draws every cell with its own id
+    const shownCells = lod ? lod.detailed : null;
+    const shownCount = shownCells ? shownCells.length : layout.count;
+    const means = useMemo(() => (lodEnabled ? blockMeans(layout) : null), [lodEnabled, layout]);
+
+    // Cell ids of the drawn instances and back, for hover, selection and related cells
+    const shownRef = useRef<{ cells: Uint32Array | null; instanceOf: Int32Array | null }>({ cells: null, instanceOf: null });
+    const toCell = (instanceId: number) => shownRef.current.cells?.[instanceId] ?? instanceId;
+    const toInstance = (cell: number) => (shownRef.current.instanceOf ? shownRef.current.instanceOf[cell] : cell);
+
+    const capacity = instanceCapacity(lodEnabled ? Math.min(layout.count, LOD_CELL_BUDGET) : layout.count);
+    const mergedCapacity = lodEnabled ? instanceCapacity(layout.blocks.count) : 0;
 
     // Build geometries for different modes
     const uniformBoxGeo = useMemo(() => new BoxGeometry(1, 1, 1), []);
@@ -126,24 +240,33 @@ export function TensorGrid({ layout, onHover, colorMode, cubeColor }: TensorGrid
 
     const activeGeo = colorMode === 'axis' ? axisBoxGeo : uniformBoxGeo;
 
-    // Build instanced edge geometry — shares one edge template across all instances
+    // Build instanced edge geometry — shares one edge template across all drawn cells
     const edgesGeometry = useMemo(() => {
-        if (layout.length === 0) return null;
-
-        const geo = new InstancedBufferGeometry();
-        geo.setAttribute('position', new Float32BufferAttribute(edgeTemplatePositions, 3));
-
-        const offsets = new Float32Array(layout.length * 3);
-        for (let i = 0; i < layout.length; i++) {
-            offsets[i * 3] = layout[i].position[0];
-            offsets[i * 3 + 1] = layout[i].position[1];
-            offsets[i * 3 + 2] = layout[i].position[2];
+        if (shownCount === 0) return null;
+        const offsets = new Float32Array(shownCount * 3);
+        const scales = new Float32Array(shownCount * 3);
+        for (let i = 0; i < shownCount; i++) {
+            const c = shownCells ? shownCells[i] : i;
+            offsets.set(layout.positions.subarray(c * 3, c * 3 + 3), i * 3);
+            scales.fill(instanceScale(layout.instances?.[c]), i * 3, i * 3 + 3);
         }
-        geo.setAttribute('instanceOffset', new InstancedBufferAttribute(offsets, 3));
-        geo.instanceCount = layout.length;
-
-        return geo;
-    }, [layout]);
+        return buildEdgesGeometry(offsets, scales);
+    }, [layout, shownCells, shownCount]);
+
+    // Outlines of the merged tiles, as boxes around their cells
+    const mergedEdgesGeometry = useMemo(() => {
+        if (!lod || lod.merged.length === 0) return null;
+        const { min, max } = layout.blocks;
+        const offsets = new Float32Array(lod.merged.length * 3);
+        const scales = new Float32Array(lod.merged.length * 3);
+        lod.merged.forEach((b, i) => {
+            for (let a = 0; a < 3; a++) {
+                offsets[i * 3 + a] = (min[b * 3 + a] + max[b * 3 + a]) / 2;
+                scales[i * 3 + a] = (max[b * 3 + a] - min[b * 3 + a] + SCALE) / SCALE;
+            }
+        });
+        return buildEdgesGeometry(offsets, scales);
+    }, [layout, lod]);
 
     // Dispose old edge geometries on cleanup
     useEffect(() => {
@@ -151,28 +274,87 @@ export function TensorGrid({ layout, onHover, colorMode, cubeColor }: TensorGrid
             edgesGeometry?.dispose();
         };
     }, [edgesGeometry]);
-
-    // Set instance matrices and base colors — when layout or color settings change
     useEffect(() => {
+        return () => {
+            mergedEdgesGeometry?.dispose();
+        };
+    }, [mergedEdgesGeometry]);
+
+    // Progress of the op preview last written to the instances; null forces a rewrite
+    const appliedProgressRef = useRef<number | null>(null);
+
+    // Move cubes and edges to a point of the op preview timeline
+    const applyTransition = useCallback((t: number) => {
         const mesh = meshRef.current;
-        if (!mesh || layout.length === 0) return;
+        if (!mesh || !transition || !edgesGeometry) return;
+        const n = transition.data.instances.length;
+        const positions = new Float32Array(n * 3);
+        const scales = new Float32Array(n);
+        transitionFrame(transition.data, t, positions, scales);
+
+        const matrices = mesh.instanceMatrix.array as Float32Array;
+        const offsets = edgesGeometry.getAttribute('instanceOffset') as InstancedBufferAttribute;
+        const edgeScales = edgesGeometry.getAttribute('instanceScale') as InstancedBufferAttribute;
+        for (let i = 0; i < n; i++) {
+            const s = SCALE * scales[i];
+            writeInstanceMatrix(matrices, i, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2], s, s, s);
+            (edgeScales.array as Float32Array).fill(scales[i], i * 3, i * 3 + 3);
+        }
+        mesh.instanceMatrix.needsUpdate = true;
+        mesh.computeBoundingSphere(); // keep hover raycasts in step with the moving cubes
 
-        mesh.count = layout.length;
+        offsets.array.set(positions);
+        offsets.needsUpdate = true;
+        edgeScales.needsUpdate = true;
+        appliedProgressRef.current = t;
+    }, [transition, edgesGeometry]);
 
-        for (let i = 0; i < layout.length; i++) {
-            const inst = layout[i];
-            dummy.position.set(inst.position[0], inst.position[1], inst.position[2]);
-            dummy.scale.set(SCALE, SCALE, SCALE);
-            dummy.updateMatrix();
-            mesh.setMatrixAt(i, dummy.matrix);
+    // Set instance matrices and base colors — when layout, detail level or color settings change
+    useEffect(() => {
+        const mesh = meshRef.current;
+        shownRef.current = { cells: shownCells, instanceOf: null };
+        if (shownCells) {
+            const instanceOf = new Int32Array(layout.count).fill(-1);
+            shownCells.forEach((c, i) => { instanceOf[c] = i; });
+            shownRef.current.instanceOf = instanceOf;
+        }
+        if (!mesh || layout.count === 0) return;
+
+        mesh.count = shownCount;
+        const matrices = mesh.instanceMatrix.array as Float32Array;
+        const colors = instanceColors(mesh);
+        const baseColors = new Float32Array(shownCount * 3);
+        const nanColor = new Color(valueColoring?.nanColor ?? '#ff00ff');
+        const color = new Color();
+        const { positions, values, valid, instances } = layout;
+        const checkSelected = selected !== undefined && selected.size > 0;
+
+        for (let i = 0; i < shownCount; i++) {
+            const c = shownCells ? shownCells[i] : i;
+            const inst = instances?.[c];
+            const s = SCALE * instanceScale(inst);
+            writeInstanceMatrix(matrices, i, positions[c * 3], positions[c * 3 + 1], positions[c * 3 + 2], s, s, s);
 
             // In axis mode, we use white instance color so vertex colors show through.
+            // In value mode, each instance's value is mapped through the colormap.
             // In uniform mode, we set the chosen base color per-instance.
             if (colorMode === 'axis') {
-                mesh.setColorAt(i, new Color('#ffffff'));
+                color.copy(WHITE);
+            } else if (colorMode === 'value') {
+                const rgb = valueColoring?.range && values && (!valid || valid[c])
+                    ? valueToColor(values[c], valueColoring.range, valueColoring.colormap)
+                    : null;
+                if (rgb) color.setRGB(rgb[0], rgb[1], rgb[2]);
+                else color.copy(nanColor);
             } else {
-                mesh.setColorAt(i, baseColor);
+                color.copy(baseColor);
             }
+            if (inst?.style === 'conflict') color.copy(CONFLICT_COLOR);
+            else if (inst?.style === 'ghost') color.lerp(background, GHOST_FADE);
+            if (highlighted && !highlighted[c]) color.lerp(background, UNHIGHLIGHTED_FADE);
+            if (checkSelected && selected.has(cellKey(layout, c))) color.lerp(SELECTED_COLOR, SELECTED_TINT);
+            color.toArray(colors, i * 3);
+            color.toArray(baseColors, i * 3);
         }
 
         mesh.instanceMatrix.needsUpdate = true;
@@ -181,34 +363,133 @@ export function TensorGrid({ layout, onHover, colorMode, cubeColor }: TensorGrid
         mesh.computeBoundingBox();
         mesh.computeBoundingSphere();
 
+        baseColorsRef.current = baseColors;
         prevHoveredRef.current = null;
-    }, [layout, colorMode, baseColor]);
+        prevRelatedRef.current = [];
 
-    // Lightweight per-instance highlight: only touches 2 instances (old + new)
+        appliedProgressRef.current = null;
+        if (transition) applyTransition(transition.getProgress());
+    }, [layout, shownCells, shownCount, capacity, colorMode, baseColor, background, valueColoring, selected, highlighted, transition, applyTransition]);
+
+    // Merged tiles: one box around each tile's cells, colored by the tile's mean value
+    useEffect(() => {
+        const mesh = mergedRef.current;
+        if (!mesh || !lod || !means) return;
+        const { min, max } = layout.blocks;
+        mesh.count = lod.merged.length;
+        const matrices = mesh.instanceMatrix.array as Float32Array;
+        const colors = instanceColors(mesh);
+        const nanColor = new Color(valueColoring?.nanColor ?? '#ff00ff');
+        const color = new Color();
+        const instanceOf = new Int32Array(layout.blocks.count).fill(-1);
+
+        lod.merged.forEach((b, i) => {
+            instanceOf[b] = i;
+            const o = b * 3;
+            writeInstanceMatrix(
+                matrices, i,
+                (min[o] + max[o]) / 2, (min[o + 1] + max[o + 1]) / 2, (min[o + 2] + max[o + 2]) / 2,
+                max[o] - min[o] + SCALE, max[o + 1] - min[o + 1] + SCALE, max[o + 2] - min[o + 2] + SCALE,
+            );
+            if (colorMode === 'axis') {
+                color.copy(WHITE);
+            } else if (colorMode === 'value') {
+                const rgb = valueColoring?.range ? valueToColor(means[b], valueColoring.range, valueColoring.colormap) : null;
+                if (rgb) color.setRGB(rgb[0], rgb[1], rgb[2]);
+                else color.copy(nanColor);
+            } else {
+                color.copy(baseColor);
+            }
+            color.toArray(colors, i * 3);
+        });
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+        mergedBaseColorsRef.current = colors.slice(0, lod.merged.length * 3);
+        mergedInstanceOfRef.current = instanceOf;
+        prevRelatedMergedRef.current = [];
+    }, [layout, lod, means, mergedCapacity, colorMode, baseColor, valueColoring]);
+
+    // Lightweight highlight: only touches the old and new hovered instances and their related cells
+    // (a whole fiber or slice can be thousands of cells, so colors are written straight into the buffer)
     const setHoverHighlight = useCallback((instanceId: number | null) => {
         const mesh = meshRef.current;
-        if (!mesh) return;
+        if (!mesh || !mesh.instanceColor) return;
 
         const prev = prevHoveredRef.current;
         if (prev === instanceId) return;
 
-        const restoreColor = colorModeRef.current === 'axis'
-            ? new Color('#ffffff')
-            : baseColorRef.current;
+        const colors = mesh.instanceColor.array as Float32Array;
+        const base = baseColorsRef.current;
+        const restore = (i: number) => {
+            if (i >= 0 && i < mesh.count) colors.set(base.subarray(i * 3, i * 3 + 3), i * 3);
+        };
+        const paint = (i: number, c: Color) => {
+            if (i >= 0 && i < mesh.count) c.toArray(colors, i * 3);
+        };
+        prevRelatedRef.current.forEach(restore);
+        if (prev !== null) restore(prev);
 
-        if (prev !== null && prev < mesh.count) {
-            mesh.setColorAt(prev, restoreColor);
-        }
-        if (instanceId !== null && instanceId < mesh.count) {
-            mesh.setColorAt(instanceId, HOVER_COLOR);
-        }
+        // Related cells are cell ids; cells inside merged tiles light up their tile's box instead
+        const { cells, instanceOf } = shownRef.current;
+        const relatedCells = instanceId !== null && getRelated ? getRelated(cells ? cells[instanceId] : instanceId) : [];
+        const related = relatedCells.map(c => (instanceOf ? instanceOf[c] : c));
+        for (const i of related) paint(i, RELATED_COLOR);
+        if (instanceId !== null) paint(instanceId, HOVER_COLOR);
 
-        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+        mesh.instanceColor.needsUpdate = true;
         prevHoveredRef.current = instanceId;
-    }, []);
+        prevRelatedRef.current = related;
+
+        const merged = mergedRef.current;
+        const mergedInstanceOf = mergedInstanceOfRef.current;
+        if (!merged?.instanceColor || !mergedInstanceOf || !blockOfCell) return;
+        const mergedColors = merged.instanceColor.array as Float32Array;
+        const mergedBase = mergedBaseColorsRef.current;
+        for (const i of prevRelatedMergedRef.current) mergedColors.set(mergedBase.subarray(i * 3, i * 3 + 3), i * 3);
+        const relatedMerged = new Set<number>();
+        relatedCells.forEach((c, k) => {
+            if (related[k] >= 0) return;
+            const i = mergedInstanceOf[blockOfCell[c]];
+            if (i >= 0 && i < merged.count) relatedMerged.add(i);
+        });
+        for (const i of relatedMerged) RELATED_COLOR.toArray(mergedColors, i * 3);
+        if (relatedMerged.size > 0 || prevRelatedMergedRef.current.length > 0) merged.instanceColor.needsUpdate = true;
+        prevRelatedMergedRef.current = [...relatedMerged];
+    }, [getRelated, blockOfCell]);
+
+    // Re-evaluate the detail level when the camera has moved, in layout coordinates
+    const camera = useThree(s => s.camera);
+    const viewportHeight = useThree(s => s.size.height);
+    const lodCheckRef = useRef({ time: -Infinity, key: '' });
+    const updateLod = (time: number) => {
+        const group = groupRef.current;
+        if (!lodEnabled || !group || time - lodCheckRef.current.time < LOD_INTERVAL) return;
+        lodCheckRef.current.time = time;
+        const eye = group.worldToLocal(camera.getWorldPosition(new Vector3()));
+        const zoom = camera instanceof OrthographicCamera ? camera.zoom : undefined;
+        const key = [eye.x, eye.y, eye.z, zoom, viewportHeight].map(v => (v === undefined ? '' : v.toFixed(2))).join(',');
+        if (key === lodCheckRef.current.key && lodState?.layout === layout && lodState.pinned === pinnedBlocks) return;
+        lodCheckRef.current.key = key;
+        const selection = selectLod(layout, {
+            eye: eye.toArray(),
+            fov: camera instanceof PerspectiveCamera ? camera.fov : 50,
+            viewportHeight,
+            zoom,
+        }, { pinned: pinnedBlocks });
+        if (lodState?.layout !== layout || lodState.pinned !== pinnedBlocks || !sameLod(selection, lodState.selection)) {
+            setLodState({ layout, pinned: pinnedBlocks, selection });
+        }
+    };
+
+    // Follow the op preview timeline, then process hover events once per frame
+    useFrame(({ clock }) => {
+        updateLod(clock.elapsedTime);
+
+        if (transition) {
+            const t = transition.getProgress();
+            if (t !== appliedProgressRef.current) applyTransition(t);
+        }
 
-    // Process hover events once per frame
-    useFrame(() => {
         if (pointerOutPendingRef.current) {
             pointerOutPendingRef.current = false;
             pendingPointerRef.current = null;
@@ -223,7 +504,8 @@ export function TensorGrid({ layout, onHover, colorMode, cubeColor }: TensorGrid
 
         if (pending.instanceId !== undefined) {
             setHoverHighlight(pending.instanceId);
-            onHoverRef.current(layoutRef.current[pending.instanceId] ?? null);
+            const cell = toCell(pending.instanceId);
+            onHoverRef.current(cell < layoutRef.current.count ? instanceAt(layoutRef.current, cell) : null);
         }
     });
 
@@ -238,17 +520,26 @@ export function TensorGrid({ layout, onHover, colorMode, cubeColor }: TensorGrid
         pointerOutPendingRef.current = true;
     }, []);
 
-    if (layout.length === 0) return null;
+    const handleClick = (e: ThreeEvent<MouseEvent>) => {
+        if (e.instanceId === undefined || !onSelect) return;
+        const cell = toCell(e.instanceId);
+        if (cell >= layoutRef.current.count || toInstance(cell) < 0) return;
+        e.stopPropagation();
+        onSelect(instanceAt(layoutRef.current, cell), e.shiftKey);
+    };
+
+    if (layout.count === 0) return null;
 
     return (
-        <group>
+        <group ref={groupRef}>
             <instancedMesh
-                key={colorMode}
+                key={`${colorMode}:${capacity}`}
                 ref={meshRef}
-                args={[activeGeo, undefined, maxCount]}
+                args={[activeGeo, undefined, capacity]}
                 frustumCulled={false}
                 onPointerMove={handlePointerMove}
                 onPointerOut={handlePointerOut}
+                onClick={handleClick}
             >
                 <meshBasicMaterial
                     key={colorMode}
@@ -264,6 +555,28 @@ export function TensorGrid({ layout, onHover, colorMode, cubeColor }: TensorGrid
                     raycast={() => null as unknown as void}
                 />
             )}
+            {lodEnabled && (
+                // Merged tiles are not interactive; zooming in draws their cells
+                <instancedMesh
+                    key={`merged:${colorMode}:${mergedCapacity}`}
+                    ref={mergedRef}
+                    args={[activeGeo, undefined, mergedCapacity]}
+                    frustumCulled={false}
+                    raycast={() => null}
+                >
+                    <meshBasicMaterial vertexColors={colorMode === 'axis'} color="#ffffff" />
+                </instancedMesh>
+            )}
+            {mergedEdgesGeometry && (
+                <lineSegments
+                    geometry={mergedEdgesGeometry}
+                    material={edgeShaderMaterial}
+                    raycast={() => null as unknown as void}
+                />
+            )}
+            {cellLabels && cellLabels.content !== 'off' && !transition && !lodEnabled && (
+                <CellLabels layout={layout} settings={cellLabels} cellSize={SCALE} />
+            )}
         </group>
     );
 }
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import type { Axis } from '../lib/layout';
+
+interface WorkspacePanelProps {
+    tensors: { id: string; name: string; shape: number[] }[];
+    activeId: string;
+    onSelect: (id: string) => void;
+    onAdd: () => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onRemove: (id: string) => void;
+    showAll: boolean;
+    setShowAll: (showAll: boolean) => void;
+    axis: Axis;
+    setAxis: (axis: Axis) => void;
+    error: string | null;
+}
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+/** Named tensors of the workspace: switch between them, and optionally show them all in the scene */
+export function WorkspacePanel(props: WorkspacePanelProps) {
+    // Tensor whose name is being edited, with the draft name
+    const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+    const commitRename = () => {
+        if (editing) props.onRename(editing.id, editing.name);
+        setEditing(null);
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <h2 className="text-white font-semibold">Tensors</h2>
+                <button
+                    onClick={props.onAdd}
+                    className="px-3 py-1 rounded text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors"
+                >
+                    Add
+                </button>
+            </div>
+            <ul className="flex flex-col gap-1">
+                {props.tensors.map(({ id, name, shape }) => {
+                    const active = id === props.activeId;
+                    return (
+                        <li
+                            key={id}
+                            className={`flex items-center gap-2 rounded px-2 py-1 text-xs border ${active
+                                ? 'bg-blue-600/20 border-blue-600/60 text-white'
+                                : 'bg-zinc-800/60 border-zinc-700 text-zinc-400 hover:text-white'
+                                }`}
+                        >
+                            {editing?.id === id ? (
+                                <input
+                                    autoFocus
+                                    value={editing.name}
+                                    onChange={e => setEditing({ id, name: e.target.value })}
+                                    onBlur={commitRename}
+                                    onKeyDown={e => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setEditing(null);
+                                    }}
+                                    className="flex-1 min-w-0 bg-zinc-800 border border-zinc-600 rounded px-1 text-white"
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => props.onSelect(id)}
+                                    onDoubleClick={() => setEditing({ id, name })}
+                                    className="flex-1 min-w-0 flex justify-between gap-2 text-left"
+                                    title="Click to switch, double-click to rename"
+                                >
+                                    <span className="truncate">{name}</span>
+                                    <span className="font-mono text-zinc-500 shrink-0">[{shape.join(', ')}]</span>
+                                </button>
+                            )}
+                            <div className="flex gap-1.5 text-zinc-500">
+                                <button onClick={() => setEditing({ id, name })} className="hover:text-white" title="Rename">✎</button>
+                                <button onClick={() => props.onDuplicate(id)} className="hover:text-white" title="Duplicate">⧉</button>
+                                <button
+                                    onClick={() => props.onRemove(id)}
+                                    disabled={props.tensors.length === 1}
+                                    className="hover:text-red-400 disabled:opacity-30 disabled:hover:text-zinc-500"
+                                    title="Delete"
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+            <div className="flex items-center justify-between text-xs">
+                <label className={`flex items-center gap-2 ${props.tensors.length > 1 ? 'cursor-pointer' : 'text-zinc-600'}`}>
+                    <input
+                        type="checkbox"
+                        checked={props.showAll}
+                        disabled={props.tensors.length < 2}
+                        onChange={e => props.setShowAll(e.target.checked)}
+                    />
+                    Show all in scene
+                </label>
+                {props.showAll && (
+                    <div className="flex gap-1">
+                        {AXES.map(axis => (
+                            <button
+                                key={axis}
+                                onClick={() => props.setAxis(axis)}
+                                className={`w-6 py-0.5 rounded font-mono uppercase transition-colors ${props.axis === axis
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'
+                                    }`}
+                                title={`Arrange along ${axis.toUpperCase()}`}
+                            >
+                                {axis}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            {props.error && <span className="text-red-400 text-xs">{props.error}</span>}
+        </div>
+    );
+}
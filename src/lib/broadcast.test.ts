@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { broadcastShapes, broadcastLayouts, parseShapeList } from './broadcast';
+
+const options = { dimOrder: 'first-to-last' as const, maxCellsPerDim: 8 };
+
+describe('Broadcasting', () => {
+    it('parses one shape per line', () => {
+        expect(parseShapeList('2, 3, 4\n3, 1\n\n4')).toEqual([[2, 3, 4], [3, 1], [4]]);
+        expect(parseShapeList('[8, 1]; [7]')).toEqual([[8, 1], [7]]);
+    });
+
+    it('applies NumPy rules', () => {
+        expect(broadcastShapes([[2, 3, 4], [3, 1]]).shape).toEqual([2, 3, 4]);
+        expect(broadcastShapes([[8, 1, 6, 1], [7, 1, 5]]).shape).toEqual([8, 7, 6, 5]);
+        expect(broadcastShapes([[5, 4], [1]]).shape).toEqual([5, 4]);
+        expect(broadcastShapes([[1], [1]]).shape).toEqual([1]);
+        expect(broadcastShapes([[3, 1], [1, 4], [2, 1, 1]]).shape).toEqual([2, 3, 4]);
+    });
+
+    it('records how each operand contributes to each axis', () => {
+        const { axes } = broadcastShapes([[2, 3, 4], [3, 1]]);
+        expect(axes.map(a => a.roles)).toEqual([['match', 'missing'], ['match', 'match'], ['match', 'stretched']]);
+        expect(axes[0].sizes).toEqual([2, null]);
+    });
+
+    it('explains incompatible axes', () => {
+        const res = broadcastShapes([[2, 3], [4]]);
+        expect(res.shape).toBeNull();
+        expect(res.axes[1].roles).toEqual(['conflict', 'conflict']);
+        expect(res.error).toBe('Axis -1 (dim 1 of the result): A has size 3, B has size 4 — sizes must be equal or one of them must be 1');
+
+        // The rightmost failing axis is reported; size-1 operands on it are fine
+        const three = broadcastShapes([[2, 1], [3, 1], [1, 5]]);
+        expect(three.error).toMatch(/^Axis -2 .*A has size 2, B has size 3/);
+        expect(three.axes[0].roles).toEqual(['conflict', 'conflict', 'stretched']);
+    });
+
+    it('lays out operands in the result shape with ghosted replicas', () => {
+        const shapes = [[2, 3], [3]];
+        const layouts = broadcastLayouts(shapes, broadcastShapes(shapes), options);
+        expect(layouts.length).toBe(3);
+        const [a, b, result] = layouts;
+        expect(a.every(inst => inst.style === undefined)).toBe(true);
+        expect(b.length).toBe(6);
+        expect(b.filter(inst => inst.style === 'ghost').length).toBe(3);
+        // Replicas report the operand's own index
+        expect(b.map(inst => inst.indexPath)).toEqual([[0], [1], [2], [0], [1], [2]]);
+        expect(result.every(inst => inst.group === 'Result')).toBe(true);
+    });
+
+    it('flags the failing axis of incompatible operands', () => {
+        const shapes = [[2, 3], [4]];
+        const layouts = broadcastLayouts(shapes, broadcastShapes(shapes), options);
+        expect(layouts.length).toBe(2);
+        const conflicts = layouts[0].filter(inst => inst.style === 'conflict').map(inst => inst.indexPath);
+        expect(conflicts).toEqual([[0, 0], [0, 1], [0, 2]]);
+        expect(layouts[1].map(inst => inst.indexPath)).toEqual([[0], [1], [2], [3]]);
+    });
+});
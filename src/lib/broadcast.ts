@@ -0,0 +1,112 @@
+// NumPy broadcasting rules, and side-by-side layouts of the operands and their result.
+import { parseShape, type BoxInstance } from './layout';
+import { presetLayout, type PresetLayoutOptions } from './dimAssignment';
+
+/** How one operand contributes to a result axis */
+export type BroadcastRole =
+    | 'match' // operand size equals the result size
+    | 'stretched' // operand size 1, repeated to the result size
+    | 'missing' // operand has fewer dims; treated as a leading size-1 dim
+    | 'conflict'; // operand size differs from another operand's size and neither is 1
+
+export interface BroadcastAxis {
+    size: number | null; // null when the operands conflict on this axis
+    sizes: (number | null)[]; // per operand; null when the operand has no such dim
+    roles: BroadcastRole[];
+}
+
+export interface BroadcastResult {
+    shape: number[] | null; // null when the shapes are incompatible
+    axes: BroadcastAxis[]; // aligned from the left of the result; operands are right-aligned
+    error: string | null;
+}
+
+/** Parse one shape per line (or per ';'), using the same rules as the Shape field */
+export function parseShapeList(input: string): number[][] {
+    return input.split(/[\n;]/).map(line => parseShape(line)).filter(shape => shape.length > 0);
+}
+
+/** Operand names used in captions and explanations: A, B, C, ... */
+export function operandName(i: number): string {
+    return String.fromCharCode(65 + (i % 26));
+}
+
+/**
+ * Broadcast shapes with NumPy rules: align trailing dims; on each axis the sizes must be equal or 1,
+ * and missing leading dims count as 1. Reports the first (rightmost) failing axis.
+ */
+export function broadcastShapes(shapes: number[][]): BroadcastResult {
+    const rank = Math.max(0, ...shapes.map(s => s.length));
+    const axes: BroadcastAxis[] = [];
+    let error: string | null = null;
+
+    for (let axis = 0; axis < rank; axis++) {
+        const sizes = shapes.map(s => {
+            const d = axis - (rank - s.length);
+            return d >= 0 ? s[d] : null;
+        });
+        const nonUnit = [...new Set(sizes.filter((n): n is number => n !== null && n !== 1))];
+        const size = nonUnit.length > 1 ? null : nonUnit[0] ?? 1;
+        const roles = sizes.map((n): BroadcastRole => {
+            if (n === null) return 'missing';
+            if (size === null) return n === 1 ? 'stretched' : 'conflict';
+            return n === size ? 'match' : 'stretched';
+        });
+        axes.push({ size, sizes, roles });
+    }
+
+    for (let axis = rank - 1; axis >= 0 && !error; axis--) {
+        const { sizes, roles } = axes[axis];
+        if (axes[axis].size !== null) continue;
+        const parts = roles
+            .map((role, i) => (role === 'conflict' ? `${operandName(i)} has size ${sizes[i]}` : null))
+            .filter(Boolean);
+        error = `Axis ${axis - rank} (dim ${axis} of the result): ${parts.join(', ')} — sizes must be equal or one of them must be 1`;
+    }
+
+    const shape = error ? null : axes.map(a => a.size as number);
+    return { shape, axes, error };
+}
+
+/**
+ * Lay out every operand in the broadcast result shape, so replicated cells line up with the result.
+ * Cells that only exist through broadcasting are ghosts; indexPath is the operand's own index.
+ * Incompatible operands are laid out in their own shape (padded with leading 1s) and the cells along
+ * the failing axis are flagged as conflicts.
+ */
+export function broadcastLayouts(shapes: number[][], result: BroadcastResult, options: PresetLayoutOptions): BoxInstance[][] {
+    const rank = result.axes.length;
+    let failing = rank - 1;
+    while (failing >= 0 && result.axes[failing].size !== null) failing--;
+
+    const operands = shapes.map((shape, i) => {
+        const lead = rank - shape.length;
+        const own = (path: number[]) => path.slice(lead).map((idx, d) => (shape[d] === 1 ? 0 : idx));
+        const group = operandName(i);
+
+        if (result.shape) {
+            return presetLayout(result.shape, options).map(inst => ({
+                ...inst,
+                id: `${group}:${inst.id}`,
+                indexPath: own(inst.indexPath),
+                group,
+                style: result.axes.some((a, axis) => a.roles[i] !== 'match' && inst.indexPath[axis] > 0) ? 'ghost' as const : undefined,
+            }));
+        }
+
+        const padded = [...Array<number>(lead).fill(1), ...shape];
+        const conflicted = failing >= 0 && result.axes[failing].roles[i] === 'conflict';
+        return presetLayout(padded, options).map(inst => ({
+            ...inst,
+            id: `${group}:${inst.id}`,
+            indexPath: inst.indexPath.slice(lead),
+            group,
+            // The fiber along the failing axis (all other indices 0) marks which axis broke
+            style: conflicted && inst.indexPath.every((idx, axis) => axis === failing || idx === 0) ? 'conflict' as const : undefined,
+        }));
+    });
+
+    if (!result.shape) return operands;
+    const resultLayout = presetLayout(result.shape, options).map(inst => ({ ...inst, id: `=:${inst.id}`, group: 'Result' }));
+    return [...operands, resultLayout];
+}
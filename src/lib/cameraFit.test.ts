@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { boundsKey, fitCamera, layoutBounds, matchingZoom, viewDirection, PRESET_DIRECTIONS, type Bounds } from './cameraFit';
+import type { Vec3 } from './viewState';
+
+const bounds: Bounds = { min: [-4, -1, -1], max: [4, 1, 1] };
+const viewport = { width: 800, height: 400 };
+
+// Pixel position of a point for a camera pose, like three's perspective projection
+function project(pose: ReturnType<typeof fitCamera>, p: Vec3, fov: number): [number, number] {
+    const dir = viewDirection([0, 1, 2].map(a => pose.position[a] - pose.target[a]) as Vec3);
+    const right = [dir[2], 0, -dir[0]].map(v => v / Math.hypot(dir[0], dir[2])) as Vec3;
+    const up: Vec3 = [dir[1] * right[2] - dir[2] * right[1], dir[2] * right[0] - dir[0] * right[2], dir[0] * right[1] - dir[1] * right[0]];
+    const d = [0, 1, 2].map(a => p[a] - pose.position[a]) as Vec3;
+    const depth = -(d[0] * dir[0] + d[1] * dir[1] + d[2] * dir[2]);
+    const focal = viewport.height / 2 / Math.tan((fov * Math.PI) / 360);
+    const x = (d[0] * right[0] + d[1] * right[1] + d[2] * right[2]) / depth;
+    const y = (d[0] * up[0] + d[1] * up[1] + d[2] * up[2]) / depth;
+    return [viewport.width / 2 + x * focal, viewport.height / 2 - y * focal];
+}
+
+describe('Camera fit', () => {
+    it('computes layout bounds including the cube size', () => {
+        expect(layoutBounds([0, 0, 0, 3, -2, -1], 1)).toEqual({ min: [-0.5, -2.5, -1.5], max: [3.5, 0.5, 0.5] });
+        expect(layoutBounds([], 1)).toBeNull();
+        expect(boundsKey(layoutBounds([0, 0, 0], 1))).toBe('-0.500,-0.500,-0.500,0.500,0.500,0.500');
+    });
+
+    it('fits every corner into the perspective frustum', () => {
+        for (const direction of Object.values(PRESET_DIRECTIONS)) {
+            const pose = fitCamera(bounds, direction, { projection: 'perspective', fov: 50, viewport });
+            expect(pose.target).toEqual([0, 0, 0]);
+            for (const sx of [-4, 4]) for (const sy of [-1, 1]) for (const sz of [-1, 1]) {
+                const [x, y] = project(pose, [sx, sy, sz], 50);
+                expect(x).toBeGreaterThanOrEqual(-1e-6);
+                expect(x).toBeLessThanOrEqual(viewport.width + 1e-6);
+                expect(y).toBeGreaterThanOrEqual(-1e-6);
+                expect(y).toBeLessThanOrEqual(viewport.height + 1e-6);
+            }
+        }
+    });
+
+    it('zooms orthographic cameras to the wider extent', () => {
+        const pose = fitCamera(bounds, PRESET_DIRECTIONS.front, { projection: 'orthographic', fov: 50, viewport, margin: 1 });
+        // 8 units across 800 px, 2 units across 400 px: width limits the zoom
+        expect(pose.zoom).toBeCloseTo(100);
+        expect(pose.projection).toBe('orthographic');
+        expect(pose.position[2]).toBeGreaterThan(1);
+    });
+
+    it('tilts straight-down views and matches zoom to perspective scale', () => {
+        const top = viewDirection([0, 1, 0]);
+        expect(top[1]).toBeCloseTo(1);
+        expect(top[2]).toBeGreaterThan(0);
+        expect(matchingZoom(10, 90, 400)).toBeCloseTo(20);
+    });
+});
@@ -0,0 +1,132 @@
+// Camera framing: bounds of a layout, preset view directions and the camera pose that fits the
+// bounds into the viewport for perspective and orthographic projections.
+import type { CameraPose, Projection, Vec3 } from './viewState';
+
+export interface Bounds {
+    min: Vec3;
+    max: Vec3;
+}
+
+export type CameraPreset = 'front' | 'top' | 'side' | 'iso';
+
+export const CAMERA_PRESET_LABELS: Record<CameraPreset, string> = {
+    front: 'Front',
+    top: 'Top',
+    side: 'Side',
+    iso: 'Iso',
+};
+
+/**
+ * Direction from the target to the camera for each preset. Following the triad convention
+ * (X right, Y down, Z into the screen), 'front' looks at the X/Y face, 'top' down onto the
+ * X/Z face and 'side' at the Z/Y face from +X.
+ */
+export const PRESET_DIRECTIONS: Record<CameraPreset, Vec3> = {
+    front: [0, 0, 1],
+    top: [0, 1, 0],
+    side: [1, 0, 0],
+    iso: [1, 1, 1],
+};
+
+/** Looking down an arrow of the triad: the camera sits where the arrow points */
+export const AXIS_VIEW_DIRECTIONS: Record<'x' | 'y' | 'z', Vec3> = {
+    x: [1, 0, 0],
+    y: [0, -1, 0],
+    z: [0, 0, -1],
+};
+
+const DEFAULT_MARGIN = 1.1;
+
+/** Axis-aligned bounds of cubes of edge `cubeSize` centered at flat x, y, z `positions` */
+export function layoutBounds(positions: ArrayLike<number>, cubeSize: number): Bounds | null {
+    if (positions.length === 0) return null;
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < positions.length; i += 3) {
+        for (let a = 0; a < 3; a++) {
+            min[a] = Math.min(min[a], positions[i + a] - cubeSize / 2);
+            max[a] = Math.max(max[a], positions[i + a] + cubeSize / 2);
+        }
+    }
+    return { min, max };
+}
+
+/** Stable key of bounds, so a refit only happens when they actually change */
+export function boundsKey(bounds: Bounds | null): string {
+    return bounds ? [...bounds.min, ...bounds.max].map(v => v.toFixed(3)).join(',') : '';
+}
+
+function normalize(v: Vec3): Vec3 {
+    const len = Math.hypot(v[0], v[1], v[2]) || 1;
+    return [v[0] / len, v[1] / len, v[2] / len];
+}
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Normalized view direction; straight up or down views are tilted slightly towards +Z so the
+ * camera's up vector (+Y) stays usable and deeper rows end up at the top of the screen.
+ */
+export function viewDirection(direction: Vec3): Vec3 {
+    const d = normalize(direction);
+    return Math.abs(d[1]) > 0.999 ? normalize([0, d[1], 1e-3]) : d;
+}
+
+export interface FitOptions {
+    projection: Projection;
+    fov: number; // vertical field of view in degrees (perspective)
+    viewport: { width: number; height: number }; // pixels
+    margin?: number; // > 1 leaves room around the bounds
+}
+
+/**
+ * Camera pose looking at the center of `bounds` from `direction` (target → camera) so every
+ * corner is inside the view. Perspective cameras move back until all corners fit the frustum;
+ * orthographic cameras keep a fixed distance and get a zoom in pixels per world unit.
+ */
+export function fitCamera(bounds: Bounds, direction: Vec3, options: FitOptions): CameraPose {
+    const margin = options.margin ?? DEFAULT_MARGIN;
+    const dir = viewDirection(direction);
+    const right = normalize(cross([0, 1, 0], dir));
+    const up = cross(dir, right);
+    const center: Vec3 = [0, 1, 2].map(a => (bounds.min[a] + bounds.max[a]) / 2) as Vec3;
+    const half: Vec3 = [0, 1, 2].map(a => (bounds.max[a] - bounds.min[a]) / 2) as Vec3;
+
+    const corners: Vec3[] = [];
+    for (const sx of [-1, 1]) for (const sy of [-1, 1]) for (const sz of [-1, 1]) {
+        corners.push([sx * half[0], sy * half[1], sz * half[2]]);
+    }
+    const radius = Math.hypot(...half);
+    const aspect = options.viewport.width / options.viewport.height;
+
+    let distance: number;
+    let zoom: number | undefined;
+    if (options.projection === 'orthographic') {
+        const halfWidth = Math.max(...corners.map(c => Math.abs(dot(c, right)))) * margin;
+        const halfHeight = Math.max(...corners.map(c => Math.abs(dot(c, up)))) * margin;
+        zoom = Math.min(options.viewport.width / (2 * halfWidth || 1), options.viewport.height / (2 * halfHeight || 1));
+        distance = 2 * radius + 1;
+    } else {
+        const tanV = Math.tan((options.fov * Math.PI) / 360);
+        const tanH = tanV * aspect;
+        // A corner at depth z towards the camera and offsets x, y fits when distance ≥ z + offset / tan
+        distance = Math.max(...corners.map(c => {
+            const z = dot(c, dir);
+            return z + Math.max((Math.abs(dot(c, up)) * margin) / tanV, (Math.abs(dot(c, right)) * margin) / tanH);
+        }));
+        distance = Math.max(distance, radius * 0.5 + 0.1);
+    }
+
+    return {
+        position: [center[0] + dir[0] * distance, center[1] + dir[1] * distance, center[2] + dir[2] * distance],
+        target: center,
+        projection: options.projection,
+        zoom,
+    };
+}
+
+/** Orthographic zoom showing the same scale at the target as a perspective camera at `distance` */
+export function matchingZoom(distance: number, fov: number, viewportHeight: number): number {
+    return viewportHeight / (2 * distance * Math.tan((fov * Math.PI) / 360));
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { formatLabelNumber, cellLabelText, labelGlyphs, labelGlyphSize, LABEL_CHARSET, DEFAULT_CELL_LABELS } from './cellLabels';
+
+describe('Cell labels', () => {
+    it('formats numbers in each notation', () => {
+        expect(formatLabelNumber(3.14159, 2, 'fixed')).toBe('3.14');
+        expect(formatLabelNumber(3, 2, 'fixed')).toBe('3.00');
+        expect(formatLabelNumber(12345.6, 2, 'scientific')).toBe('1.23e4');
+        expect(formatLabelNumber(0.000123, 1, 'scientific')).toBe('1.2e-4');
+
+        expect(formatLabelNumber(42, 2, 'auto')).toBe('42');
+        expect(formatLabelNumber(0.5, 2, 'auto')).toBe('0.5');
+        expect(formatLabelNumber(-1.006, 2, 'auto')).toBe('-1.01');
+        expect(formatLabelNumber(2.5e7, 1, 'auto')).toBe('2.5e7');
+        expect(formatLabelNumber(0.00002, 0, 'auto')).toBe('2e-5');
+        expect(formatLabelNumber(0, 2, 'auto')).toBe('0');
+        expect(formatLabelNumber(150.3, 0, 'auto')).toBe('150');
+    });
+
+    it('formats missing and non-finite values', () => {
+        expect(formatLabelNumber(undefined, 2, 'auto')).toBe('?');
+        expect(formatLabelNumber(NaN, 2, 'fixed')).toBe('NaN');
+        expect(formatLabelNumber(-Infinity, 2, 'auto')).toBe('-Inf');
+    });
+
+    it('labels cells by value or index', () => {
+        const inst = { id: '1,2', position: [0, 0, 0] as [number, number, number], indexPath: [1, 2], value: 0.25 };
+        expect(cellLabelText(inst, { ...DEFAULT_CELL_LABELS, content: 'value' })).toBe('0.25');
+        expect(cellLabelText(inst, { ...DEFAULT_CELL_LABELS, content: 'index' })).toBe('1,2');
+        expect(cellLabelText({ ...inst, sourceIndexPath: [5] }, { ...DEFAULT_CELL_LABELS, content: 'index' })).toBe('5');
+    });
+
+    it('places glyphs centered on the cell', () => {
+        const { columns, offsets } = labelGlyphs('-1.5');
+        expect(columns.map(c => LABEL_CHARSET[c]).join('')).toBe('-1.5');
+        expect(offsets).toEqual([-1.5, -0.5, 0.5, 1.5]);
+        expect(labelGlyphs('x').columns).toEqual([LABEL_CHARSET.indexOf('?')]);
+    });
+
+    it('shrinks long labels to fit the cell', () => {
+        expect(labelGlyphSize(1, 1, 0.6)).toBeCloseTo(0.4);
+        expect(labelGlyphSize(6, 1, 0.6) * 6 * 0.6).toBeCloseTo(0.9);
+    });
+});
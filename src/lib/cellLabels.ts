@@ -0,0 +1,78 @@
+// Text labels on cells (values or index paths): number formatting and glyph placement for the
+// instanced atlas text in CellLabels.tsx.
+import type { BoxInstance } from './layout';
+
+export type CellLabelContent = 'off' | 'value' | 'index';
+export type NumberNotation = 'auto' | 'fixed' | 'scientific';
+
+export interface CellLabelSettings {
+    content: CellLabelContent;
+    precision: number; // digits after the decimal point
+    notation: NumberNotation;
+    minPixels: number; // labels are hidden on cells smaller than this on screen
+}
+
+export const DEFAULT_CELL_LABELS: CellLabelSettings = {
+    content: 'off',
+    precision: 2,
+    notation: 'auto',
+    minPixels: 24,
+};
+
+/** Every character a label can contain; its position is the glyph's column in the atlas */
+export const LABEL_CHARSET = ' 0123456789.,-e?NaInf';
+
+// Plain numbers in 'auto' switch to scientific notation outside this magnitude range
+const AUTO_MIN = 1e-3;
+const AUTO_MAX = 1e5;
+
+function scientific(v: number, precision: number): string {
+    return v.toExponential(precision).replace('e+', 'e');
+}
+
+export function formatLabelNumber(v: number | undefined, precision: number, notation: NumberNotation): string {
+    if (v === undefined) return '?';
+    if (Number.isNaN(v)) return 'NaN';
+    if (!Number.isFinite(v)) return v > 0 ? 'Inf' : '-Inf';
+    switch (notation) {
+        case 'fixed':
+            return v.toFixed(precision);
+        case 'scientific':
+            return scientific(v, precision);
+        case 'auto': {
+            const abs = Math.abs(v);
+            if (Number.isInteger(v) && abs < AUTO_MAX) return String(v);
+            if (abs >= AUTO_MAX || (abs < AUTO_MIN && abs > 0)) return scientific(v, precision);
+            // Trailing zeros add nothing in auto mode: 0.50 → 0.5
+            const fixed = v.toFixed(precision);
+            return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+        }
+    }
+}
+
+export function cellLabelText(inst: BoxInstance, settings: CellLabelSettings): string {
+    if (settings.content === 'index') return (inst.sourceIndexPath ?? inst.indexPath).join(',');
+    if (settings.content === 'value') return formatLabelNumber(inst.value, settings.precision, settings.notation);
+    return '';
+}
+
+/**
+ * Glyphs of a label, centered on the cell: atlas column and horizontal offset (in glyph widths)
+ * per character. Characters outside the charset are shown as '?'.
+ */
+export function labelGlyphs(text: string): { columns: number[]; offsets: number[] } {
+    const chars = [...text];
+    const fallback = LABEL_CHARSET.indexOf('?');
+    return {
+        columns: chars.map(ch => {
+            const col = LABEL_CHARSET.indexOf(ch);
+            return col >= 0 ? col : fallback;
+        }),
+        offsets: chars.map((_, i) => i - (chars.length - 1) / 2),
+    };
+}
+
+/** Glyph height that fits a label of `length` characters across a cell (glyph width = aspect × height) */
+export function labelGlyphSize(length: number, cellSize: number, aspect: number): number {
+    return Math.min(cellSize * 0.4, (cellSize * 0.9) / (Math.max(1, length) * aspect));
+}
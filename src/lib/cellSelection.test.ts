@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+    indexKey, parseIndexKey, toggleCell, addCells, compactDimSelection, selectionExpression,
+    summarizeValues, rectPolygon, pointInPolygon,
+} from './cellSelection';
+
+describe('Cell selection', () => {
+    it('toggles and adds cells by index', () => {
+        expect(parseIndexKey(indexKey([1, 0, 3]))).toEqual([1, 0, 3]);
+        let sel = toggleCell(new Set(), [1, 2]);
+        expect([...sel]).toEqual(['1,2']);
+        sel = addCells(sel, [[1, 2], [0, 0]]);
+        expect(sel.size).toBe(2);
+        sel = toggleCell(sel, [1, 2]);
+        expect([...sel]).toEqual(['0,0']);
+    });
+
+    it('compacts per-dim indices', () => {
+        expect(compactDimSelection([0, 1, 2, 3], 4)).toEqual({ kind: 'all' });
+        expect(compactDimSelection([2], 4)).toEqual({ kind: 'index', index: 2 });
+        expect(compactDimSelection([1, 2, 3], 8)).toEqual({ kind: 'range', start: 1, stop: 4, step: undefined });
+        expect(compactDimSelection([0, 2, 4, 6], 8)).toEqual({ kind: 'range', start: undefined, stop: undefined, step: 2 });
+        expect(compactDimSelection([5, 6, 7], 8)).toEqual({ kind: 'range', start: 5, stop: undefined, step: undefined });
+        expect(compactDimSelection([1, 5], 8)).toEqual({ kind: 'list', indices: [1, 5] });
+        expect(compactDimSelection([0, 1, 5], 8)).toEqual({ kind: 'list', indices: [0, 1, 5] });
+    });
+
+    it('describes a selection as a slice expression', () => {
+        const grid = addCells(new Set(), [[1, 0], [1, 2], [1, 4]]);
+        expect(selectionExpression(grid, [3, 6])).toEqual({ expression: 'x[1, ::2]', exact: true, gridSize: 3 });
+        expect(selectionExpression(grid, [3, 7])?.expression).toBe('x[1, :5:2]');
+
+        const diagonal = addCells(new Set(), [[0, 0], [1, 1]]);
+        expect(selectionExpression(diagonal, [2, 2])).toEqual({ expression: 'x[...]', exact: false, gridSize: 4 });
+        expect(selectionExpression(new Set(), [2, 2])).toBeNull();
+    });
+
+    it('summarizes selected values', () => {
+        const s = summarizeValues([1, 2, 3, undefined, NaN, 6])!;
+        expect(s).toMatchObject({ count: 4, missing: 2, sum: 12, mean: 3, min: 1, max: 6 });
+        expect(s.std).toBeCloseTo(Math.sqrt(3.5));
+        expect(summarizeValues([])).toBeNull();
+        expect(summarizeValues([undefined])).toMatchObject({ count: 0, missing: 1 });
+    });
+
+    it('tests points against rectangles and lassos', () => {
+        const rect = rectPolygon([10, 10], [0, 0]);
+        expect(pointInPolygon([5, 5], rect)).toBe(true);
+        expect(pointInPolygon([11, 5], rect)).toBe(false);
+
+        // An L-shaped lasso leaves its inner corner out
+        const lasso: [number, number][] = [[0, 0], [10, 0], [10, 4], [4, 4], [4, 10], [0, 10]];
+        expect(pointInPolygon([2, 8], lasso)).toBe(true);
+        expect(pointInPolygon([8, 8], lasso)).toBe(false);
+    });
+});
@@ -0,0 +1,114 @@
+// Selected cells, kept as original tensor indices so they survive re-layout (maxCells, slicing, dim order).
+import { formatSliceExpression, type DimSelection } from './slice';
+
+export type Point2 = [number, number];
+
+/** Key of a cell in a selection set, e.g. "1,0,3" */
+export function indexKey(indexPath: number[]): string {
+    return indexPath.join(',');
+}
+
+export function parseIndexKey(key: string): number[] {
+    return key === '' ? [] : key.split(',').map(Number);
+}
+
+/** Add a cell, or remove it if it is already selected */
+export function toggleCell(selected: ReadonlySet<string>, indexPath: number[]): Set<string> {
+    const key = indexKey(indexPath);
+    const out = new Set(selected);
+    if (out.has(key)) out.delete(key);
+    else out.add(key);
+    return out;
+}
+
+export function addCells(selected: ReadonlySet<string>, indexPaths: number[][]): Set<string> {
+    const out = new Set(selected);
+    for (const path of indexPaths) out.add(indexKey(path));
+    return out;
+}
+
+/** Shortest selection for a sorted list of indices: `:`, a single index, a range or a list */
+export function compactDimSelection(indices: number[], size: number): DimSelection {
+    if (indices.length === size) return { kind: 'all' };
+    if (indices.length === 1) return { kind: 'index', index: indices[0] };
+    const step = indices[1] - indices[0];
+    const arithmetic = indices.every((idx, i) => i === 0 || idx - indices[i - 1] === step);
+    // Two cells apart read better as a list ([1, 5]) than as a stepped range (1:6:4)
+    if (arithmetic && (step === 1 || indices.length > 2)) {
+        const last = indices[indices.length - 1];
+        return {
+            kind: 'range',
+            start: indices[0] || undefined,
+            stop: last + step >= size ? undefined : last + 1,
+            step: step === 1 ? undefined : step,
+        };
+    }
+    return { kind: 'list', indices };
+}
+
+export interface SelectionExpression {
+    expression: string;
+    exact: boolean; // false when the cells don't form a full grid, so the expression covers a bounding grid
+    gridSize: number; // cells covered by the expression
+}
+
+/**
+ * Describe selected cells as a slice expression: per dim, the indices used by any selected cell.
+ * The expression is exact when the selection is the full product of those per-dim indices.
+ */
+export function selectionExpression(selected: ReadonlySet<string>, shape: number[], name = 'x'): SelectionExpression | null {
+    if (selected.size === 0) return null;
+    const perDim = shape.map(() => new Set<number>());
+    for (const key of selected) {
+        parseIndexKey(key).forEach((idx, d) => perDim[d]?.add(idx));
+    }
+    const sels = perDim.map((set, d) => compactDimSelection([...set].sort((a, b) => a - b), shape[d]));
+    const gridSize = perDim.reduce((n, set) => n * set.size, 1);
+    return { expression: formatSliceExpression(sels, name), exact: gridSize === selected.size, gridSize };
+}
+
+export interface ValueSummary {
+    count: number; // finite values
+    missing: number; // undefined or NaN
+    sum: number;
+    mean: number;
+    std: number; // population standard deviation
+    min: number;
+    max: number;
+}
+
+export function summarizeValues(values: Iterable<number | undefined>): ValueSummary | null {
+    let count = 0, missing = 0, sum = 0, sumSq = 0;
+    let min = Infinity, max = -Infinity;
+    for (const v of values) {
+        if (v === undefined || Number.isNaN(v)) {
+            missing++;
+            continue;
+        }
+        count++;
+        sum += v;
+        sumSq += v * v;
+        if (v < min) min = v;
+        if (v > max) max = v;
+    }
+    if (count === 0 && missing === 0) return null;
+    const mean = count > 0 ? sum / count : NaN;
+    const std = count > 0 ? Math.sqrt(Math.max(0, sumSq / count - mean * mean)) : NaN;
+    return { count, missing, sum, mean, std, min: count > 0 ? min : NaN, max: count > 0 ? max : NaN };
+}
+
+/** Corners of the rectangle spanned by two drag points, as a polygon */
+export function rectPolygon(a: Point2, b: Point2): Point2[] {
+    return [[a[0], a[1]], [b[0], a[1]], [b[0], b[1]], [a[0], b[1]]];
+}
+
+/** Even-odd ray casting test; works for any simple or self-intersecting lasso */
+export function pointInPolygon(p: Point2, polygon: Point2[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > p[1]) !== (yj > p[1]) && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+    sampleColormap, percentile, computeValueRange, valueToColor, hexToRgb, rgbToHex,
+    DEFAULT_COLOR_SCALE,
+} from './colormap';
+
+describe('Colormaps', () => {
+    it('samples endpoints and clamps out-of-range input', () => {
+        expect(rgbToHex(sampleColormap('viridis', 0))).toBe('#440154');
+        expect(rgbToHex(sampleColormap('viridis', 1))).toBe('#fde725');
+        expect(rgbToHex(sampleColormap('grayscale', 0.5))).toBe('#808080');
+        expect(sampleColormap('magma', -3)).toEqual(sampleColormap('magma', 0));
+        expect(sampleColormap('magma', 7)).toEqual(sampleColormap('magma', 1));
+    });
+
+    it('converts hex colors', () => {
+        expect(hexToRgb('#ff0000')).toEqual([1, 0, 0]);
+        expect(hexToRgb('#0f0')).toEqual([0, 1, 0]);
+        expect(rgbToHex([0, 0, 1])).toBe('#0000ff');
+    });
+
+    it('computes percentiles with interpolation', () => {
+        const sorted = [0, 1, 2, 3, 4];
+        expect(percentile(sorted, 0)).toBe(0);
+        expect(percentile(sorted, 50)).toBe(2);
+        expect(percentile(sorted, 100)).toBe(4);
+        expect(percentile(sorted, 10)).toBeCloseTo(0.4);
+    });
+
+    it('computes auto ranges ignoring missing values', () => {
+        const range = computeValueRange([3, undefined, -1, NaN, 5], DEFAULT_COLOR_SCALE);
+        expect(range).toEqual({ min: -1, max: 5 });
+        expect(computeValueRange([undefined, NaN], DEFAULT_COLOR_SCALE)).toBeNull();
+    });
+
+    it('clips auto ranges to percentiles', () => {
+        const values = Array.from({ length: 101 }, (_, i) => i);
+        const range = computeValueRange(values, { ...DEFAULT_COLOR_SCALE, clipPercent: 5 });
+        expect(range?.min).toBeCloseTo(5);
+        expect(range?.max).toBeCloseTo(95);
+    });
+
+    it('uses manual ranges and centers diverging maps at zero', () => {
+        const manual = { ...DEFAULT_COLOR_SCALE, rangeMode: 'manual' as const, manualMin: 10, manualMax: -2 };
+        expect(computeValueRange([], manual)).toEqual({ min: -2, max: 10 });
+        expect(computeValueRange([], { ...manual, colormap: 'rdbu' })).toEqual({ min: -10, max: 10 });
+        expect(computeValueRange([-1, 4], { ...DEFAULT_COLOR_SCALE, colormap: 'rdbu' })).toEqual({ min: -4, max: 4 });
+    });
+
+    it('maps values to colors and missing values to null', () => {
+        const range = { min: -1, max: 1 };
+        expect(rgbToHex(valueToColor(0, range, 'rdbu')!)).toBe('#f7f7f7');
+        expect(valueToColor(undefined, range, 'rdbu')).toBeNull();
+        expect(valueToColor(NaN, range, 'rdbu')).toBeNull();
+        // Degenerate range maps to the middle of the colormap
+        expect(valueToColor(2, { min: 2, max: 2 }, 'grayscale')).toEqual(sampleColormap('grayscale', 0.5));
+    });
+
+    it('maps ±Infinity to the ends of the colormap rather than the NaN color', () => {
+        const range = { min: 0, max: 10 };
+        expect(rgbToHex(valueToColor(Infinity, range, 'viridis')!)).toBe('#fde725');
+        expect(rgbToHex(valueToColor(-Infinity, range, 'viridis')!)).toBe('#440154');
+        expect(valueToColor(Infinity, { min: 2, max: 2 }, 'grayscale')).toEqual([1, 1, 1]);
+        expect(sampleColormap('viridis', Infinity)).toEqual(sampleColormap('viridis', 1));
+    });
+});
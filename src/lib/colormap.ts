@@ -0,0 +1,151 @@
+export type ColormapName = 'viridis' | 'magma' | 'rdbu' | 'grayscale';
+
+export type RGB = [number, number, number]; // components in [0, 1]
+
+export interface ColorScaleSettings {
+    colormap: ColormapName;
+    rangeMode: 'auto' | 'manual';
+    manualMin: number;
+    manualMax: number;
+    clipPercent: number; // percentile clipping on each tail in auto mode (0 = plain min/max)
+    nanColor: string;
+}
+
+export interface ValueRange {
+    min: number;
+    max: number;
+}
+
+export const DEFAULT_COLOR_SCALE: ColorScaleSettings = {
+    colormap: 'viridis',
+    rangeMode: 'auto',
+    manualMin: 0,
+    manualMax: 1,
+    clipPercent: 0,
+    nanColor: '#ff00ff',
+};
+
+export const COLORMAP_LABELS: Record<ColormapName, string> = {
+    viridis: 'Viridis',
+    magma: 'Magma',
+    rdbu: 'RdBu (diverging)',
+    grayscale: 'Grayscale',
+};
+
+// Evenly spaced control points, interpolated linearly in RGB
+const COLORMAP_STOPS: Record<ColormapName, string[]> = {
+    viridis: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'],
+    magma: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'],
+    // ColorBrewer RdBu: low values red, high values blue, white at the center
+    rdbu: ['#67001f', '#b2182b', '#d6604d', '#f4a582', '#fddbc7', '#f7f7f7', '#d1e5f0', '#92c5de', '#4393c3', '#2166ac', '#053061'],
+    grayscale: ['#000000', '#ffffff'],
+};
+
+/** Colormaps whose midpoint is pinned to zero */
+export function isDiverging(name: ColormapName): boolean {
+    return name === 'rdbu';
+}
+
+export function hexToRgb(hex: string): RGB {
+    const h = hex.replace('#', '');
+    const full = h.length === 3 ? h.split('').map(c => c + c).join('') : h;
+    const n = parseInt(full, 16);
+    if (full.length !== 6 || Number.isNaN(n)) return [0, 0, 0];
+    return [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+    const to = (c: number) => Math.round(Math.max(0, Math.min(1, c)) * 255).toString(16).padStart(2, '0');
+    return `#${to(r)}${to(g)}${to(b)}`;
+}
+
+const stopCache = new Map<ColormapName, RGB[]>();
+function getStops(name: ColormapName): RGB[] {
+    let stops = stopCache.get(name);
+    if (!stops) {
+        stops = COLORMAP_STOPS[name].map(hexToRgb);
+        stopCache.set(name, stops);
+    }
+    return stops;
+}
+
+/** Sample a colormap at t ∈ [0, 1] (clamped, so ±Infinity gives the ends; NaN gives the start) */
+export function sampleColormap(name: ColormapName, t: number): RGB {
+    const stops = getStops(name);
+    const c = Number.isNaN(t) ? 0 : Math.max(0, Math.min(1, t));
+    const pos = c * (stops.length - 1);
+    const i = Math.min(Math.floor(pos), stops.length - 2);
+    const f = pos - i;
+    const a = stops[i];
+    const b = stops[i + 1];
+    return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+}
+
+/** Linear-interpolated percentile (p in [0, 100]) of an ascending sorted array */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+    if (sorted.length === 0) return NaN;
+    const pos = (Math.max(0, Math.min(100, p)) / 100) * (sorted.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Resolve the value range used for color mapping.
+ * Auto mode uses the finite values (optionally clipped to the [p, 100 - p] percentiles),
+ * manual mode uses the configured bounds. Diverging colormaps are made symmetric around zero.
+ */
+export function computeValueRange(values: Iterable<number | undefined>, settings: ColorScaleSettings): ValueRange | null {
+    let min: number;
+    let max: number;
+
+    if (settings.rangeMode === 'manual') {
+        min = settings.manualMin;
+        max = settings.manualMax;
+        if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+        if (min > max) [min, max] = [max, min];
+    } else {
+        const finite: number[] = [];
+        for (const v of values) {
+            if (v !== undefined && Number.isFinite(v)) finite.push(v);
+        }
+        if (finite.length === 0) return null;
+        finite.sort((a, b) => a - b);
+        const clip = Math.max(0, Math.min(49, settings.clipPercent));
+        min = percentile(finite, clip);
+        max = percentile(finite, 100 - clip);
+    }
+
+    if (isDiverging(settings.colormap)) {
+        const m = Math.max(Math.abs(min), Math.abs(max));
+        return { min: -m, max: m };
+    }
+    return { min, max };
+}
+
+/** Map a value to a color, returning `null` for missing/NaN values; ±Infinity take the end colors */
+export function valueToColor(value: number | undefined, range: ValueRange, name: ColormapName): RGB | null {
+    if (value === undefined || Number.isNaN(value)) return null;
+    if (!Number.isFinite(value)) return sampleColormap(name, value > 0 ? 1 : 0);
+    const span = range.max - range.min;
+    const t = span > 0 ? (value - range.min) / span : 0.5;
+    return sampleColormap(name, t);
+}
+
+/** Short tick label for legend bars */
+export function formatLegendTick(v: number): string {
+    if (v === 0) return '0';
+    const abs = Math.abs(v);
+    if (abs >= 1e4 || abs < 1e-3) return v.toExponential(2);
+    return Number(v.toPrecision(4)).toString();
+}
+
+/** CSS linear-gradient string for legend bars (left = min, right = max unless direction overridden) */
+export function colormapGradientCss(name: ColormapName, direction = 'to right', steps = 16): string {
+    const parts: string[] = [];
+    for (let i = 0; i < steps; i++) {
+        const t = i / (steps - 1);
+        parts.push(`${rgbToHex(sampleColormap(name, t))} ${(t * 100).toFixed(1)}%`);
+    }
+    return `linear-gradient(${direction}, ${parts.join(', ')})`;
+}
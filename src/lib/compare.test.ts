@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { compareTensors, diffInstances, difference, exceedsTolerance, CompareShapeError, DEFAULT_TOLERANCE } from './compare';
+import { createTensor, fortranStrides, tensorFromNested } from './tensor';
+import type { BoxInstance } from './layout';
+
+const reference = tensorFromNested([[1, 2, 3], [4, 0, 6]], [2, 3]);
+const candidate = tensorFromNested([[1, 2.5, 3], [4, 0.1, 5.9]], [2, 3]);
+
+describe('Tensor comparison', () => {
+    it('measures absolute and relative differences', () => {
+        expect(difference(2, 2.5, 'absolute')).toBe(0.5);
+        expect(difference(2, 2.5, 'relative')).toBe(0.25);
+        expect(difference(0, 0.1, 'relative')).toBe(Infinity);
+        expect(difference(0, 0, 'relative')).toBe(0);
+        expect(difference(undefined, 1, 'absolute')).toBeUndefined();
+    });
+
+    it('checks tolerances like numpy.isclose', () => {
+        expect(exceedsTolerance(1, 1 + 1e-9, DEFAULT_TOLERANCE)).toBe(false);
+        expect(exceedsTolerance(100, 100.1, { atol: 0, rtol: 1e-3 })).toBe(false);
+        expect(exceedsTolerance(100, 100.2, { atol: 0, rtol: 1e-3 })).toBe(true);
+        expect(exceedsTolerance(NaN, NaN, DEFAULT_TOLERANCE)).toBe(false);
+        expect(exceedsTolerance(1, undefined, DEFAULT_TOLERANCE)).toBe(true);
+        expect(exceedsTolerance(Infinity, Infinity, DEFAULT_TOLERANCE)).toBe(false);
+        expect(exceedsTolerance(Infinity, 5, DEFAULT_TOLERANCE)).toBe(true);
+        expect(exceedsTolerance(Infinity, -Infinity, DEFAULT_TOLERANCE)).toBe(true);
+        expect(exceedsTolerance(5, Infinity, DEFAULT_TOLERANCE)).toBe(true);
+    });
+
+    it('summarizes the largest errors and where they are', () => {
+        const summary = compareTensors(reference, candidate, { atol: 0.2, rtol: 0 });
+        expect(summary.count).toBe(6);
+        expect(summary.exceeding).toBe(1);
+        expect(summary.maxAbs).toEqual({ error: 0.5, indexPath: [0, 1], reference: 2, candidate: 2.5 });
+        expect(summary.maxRel?.indexPath).toEqual([1, 1]);
+        expect(summary.meanAbs).toBeCloseTo((0.5 + 0.1 + 0.1) / 6);
+
+        // Strided storage is compared element by element, not storage slot by storage slot
+        const fortran = createTensor(Float64Array.of(1, 4, 2, 0, 3, 6), [2, 3], 'float64', { strides: fortranStrides([2, 3]) });
+        expect(compareTensors(reference, fortran, DEFAULT_TOLERANCE).exceeding).toBe(0);
+        expect(() => compareTensors(reference, tensorFromNested([1, 2], [2]), DEFAULT_TOLERANCE)).toThrow(CompareShapeError);
+    });
+
+    it('builds diff cells with passing cells as ghosts', () => {
+        const cells: BoxInstance[] = [[0, 1], [1, 2]].map((indexPath, i) => ({ id: String(i), position: [i, 0, 0], indexPath }));
+        const [changed, passing] = diffInstances(cells, reference, candidate, 'absolute', { atol: 0.2, rtol: 0 });
+        expect(changed.value).toBe(0.5);
+        expect(changed.style).toBeUndefined();
+        expect(passing.value).toBeCloseTo(0.1);
+        expect(passing.style).toBe('ghost');
+    });
+});
@@ -0,0 +1,128 @@
+// Comparing a candidate tensor with a reference of the same shape: element differences, tolerance
+// checks following numpy.isclose, and a summary of the largest errors.
+import type { BoxInstance } from './layout';
+import { numel, tensorGet, toContiguousArray, toContiguousValid, type Tensor } from './tensor';
+import { unravelIndex } from './tensorOps';
+
+export type CompareMode = 'side-by-side' | 'diff';
+export type DiffMetric = 'absolute' | 'relative';
+
+export interface Tolerance {
+    atol: number;
+    rtol: number;
+}
+
+// Same defaults as numpy.isclose / allclose
+export const DEFAULT_TOLERANCE: Tolerance = { atol: 1e-8, rtol: 1e-5 };
+
+export class CompareShapeError extends Error {
+    constructor(reference: number[], candidate: number[]) {
+        super(`Shapes differ: reference [${reference.join(', ')}], candidate [${candidate.join(', ')}]`);
+        this.name = 'CompareShapeError';
+    }
+}
+
+/** Difference of two values; relative differences are taken against |reference| */
+export function difference(reference: number | undefined, candidate: number | undefined, metric: DiffMetric): number | undefined {
+    if (reference === undefined || candidate === undefined) return undefined;
+    const delta = Math.abs(candidate - reference);
+    if (metric === 'absolute' || delta === 0) return delta;
+    return delta / Math.abs(reference); // Infinity against a zero reference
+}
+
+/**
+ * Whether |candidate - reference| > atol + rtol * |reference|. Values missing or NaN on one side
+ * only always exceed; on both sides they match, as do equal infinities.
+ */
+export function exceedsTolerance(reference: number | undefined, candidate: number | undefined, tolerance: Tolerance): boolean {
+    const refMissing = reference === undefined || Number.isNaN(reference);
+    const candMissing = candidate === undefined || Number.isNaN(candidate);
+    if (refMissing || candMissing) return refMissing !== candMissing;
+    if (reference === candidate) return false;
+    // An infinity only matches the same infinity, as in numpy.isclose
+    if (!Number.isFinite(reference) || !Number.isFinite(candidate)) return true;
+    return !(Math.abs(candidate! - reference!) <= tolerance.atol + tolerance.rtol * Math.abs(reference!));
+}
+
+/** Largest error and where it occurs */
+export interface ErrorLocation {
+    error: number;
+    indexPath: number[];
+    reference: number;
+    candidate: number;
+}
+
+export interface CompareSummary {
+    count: number; // elements
+    exceeding: number; // outside the tolerance, including values missing on one side
+    meanAbs: number; // over the elements present in both
+    maxAbs: ErrorLocation | null;
+    maxRel: ErrorLocation | null;
+}
+
+/** Compares every element (not just the displayed cells) of two tensors of the same shape */
+export function compareTensors(reference: Tensor, candidate: Tensor, tolerance: Tolerance): CompareSummary {
+    if (reference.shape.join(',') !== candidate.shape.join(',')) throw new CompareShapeError(reference.shape, candidate.shape);
+    const n = numel(reference.shape);
+    const ref = toContiguousArray(reference);
+    const cand = toContiguousArray(candidate);
+    const refValid = toContiguousValid(reference);
+    const candValid = toContiguousValid(candidate);
+
+    let exceeding = 0, compared = 0, sumAbs = 0;
+    let maxAbs = -1, maxAbsAt = -1, maxRel = -1, maxRelAt = -1;
+    for (let i = 0; i < n; i++) {
+        const r = !refValid || refValid[i] ? ref[i] : undefined;
+        const c = !candValid || candValid[i] ? cand[i] : undefined;
+        if (exceedsTolerance(r, c, tolerance)) exceeding++;
+        const abs = difference(r, c, 'absolute');
+        if (abs === undefined || Number.isNaN(abs)) continue;
+        compared++;
+        sumAbs += abs;
+        if (abs > maxAbs) {
+            maxAbs = abs;
+            maxAbsAt = i;
+        }
+        const rel = difference(r, c, 'relative')!;
+        if (rel > maxRel) {
+            maxRel = rel;
+            maxRelAt = i;
+        }
+    }
+
+    const location = (error: number, i: number): ErrorLocation | null => (i < 0 ? null : {
+        error,
+        indexPath: unravelIndex(i, reference.shape),
+        reference: ref[i],
+        candidate: cand[i],
+    });
+    return {
+        count: n,
+        exceeding,
+        meanAbs: compared > 0 ? sumAbs / compared : NaN,
+        maxAbs: location(maxAbs, maxAbsAt),
+        maxRel: location(maxRel, maxRelAt),
+    };
+}
+
+/**
+ * Cells of the diff grid: each cell's value is its difference, and cells within the tolerance
+ * are drawn as ghosts so the ones exceeding it stand out.
+ */
+export function diffInstances(
+    instances: BoxInstance[],
+    reference: Tensor,
+    candidate: Tensor,
+    metric: DiffMetric,
+    tolerance: Tolerance,
+): BoxInstance[] {
+    return instances.map(inst => {
+        const r = tensorGet(reference, inst.indexPath);
+        const c = tensorGet(candidate, inst.indexPath);
+        return {
+            ...inst,
+            value: difference(r, c, metric),
+            style: exceedsTolerance(r, c, tolerance) ? undefined : 'ghost',
+        };
+    });
+}
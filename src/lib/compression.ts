@@ -0,0 +1,20 @@
+// Raw DEFLATE via the built-in Compression Streams API (used by .npz members and share links).
+
+function streamOf(data: Uint8Array): ReadableStream<BufferSource> {
+    return new ReadableStream<BufferSource>({
+        start(controller) {
+            controller.enqueue(data as Uint8Array<ArrayBuffer>);
+            controller.close();
+        },
+    });
+}
+
+export async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = streamOf(data).pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = streamOf(data).pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
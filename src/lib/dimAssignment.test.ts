@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+    presetAssignment, normalizeAssignment, assignSpatial, assignTile, moveTile, setTileAxis,
+    tileDimsByAxis, outerDimsOf, assignmentsEqual,
+} from './dimAssignment';
+import { computeLayout } from './layout';
+
+describe('Dimension assignment', () => {
+    it('builds presets matching the dimension order buttons', () => {
+        expect(presetAssignment(4, 'first-to-last')).toEqual({
+            spatial: [1, 0, 2],
+            tiles: [{ dim: 3, axis: 'y' }],
+        });
+        const last = presetAssignment(6, 'last-to-first');
+        expect(last.spatial).toEqual([4, 5, 3]);
+        expect(last.tiles).toEqual([{ dim: 0, axis: 'y' }, { dim: 1, axis: 'x' }, { dim: 2, axis: 'z' }]);
+        expect(presetAssignment(1, 'first-to-last').spatial).toEqual([null, 0, null]);
+    });
+
+    it('normalizes assignments for a rank', () => {
+        const a = normalizeAssignment({ spatial: [5, 0, 0], tiles: [{ dim: 1, axis: 'x' }] }, 4);
+        expect(a.spatial).toEqual([null, 0, null]);
+        expect(a.tiles).toEqual([{ dim: 1, axis: 'x' }, { dim: 2, axis: 'x' }, { dim: 3, axis: 'z' }]);
+    });
+
+    it('keeps the dim of a tile with an invalid axis', () => {
+        // e.g. from a hand-edited settings file or URL hash
+        const tiles = [{ dim: 2, axis: 'w' as 'x' }, { dim: 3, axis: 'y' as const }];
+        const a = normalizeAssignment({ spatial: [1, 0, null], tiles }, 4);
+        expect(a.spatial).toEqual([1, 0, null]);
+        expect(a.tiles).toEqual([{ dim: 3, axis: 'y' }, { dim: 2, axis: 'x' }]);
+    });
+
+    it('swaps dims when assigning a spatial axis', () => {
+        const base = presetAssignment(4, 'first-to-last'); // X=1, Y=0, Z=2, tiles [3→y]
+        const swapped = assignSpatial(base, 2, 0);
+        expect(swapped.spatial).toEqual([2, 0, 1]);
+
+        const fromTile = assignSpatial(base, 3, 1);
+        expect(fromTile.spatial).toEqual([1, 3, 2]);
+        expect(fromTile.tiles).toEqual([{ dim: 0, axis: 'y' }]);
+    });
+
+    it('moves dims into tiles and reorders nesting', () => {
+        const base = presetAssignment(4, 'first-to-last');
+        const tiled = assignTile(base, 2, 'x');
+        expect(tiled.spatial).toEqual([1, 0, null]);
+        expect(tiled.tiles).toEqual([{ dim: 3, axis: 'y' }, { dim: 2, axis: 'x' }]);
+
+        const inner = assignTile(tiled, 2, 'z', 0);
+        expect(inner.tiles).toEqual([{ dim: 2, axis: 'z' }, { dim: 3, axis: 'y' }]);
+
+        expect(moveTile(inner, 0, 1).tiles.map(t => t.dim)).toEqual([3, 2]);
+        expect(moveTile(inner, 0, 5)).toBe(inner);
+        expect(setTileAxis(inner, 1, 'x').tiles[1]).toEqual({ dim: 3, axis: 'x' });
+        expect(outerDimsOf(inner)).toEqual([2, 3]);
+        expect(assignmentsEqual(inner, { spatial: [1, 0, null], tiles: [{ dim: 2, axis: 'z' }, { dim: 3, axis: 'y' }] })).toBe(true);
+    });
+
+    it('groups tile dims by axis for the triad labels', () => {
+        expect(tileDimsByAxis([{ dim: 0, axis: 'y' }, { dim: 1, axis: 'x' }, { dim: 4, axis: 'y' }]))
+            .toEqual({ x: [1], y: [0, 4], z: [] });
+    });
+
+    it('lays out explicit tile assignments', () => {
+        // Shape [2, 3]: dim 1 spatial along X, dim 0 tiled along X instead of the default Y
+        const layout = computeLayout({
+            shape: [2, 3],
+            spatialDims: [1, null, null],
+            outerDims: [0],
+            tileAssignments: [{ dim: 0, axis: 'x' }],
+            mode: 'tiling',
+            sliceIndices: {},
+            maxCellsPerDim: 8,
+        });
+        const ys = new Set(layout.map(l => l.position[1]));
+        expect(ys.size).toBe(1);
+        // Block of 3 cells + spacing 2 → second tile starts 5 cells further along X
+        const first = layout.find(l => l.id === '0,0')!;
+        const second = layout.find(l => l.id === '1,0')!;
+        expect(second.position[0] - first.position[0]).toBe(5);
+    });
+});
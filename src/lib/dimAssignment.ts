@@ -0,0 +1,141 @@
+// Mapping of tensor dimensions onto the X/Y/Z spatial axes and the ordered tiling axes.
+import { computeLayout, defaultTileAssignments, type Axis, type BoxInstance, type TileAssignment } from './layout';
+import type { Tensor } from './tensor';
+
+export type SpatialDims = [number | null, number | null, number | null]; // X, Y, Z
+
+export interface DimAssignment {
+    spatial: SpatialDims;
+    tiles: TileAssignment[]; // nesting order, innermost first
+}
+
+export type DimOrderPreset = 'first-to-last' | 'last-to-first';
+
+export const AXES: Axis[] = ['x', 'y', 'z'];
+
+/** Preset assignment: three spatial dims taken from the front or back, the rest tiled in the Y → X → Z cycle */
+export function presetAssignment(rank: number, order: DimOrderPreset): DimAssignment {
+    const spatial: SpatialDims = order === 'first-to-last'
+        ? [
+            rank >= 2 ? 1 : null, // X
+            rank >= 1 ? 0 : null, // Y
+            rank >= 3 ? 2 : null, // Z
+        ]
+        : [
+            rank >= 2 ? rank - 2 : null, // X
+            rank >= 1 ? rank - 1 : null, // Y
+            rank >= 3 ? rank - 3 : null, // Z
+        ];
+    const outer = Array.from({ length: rank }, (_, i) => i).filter(d => !spatial.includes(d));
+    return { spatial, tiles: defaultTileAssignments(outer) };
+}
+
+export interface PresetLayoutOptions {
+    dimOrder: DimOrderPreset;
+    maxCellsPerDim: number;
+    tensor?: Tensor; // fills in cell values
+}
+
+/** Fully tiled layout of a bare shape with a preset assignment, for side views (op results, broadcast operands, ...) */
+export function presetLayout(shape: number[], { dimOrder, maxCellsPerDim, tensor }: PresetLayoutOptions): BoxInstance[] {
+    const assignment = presetAssignment(shape.length, dimOrder);
+    return computeLayout({
+        shape,
+        spatialDims: assignment.spatial,
+        outerDims: assignment.tiles.map(t => t.dim),
+        tileAssignments: assignment.tiles,
+        mode: 'tiling',
+        sliceIndices: {},
+        maxCellsPerDim,
+        tensor,
+    });
+}
+
+/**
+ * Make an assignment valid for a rank: drop out-of-range and duplicate dims,
+ * then append any unassigned dims as tiles continuing the default cycle.
+ */
+export function normalizeAssignment(a: DimAssignment, rank: number): DimAssignment {
+    const seen = new Set<number>();
+    const take = (d: number | null) => {
+        if (d === null || !Number.isInteger(d) || d < 0 || d >= rank || seen.has(d)) return null;
+        seen.add(d);
+        return d;
+    };
+    const spatial = a.spatial.map(take) as SpatialDims;
+    // Check the axis first so a dim of a tile with an invalid axis is re-added by the missing pass
+    const tiles = a.tiles.filter(t => AXES.includes(t.axis) && take(t.dim) !== null);
+    const missing = Array.from({ length: rank }, (_, i) => i).filter(d => !seen.has(d));
+    const cycle: Axis[] = ['y', 'x', 'z'];
+    missing.forEach(dim => tiles.push({ dim, axis: cycle[tiles.length % 3] }));
+    return { spatial, tiles };
+}
+
+/** Dims that are not mapped to a spatial axis, in tile nesting order */
+export function outerDimsOf(a: DimAssignment): number[] {
+    return a.tiles.map(t => t.dim);
+}
+
+/** Tiled dims grouped by the axis they repeat along, innermost first */
+export function tileDimsByAxis(tiles: TileAssignment[]): Record<Axis, number[]> {
+    const out: Record<Axis, number[]> = { x: [], y: [], z: [] };
+    for (const t of tiles) out[t.axis].push(t.dim);
+    return out;
+}
+
+type Location = { kind: 'spatial'; axis: number } | { kind: 'tile'; index: number };
+
+function locate(a: DimAssignment, dim: number): Location | null {
+    const axis = a.spatial.indexOf(dim);
+    if (axis >= 0) return { kind: 'spatial', axis };
+    const index = a.tiles.findIndex(t => t.dim === dim);
+    return index >= 0 ? { kind: 'tile', index } : null;
+}
+
+/** Put `dim` on a spatial axis (0 = X, 1 = Y, 2 = Z); the previous occupant takes the dim's old place */
+export function assignSpatial(a: DimAssignment, dim: number, axisIndex: number): DimAssignment {
+    const from = locate(a, dim);
+    const spatial = [...a.spatial] as SpatialDims;
+    const tiles = a.tiles.map(t => ({ ...t }));
+    const occupant = spatial[axisIndex];
+    if (occupant === dim) return a;
+
+    if (from?.kind === 'spatial') {
+        spatial[from.axis] = occupant;
+    } else if (from?.kind === 'tile') {
+        if (occupant !== null) tiles[from.index].dim = occupant;
+        else tiles.splice(from.index, 1);
+    } else if (occupant !== null) {
+        tiles.push({ dim: occupant, axis: 'y' });
+    }
+    spatial[axisIndex] = dim;
+    return { spatial, tiles };
+}
+
+/** Tile `dim` along `axis`, inserted at `index` in the nesting order (default: outermost) */
+export function assignTile(a: DimAssignment, dim: number, axis: Axis, index?: number): DimAssignment {
+    const spatial = a.spatial.map(d => (d === dim ? null : d)) as SpatialDims;
+    const tiles = a.tiles.filter(t => t.dim !== dim);
+    const at = Math.max(0, Math.min(index ?? tiles.length, tiles.length));
+    tiles.splice(at, 0, { dim, axis });
+    return { spatial, tiles };
+}
+
+/** Move a tile entry to a new position in the nesting order */
+export function moveTile(a: DimAssignment, from: number, to: number): DimAssignment {
+    if (from < 0 || from >= a.tiles.length || to < 0 || to >= a.tiles.length) return a;
+    const tiles = [...a.tiles];
+    const [entry] = tiles.splice(from, 1);
+    tiles.splice(to, 0, entry);
+    return { spatial: a.spatial, tiles };
+}
+
+export function setTileAxis(a: DimAssignment, index: number, axis: Axis): DimAssignment {
+    return { spatial: a.spatial, tiles: a.tiles.map((t, i) => (i === index ? { ...t, axis } : t)) };
+}
+
+export function assignmentsEqual(a: DimAssignment, b: DimAssignment): boolean {
+    return a.spatial.every((d, i) => d === b.spatial[i])
+        && a.tiles.length === b.tiles.length
+        && a.tiles.every((t, i) => t.dim === b.tiles[i].dim && t.axis === b.tiles[i].axis);
+}
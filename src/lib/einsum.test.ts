@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseEinsum, bindEinsumShapes, contributesTo, einsumFormula, einsumLayouts, letterColors,
+    EinsumError, EINSUM_OUTPUT_GROUP,
+} from './einsum';
+
+describe('Einsum', () => {
+    it('parses explicit and implicit outputs', () => {
+        expect(parseEinsum('bhqd,bhkd->bhqk')).toEqual({
+            inputs: ['bhqd', 'bhkd'],
+            output: 'bhqk',
+            letters: ['b', 'h', 'q', 'd', 'k'],
+            contracted: ['d'],
+        });
+        expect(parseEinsum(' ij , jk ').output).toBe('ik');
+        expect(parseEinsum('ij,jk').contracted).toEqual(['j']);
+        expect(parseEinsum('ii->i').inputs).toEqual(['ii']);
+        expect(parseEinsum('ij->').contracted).toEqual(['i', 'j']);
+    });
+
+    it('rejects malformed expressions', () => {
+        expect(() => parseEinsum('')).toThrow(EinsumError);
+        expect(() => parseEinsum('ij,jk->ik->i')).toThrow(/Only one '->'/);
+        expect(() => parseEinsum('ij,->i')).toThrow(/Operand 2 has no indices/);
+        expect(() => parseEinsum('i1,jk')).toThrow(/Invalid character '1'/);
+        expect(() => parseEinsum('...ij,jk')).toThrow(/Ellipsis/);
+        expect(() => parseEinsum('ij,jk->iz')).toThrow(/'z' does not appear/);
+        expect(() => parseEinsum('ij,jk->ii')).toThrow(/must not repeat/);
+    });
+
+    it('binds shapes to index sizes', () => {
+        const spec = parseEinsum('bhqd,bhkd->bhqk');
+        const { sizes, outputShape } = bindEinsumShapes(spec, [[2, 4, 8, 16], [2, 4, 6, 16]]);
+        expect(sizes).toEqual({ b: 2, h: 4, q: 8, d: 16, k: 6 });
+        expect(outputShape).toEqual([2, 4, 8, 6]);
+
+        expect(() => bindEinsumShapes(spec, [[2, 4, 8, 16]])).toThrow(/2 operands but 1 shapes/);
+        expect(() => bindEinsumShapes(spec, [[2, 4, 8], [2, 4, 6, 16]])).toThrow(/Operand 1 \('bhqd'\) has 4 indices but shape \[2, 4, 8\] has 3 dims/);
+        expect(() => bindEinsumShapes(spec, [[2, 4, 8, 16], [2, 4, 6, 32]])).toThrow(/Index 'd' has size 16 in operand 1 but 32 in operand 2/);
+    });
+
+    it('finds the input cells contributing to an output cell', () => {
+        const spec = parseEinsum('ij,jk->ik');
+        // out[1, 2] = Σ_j A[1, j] · B[j, 2]
+        expect(contributesTo(spec, 0, [1, 0], [1, 2])).toBe(true);
+        expect(contributesTo(spec, 0, [0, 0], [1, 2])).toBe(false);
+        expect(contributesTo(spec, 1, [3, 2], [1, 2])).toBe(true);
+        expect(contributesTo(spec, 1, [3, 1], [1, 2])).toBe(false);
+
+        // Repeated letters only match on the diagonal
+        const trace = parseEinsum('ii->');
+        expect(contributesTo(trace, 0, [2, 2], [])).toBe(true);
+        expect(contributesTo(trace, 0, [1, 2], [])).toBe(false);
+    });
+
+    it('writes the formula and assigns letter colors', () => {
+        const spec = parseEinsum('bhqd,bhkd->bhqk');
+        expect(einsumFormula(spec, ['Q', 'K'])).toBe('out[b,h,q,k] = Σ_d Q[b,h,q,d] · K[b,h,k,d]');
+        expect(einsumFormula(parseEinsum('ij->ji'), ['A'])).toBe('out[j,i] = A[i,j]');
+        const colors = letterColors(spec);
+        expect(Object.keys(colors)).toEqual(spec.letters);
+        expect(new Set(Object.values(colors)).size).toBe(5);
+    });
+
+    it('lays out operands and output as named groups', () => {
+        const layouts = einsumLayouts([[2, 3], [3, 4]], [2, 4], { dimOrder: 'first-to-last', maxCellsPerDim: 8 });
+        expect(layouts.map(l => l.length)).toEqual([6, 12, 8]);
+        expect(layouts.map(l => l[0].group)).toEqual(['A', 'B', EINSUM_OUTPUT_GROUP]);
+        expect(layouts[2][0].id).toBe('Out:0,0');
+        expect(einsumLayouts([[3, 3]], [], { dimOrder: 'first-to-last', maxCellsPerDim: 8 })[1].length).toBe(1);
+    });
+});
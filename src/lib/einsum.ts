@@ -0,0 +1,129 @@
+// Einsum expressions (`bhqd,bhkd->bhqk`): parsing, shape binding and cell correspondence.
+import type { BoxInstance } from './layout';
+import { presetLayout, type PresetLayoutOptions } from './dimAssignment';
+import { operandName } from './broadcast';
+
+export interface EinsumSpec {
+    inputs: string[]; // index letters per operand
+    output: string;
+    letters: string[]; // every index letter, in order of first appearance
+    contracted: string[]; // letters summed over (not in the output)
+}
+
+export class EinsumError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EinsumError';
+    }
+}
+
+const LETTER = /^[A-Za-z]$/;
+
+function checkTerm(term: string, what: string): void {
+    if (term.includes('.')) throw new EinsumError('Ellipsis (...) is not supported; name every index');
+    for (const ch of term) {
+        if (!LETTER.test(ch)) throw new EinsumError(`Invalid character '${ch}' in ${what}; use letters a–z, A–Z`);
+    }
+}
+
+/**
+ * Parse an einsum expression. Without `->` the output is, as in NumPy, every letter that
+ * appears exactly once, in alphabetical order.
+ */
+export function parseEinsum(expr: string): EinsumSpec {
+    const compact = expr.replace(/\s+/g, '');
+    if (!compact) throw new EinsumError('Enter an expression like bhqd,bhkd->bhqk');
+    const arrows = compact.split('->');
+    if (arrows.length > 2) throw new EinsumError("Only one '->' is allowed");
+
+    const inputs = arrows[0].split(',');
+    inputs.forEach((term, i) => {
+        if (!term) throw new EinsumError(`Operand ${i + 1} has no indices`);
+        checkTerm(term, `operand ${i + 1}`);
+    });
+
+    const counts = new Map<string, number>();
+    for (const ch of inputs.join('')) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+    const letters = [...counts.keys()];
+
+    let output: string;
+    if (arrows.length === 2) {
+        output = arrows[1];
+        checkTerm(output, 'the output');
+        for (const ch of output) {
+            if (!counts.has(ch)) throw new EinsumError(`Output index '${ch}' does not appear in any operand`);
+        }
+        if (new Set(output).size !== output.length) throw new EinsumError('Output indices must not repeat');
+    } else {
+        output = letters.filter(ch => counts.get(ch) === 1).sort().join('');
+    }
+
+    return { inputs, output, letters, contracted: letters.filter(ch => !output.includes(ch)) };
+}
+
+/** Bind operand shapes to index sizes; every occurrence of a letter must have the same size */
+export function bindEinsumShapes(spec: EinsumSpec, shapes: number[][]): { sizes: Record<string, number>; outputShape: number[] } {
+    if (shapes.length !== spec.inputs.length) {
+        throw new EinsumError(`The expression has ${spec.inputs.length} operands but ${shapes.length} shapes were given`);
+    }
+    const sizes: Record<string, number> = {};
+    const seenIn: Record<string, number> = {};
+    spec.inputs.forEach((term, i) => {
+        const shape = shapes[i];
+        if (shape.length !== term.length) {
+            throw new EinsumError(`Operand ${i + 1} ('${term}') has ${term.length} indices but shape [${shape.join(', ')}] has ${shape.length} dims`);
+        }
+        [...term].forEach((ch, d) => {
+            if (sizes[ch] === undefined) {
+                sizes[ch] = shape[d];
+                seenIn[ch] = i;
+            } else if (sizes[ch] !== shape[d]) {
+                throw new EinsumError(`Index '${ch}' has size ${sizes[ch]} in operand ${seenIn[ch] + 1} but ${shape[d]} in operand ${i + 1}`);
+            }
+        });
+    });
+    return { sizes, outputShape: [...spec.output].map(ch => sizes[ch]) };
+}
+
+/**
+ * Whether a cell of an operand contributes to an output cell: every index letter the two share
+ * must agree, and repeated letters within the operand (diagonals) must agree with each other.
+ */
+export function contributesTo(spec: EinsumSpec, operand: number, operandIndex: number[], outputIndex: number[]): boolean {
+    const term = spec.inputs[operand];
+    const bound = new Map<string, number>();
+    for (let d = 0; d < spec.output.length; d++) bound.set(spec.output[d], outputIndex[d]);
+    for (let d = 0; d < term.length; d++) {
+        const ch = term[d];
+        const expected = bound.get(ch);
+        if (expected === undefined) bound.set(ch, operandIndex[d]);
+        else if (expected !== operandIndex[d]) return false;
+    }
+    return true;
+}
+
+export const EINSUM_OUTPUT_GROUP = 'Out';
+
+/** Layouts of each operand (groups A, B, ...) followed by the output; a scalar output is one cell */
+export function einsumLayouts(shapes: number[][], outputShape: number[], options: PresetLayoutOptions): BoxInstance[][] {
+    const groups = [...shapes.map((_, i) => operandName(i)), EINSUM_OUTPUT_GROUP];
+    return [...shapes, outputShape.length > 0 ? outputShape : [1]].map((shape, i) =>
+        presetLayout(shape, options).map(inst => ({ ...inst, id: `${groups[i]}:${inst.id}`, group: groups[i] })));
+}
+
+/** Written formula, e.g. `out[b,h,q,k] = Σ_d A[b,h,q,d] · B[b,h,k,d]` */
+export function einsumFormula(spec: EinsumSpec, names: string[]): string {
+    const sum = spec.contracted.length > 0 ? `Σ_${spec.contracted.join('')} ` : '';
+    const factors = spec.inputs.map((term, i) => `${names[i]}[${[...term].join(',')}]`).join(' · ');
+    return `out[${[...spec.output].join(',')}] = ${sum}${factors}`;
+}
+
+// Distinct, readable colors on a dark background, assigned to index letters in order of appearance
+const LETTER_PALETTE = [
+    '#f59e0b', '#10b981', '#3b82f6', '#ec4899', '#a855f7', '#14b8a6',
+    '#f97316', '#84cc16', '#06b6d4', '#f43f5e', '#8b5cf6', '#eab308',
+];
+
+export function letterColors(spec: EinsumSpec): Record<string, string> {
+    return Object.fromEntries(spec.letters.map((ch, i) => [ch, LETTER_PALETTE[i % LETTER_PALETTE.length]]));
+}
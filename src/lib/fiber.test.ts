@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { fiberKey, fiberGroups } from './fiber';
+
+const grid = (rows: number, cols: number) =>
+    Array.from({ length: rows * cols }, (_, i) => [Math.floor(i / cols), i % cols]);
+
+describe('Fibers', () => {
+    it('blanks the chosen dims in the key', () => {
+        expect(fiberKey([1, 2, 3], [1])).toBe('1,*,3');
+        expect(fiberKey([1, 2, 3], [0, 2])).toBe('*,2,*');
+        expect(fiberKey([1, 2, 3], [])).toBe('1,2,3');
+    });
+
+    it('groups cells along one dim (rows and columns)', () => {
+        const paths = grid(2, 3); // [0,0] [0,1] [0,2] [1,0] [1,1] [1,2]
+        const alongCols = fiberGroups(paths, [1]);
+        expect(alongCols[4]).toEqual([3, 4, 5]);
+        expect(alongCols[3]).toBe(alongCols[5]);
+        expect(fiberGroups(paths, [0])[1]).toEqual([1, 4]);
+    });
+
+    it('groups whole slices along several dims', () => {
+        const paths = [[0, 0, 0], [0, 1, 1], [1, 0, 0], [1, 1, 0]];
+        expect(fiberGroups(paths, [1, 2])[1]).toEqual([0, 1]);
+        expect(fiberGroups(paths, [0, 1, 2])[3]).toEqual([0, 1, 2, 3]);
+        expect(fiberGroups(paths, [])[2]).toEqual([2]);
+    });
+});
@@ -0,0 +1,25 @@
+// Fibers and slices: cells that share every index except along chosen dims — the cells that
+// `sum(dim=k)` (or a reduction over several dims) combines into one output.
+
+/** Index path with the chosen dims blanked out; cells in the same fiber share this key */
+export function fiberKey(indexPath: ArrayLike<number>, dims: readonly number[]): string {
+    return Array.from(indexPath, (idx, d) => (dims.includes(d) ? '*' : idx)).join(',');
+}
+
+/**
+ * For each cell, the ids of all cells in its fiber along `dims` (including itself).
+ * Cells of one fiber share a single array, so hover lookups are O(1) and memory stays linear.
+ */
+export function fiberGroups(indexPaths: ArrayLike<number>[], dims: readonly number[]): number[][] {
+    const byKey = new Map<string, number[]>();
+    return indexPaths.map((path, i) => {
+        const key = fiberKey(path, dims);
+        let group = byKey.get(key);
+        if (!group) {
+            group = [];
+            byKey.set(key, group);
+        }
+        group.push(i);
+        return group;
+    });
+}
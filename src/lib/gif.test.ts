@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { lzwEncode, quantize, GifEncoder } from './gif';
+
+// Reference GIF LZW decoder
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const out: number[] = [];
+    let table: number[][] = [];
+    let codeSize = minCodeSize + 1;
+    let prev: number[] | null = null;
+    let bitPos = 0;
+    const read = () => {
+        let code = 0;
+        for (let i = 0; i < codeSize; i++, bitPos++) code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << i;
+        return code;
+    };
+    const reset = () => {
+        table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+        codeSize = minCodeSize + 1;
+        prev = null;
+    };
+    reset();
+    for (;;) {
+        const code = read();
+        if (code === clearCode) { reset(); continue; }
+        if (code === endCode) break;
+        let entry: number[];
+        if (code < table.length) entry = table[code];
+        else entry = [...prev!, prev![0]];
+        out.push(...entry);
+        if (prev) {
+            table.push([...prev, entry[0]]);
+            if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+        }
+        prev = entry;
+    }
+    return out;
+}
+
+const rgba = (pixels: [number, number, number][]) => Uint8Array.from(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+describe('GIF encoder', () => {
+    it('round-trips LZW data, including table resets', () => {
+        const short = Uint8Array.from([1, 1, 1, 2, 1, 1, 2, 2, 0]);
+        expect(lzwDecode(lzwEncode(short, 8), 8)).toEqual([...short]);
+
+        // Pseudo-random data fills the 4096-entry table several times
+        let seed = 7;
+        const long = Uint8Array.from({ length: 20000 }, () => (seed = (seed * 1103515245 + 12345) % 2147483648) % 200);
+        expect(lzwDecode(lzwEncode(long, 8), 8)).toEqual([...long]);
+    });
+
+    it('keeps the colors of flat images exact', () => {
+        const pixels: [number, number, number][] = [[255, 0, 0], [0, 0, 255], [255, 0, 0], [9, 9, 11]];
+        const { palette, indices } = quantize(rgba(pixels));
+        indices.forEach((index, p) => expect([...palette.subarray(index * 3, index * 3 + 3)]).toEqual(pixels[p]));
+        expect(indices[0]).toBe(0); // the most frequent color comes first
+    });
+
+    it('writes a looping GIF89a with one image per frame', () => {
+        const encoder = new GifEncoder(2, 1, { delayMs: 100 });
+        encoder.addFrame(rgba([[0, 0, 0], [255, 255, 255]]));
+        encoder.addFrame(rgba([[255, 255, 255], [0, 0, 0]]));
+        const gif = encoder.finish();
+        const text = new TextDecoder('latin1').decode(gif);
+        expect(text.startsWith('GIF89a')).toBe(true);
+        expect(text).toContain('NETSCAPE2.0');
+        expect(gif[gif.length - 1]).toBe(0x3b);
+        expect([...gif].filter((b, i) => b === 0xf9 && gif[i - 1] === 0x21)).toHaveLength(2);
+        expect(() => encoder.addFrame(new Uint8Array(4))).toThrow(/RGBA/);
+    });
+});
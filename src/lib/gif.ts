@@ -0,0 +1,196 @@
+// Minimal animated GIF encoder: each frame gets its own 256-color palette (a local color table),
+// so frames are encoded as they arrive and never need to be kept in memory.
+
+export interface QuantizedFrame {
+    palette: Uint8Array; // 256 RGB triplets
+    indices: Uint8Array; // palette index per pixel
+}
+
+// Colors are bucketed by their top 5 bits per channel (32768 buckets)
+const BUCKET_BITS = 5;
+const BUCKETS = 1 << (3 * BUCKET_BITS);
+const bucketOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/**
+ * Reduces RGBA pixels to at most 256 colors: the most frequent buckets become the palette (each
+ * the average of its pixels) and every pixel maps to the nearest palette color. The flat-shaded
+ * cubes of the scene use few colors, so this keeps them exact; alpha is ignored.
+ */
+export function quantize(rgba: Uint8Array | Uint8ClampedArray): QuantizedFrame {
+    const counts = new Uint32Array(BUCKETS);
+    const sums = new Float64Array(BUCKETS * 3);
+    const pixelCount = rgba.length / 4;
+    for (let p = 0; p < pixelCount; p++) {
+        const r = rgba[p * 4], g = rgba[p * 4 + 1], b = rgba[p * 4 + 2];
+        const key = bucketOf(r, g, b);
+        counts[key]++;
+        sums[key * 3] += r;
+        sums[key * 3 + 1] += g;
+        sums[key * 3 + 2] += b;
+    }
+
+    const used: number[] = [];
+    for (let key = 0; key < BUCKETS; key++) if (counts[key] > 0) used.push(key);
+    const chosen = [...used].sort((a, b) => counts[b] - counts[a] || a - b).slice(0, 256);
+
+    const palette = new Uint8Array(256 * 3);
+    chosen.forEach((key, i) => {
+        for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sums[key * 3 + c] / counts[key]);
+    });
+
+    // Nearest palette entry for every bucket that occurs
+    const lookup = new Uint8Array(BUCKETS);
+    for (const key of used) {
+        const r = ((key >> 10) & 31) << 3 | 4, g = ((key >> 5) & 31) << 3 | 4, b = (key & 31) << 3 | 4;
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let i = 0; i < chosen.length; i++) {
+            const dr = palette[i * 3] - r, dg = palette[i * 3 + 1] - g, db = palette[i * 3 + 2] - b;
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = i;
+            }
+        }
+        lookup[key] = best;
+    }
+    chosen.forEach((key, i) => { lookup[key] = i; });
+
+    const indices = new Uint8Array(pixelCount);
+    for (let p = 0; p < pixelCount; p++) indices[p] = lookup[bucketOf(rgba[p * 4], rgba[p * 4 + 1], rgba[p * 4 + 2])];
+    return { palette, indices };
+}
+
+/** GIF flavored LZW: variable code width up to 12 bits, least significant bit first */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const out: number[] = [];
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+    let buffer = 0;
+    let bits = 0;
+
+    const emit = (code: number) => {
+        buffer |= code << bits;
+        bits += codeSize;
+        while (bits >= 8) {
+            out.push(buffer & 0xff);
+            buffer >>>= 8;
+            bits -= 8;
+        }
+    };
+
+    emit(clearCode);
+    if (indices.length === 0) {
+        emit(endCode);
+        if (bits > 0) out.push(buffer & 0xff);
+        return Uint8Array.from(out);
+    }
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = (prefix << 8) | k;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === 4096) {
+            // Table full: start over
+            emit(clearCode);
+            table = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = k;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bits > 0) out.push(buffer & 0xff);
+    return Uint8Array.from(out);
+}
+
+export interface GifOptions {
+    delayMs: number; // per frame; GIF stores centiseconds
+    loop?: boolean; // repeat forever (default)
+}
+
+/** Streams frames into an animated GIF */
+export class GifEncoder {
+    private chunks: Uint8Array[] = [];
+    private readonly width: number;
+    private readonly height: number;
+    private readonly delay: number;
+
+    constructor(width: number, height: number, options: GifOptions) {
+        this.width = width;
+        this.height = height;
+        this.delay = Math.max(2, Math.round(options.delayMs / 10)); // browsers slow down shorter delays
+        const header = [
+            ...ascii('GIF89a'),
+            ...u16(width), ...u16(height),
+            0, 0, 0, // no global color table, background index, pixel aspect
+        ];
+        if (options.loop ?? true) {
+            header.push(0x21, 0xff, 0x0b, ...ascii('NETSCAPE2.0'), 0x03, 0x01, ...u16(0), 0x00);
+        }
+        this.chunks.push(Uint8Array.from(header));
+    }
+
+    /** Adds a frame of width × height RGBA pixels */
+    addFrame(rgba: Uint8Array | Uint8ClampedArray): void {
+        if (rgba.length !== this.width * this.height * 4) {
+            throw new Error(`Expected ${this.width} × ${this.height} RGBA pixels, got ${rgba.length / 4}`);
+        }
+        const { palette, indices } = quantize(rgba);
+        const data = lzwEncode(indices, 8);
+        this.chunks.push(Uint8Array.from([
+            0x21, 0xf9, 0x04, 0x00, ...u16(this.delay), 0x00, 0x00, // graphic control: delay, no transparency
+            0x2c, ...u16(0), ...u16(0), ...u16(this.width), ...u16(this.height), 0x87, // image with a 256-entry local table
+        ]));
+        this.chunks.push(palette);
+        this.chunks.push(Uint8Array.of(8));
+        this.chunks.push(subBlocks(data));
+    }
+
+    finish(): Uint8Array {
+        this.chunks.push(Uint8Array.of(0x3b));
+        const total = this.chunks.reduce((n, c) => n + c.length, 0);
+        const out = new Uint8Array(total);
+        let offset = 0;
+        for (const chunk of this.chunks) {
+            out.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return out;
+    }
+}
+
+function ascii(text: string): number[] {
+    return [...text].map(ch => ch.charCodeAt(0));
+}
+
+function u16(n: number): number[] {
+    return [n & 0xff, (n >> 8) & 0xff];
+}
+
+/** Data split into length-prefixed blocks of at most 255 bytes, ended by an empty block */
+function subBlocks(data: Uint8Array): Uint8Array {
+    const out = new Uint8Array(data.length + Math.ceil(data.length / 255) + 1);
+    let o = 0;
+    for (let i = 0; i < data.length; i += 255) {
+        const block = data.subarray(i, i + 255);
+        out[o++] = block.length;
+        out.set(block, o);
+        o += block.length;
+    }
+    out[o] = 0;
+    return out;
+}
@@ -0,0 +1,31 @@
+import { bench, describe } from 'vitest';
+import { computePackedLayout, type LayoutConfig } from './layout';
+import { selectLod } from './lod';
+import { createTensor } from './tensor';
+
+// Run with `npm run bench`
+const config: LayoutConfig = {
+    shape: [16, 16, 64, 64],
+    spatialDims: [3, 2, null],
+    outerDims: [0, 1],
+    maxCellsPerDim: 64,
+    mode: 'tiling',
+    sliceIndices: {},
+};
+const tensor = createTensor(Float32Array.from({ length: 1 << 20 }, (_, i) => i % 97), config.shape, 'float32');
+const large = computePackedLayout({ ...config, shape: [32, 32, 64, 64], tensor: undefined });
+
+describe('layout of 1M cells', () => {
+    bench('shape only', () => {
+        computePackedLayout(config);
+    });
+    bench('with values', () => {
+        computePackedLayout({ ...config, tensor });
+    });
+});
+
+describe('level of detail over 4M cells', () => {
+    bench('select tiles', () => {
+        selectLod(large, { eye: [0, 0, 400], fov: 50, viewportHeight: 900 });
+    });
+});
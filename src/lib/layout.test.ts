@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { parseShape, parseTensor, getSampledIndices, computeLayout } from './layout';
+import {
+    parseShape, parseTensor, getSampledIndices, computeLayout, computeDimIndices, computePackedLayout, arrangeSideBySide, cellKey,
+    instanceAt, packInstances,
+} from './layout';
+import { createTensor } from './tensor';
 
 describe('Layout Logic', () => {
     it('parses shapes correctly', () => {
@@ -88,4 +92,112 @@ describe('Layout Logic', () => {
         // Spaces: 2 * 2 * 2 * (3 * 4 * 5) = 480
         expect(layout.length).toBe(480);
     });
+
+    it('attaches tensor values to instances', () => {
+        const layout = computeLayout({
+            shape: [2, 3],
+            spatialDims: [1, 0, null],
+            outerDims: [],
+            maxCellsPerDim: 8,
+            mode: 'tiling',
+            sliceIndices: {},
+            tensor: createTensor(new Float32Array([0, 1, 2, 3, 4, 5]), [2, 3], 'float32'),
+        });
+        expect(layout.map(l => l.value)).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it('uses explicit per-dim selections instead of downsampling', () => {
+        const config = {
+            shape: [2, 20, 6],
+            spatialDims: [1, 2, null] as [number, number, null],
+            outerDims: [0],
+            maxCellsPerDim: 4,
+            mode: 'tiling' as const,
+            sliceIndices: {},
+            selectedIndices: [null, [2, 4, 6, 8], null],
+        };
+        expect(computeDimIndices(config)).toEqual([[0, 1], [2, 4, 6, 8], [0, 2, 3, 5]]);
+
+        const layout = computeLayout(config);
+        expect(layout.length).toBe(2 * 4 * 4);
+        // Tooltip paths keep the original indices
+        expect(layout.some(l => l.indexPath[1] === 8)).toBe(true);
+        expect(layout.every(l => l.indexPath[1] % 2 === 0)).toBe(true);
+
+        // Slicing snaps a page index outside the selection into it
+        const sliced = { ...config, mode: 'slicing' as const, sliceIndices: { 0: 0 }, selectedIndices: [[1], null, null] };
+        expect(computeDimIndices(sliced)[0]).toEqual([1]);
+    });
+
+    it('arranges layouts side by side without overlap', () => {
+        const grid = (shape: number[], group: string) => computeLayout({
+            shape, spatialDims: [1, 0, null], outerDims: [], mode: 'tiling', sliceIndices: {}, maxCellsPerDim: 8,
+        }).map(inst => ({ ...inst, group }));
+        const { instances, panels } = arrangeSideBySide([grid([2, 2], 'A'), grid([1, 3], 'B'), grid([2, 3], 'C')], ['A', 'B', '=']);
+        expect(panels.map(p => p.caption)).toEqual(['A', 'B', '=']);
+        const xs = (group: string) => instances.filter(i => i.group === group).map(i => i.position[0]);
+        expect(Math.max(...xs('A'))).toBeLessThan(Math.min(...xs('B')));
+        expect(Math.max(...xs('B'))).toBeLessThan(Math.min(...xs('C')));
+        const all = instances.map(i => i.position[0]);
+        expect(Math.min(...all) + Math.max(...all)).toBeCloseTo(0);
+        expect(panels[1].center[0]).toBeCloseTo((Math.min(...xs('B')) + Math.max(...xs('B'))) / 2);
+
+        // Stacked downwards along Y, with each caption above its own panel
+        const stacked = arrangeSideBySide([grid([2, 2], 'A'), grid([1, 3], 'B')], ['A', 'B'], 4, 'y');
+        const ys = (group: string) => stacked.instances.filter(i => i.group === group).map(i => i.position[1]);
+        expect(Math.min(...ys('A'))).toBeGreaterThan(Math.max(...ys('B')));
+        expect(stacked.panels[1].top).toBe(Math.max(...ys('B')));
+        expect(Math.min(...ys('A'), ...ys('B')) + Math.max(...ys('A'), ...ys('B'))).toBeCloseTo(0);
+    });
+
+    it('packs cells into typed arrays grouped by tile', () => {
+        const layout = computePackedLayout({
+            shape: [2, 3, 4, 5],
+            spatialDims: [3, 2, null],
+            outerDims: [0, 1],
+            maxCellsPerDim: 8,
+            mode: 'tiling',
+            sliceIndices: {},
+        });
+        expect(layout.count).toBe(120);
+        expect(layout.rank).toBe(4);
+        expect(layout.positions).toBeInstanceOf(Float32Array);
+        expect(instanceAt(layout, 7)).toMatchObject({ id: '0,0,1,2', indexPath: [0, 0, 1, 2], value: undefined });
+        expect(cellKey(layout, 7)).toBe('0,0,1,2');
+
+        // One block per combination of the tiled dims, each holding one 4 × 5 slice
+        expect(layout.blocks.count).toBe(6);
+        for (let b = 0; b < 6; b++) {
+            const cells = layout.blocks.cells.subarray(layout.blocks.start[b], layout.blocks.start[b + 1]);
+            expect(cells).toHaveLength(20);
+            const tiles = new Set([...cells].map(c => instanceAt(layout, c).indexPath.slice(0, 2).join(',')));
+            expect(tiles.size).toBe(1);
+            expect(layout.blocks.max[b * 3] - layout.blocks.min[b * 3]).toBe(4);
+        }
+
+        const packed = packInstances(computeLayout({ shape: [2], spatialDims: [0, null, null], outerDims: [], maxCellsPerDim: 8, mode: 'tiling', sliceIndices: {} }));
+        expect(packed.blocks.count).toBe(1);
+        expect(instanceAt(packed, 1).indexPath).toEqual([1]);
+    });
+
+    it('lays out a million cells without per-cell objects', () => {
+        const layout = computePackedLayout({
+            shape: [16, 16, 64, 64],
+            spatialDims: [3, 2, null],
+            outerDims: [0, 1],
+            maxCellsPerDim: 64,
+            mode: 'tiling',
+            sliceIndices: {},
+        });
+        expect(layout.count).toBe(1 << 20);
+        // 256 tiles, each cut into 2 × 2 chunks of 32 × 32 cells
+        expect(layout.blocks.count).toBe(256 * 4);
+        expect(layout.blocks.max[0] - layout.blocks.min[0]).toBe(31);
+        // The layout is centered: the first and last cells mirror each other
+        const last = layout.count - 1;
+        for (let a = 0; a < 3; a++) {
+            expect(layout.positions[a] + layout.positions[last * 3 + a]).toBeCloseTo(0);
+        }
+        expect(instanceAt(layout, last).indexPath).toEqual([15, 15, 63, 63]);
+    });
 });
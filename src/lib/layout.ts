@@ -1,18 +1,33 @@
+import type { Tensor } from './tensor';
+
 export interface BoxInstance {
     id: string; // unique string based on indexPath
     position: [number, number, number];
     indexPath: number[];
+    sourceIndexPath?: number[]; // element this cell came from in an op preview (see tensorOps.ts)
     value?: number;
+    group?: string; // name of the tensor this cell belongs to when several are shown
+    style?: 'ghost' | 'conflict'; // broadcast replica, or part of an incompatible axis (see broadcast.ts)
+}
+
+export type Axis = 'x' | 'y' | 'z';
+
+/** A tiled (outer) dimension and the axis it repeats along */
+export interface TileAssignment {
+    dim: number;
+    axis: Axis;
 }
 
 export interface LayoutConfig {
     shape: number[];
     spatialDims: [number | null, number | null, number | null]; // indices of XYZ bounds
     outerDims: number[]; // remaining indices
+    tileAssignments?: TileAssignment[]; // tiling axes in nesting order (innermost first); defaults to the Y → X → Z cycle over outerDims
     mode: 'tiling' | 'slicing';
     sliceIndices: Record<number, number>; // index to slice for page dims or slicing dims
     maxCellsPerDim: number;
-    data?: any[];
+    selectedIndices?: (number[] | null)[]; // explicit per-dim index selection (see slice.ts); null keeps the full, downsampled dim
+    tensor?: Tensor; // optional values shown per cell
 }
 
 export function parseShape(input: string): number[] {
@@ -21,25 +36,31 @@ export function parseShape(input: string): number[] {
     return matches.map(Number).filter(n => n > 0).slice(0, 8); // max N=8
 }
 
-export function parseTensor(input: string): { shape: number[], data: any[] } | null {
+export function parseTensor(input: string): { shape: number[], data: unknown[] } | null {
     try {
         const data = JSON.parse(input);
         if (!Array.isArray(data)) return null;
 
         // Infer shape based on first elements recursively
         const shape: number[] = [];
-        let curr = data;
+        let curr: unknown = data;
         while (Array.isArray(curr)) {
             shape.push(curr.length);
             if (curr.length > 0) curr = curr[0];
             else break;
         }
         return { shape, data };
-    } catch (e) {
+    } catch {
         return null;
     }
 }
 
+/** Default tiling: outer dims cycle through rows (Y) -> columns (X) -> depth (Z) -> repeat */
+export function defaultTileAssignments(outerDims: number[]): TileAssignment[] {
+    const cycle: Axis[] = ['y', 'x', 'z'];
+    return outerDims.map((dim, i) => ({ dim, axis: cycle[i % 3] }));
+}
+
 export function getSampledIndices(size: number, maxCells: number): number[] {
     if (size <= maxCells) {
         return Array.from({ length: size }, (_, i) => i);
@@ -53,10 +74,10 @@ export function getSampledIndices(size: number, maxCells: number): number[] {
     return Array.from(indices);
 }
 
-// Retrieves data value at index path
-export function getValue(data: any[] | undefined, indexPath: number[]): number | undefined {
+// Retrieves data value at index path of a nested array (see tensorFromNested for the flat equivalent)
+export function getValue(data: unknown[] | undefined, indexPath: number[]): number | undefined {
     if (!data || !Array.isArray(data)) return undefined;
-    let curr: any = data;
+    let curr: unknown = data;
     for (const idx of indexPath) {
         if (!Array.isArray(curr) || curr.length <= idx) return undefined;
         curr = curr[idx];
@@ -64,30 +85,88 @@ export function getValue(data: any[] | undefined, indexPath: number[]): number |
     return typeof curr === 'number' ? curr : undefined;
 }
 
-export function computeLayout(config: LayoutConfig): BoxInstance[] {
-    const { shape, spatialDims, outerDims, mode, sliceIndices, maxCellsPerDim, data } = config;
-    if (shape.length === 0) return [];
-
-    let activePageDims: number[] = [];
-    let activeTileDims: number[] = [];
-
-    if (mode === 'slicing') {
-        activePageDims = [...outerDims];
-    } else {
-        // Tiling mode propagates through all N outer dimensions
-        activePageDims = [];
-        activeTileDims = [...outerDims];
-    }
+/**
+ * Original indices shown along each dim. Explicit selections are used as-is (no downsampling);
+ * in slicing mode a page dim shows its slice index, snapped into the selection if it falls outside.
+ */
+export function computeDimIndices(config: LayoutConfig): number[][] {
+    const { shape, outerDims, mode, sliceIndices, maxCellsPerDim, selectedIndices } = config;
+    const activePageDims = mode === 'slicing' ? outerDims : [];
 
-    // Determine Sampled Indices
-    const dimIndices: number[][] = shape.map((size, d) => {
+    return shape.map((size, d) => {
+        const selected = selectedIndices?.[d] ?? null;
         if (activePageDims.includes(d)) {
             let idx = sliceIndices[d] ?? 0;
             idx = Math.max(0, Math.min(idx, size - 1));
+            if (selected && selected.length > 0 && !selected.includes(idx)) idx = selected[0];
             return [idx]; // Single forced index for active pages
         }
-        return getSampledIndices(size, maxCellsPerDim);
+        return selected ?? getSampledIndices(size, maxCellsPerDim);
     });
+}
+
+/**
+ * Cells as flat typed arrays instead of one object per cell, so layouts of millions of cells stay
+ * cheap to build and go to the GPU as they are. `instanceAt` builds a BoxInstance on demand.
+ */
+export interface PackedLayout {
+    count: number;
+    rank: number; // 0 when packed from instances, whose paths can differ in length (see packInstances)
+    positions: Float32Array; // x, y, z per cell, centered on the origin
+    indexPaths: Int32Array; // `rank` original indices per cell
+    values: Float64Array | null; // per cell; null without data
+    valid: Uint8Array | null; // per cell; 0 marks missing values, null when none are missing
+    blocks: LayoutBlocks;
+    instances?: BoxInstance[]; // the objects a layout was packed from, with their styles and groups
+}
+
+/**
+ * The repeated spatial blocks of a tiled layout: cells sharing all tiled indices, with large blocks
+ * cut into chunks of at most BLOCK_CHUNK_CELLS per spatial axis. Far away blocks are drawn as one
+ * merged box (see lod.ts). Cell ids are grouped by block in `cells`.
+ */
+export interface LayoutBlocks {
+    count: number;
+    min: Float32Array; // x, y, z of the lowest cell center per block
+    max: Float32Array; // x, y, z of the highest cell center per block
+    start: Uint32Array; // cells of block b are cells[start[b]] up to cells[start[b + 1]]
+    cells: Uint32Array;
+}
+
+// Spatial side of a block chunk, so one large untiled grid still merges into boxes at a distance
+export const BLOCK_CHUNK_CELLS = 32;
+
+/** Packed layout of a config without per-cell objects or per-cell index searches */
+export function computePackedLayout(config: LayoutConfig): PackedLayout {
+    const steps = packedLayoutSteps(config, Infinity);
+    for (;;) {
+        const step = steps.next();
+        if (step.done) return step.value;
+    }
+}
+
+/** Cells laid out so far by packedLayoutSteps */
+export interface LayoutProgress {
+    done: number;
+    count: number;
+    partial: () => PackedLayout; // the first `done` cells, already in their final positions
+}
+
+/**
+ * computePackedLayout in chunks of `chunkCells` cells, pausing after each chunk so a worker can
+ * post partial results and notice cancellation. Returns the full layout.
+ */
+export function* packedLayoutSteps(config: LayoutConfig, chunkCells: number): Generator<LayoutProgress, PackedLayout, void> {
+    const { shape, spatialDims, outerDims, mode, tensor } = config;
+    const rank = shape.length;
+    if (rank === 0) return packInstances([]);
+
+    // Tiling mode propagates through all N outer dimensions; slicing mode shows a single page
+    const activeTiles: TileAssignment[] = mode === 'tiling'
+        ? config.tileAssignments ?? defaultTileAssignments(outerDims)
+        : [];
+
+    const dimIndices = computeDimIndices(config);
 
     const [sx, sy, sz] = spatialDims;
     const blockSizeX = sx !== null ? dimIndices[sx].length : 1;
@@ -95,109 +174,239 @@ export function computeLayout(config: LayoutConfig): BoxInstance[] {
     const blockSizeZ = sz !== null ? dimIndices[sz].length : 1;
 
     const SPACING = 2; // gaps between replicated cubes
-    const stepX = blockSizeX + SPACING;
-    const stepY = blockSizeY + SPACING;
-    const stepZ = blockSizeZ + SPACING;
-
-    // Calculate step size for each tiled dimension
-    // Cycle: rows (Y) -> columns (X) -> depth (Z) -> repeat
-    const tileSteps = new Map<number, { axis: 'x' | 'y' | 'z', step: number }>();
-    let currentStepY = stepY;
-    let currentStepX = stepX;
-    let currentStepZ = stepZ;
-
-    if (mode === 'tiling') {
-        activeTileDims.forEach((dim, i) => {
-            const numCells = dimIndices[dim].length;
-            const axisIndex = i % 3;
-            if (axisIndex === 0) {
-                // Tile dim follows Y (rows)
-                tileSteps.set(dim, { axis: 'y', step: currentStepY });
-                currentStepY = currentStepY * numCells + SPACING;
-            } else if (axisIndex === 1) {
-                // Tile dim follows X (columns)
-                tileSteps.set(dim, { axis: 'x', step: currentStepX });
-                currentStepX = currentStepX * numCells + SPACING;
-            } else {
-                // Tile dim follows Z (depth)
-                tileSteps.set(dim, { axis: 'z', step: currentStepZ });
-                currentStepZ = currentStepZ * numCells + SPACING;
-            }
-        });
+    const currentStep: Record<Axis, number> = { x: blockSizeX + SPACING, y: blockSizeY + SPACING, z: blockSizeZ + SPACING };
+
+    // Offset contributed by each shown index of each dim: spatial dims step one cell, tiled dims
+    // one tile, which nests around the blocks (and inner tiles) already laid out along its axis.
+    // Indices increase in +X, -Y and -Z.
+    const offsets = dimIndices.map(indices => new Float64Array(indices.length * 3));
+    const setSteps = (dim: number, axis: Axis, step: number) => {
+        const a = axis === 'x' ? 0 : axis === 'y' ? 1 : 2;
+        const sign = a === 0 ? 1 : -1;
+        for (let p = 0; p < dimIndices[dim].length; p++) offsets[dim][p * 3 + a] = sign * p * step;
+    };
+    if (sx !== null) setSteps(sx, 'x', 1);
+    if (sy !== null) setSteps(sy, 'y', 1);
+    if (sz !== null) setSteps(sz, 'z', 1);
+
+    // Each combination of tiled indices and spatial chunk is one block, numbered in mixed radix:
+    // `blockOffsets[d][p]` is what shown position p of dim d adds to the block number
+    const blockOffsets = dimIndices.map(indices => new Float64Array(indices.length));
+    let blockCount = 1;
+    const addBlockDigit = (dim: number, cellsPerDigit: number) => {
+        const o = blockOffsets[dim];
+        for (let p = 0; p < o.length; p++) o[p] = Math.floor(p / cellsPerDigit) * blockCount;
+        blockCount *= Math.ceil(o.length / cellsPerDigit);
+    };
+    for (const dim of spatialDims) if (dim !== null) addBlockDigit(dim, BLOCK_CHUNK_CELLS);
+    for (const { dim, axis } of activeTiles) {
+        const numCells = dimIndices[dim].length;
+        setSteps(dim, axis, currentStep[axis]);
+        currentStep[axis] = currentStep[axis] * numCells + SPACING;
+        addBlockDigit(dim, 1);
     }
 
-    const instances: BoxInstance[] = [];
+    const lengths = dimIndices.map(indices => indices.length);
+    const count = lengths.reduce((a, b) => a * b, 1);
 
-    function recurse(dim: number, currentPath: number[]) {
-        if (dim === shape.length) {
-            const indexPath = [...currentPath];
-
-            const rX = sx !== null ? dimIndices[sx].indexOf(indexPath[sx]) : 0;
-            const rY = sy !== null ? dimIndices[sy].indexOf(indexPath[sy]) : 0;
-            const rZ = sz !== null ? dimIndices[sz].indexOf(indexPath[sz]) : 0;
-
-            let addX = 0, addY = 0, addZ = 0;
-            for (const tileDim of activeTileDims) {
-                const info = tileSteps.get(tileDim);
-                if (info) {
-                    const idx = dimIndices[tileDim].indexOf(indexPath[tileDim]);
-                    if (info.axis === 'x') {
-                        addX += idx * info.step;
-                    } else if (info.axis === 'y') {
-                        addY += idx * info.step;
-                    } else {
-                        addZ += idx * info.step;
-                    }
-                }
+    // Every combination of shown indices is laid out, so the bounds are the sums of the per-dim
+    // extremes, and cells can be centered as they are written (partial layouts keep their place)
+    const center = [0, 1, 2].map(a => {
+        let min = 0, max = 0;
+        for (const o of offsets) {
+            let lo = Infinity, hi = -Infinity;
+            for (let i = a; i < o.length; i += 3) {
+                lo = Math.min(lo, o[i]);
+                hi = Math.max(hi, o[i]);
             }
+            min += lo;
+            max += hi;
+        }
+        return count > 0 ? (min + max) / 2 : 0;
+    });
+    const positions = new Float32Array(count * 3);
+    const indexPaths = new Int32Array(count * rank);
+    const values = tensor ? new Float64Array(count) : null;
+    let valid: Uint8Array | null = null;
+    const blockOf = new Uint32Array(count);
 
-            const x = rX + addX;
-            const y = -rY - addY;
-            const z = -rZ - addZ;
-
-            instances.push({
-                id: indexPath.join(','),
-                position: [x, y, z],
-                indexPath,
-                value: getValue(data, indexPath),
-            });
-            return;
+    // Row-major odometer over the shown positions of every dim (same order as nested loops)
+    const pos = new Int32Array(rank);
+    const partial = (done: number): PackedLayout => ({
+        count: done,
+        rank,
+        positions: positions.slice(0, done * 3),
+        indexPaths: indexPaths.slice(0, done * rank),
+        values: values && values.slice(0, done),
+        valid: valid && valid.slice(0, done),
+        blocks: groupBlocks(positions.subarray(0, done * 3), blockOf.subarray(0, done), blockCount),
+    });
+    for (let c = 0; c < count; c++) {
+        if (c > 0 && c % chunkCells === 0) yield { done: c, count, partial: () => partial(c) };
+        let x = 0, y = 0, z = 0, block = 0;
+        let storage = tensor ? tensor.offset : 0;
+        let inBounds = true;
+        for (let d = 0; d < rank; d++) {
+            const p = pos[d];
+            const o = offsets[d];
+            x += o[p * 3];
+            y += o[p * 3 + 1];
+            z += o[p * 3 + 2];
+            block += blockOffsets[d][p];
+            const idx = dimIndices[d][p];
+            indexPaths[c * rank + d] = idx;
+            if (tensor && d < tensor.shape.length) {
+                if (idx >= tensor.shape[d]) inBounds = false;
+                storage += idx * tensor.strides[d];
+            }
+        }
+        positions[c * 3] = x - center[0];
+        positions[c * 3 + 1] = y - center[1];
+        positions[c * 3 + 2] = z - center[2];
+        blockOf[c] = block;
+
+        if (tensor && values) {
+            // Same rules as tensorGet: out of bounds or marked invalid is missing
+            const present = inBounds && tensor.shape.length <= rank && storage >= 0 && storage < tensor.data.length
+                && (!tensor.valid || tensor.valid[storage] !== 0);
+            values[c] = present ? tensor.data[storage] : NaN;
+            if (!present) {
+                valid ??= new Uint8Array(count).fill(1);
+                valid[c] = 0;
+            }
         }
 
-        for (const val of dimIndices[dim]) {
-            currentPath.push(val);
-            recurse(dim + 1, currentPath);
-            currentPath.pop();
+        for (let d = rank - 1; d >= 0; d--) {
+            if (++pos[d] < lengths[d]) break;
+            pos[d] = 0;
         }
     }
 
-    recurse(0, []);
+    return { count, rank, positions, indexPaths, values, valid, blocks: groupBlocks(positions, blockOf, blockCount) };
+}
+
+export function computeLayout(config: LayoutConfig): BoxInstance[] {
+    return unpackLayout(computePackedLayout(config));
+}
+
+/** Packs instances of the alternative views (op previews, broadcasting, ...) as a single block */
+export function packInstances(instances: BoxInstance[]): PackedLayout {
+    const count = instances.length;
+    const positions = new Float32Array(count * 3);
+    instances.forEach((inst, i) => positions.set(inst.position, i * 3));
+    const hasValues = instances.some(inst => inst.value !== undefined);
+    const values = hasValues ? Float64Array.from(instances, inst => inst.value ?? NaN) : null;
+    const valid = hasValues && instances.some(inst => inst.value === undefined)
+        ? Uint8Array.from(instances, inst => (inst.value === undefined ? 0 : 1))
+        : null;
+    return {
+        count,
+        rank: 0,
+        positions,
+        indexPaths: new Int32Array(0),
+        values,
+        valid,
+        blocks: groupBlocks(positions, new Uint32Array(count), count > 0 ? 1 : 0),
+        instances,
+    };
+}
 
-    return centerPositions(instances);
+/** The cell at `i` as an object, e.g. for the hover tooltip */
+export function instanceAt(layout: PackedLayout, i: number): BoxInstance {
+    if (layout.instances) return layout.instances[i];
+    const indexPath = Array.from(layout.indexPaths.subarray(i * layout.rank, (i + 1) * layout.rank));
+    return {
+        id: indexPath.join(','),
+        position: [layout.positions[i * 3], layout.positions[i * 3 + 1], layout.positions[i * 3 + 2]],
+        indexPath,
+        value: layout.values && (!layout.valid || layout.valid[i]) ? layout.values[i] : undefined,
+    };
 }
 
-function centerPositions(instances: BoxInstance[]) {
-    if (instances.length === 0) return instances;
+export function unpackLayout(layout: PackedLayout): BoxInstance[] {
+    return layout.instances ?? Array.from({ length: layout.count }, (_, i) => instanceAt(layout, i));
+}
 
-    let minX = Infinity, maxX = -Infinity;
-    let minY = Infinity, maxY = -Infinity;
-    let minZ = Infinity, maxZ = -Infinity;
+/** Selection key of a cell: its (source) index path, formatted like indexKey in cellSelection.ts */
+export function cellKey(layout: PackedLayout, i: number): string {
+    if (layout.instances) {
+        const inst = layout.instances[i];
+        return (inst.sourceIndexPath ?? inst.indexPath).join(',');
+    }
+    return layout.indexPaths.subarray(i * layout.rank, (i + 1) * layout.rank).join(',');
+}
 
-    for (const inst of instances) {
-        const [x, y, z] = inst.position;
-        if (x < minX) minX = x; if (x > maxX) maxX = x;
-        if (y < minY) minY = y; if (y > maxY) maxY = y;
-        if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
+/** Counting sort of cells by block, plus the bounds of each block's cell centers */
+function groupBlocks(positions: Float32Array, blockOf: Uint32Array, count: number): LayoutBlocks {
+    const start = new Uint32Array(count + 1);
+    for (let c = 0; c < blockOf.length; c++) start[blockOf[c] + 1]++;
+    for (let b = 0; b < count; b++) start[b + 1] += start[b];
+    const next = start.slice(0, count);
+    const cells = new Uint32Array(blockOf.length);
+    const min = new Float32Array(count * 3).fill(Infinity);
+    const max = new Float32Array(count * 3).fill(-Infinity);
+    for (let c = 0; c < blockOf.length; c++) {
+        const b = blockOf[c];
+        cells[next[b]++] = c;
+        for (let a = 0; a < 3; a++) {
+            const v = positions[c * 3 + a];
+            if (v < min[b * 3 + a]) min[b * 3 + a] = v;
+            if (v > max[b * 3 + a]) max[b * 3 + a] = v;
+        }
     }
+    return { count, min, max, start, cells };
+}
+
+export interface SideBySidePanel {
+    caption: string;
+    center: [number, number, number]; // center of the panel's bounding box
+    top: number; // max y of the panel's cells
+}
 
-    const cx = (minX + maxX) / 2;
-    const cy = (minY + maxY) / 2;
-    const cz = (minZ + maxZ) / 2;
+/**
+ * Place layouts next to each other along an axis (X by default) with a gap, returning the merged
+ * instances and panel geometry. Like indices, panels follow +X, -Y or -Z.
+ */
+export function arrangeSideBySide(
+    layouts: BoxInstance[][],
+    captions: string[],
+    gap = 4,
+    axis: Axis = 'x',
+): { instances: BoxInstance[]; panels: SideBySidePanel[] } {
+    const a = axis === 'x' ? 0 : axis === 'y' ? 1 : 2;
+    const sign = a === 0 ? 1 : -1;
+    const instances: BoxInstance[] = [];
+    const panels: SideBySidePanel[] = [];
+    let cursor = 0;
+
+    layouts.forEach((layout, i) => {
+        if (layout.length === 0) return;
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        for (const { position } of layout) {
+            for (let k = 0; k < 3; k++) {
+                min[k] = Math.min(min[k], position[k]);
+                max[k] = Math.max(max[k], position[k]);
+            }
+        }
+        const shift = sign > 0 ? cursor - min[a] : -cursor - max[a];
+        for (const inst of layout) {
+            const position: [number, number, number] = [...inst.position];
+            position[a] += shift;
+            instances.push({ ...inst, position });
+        }
+        const center: [number, number, number] = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+        center[a] += shift;
+        panels.push({ caption: captions[i] ?? '', center, top: max[1] + (a === 1 ? shift : 0) });
+        cursor += max[a] - min[a] + 1 + gap;
+    });
 
-    for (const inst of instances) {
-        inst.position[0] -= cx;
-        inst.position[1] -= cy;
-        inst.position[2] -= cz;
+    // Center the whole row on the origin
+    const offset = (sign * (cursor - gap - 1)) / 2;
+    for (const inst of instances) inst.position[a] -= offset;
+    for (const panel of panels) {
+        panel.center[a] -= offset;
+        if (a === 1) panel.top -= offset;
     }
-    return instances;
+    return { instances, panels };
 }
@@ -0,0 +1,5 @@
+// Entry point of the layout worker; the work itself is in layoutWorker.ts
+import { createLayoutHost, type LayoutRequest } from './layoutWorker';
+
+const host = createLayoutHost((response, transfer) => self.postMessage(response, { transfer }));
+self.addEventListener('message', (e: MessageEvent<LayoutRequest>) => host(e.data));
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { computePackedLayout, type LayoutConfig, type PackedLayout } from './layout';
+import { createLayoutClient, inlineWorker, LayoutCancelledError, LayoutWorkerError, type WorkerLike } from './layoutWorker';
+import { createTensor } from './tensor';
+
+const config: LayoutConfig = {
+    shape: [4, 4, 32, 32],
+    spatialDims: [3, 2, null],
+    outerDims: [0, 1],
+    maxCellsPerDim: 32,
+    mode: 'tiling',
+    sliceIndices: {},
+};
+
+describe('Layout worker', () => {
+    it('lays out like the main thread, with partial steps in final positions', async () => {
+        const client = createLayoutClient(inlineWorker({ chunkCells: 1024, partialIntervalMs: 0 }));
+        const partials: { layout: PackedLayout; progress: number }[] = [];
+        const layout = await client.layout(config, (partial, progress) => partials.push({ layout: partial, progress })).result;
+        const expected = computePackedLayout(config);
+        expect(layout.positions).toEqual(expected.positions);
+        expect(layout.blocks.cells).toEqual(expected.blocks.cells);
+
+        expect(partials.length).toBe(expected.count / 1024 - 1);
+        expect(partials.map(p => p.progress)).toEqual([...partials.map(p => p.progress)].sort((a, b) => a - b));
+        const { layout: partial } = partials[3];
+        expect(partial.count).toBe(4 * 1024);
+        expect(partial.positions).toEqual(expected.positions.subarray(0, partial.count * 3));
+        client.terminate();
+    });
+
+    it('cancels stale requests', async () => {
+        const client = createLayoutClient(inlineWorker({ chunkCells: 1024 }));
+        const stale = client.layout(config);
+        const current = client.layout({ ...config, maxCellsPerDim: 8 });
+        stale.cancel();
+        await expect(stale.result).rejects.toBeInstanceOf(LayoutCancelledError);
+        expect((await current.result).count).toBe(4 * 4 * 8 * 8);
+        client.terminate();
+    });
+
+    it('sends data once and reuses it for later layouts', async () => {
+        const client = createLayoutClient(inlineWorker());
+        const tensor = createTensor(Float32Array.from({ length: 16 }, (_, i) => i), [4, 4], 'float32');
+        const small: LayoutConfig = { shape: [4, 4], spatialDims: [1, 0, null], outerDims: [], maxCellsPerDim: 4, mode: 'tiling', sliceIndices: {}, tensor };
+        expect(Array.from((await client.layout(small).result).values!)).toEqual(Array.from(tensor.data));
+        const sampled = await client.layout({ ...small, maxCellsPerDim: 2 }).result;
+        expect(Array.from(sampled.values!)).toEqual(Array.from(computePackedLayout({ ...small, maxCellsPerDim: 2 }).values!));
+        client.terminate();
+    });
+
+    it('refuses layouts over the cell cap and reports a failed worker', async () => {
+        const client = createLayoutClient(inlineWorker({ maxCells: 1000 }));
+        await expect(client.layout(config).result).rejects.toThrow(/16,384 cells \(limit 1,000\)/);
+        expect((await client.layout({ ...config, maxCellsPerDim: 4 }).result).count).toBe(4 * 4 * 4 * 4);
+        client.terminate();
+
+        // A worker that dies leaves no reply for pending requests, so they are rejected
+        const onError: ((event: { message?: string }) => void)[] = [];
+        const dying = createLayoutClient({
+            postMessage: () => {},
+            addEventListener: ((type: string, listener: (event: { message?: string }) => void) => {
+                if (type === 'error') onError.push(listener);
+            }) as WorkerLike['addEventListener'],
+            terminate: () => {},
+        });
+        const job = dying.layout(config);
+        onError.forEach(l => l({ message: 'Out of memory' }));
+        await expect(job.result).rejects.toEqual(new LayoutWorkerError('Out of memory'));
+    });
+
+    it('parses JSON data', async () => {
+        const client = createLayoutClient(inlineWorker());
+        const tensor = await client.parse('[[1, 2], [3, 4]]').result;
+        expect(tensor?.shape).toEqual([2, 2]);
+        expect(Array.from(tensor!.data)).toEqual([1, 2, 3, 4]);
+        expect(await client.parse('[1, 2').result).toBeNull();
+        client.terminate();
+    });
+});
@@ -0,0 +1,242 @@
+// Layout computation and JSON parsing off the main thread. The worker (layout.worker.ts) runs a
+// layout host; the app talks to it through a layout client. Layouts come back as transferable
+// typed arrays, in partial steps while large ones are computed, and stale requests are cancelled.
+import { computeDimIndices, packedLayoutSteps, parseTensor, type LayoutConfig, type PackedLayout } from './layout';
+import { numel, tensorFromNested, type Tensor } from './tensor';
+
+// Cells laid out between checks for cancellation and newer messages
+export const LAYOUT_CHUNK_CELLS = 1 << 16;
+// Partial layouts are posted at most this often
+export const PARTIAL_INTERVAL_MS = 150;
+// Larger layouts are refused before their typed arrays are allocated (about 60 bytes per cell)
+export const MAX_LAYOUT_CELLS = 1 << 23;
+
+/** Messages to the worker */
+export type LayoutRequest =
+    // `tensor` is sent once and then referred to as 'previous', so slider drags don't copy the data again
+    | { kind: 'layout'; id: number; config: Omit<LayoutConfig, 'tensor'>; tensor?: Tensor | 'previous' }
+    | { kind: 'parse'; id: number; text: string }
+    | { kind: 'cancel'; id: number };
+
+/** Messages from the worker */
+export type LayoutResponse =
+    | { kind: 'partial'; id: number; layout: PackedLayout; progress: number }
+    | { kind: 'layout'; id: number; layout: PackedLayout }
+    | { kind: 'parsed'; id: number; tensor: Tensor | null }
+    | { kind: 'error'; id: number; message: string };
+
+/** The part of a Worker the client uses, so tests (and browsers without workers) can run inlineWorker */
+export interface WorkerLike {
+    postMessage(request: LayoutRequest): void;
+    addEventListener(type: 'message', listener: (event: { data: LayoutResponse }) => void): void;
+    addEventListener(type: 'error', listener: (event: { message?: string }) => void): void;
+    terminate(): void;
+}
+
+export interface HostOptions {
+    chunkCells?: number;
+    partialIntervalMs?: number;
+    maxCells?: number;
+}
+
+export class LayoutCancelledError extends Error {
+    constructor() {
+        super('Layout request was cancelled');
+        this.name = 'LayoutCancelledError';
+    }
+}
+
+export class LayoutWorkerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LayoutWorkerError';
+    }
+}
+
+/** Buffers of a layout's typed arrays, handed over to the receiver instead of copied */
+export function layoutTransferables(layout: PackedLayout): ArrayBuffer[] {
+    const { positions, indexPaths, values, valid, blocks } = layout;
+    const arrays = [positions, indexPaths, values, valid, blocks.min, blocks.max, blocks.start, blocks.cells];
+    return [...new Set(arrays.flatMap(a => (a ? [a.buffer as ArrayBuffer] : [])))];
+}
+
+function tensorTransferables(tensor: Tensor | null): ArrayBuffer[] {
+    if (!tensor) return [];
+    return [...new Set([tensor.data.buffer, tensor.valid?.buffer].filter(b => b !== undefined))] as ArrayBuffer[];
+}
+
+const yieldToMessages = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Message handler of the worker. Jobs run one at a time; layouts are computed in chunks with a
+ * pause after each, so cancellations that arrive meanwhile stop them early.
+ */
+export function createLayoutHost(
+    post: (response: LayoutResponse, transfer: ArrayBuffer[]) => void,
+    { chunkCells = LAYOUT_CHUNK_CELLS, partialIntervalMs = PARTIAL_INTERVAL_MS, maxCells = MAX_LAYOUT_CELLS }: HostOptions = {},
+): (request: LayoutRequest) => void {
+    // Requests queued or running; a cancel that arrives after its job finished is dropped
+    const active = new Set<number>();
+    const cancelled = new Set<number>();
+    let lastTensor: Tensor | undefined;
+    let queue = Promise.resolve();
+
+    const runLayout = async (id: number, config: LayoutConfig) => {
+        const cells = numel(computeDimIndices(config).map(indices => indices.length));
+        if (cells > maxCells) {
+            throw new LayoutWorkerError(`The layout has ${cells.toLocaleString()} cells (limit ${maxCells.toLocaleString()}); lower Max Cells / Dim or select fewer indices`);
+        }
+        const steps = packedLayoutSteps(config, chunkCells);
+        let lastPost = Date.now();
+        for (;;) {
+            const step = steps.next();
+            if (step.done) {
+                post({ kind: 'layout', id, layout: step.value }, layoutTransferables(step.value));
+                return;
+            }
+            if (Date.now() - lastPost >= partialIntervalMs) {
+                const layout = step.value.partial();
+                post({ kind: 'partial', id, layout, progress: step.value.done / step.value.count }, layoutTransferables(layout));
+                lastPost = Date.now();
+            }
+            await yieldToMessages();
+            if (cancelled.has(id)) return;
+        }
+    };
+
+    const run = async (request: Exclude<LayoutRequest, { kind: 'cancel' }>, tensor: Tensor | undefined) => {
+        if (cancelled.delete(request.id)) {
+            active.delete(request.id);
+            return;
+        }
+        try {
+            if (request.kind === 'parse') {
+                const parsed = parseTensor(request.text);
+                const result = parsed ? tensorFromNested(parsed.data, parsed.shape) : null;
+                post({ kind: 'parsed', id: request.id, tensor: result }, tensorTransferables(result));
+            } else {
+                await runLayout(request.id, { ...request.config, tensor });
+            }
+        } catch (e) {
+            post({ kind: 'error', id: request.id, message: e instanceof Error ? e.message : String(e) }, []);
+        }
+        active.delete(request.id);
+        cancelled.delete(request.id);
+    };
+
+    return request => {
+        if (request.kind === 'cancel') {
+            if (active.has(request.id)) cancelled.add(request.id);
+            return;
+        }
+        // The tensor is resolved in message order, before earlier jobs finish
+        let tensor: Tensor | undefined;
+        if (request.kind === 'layout' && request.tensor) {
+            if (request.tensor !== 'previous') lastTensor = request.tensor;
+            tensor = lastTensor;
+        }
+        active.add(request.id);
+        queue = queue.then(() => run(request, tensor));
+    };
+}
+
+/** Runs a layout host on the main thread behind the worker interface, delivering messages asynchronously */
+export function inlineWorker(options?: HostOptions): WorkerLike {
+    const listeners = new Set<(event: { data: LayoutResponse }) => void>();
+    let terminated = false;
+    const host = createLayoutHost(response => {
+        setTimeout(() => {
+            if (!terminated) listeners.forEach(l => l({ data: response }));
+        }, 0);
+    }, options);
+    return {
+        postMessage: request => {
+            setTimeout(() => {
+                if (!terminated) host(request);
+            }, 0);
+        },
+        // Errors are reported as messages; there is no worker script to fail
+        addEventListener: ((type: string, listener: (event: { data: LayoutResponse }) => void) => {
+            if (type === 'message') listeners.add(listener);
+        }) as WorkerLike['addEventListener'],
+        terminate: () => {
+            terminated = true;
+        },
+    };
+}
+
+/** A request in flight; cancelling rejects `result` with LayoutCancelledError */
+export interface LayoutJob<T> {
+    result: Promise<T>;
+    cancel: () => void;
+}
+
+export interface LayoutClient {
+    layout(config: LayoutConfig, onPartial?: (layout: PackedLayout, progress: number) => void): LayoutJob<PackedLayout>;
+    parse(text: string): LayoutJob<Tensor | null>;
+    terminate(): void;
+}
+
+interface PendingJob {
+    resolve: (value: never) => void;
+    reject: (error: Error) => void;
+    onPartial?: (layout: PackedLayout, progress: number) => void;
+}
+
+export function createLayoutClient(worker: WorkerLike): LayoutClient {
+    const pending = new Map<number, PendingJob>();
+    let nextId = 1;
+    let sentTensor: Tensor | undefined;
+
+    worker.addEventListener('message', ({ data: response }) => {
+        const job = pending.get(response.id);
+        if (!job) return; // cancelled meanwhile
+        if (response.kind === 'partial') {
+            job.onPartial?.(response.layout, response.progress);
+            return;
+        }
+        pending.delete(response.id);
+        if (response.kind === 'error') job.reject(new LayoutWorkerError(response.message));
+        else job.resolve((response.kind === 'layout' ? response.layout : response.tensor) as never);
+    });
+    // The worker itself failed (e.g. ran out of memory): nothing pending will be answered
+    worker.addEventListener('error', event => {
+        const error = new LayoutWorkerError(event.message || 'The layout worker stopped unexpectedly');
+        pending.forEach(job => job.reject(error));
+        pending.clear();
+    });
+
+    const start = <T>(request: LayoutRequest, onPartial?: PendingJob['onPartial']): LayoutJob<T> => {
+        const result = new Promise<T>((resolve, reject) => {
+            pending.set(request.id, { resolve: resolve as PendingJob['resolve'], reject, onPartial });
+        });
+        worker.postMessage(request);
+        return {
+            result,
+            cancel: () => {
+                const job = pending.get(request.id);
+                if (!job) return;
+                pending.delete(request.id);
+                worker.postMessage({ kind: 'cancel', id: request.id });
+                job.reject(new LayoutCancelledError());
+            },
+        };
+    };
+
+    return {
+        layout(config, onPartial) {
+            const { tensor, ...rest } = config;
+            const request: LayoutRequest = { kind: 'layout', id: nextId++, config: rest, tensor: tensor && tensor === sentTensor ? 'previous' : tensor };
+            if (tensor) sentTensor = tensor;
+            return start(request, onPartial);
+        },
+        parse(text) {
+            return start({ kind: 'parse', id: nextId++, text });
+        },
+        terminate() {
+            worker.terminate();
+            pending.forEach(job => job.reject(new LayoutCancelledError()));
+            pending.clear();
+        },
+    };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { computePackedLayout, type LayoutConfig } from './layout';
+import { blockMeans, blocksContaining, cellBlocks, lodApplies, sameLod, selectLod } from './lod';
+import { createTensor } from './tensor';
+
+// 4 tiles of 10 × 10 cells in a row along X
+const config: LayoutConfig = {
+    shape: [4, 10, 10],
+    spatialDims: [2, 1, null],
+    outerDims: [0],
+    tileAssignments: [{ dim: 0, axis: 'x' }],
+    mode: 'tiling',
+    sliceIndices: {},
+    maxCellsPerDim: 16,
+};
+
+describe('Level of detail', () => {
+    it('averages the values of each tile', () => {
+        const data = Float32Array.from({ length: 400 }, (_, i) => Math.floor(i / 100));
+        data[0] = NaN;
+        const layout = computePackedLayout({ ...config, tensor: createTensor(data, [4, 10, 10], 'float32') });
+        expect([...blockMeans(layout)]).toEqual([0, 1, 2, 3]);
+        expect([...blockMeans(computePackedLayout(config))].every(Number.isNaN)).toBe(true);
+        expect(lodApplies(layout)).toBe(false); // small layouts are always drawn in full
+    });
+
+    it('draws near tiles cell by cell and merges far ones', () => {
+        const layout = computePackedLayout(config);
+        const left = layout.blocks.min[0];
+        // Close to the first tile: each cell spans many pixels there, far fewer at the last tile
+        const near = selectLod(layout, { eye: [left, 0, 3], fov: 50, viewportHeight: 600 }, { minPixels: 20 });
+        expect(near.detailed.length).toBeGreaterThan(0);
+        expect(near.merged.length).toBeGreaterThan(0);
+        expect(near.merged).not.toContain(0);
+        expect(near.detailed.length + [...near.merged].reduce((n, b) => n + layout.blocks.start[b + 1] - layout.blocks.start[b], 0)).toBe(400);
+
+        // Far away everything merges; an orthographic zoom decides for all tiles at once
+        expect(selectLod(layout, { eye: [0, 0, 1000], fov: 50, viewportHeight: 600 }).detailed).toHaveLength(0);
+        expect(selectLod(layout, { eye: [0, 0, 1000], fov: 50, viewportHeight: 600, zoom: 40 }).merged).toHaveLength(0);
+    });
+
+    it('keeps the nearest tiles within the cell budget', () => {
+        const layout = computePackedLayout(config);
+        const right = layout.blocks.max[3 * 3];
+        const selection = selectLod(layout, { eye: [right, 0, 5], fov: 50, viewportHeight: 600, zoom: 40 }, { budget: 250 });
+        expect(selection.detailed).toHaveLength(200);
+        expect([...selection.merged]).toEqual([0, 1]);
+        expect(sameLod(selection, selectLod(layout, { eye: [right, 0, 5], fov: 50, viewportHeight: 600, zoom: 40 }, { budget: 250 }))).toBe(true);
+        expect(sameLod(selection, null)).toBe(false);
+    });
+
+    it('cuts a large untiled grid into chunks', () => {
+        const single = computePackedLayout({ shape: [300, 300], spatialDims: [1, 0, null], outerDims: [], mode: 'tiling', sliceIndices: {}, maxCellsPerDim: 300 });
+        expect(lodApplies(single)).toBe(true);
+        expect(single.blocks.count).toBe(10 * 10);
+        const far = selectLod(single, { eye: [0, 0, 2000], fov: 50, viewportHeight: 600 });
+        expect(far.detailed).toHaveLength(0);
+        expect(far.merged).toHaveLength(100);
+        const blockOf = cellBlocks(single);
+        expect(blockOf[0]).toBe(0);
+        expect(blockOf[single.count - 1]).toBe(99);
+    });
+
+    it('draws pinned tiles in detail even when they are far away', () => {
+        const layout = computePackedLayout(config);
+        // The cell in the last tile is pinned, e.g. because it is selected
+        const pinned = blocksContaining(layout, c => c === 399);
+        expect([...pinned]).toEqual([0, 0, 0, 1]);
+        const selection = selectLod(layout, { eye: [0, 0, 1000], fov: 50, viewportHeight: 600 }, { pinned });
+        expect(selection.detailed).toHaveLength(100);
+        expect(selection.detailed).toContain(399);
+        expect([...selection.merged]).toEqual([0, 1, 2]);
+    });
+});
@@ -0,0 +1,140 @@
+// Level of detail for large grids: tiles (the blocks of a layout: repeated spatial blocks of a tiled
+// layout, and chunks of large ones) that are small on screen are drawn as one merged box colored
+// by their aggregate value, and only the tiles near the camera are drawn cell by cell, up to a
+// fixed budget of cells. Tiles holding selected or highlighted cells can be pinned to full detail.
+import type { PackedLayout } from './layout';
+
+type Vec3 = [number, number, number];
+
+// Layouts with fewer cells are always drawn in full
+export const LOD_MIN_CELLS = 50_000;
+// Most cells drawn individually at once; the rest of the tiles stay merged
+export const LOD_CELL_BUDGET = 250_000;
+// Tiles whose cells would be smaller than this on screen are merged
+export const LOD_MIN_CELL_PIXELS = 6;
+
+/** Camera the detail level is chosen for, in layout coordinates */
+export interface LodView {
+    eye: Vec3;
+    fov: number; // vertical field of view in degrees
+    viewportHeight: number; // pixels
+    zoom?: number; // orthographic pixels per unit; perspective when absent
+}
+
+export interface LodSelection {
+    detailed: Uint32Array; // cell ids drawn individually, tile by tile
+    merged: Uint32Array; // block ids drawn as one box each
+}
+
+/** Whether a layout is large enough to merge tiles (and has more than one to merge) */
+export function lodApplies(layout: PackedLayout): boolean {
+    return layout.count > LOD_MIN_CELLS && layout.blocks.count > 1;
+}
+
+/** Mean of the finite values in each block; NaN for blocks without any (or without data) */
+export function blockMeans(layout: PackedLayout): Float64Array {
+    const { blocks, values, valid } = layout;
+    const means = new Float64Array(blocks.count).fill(NaN);
+    if (!values) return means;
+    for (let b = 0; b < blocks.count; b++) {
+        let sum = 0;
+        let n = 0;
+        for (let k = blocks.start[b]; k < blocks.start[b + 1]; k++) {
+            const c = blocks.cells[k];
+            const v = values[c];
+            if ((!valid || valid[c]) && Number.isFinite(v)) {
+                sum += v;
+                n++;
+            }
+        }
+        if (n > 0) means[b] = sum / n;
+    }
+    return means;
+}
+
+/** Block of every cell */
+export function cellBlocks(layout: PackedLayout): Uint32Array {
+    const { blocks } = layout;
+    const blockOf = new Uint32Array(layout.count);
+    for (let b = 0; b < blocks.count; b++) {
+        for (let k = blocks.start[b]; k < blocks.start[b + 1]; k++) blockOf[blocks.cells[k]] = b;
+    }
+    return blockOf;
+}
+
+/** Per block, 1 when it holds a cell matching `test` (e.g. selected cells, to pin in selectLod) */
+export function blocksContaining(layout: PackedLayout, test: (cell: number) => boolean): Uint8Array {
+    const { blocks } = layout;
+    const found = new Uint8Array(blocks.count);
+    for (let b = 0; b < blocks.count; b++) {
+        for (let k = blocks.start[b]; k < blocks.start[b + 1]; k++) {
+            if (test(blocks.cells[k])) {
+                found[b] = 1;
+                break;
+            }
+        }
+    }
+    return found;
+}
+
+/**
+ * Splits the blocks into drawn-in-detail and merged. A block is detailed when one cell spans at
+ * least `minPixels` at the block's nearest point, or when it is pinned; detailed blocks are taken
+ * pinned first, then nearest first, until `budget` cells are used.
+ */
+export function selectLod(
+    layout: PackedLayout,
+    view: LodView,
+    { minPixels = LOD_MIN_CELL_PIXELS, budget = LOD_CELL_BUDGET, pinned }: { minPixels?: number; budget?: number; pinned?: Uint8Array | null } = {},
+): LodSelection {
+    const { blocks } = layout;
+    const focal = view.viewportHeight / 2 / Math.tan((view.fov * Math.PI) / 360);
+    const candidates: { block: number; distance: number; pinned: boolean }[] = [];
+    const merged: number[] = [];
+
+    for (let b = 0; b < blocks.count; b++) {
+        if (blocks.start[b + 1] === blocks.start[b]) continue; // not laid out yet (partial layouts)
+        // Distance from the eye to the block's box (0 inside it)
+        let squared = 0;
+        for (let a = 0; a < 3; a++) {
+            const lo = blocks.min[b * 3 + a] - 0.5;
+            const hi = blocks.max[b * 3 + a] + 0.5;
+            const e = view.eye[a];
+            const d = e < lo ? lo - e : e > hi ? e - hi : 0;
+            squared += d * d;
+        }
+        const distance = Math.sqrt(squared);
+        const cellPixels = view.zoom ?? focal / Math.max(distance, 1e-6);
+        const isPinned = pinned?.[b] === 1;
+        if (cellPixels >= minPixels || isPinned) candidates.push({ block: b, distance, pinned: isPinned });
+        else merged.push(b);
+    }
+
+    candidates.sort((p, q) => Number(q.pinned) - Number(p.pinned) || p.distance - q.distance || p.block - q.block);
+    let used = 0;
+    const detailedBlocks: number[] = [];
+    for (const { block } of candidates) {
+        const size = blocks.start[block + 1] - blocks.start[block];
+        if (used + size > budget) merged.push(block);
+        else {
+            detailedBlocks.push(block);
+            used += size;
+        }
+    }
+
+    const detailed = new Uint32Array(used);
+    let k = 0;
+    for (const b of detailedBlocks.sort((p, q) => p - q)) {
+        detailed.set(blocks.cells.subarray(blocks.start[b], blocks.start[b + 1]), k);
+        k += blocks.start[b + 1] - blocks.start[b];
+    }
+    return { detailed, merged: Uint32Array.from(merged.sort((p, q) => p - q)) };
+}
+
+/** Whether two selections draw the same blocks, so the grid can skip rewriting its instances */
+export function sameLod(a: LodSelection | null, b: LodSelection | null): boolean {
+    if (!a || !b) return a === b;
+    if (a.merged.length !== b.merged.length || a.detailed.length !== b.detailed.length) return false;
+    for (let i = 0; i < a.merged.length; i++) if (a.merged[i] !== b.merged[i]) return false;
+    return true;
+}
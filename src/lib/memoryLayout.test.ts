@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+    presetStrides, parseStrides, resolveMemoryLayout, linearOffset, offsetRange, layoutProperties,
+    formatByteAddress, memoryOrderPath, StrideError, DEFAULT_MEMORY_LAYOUT,
+} from './memoryLayout';
+
+describe('Memory layout', () => {
+    it('derives strides for the presets', () => {
+        expect(presetStrides([2, 3, 4, 5], 'contiguous')).toEqual([60, 20, 5, 1]);
+        expect(presetStrides([2, 3, 4, 5], 'column-major')).toEqual([1, 2, 6, 24]);
+        // NCHW shape stored as NHWC: channels innermost
+        expect(presetStrides([2, 3, 4, 5], 'channels-last')).toEqual([60, 1, 15, 3]);
+        expect(presetStrides([2, 3, 4, 5], 'transposed')).toEqual([60, 20, 1, 4]);
+        expect(presetStrides([4, 5], 'transposed')).toEqual([1, 4]);
+        expect(presetStrides([4, 5], 'channels-last')).toEqual([5, 1]);
+        expect(presetStrides([7], 'transposed')).toEqual([1]);
+    });
+
+    it('parses custom strides', () => {
+        expect(parseStrides('12, -4, 1', 3)).toEqual([12, -4, 1]);
+        expect(parseStrides(' 0,1 ', 2)).toEqual([0, 1]);
+        expect(() => parseStrides('1, 2', 3)).toThrow(StrideError);
+        expect(() => parseStrides('1, 2', 3)).toThrow(/Expected 3 strides/);
+        expect(() => parseStrides('1, x', 2)).toThrow(/'x' is not an integer/);
+    });
+
+    it('resolves strides from settings or loaded data', () => {
+        const data = { shape: [3, 4], strides: [1, 3], offset: 5 };
+        expect(resolveMemoryLayout([3, 4], { ...DEFAULT_MEMORY_LAYOUT, preset: 'data' }, data)).toEqual({ strides: [1, 3], offset: 5 });
+        expect(resolveMemoryLayout([3, 4], { ...DEFAULT_MEMORY_LAYOUT, preset: 'data' })).toEqual({ strides: [4, 1], offset: 0 });
+        expect(resolveMemoryLayout([3, 4], { ...DEFAULT_MEMORY_LAYOUT, preset: 'custom', customStrides: '2, 6', offset: 1 }))
+            .toEqual({ strides: [2, 6], offset: 1 });
+        expect(resolveMemoryLayout([3, 4], { ...DEFAULT_MEMORY_LAYOUT, offset: 3 })).toEqual({ strides: [4, 1], offset: 3 });
+    });
+
+    it('computes linear offsets and their range', () => {
+        expect(linearOffset([1, 2, 3], [12, 4, 1], 0)).toBe(23);
+        expect(linearOffset([1, 2], [1, 3], 5)).toBe(12);
+        expect(offsetRange([3, 4], [4, 1], 2)).toEqual({ min: 2, max: 13 });
+        // Reversed view (x[::-1]) starts at the end of storage
+        expect(offsetRange([3, 4], [-4, 1], 8)).toEqual({ min: 0, max: 11 });
+    });
+
+    it('describes contiguity, overlap and gaps', () => {
+        expect(layoutProperties([3, 4], [4, 1])).toEqual({ cContiguous: true, fContiguous: false, overlapping: false, gaps: false });
+        expect(layoutProperties([3, 4], [1, 3])).toEqual({ cContiguous: false, fContiguous: true, overlapping: false, gaps: false });
+        expect(layoutProperties([1, 4], [99, 1]).cContiguous).toBe(true);
+        expect(layoutProperties([3, 4], [0, 1]).overlapping).toBe(true);
+        expect(layoutProperties([3, 4], [8, 2])).toMatchObject({ overlapping: false, gaps: true });
+    });
+
+    it('formats byte addresses for the dtype', () => {
+        expect(formatByteAddress(5, 'float32')).toBe('0x0014');
+        expect(formatByteAddress(5, 'int8')).toBe('0x0005');
+        expect(formatByteAddress(4096, 'float64')).toBe('0x8000');
+    });
+
+    it('orders cells by memory offset', () => {
+        const cells = [
+            { position: [0, 0, 0] as [number, number, number], offset: 2 },
+            { position: [1, 0, 0] as [number, number, number], offset: 0 },
+            { position: [2, 0, 0] as [number, number, number], offset: 1 },
+        ];
+        expect(memoryOrderPath(cells)).toEqual([[1, 0, 0], [2, 0, 0], [0, 0, 0]]);
+    });
+});
@@ -0,0 +1,149 @@
+// Physical memory layout: strides and storage offset for a shape, and the linear offset of each cell.
+import { contiguousStrides, DTYPE_SIZES, fortranStrides, type DType } from './tensor';
+
+export type StridePreset = 'contiguous' | 'channels-last' | 'transposed' | 'column-major' | 'data' | 'custom';
+
+export const STRIDE_PRESET_LABELS: Record<StridePreset, string> = {
+    'contiguous': 'Contiguous (row-major)',
+    'channels-last': 'Channels-last',
+    'transposed': 'Transposed (last two dims)',
+    'column-major': 'Column-major (Fortran)',
+    'data': 'From loaded data',
+    'custom': 'Custom',
+};
+
+export interface MemoryLayoutSettings {
+    preset: StridePreset;
+    customStrides: string; // comma separated, used by the 'custom' preset
+    offset: number; // storage offset in elements
+    dtype: DType; // element size for byte addresses
+    showPath: boolean; // draw a polyline through the cells in memory order
+}
+
+export const DEFAULT_MEMORY_LAYOUT: MemoryLayoutSettings = {
+    preset: 'contiguous',
+    customStrides: '',
+    offset: 0,
+    dtype: 'float32',
+    showPath: false,
+};
+
+export class StrideError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StrideError';
+    }
+}
+
+/** Strides (in elements) of a tensor stored in the preset's order; memory order lists dims outermost first */
+function stridesForOrder(shape: number[], order: number[]): number[] {
+    const strides = new Array<number>(shape.length);
+    let s = 1;
+    for (let i = order.length - 1; i >= 0; i--) {
+        strides[order[i]] = s;
+        s *= shape[order[i]];
+    }
+    return strides;
+}
+
+/** Strides for a preset; 'data' and 'custom' are resolved by the caller */
+export function presetStrides(shape: number[], preset: Exclude<StridePreset, 'data' | 'custom'>): number[] {
+    const rank = shape.length;
+    const dims = Array.from({ length: rank }, (_, i) => i);
+    switch (preset) {
+        case 'contiguous':
+            return contiguousStrides(shape);
+        case 'column-major':
+            return fortranStrides(shape);
+        case 'channels-last':
+            // N, C, H, W → memory order N, H, W, C (dim 1 innermost); needs at least 3 dims
+            return rank < 3 ? contiguousStrides(shape) : stridesForOrder(shape, [0, ...dims.slice(2), 1]);
+        case 'transposed':
+            // The result of .mT on a contiguous tensor: the last two dims are swapped in memory
+            return rank < 2 ? contiguousStrides(shape) : stridesForOrder(shape, [...dims.slice(0, -2), rank - 1, rank - 2]);
+    }
+}
+
+export function parseStrides(input: string, rank: number): number[] {
+    const parts = input.split(',').map(s => s.trim()).filter(Boolean);
+    if (parts.length !== rank) throw new StrideError(`Expected ${rank} strides (one per dimension), got ${parts.length}`);
+    return parts.map(p => {
+        if (!/^[+-]?\d+$/.test(p)) throw new StrideError(`Stride '${p}' is not an integer`);
+        return parseInt(p, 10);
+    });
+}
+
+/**
+ * Strides and storage offset for the current shape. 'data' reads them from the loaded tensor
+ * (falling back to contiguous without one); the other presets use the configured offset.
+ */
+export function resolveMemoryLayout(
+    shape: number[],
+    settings: MemoryLayoutSettings,
+    data?: { shape: number[]; strides: number[]; offset: number } | null,
+): { strides: number[]; offset: number } {
+    switch (settings.preset) {
+        case 'data':
+            if (data && data.shape.length === shape.length) return { strides: data.strides, offset: data.offset };
+            return { strides: contiguousStrides(shape), offset: 0 };
+        case 'custom':
+            return { strides: parseStrides(settings.customStrides, shape.length), offset: settings.offset };
+        default:
+            return { strides: presetStrides(shape, settings.preset), offset: settings.offset };
+    }
+}
+
+export function linearOffset(index: ArrayLike<number>, strides: number[], offset: number): number {
+    let flat = offset;
+    for (let d = 0; d < index.length; d++) flat += index[d] * strides[d];
+    return flat;
+}
+
+/** Lowest and highest storage offsets the view can reach */
+export function offsetRange(shape: number[], strides: number[], offset: number): { min: number; max: number } {
+    let min = offset, max = offset;
+    shape.forEach((size, d) => {
+        const reach = (size - 1) * strides[d];
+        if (reach < 0) min += reach;
+        else max += reach;
+    });
+    return { min, max };
+}
+
+export interface LayoutProperties {
+    cContiguous: boolean;
+    fContiguous: boolean;
+    overlapping: boolean; // several indices share a storage element (e.g. a stride of 0)
+    gaps: boolean; // the reached offsets leave holes in storage
+}
+
+/** Contiguity flags in the NumPy sense; size-1 dims never matter */
+export function layoutProperties(shape: number[], strides: number[]): LayoutProperties {
+    const same = (a: number[]) => shape.every((size, d) => size === 1 || strides[d] === a[d]);
+
+    // Sorting dims by |stride|, each stride must clear the extent of all smaller ones to avoid overlap
+    const dims = shape.map((_, d) => d).filter(d => shape[d] > 1).sort((a, b) => Math.abs(strides[a]) - Math.abs(strides[b]));
+    let extent = 1;
+    let overlapping = false;
+    let gaps = false;
+    for (const d of dims) {
+        const stride = Math.abs(strides[d]);
+        if (stride < extent) overlapping = true;
+        else if (stride > extent) gaps = true;
+        extent = Math.max(extent, stride * shape[d]);
+    }
+    return { cContiguous: same(contiguousStrides(shape)), fContiguous: same(fortranStrides(shape)), overlapping, gaps };
+}
+
+export function formatByteAddress(offset: number, dtype: DType): string {
+    const bytes = offset * DTYPE_SIZES[dtype];
+    return `${bytes < 0 ? '-' : ''}0x${Math.abs(bytes).toString(16).padStart(4, '0')}`;
+}
+
+/** Instance positions sorted by linear offset (ties keep layout order), for the memory-order polyline */
+export function memoryOrderPath(cells: { position: [number, number, number]; offset: number }[]): [number, number, number][] {
+    return cells
+        .map((cell, i) => ({ cell, i }))
+        .sort((a, b) => a.cell.offset - b.cell.offset || a.i - b.i)
+        .map(({ cell }) => cell.position);
+}
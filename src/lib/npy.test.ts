@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import { parseNpy, parseNpz, parseNumpyFile, parseNpyHeader, decodeFloat16, NpyParseError } from './npy';
+import { tensorGet, toContiguousArray } from './tensor';
+import { deflateRaw } from './compression';
+
+// Build a .npy file the way numpy.save does (header padded so data starts on a 64-byte boundary)
+function buildNpy(descr: string, shape: number[], body: Uint8Array, fortran = false, version = 1): Uint8Array {
+    const shapeStr = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+    let header = `{'descr': '${descr}', 'fortran_order': ${fortran ? 'True' : 'False'}, 'shape': ${shapeStr}, }`;
+    const prefix = version === 1 ? 10 : 12;
+    const pad = 64 - ((prefix + header.length + 1) % 64);
+    header += ' '.repeat(pad % 64) + '\n';
+
+    const out = new Uint8Array(prefix + header.length + body.length);
+    out.set([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, version, 0]);
+    const view = new DataView(out.buffer);
+    if (version === 1) view.setUint16(8, header.length, true);
+    else view.setUint32(8, header.length, true);
+    out.set(new TextEncoder().encode(header), prefix);
+    out.set(body, prefix + header.length);
+    return out;
+}
+
+function bytesOf(arr: ArrayBufferView): Uint8Array {
+    return new Uint8Array(arr.buffer, arr.byteOffset, arr.byteLength);
+}
+
+// Build a zip archive whose members are stored uncompressed or deflated
+async function buildZip(files: { name: string; data: Uint8Array; deflate?: boolean }[]): Promise<Uint8Array> {
+    const enc = new TextEncoder();
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+    for (const f of files) {
+        let payload = f.data;
+        if (f.deflate) {
+            payload = await deflateRaw(f.data);
+        }
+        const name = enc.encode(f.name);
+        const method = f.deflate ? 8 : 0;
+
+        const local = new Uint8Array(30 + name.length + payload.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(8, method, true);
+        lv.setUint32(18, payload.length, true);
+        lv.setUint32(22, f.data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+        local.set(payload, 30 + name.length);
+
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(10, method, true);
+        cv.setUint32(20, payload.length, true);
+        cv.setUint32(24, f.data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        locals.push(local);
+        centrals.push(central);
+        offset += local.length;
+    }
+    const cdSize = centrals.reduce((a, c) => a + c.length, 0);
+    const eocd = new Uint8Array(22);
+    const ev = new DataView(eocd.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, files.length, true);
+    ev.setUint16(10, files.length, true);
+    ev.setUint32(12, cdSize, true);
+    ev.setUint32(16, offset, true);
+
+    const parts = [...locals, ...centrals, eocd];
+    const out = new Uint8Array(parts.reduce((a, p) => a + p.length, 0));
+    let p = 0;
+    for (const part of parts) {
+        out.set(part, p);
+        p += part.length;
+    }
+    return out;
+}
+
+describe('NumPy .npy parsing', () => {
+    it('parses header dicts', () => {
+        expect(parseNpyHeader("{'descr': '<f8', 'fortran_order': False, 'shape': (2, 3), }")).toEqual({
+            dtype: 'float64', littleEndian: true, fortranOrder: false, shape: [2, 3],
+        });
+        expect(parseNpyHeader("{'descr': '|b1', 'fortran_order': True, 'shape': (5,), }").shape).toEqual([5]);
+        expect(parseNpyHeader("{'descr': '<i4', 'fortran_order': False, 'shape': (), }").shape).toEqual([]);
+        expect(() => parseNpyHeader("{'descr': '<c16', 'fortran_order': False, 'shape': (2,), }")).toThrow(NpyParseError);
+    });
+
+    it('parses float32 and float64 arrays', () => {
+        const f4 = parseNpy(buildNpy('<f4', [2, 2], bytesOf(new Float32Array([1.5, -2, 3, 4]))));
+        expect(f4.shape).toEqual([2, 2]);
+        expect(f4.dtype).toBe('float32');
+        expect(Array.from(f4.data)).toEqual([1.5, -2, 3, 4]);
+
+        const f8 = parseNpy(buildNpy('<f8', [3], bytesOf(new Float64Array([0.1, NaN, 1e300])), false, 2));
+        expect(f8.data[0]).toBe(0.1);
+        expect(f8.data[1]).toBeNaN();
+        expect(f8.data[2]).toBe(1e300);
+    });
+
+    it('decodes float16 values', () => {
+        expect(decodeFloat16(0x3c00)).toBe(1);
+        expect(decodeFloat16(0xc000)).toBe(-2);
+        expect(decodeFloat16(0x3555)).toBeCloseTo(0.33325, 4);
+        expect(decodeFloat16(0x7c00)).toBe(Infinity);
+        expect(decodeFloat16(0x7e00)).toBeNaN();
+        const arr = parseNpy(buildNpy('<f2', [2], bytesOf(new Uint16Array([0x3c00, 0xc000]))));
+        expect(arr.data).toBeInstanceOf(Float32Array);
+        expect(Array.from(arr.data)).toEqual([1, -2]);
+    });
+
+    it('parses integer and bool dtypes', () => {
+        expect(Array.from(parseNpy(buildNpy('|i1', [3], bytesOf(new Int8Array([-1, 0, 127])))).data)).toEqual([-1, 0, 127]);
+        expect(Array.from(parseNpy(buildNpy('<i2', [2], bytesOf(new Int16Array([-300, 300])))).data)).toEqual([-300, 300]);
+        expect(Array.from(parseNpy(buildNpy('<i4', [2], bytesOf(new Int32Array([-70000, 7])))).data)).toEqual([-70000, 7]);
+        expect(Array.from(parseNpy(buildNpy('|u1', [2], new Uint8Array([0, 255]))).data)).toEqual([0, 255]);
+        expect(Array.from(parseNpy(buildNpy('|b1', [3], new Uint8Array([1, 0, 1]))).data)).toEqual([1, 0, 1]);
+
+        const i8 = parseNpy(buildNpy('<i8', [2], bytesOf(new BigInt64Array([-5n, 2n ** 40n]))));
+        expect(i8.dtype).toBe('int64');
+        expect(Array.from(i8.data)).toEqual([-5, 2 ** 40]);
+    });
+
+    it('handles big-endian data', () => {
+        const body = new Uint8Array(8);
+        new DataView(body.buffer).setInt32(0, 258, false);
+        new DataView(body.buffer).setInt32(4, -1, false);
+        expect(Array.from(parseNpy(buildNpy('>i4', [2], body)).data)).toEqual([258, -1]);
+    });
+
+    it('keeps Fortran-ordered arrays with column-major strides', () => {
+        // C-order [[0, 1, 2], [3, 4, 5]] stored column-major
+        const body = bytesOf(new Float64Array([0, 3, 1, 4, 2, 5]));
+        const arr = parseNpy(buildNpy('<f8', [2, 3], body, true));
+        expect(arr.strides).toEqual([1, 2]);
+        expect(tensorGet(arr, [0, 2])).toBe(2);
+        expect(tensorGet(arr, [1, 0])).toBe(3);
+        expect(Array.from(toContiguousArray(arr))).toEqual([0, 1, 2, 3, 4, 5]);
+
+        // 3D: value = 100 * i + 10 * j + k for shape (2, 3, 2)
+        const shape = [2, 3, 2];
+        const fortran: number[] = [];
+        for (let k = 0; k < 2; k++) for (let j = 0; j < 3; j++) for (let i = 0; i < 2; i++) fortran.push(100 * i + 10 * j + k);
+        const arr3 = parseNpy(buildNpy('<f8', shape, bytesOf(new Float64Array(fortran)), true));
+        const expected: number[] = [];
+        for (let i = 0; i < 2; i++) for (let j = 0; j < 3; j++) for (let k = 0; k < 2; k++) expected.push(100 * i + 10 * j + k);
+        expect(Array.from(toContiguousArray(arr3))).toEqual(expected);
+    });
+
+    it('rejects invalid files', () => {
+        expect(() => parseNpy(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]))).toThrow(/magic/);
+        const truncated = buildNpy('<f8', [4], bytesOf(new Float64Array([1, 2])));
+        expect(() => parseNpy(truncated)).toThrow(/Truncated/);
+    });
+});
+
+describe('NumPy .npz parsing', () => {
+    it('reads stored and deflated members', async () => {
+        const a = buildNpy('<f4', [2], bytesOf(new Float32Array([1, 2])));
+        const b = buildNpy('<i4', [1, 3], bytesOf(new Int32Array([7, 8, 9])));
+        const zip = await buildZip([
+            { name: 'weights.npy', data: a },
+            { name: 'bias.npy', data: b, deflate: true },
+            { name: 'README.txt', data: new TextEncoder().encode('ignored') },
+        ]);
+        const arrays = await parseNpz(zip);
+        expect(arrays.map(x => x.name)).toEqual(['weights', 'bias']);
+        expect(Array.from(arrays[0].tensor.data)).toEqual([1, 2]);
+        expect(arrays[1].tensor.shape).toEqual([1, 3]);
+        expect(Array.from(arrays[1].tensor.data)).toEqual([7, 8, 9]);
+    });
+
+    it('detects the file type from its contents', async () => {
+        const npy = buildNpy('<f8', [1], bytesOf(new Float64Array([42])));
+        const single = await parseNumpyFile(npy.slice().buffer, 'x.npy');
+        expect(single[0].name).toBe('x');
+        expect(single[0].tensor.data[0]).toBe(42);
+
+        const zip = await buildZip([{ name: 'arr_0.npy', data: npy }]);
+        const fromZip = await parseNumpyFile(zip.slice().buffer, 'x.npz');
+        expect(fromZip[0].name).toBe('arr_0');
+    });
+
+    it('rejects archives without arrays', async () => {
+        const zip = await buildZip([{ name: 'a.txt', data: new Uint8Array([1]) }]);
+        await expect(parseNpz(zip)).rejects.toThrow(/no \.npy arrays/);
+    });
+
+    it('rejects truncated and corrupt archives with a readable error', async () => {
+        const npy = buildNpy('<f4', [4], bytesOf(new Float32Array([1, 2, 3, 4])));
+        const zip = await buildZip([{ name: 'a.npy', data: npy }, { name: 'b.npy', data: npy, deflate: true }]);
+        await expect(parseNpz(zip.slice(0, zip.length - 10))).rejects.toThrow(NpyParseError);
+        // Losing the member data leaves the directory offset pointing past the end
+        const cd = new DataView(zip.buffer).getUint32(zip.length - 6, true);
+        const cut = new Uint8Array([...zip.subarray(0, 40), ...zip.subarray(cd)]);
+        await expect(parseNpz(cut)).rejects.toThrow(/Truncated or corrupt/);
+        // Member sizes past the end of the archive
+        const oversized = zip.slice();
+        new DataView(oversized.buffer).setUint32(cd + 20, 1e6, true);
+        await expect(parseNpz(oversized)).rejects.toThrow(/data of 'a\.npy'/);
+    });
+});
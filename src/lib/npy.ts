@@ -0,0 +1,237 @@
+// Parsers for NumPy's .npy array format and .npz archives (zip files of .npy members).
+// Format reference: https://numpy.org/doc/stable/reference/generated/numpy.lib.format.html
+
+import { allocateStorage, createTensor, DTYPE_SIZES, fortranStrides, numel, type DType, type Tensor } from './tensor';
+import { inflateRaw } from './compression';
+
+export interface NamedTensor {
+    name: string;
+    tensor: Tensor;
+}
+
+export class NpyParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NpyParseError';
+    }
+}
+
+const MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59]; // \x93NUMPY
+
+// descr type character + item size → dtype
+const DESCR_TYPES: Record<string, DType> = {
+    f2: 'float16', f4: 'float32', f8: 'float64',
+    i1: 'int8', i2: 'int16', i4: 'int32', i8: 'int64',
+    u1: 'uint8', b1: 'bool',
+};
+
+interface NpyHeader {
+    dtype: DType;
+    littleEndian: boolean;
+    fortranOrder: boolean;
+    shape: number[];
+}
+
+/** Parse the Python dict literal header, e.g. {'descr': '<f4', 'fortran_order': False, 'shape': (3, 4), } */
+export function parseNpyHeader(header: string): NpyHeader {
+    const descr = header.match(/'descr'\s*:\s*'([<>|=]?)([a-z])(\d+)'/);
+    if (!descr) throw new NpyParseError('Unsupported or missing dtype in .npy header (structured dtypes are not supported)');
+    const dtype = DESCR_TYPES[descr[2] + descr[3]];
+    if (!dtype) throw new NpyParseError(`Unsupported dtype '${descr[1]}${descr[2]}${descr[3]}'`);
+
+    const fortran = header.match(/'fortran_order'\s*:\s*(True|False)/);
+    if (!fortran) throw new NpyParseError("Missing 'fortran_order' in .npy header");
+
+    const shapeMatch = header.match(/'shape'\s*:\s*\(([^)]*)\)/);
+    if (!shapeMatch) throw new NpyParseError("Missing 'shape' in .npy header");
+    const shape = shapeMatch[1].split(',').map(s => s.trim()).filter(Boolean).map(Number);
+    if (shape.some(n => !Number.isInteger(n) || n < 0)) {
+        throw new NpyParseError(`Invalid shape (${shapeMatch[1]}) in .npy header`);
+    }
+
+    return {
+        dtype,
+        littleEndian: descr[1] !== '>',
+        fortranOrder: fortran[1] === 'True',
+        shape,
+    };
+}
+
+/** Decode an IEEE 754 half-precision float from its 16 raw bits */
+export function decodeFloat16(bits: number): number {
+    const sign = bits & 0x8000 ? -1 : 1;
+    const exponent = (bits >> 10) & 0x1f;
+    const fraction = bits & 0x3ff;
+    if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+    if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function readElement(view: DataView, offset: number, dtype: DType, le: boolean): number {
+    switch (dtype) {
+        case 'float16': return decodeFloat16(view.getUint16(offset, le));
+        case 'float32': return view.getFloat32(offset, le);
+        case 'float64': return view.getFloat64(offset, le);
+        case 'int8': return view.getInt8(offset);
+        case 'int16': return view.getInt16(offset, le);
+        case 'int32': return view.getInt32(offset, le);
+        case 'int64': return Number(view.getBigInt64(offset, le));
+        case 'uint8': return view.getUint8(offset);
+        case 'bool': return view.getUint8(offset) ? 1 : 0;
+    }
+}
+
+/** Parse a complete .npy file; Fortran-ordered arrays keep their layout via column-major strides */
+export function parseNpy(buffer: ArrayBuffer | Uint8Array): Tensor {
+    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    if (bytes.length < 10 || MAGIC.some((b, i) => bytes[i] !== b)) {
+        throw new NpyParseError('Not a .npy file (bad magic string)');
+    }
+    const major = bytes[6];
+    let headerLen: number;
+    let headerStart: number;
+    if (major === 1) {
+        headerLen = view.getUint16(8, true);
+        headerStart = 10;
+    } else if (major === 2 || major === 3) {
+        headerLen = view.getUint32(8, true);
+        headerStart = 12;
+    } else {
+        throw new NpyParseError(`Unsupported .npy format version ${major}`);
+    }
+    if (headerStart + headerLen > bytes.length) throw new NpyParseError('Truncated .npy header');
+
+    const header = parseNpyHeader(new TextDecoder('latin1').decode(bytes.subarray(headerStart, headerStart + headerLen)));
+    const { dtype, littleEndian, fortranOrder, shape } = header;
+    const count = numel(shape);
+    const itemSize = DTYPE_SIZES[dtype];
+    const dataStart = headerStart + headerLen;
+    if (dataStart + count * itemSize > bytes.length) {
+        throw new NpyParseError(`Truncated .npy data: expected ${count * itemSize} bytes, got ${bytes.length - dataStart}`);
+    }
+
+    const data = allocateStorage(dtype, count);
+    for (let i = 0; i < count; i++) {
+        data[i] = readElement(view, dataStart + i * itemSize, dtype, littleEndian);
+    }
+
+    return createTensor(data, shape, dtype, fortranOrder ? { strides: fortranStrides(shape) } : {});
+}
+
+// ---------------------------------------------------------------------------
+// Minimal zip reader for .npz archives (stored and deflated members, zip64 sizes)
+// ---------------------------------------------------------------------------
+interface ZipEntry {
+    name: string;
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+// Offsets and sizes read from a truncated or corrupt archive can point past its end
+function checkRange(bytes: Uint8Array, start: number, length: number, what: string) {
+    if (start < 0 || start + length > bytes.length) {
+        throw new NpyParseError(`Truncated or corrupt .npz file: ${what} lies outside the ${bytes.length}-byte archive`);
+    }
+}
+
+function readZipEntries(bytes: Uint8Array): ZipEntry[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // End of central directory record: scan backwards past a possible comment
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new NpyParseError('Not a .npz file (no zip directory found)');
+
+    const entryCount = view.getUint16(eocd + 10, true);
+    let ptr = view.getUint32(eocd + 16, true);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+
+    for (let e = 0; e < entryCount; e++) {
+        checkRange(bytes, ptr, 46, 'the zip central directory');
+        if (view.getUint32(ptr, true) !== 0x02014b50) throw new NpyParseError('Corrupt zip central directory');
+        const method = view.getUint16(ptr + 10, true);
+        let compressedSize = view.getUint32(ptr + 20, true);
+        let uncompressedSize = view.getUint32(ptr + 24, true);
+        const nameLen = view.getUint16(ptr + 28, true);
+        const extraLen = view.getUint16(ptr + 30, true);
+        const commentLen = view.getUint16(ptr + 32, true);
+        let localHeaderOffset = view.getUint32(ptr + 42, true);
+        checkRange(bytes, ptr + 46, nameLen + extraLen + commentLen, 'a zip directory entry');
+        const name = decoder.decode(bytes.subarray(ptr + 46, ptr + 46 + nameLen));
+
+        // Zip64 extended information extra field holds the real values of any 0xFFFFFFFF fields
+        let extra = ptr + 46 + nameLen;
+        const extraEnd = extra + extraLen;
+        while (extra + 4 <= extraEnd) {
+            const tag = view.getUint16(extra, true);
+            const size = view.getUint16(extra + 2, true);
+            if (extra + 4 + size > extraEnd) throw new NpyParseError(`Corrupt zip extra field for '${name}'`);
+            if (tag === 0x0001) {
+                let p = extra + 4;
+                const fieldEnd = extra + 4 + size;
+                const read64 = () => {
+                    if (p + 8 > fieldEnd) throw new NpyParseError(`Corrupt zip64 field for '${name}'`);
+                    const value = Number(view.getBigUint64(p, true));
+                    p += 8;
+                    return value;
+                };
+                if (uncompressedSize === 0xffffffff) uncompressedSize = read64();
+                if (compressedSize === 0xffffffff) compressedSize = read64();
+                if (localHeaderOffset === 0xffffffff) localHeaderOffset = read64();
+            }
+            extra += 4 + size;
+        }
+
+        entries.push({ name, method, compressedSize, localHeaderOffset });
+        ptr = extraEnd + commentLen;
+    }
+    return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const p = entry.localHeaderOffset;
+    checkRange(bytes, p, 30, `the local header of '${entry.name}'`);
+    if (view.getUint32(p, true) !== 0x04034b50) throw new NpyParseError(`Corrupt zip entry '${entry.name}'`);
+    const start = p + 30 + view.getUint16(p + 26, true) + view.getUint16(p + 28, true);
+    checkRange(bytes, start, entry.compressedSize, `the data of '${entry.name}'`);
+    const raw = bytes.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return raw;
+    if (entry.method === 8) {
+        try {
+            return await inflateRaw(raw);
+        } catch {
+            throw new NpyParseError(`Corrupt compressed data for '${entry.name}'`);
+        }
+    }
+    throw new NpyParseError(`Unsupported zip compression method ${entry.method} for '${entry.name}'`);
+}
+
+/** Parse every .npy member of an .npz archive, in archive order; names drop the .npy suffix */
+export async function parseNpz(buffer: ArrayBuffer | Uint8Array): Promise<NamedTensor[]> {
+    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    const result: NamedTensor[] = [];
+    for (const entry of readZipEntries(bytes)) {
+        if (!entry.name.endsWith('.npy')) continue;
+        const tensor = parseNpy(await readZipEntry(bytes, entry));
+        result.push({ name: entry.name.slice(0, -4), tensor });
+    }
+    if (result.length === 0) throw new NpyParseError('The .npz archive contains no .npy arrays');
+    return result;
+}
+
+/** Parse a .npy or .npz file by its contents (zip archives start with "PK") */
+export async function parseNumpyFile(buffer: ArrayBuffer, fileName: string): Promise<NamedTensor[]> {
+    const bytes = new Uint8Array(buffer);
+    if (bytes[0] === 0x50 && bytes[1] === 0x4b) return parseNpz(bytes);
+    return [{ name: fileName.replace(/\.npy$/i, ''), tensor: parseNpy(bytes) }];
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { exportBackground, exportTiles, resolveExportSize, DEFAULT_PNG_EXPORT, ExportSizeError } from './pngExport';
+
+const viewport = { width: 800, height: 600 };
+
+describe('PNG export', () => {
+    it('scales the canvas size or uses an explicit size', () => {
+        expect(resolveExportSize({ ...DEFAULT_PNG_EXPORT, scale: 4 }, viewport)).toEqual({ width: 3200, height: 2400, overlayScale: 4 });
+        expect(resolveExportSize({ ...DEFAULT_PNG_EXPORT, sizeMode: 'pixels', width: 1000, height: 1200 }, viewport))
+            .toEqual({ width: 1000, height: 1200, overlayScale: 2 });
+    });
+
+    it('rejects sizes browsers cannot allocate', () => {
+        expect(() => resolveExportSize({ ...DEFAULT_PNG_EXPORT, scale: 8 }, { width: 2560, height: 1440 })).toThrow(ExportSizeError);
+        expect(() => resolveExportSize({ ...DEFAULT_PNG_EXPORT, sizeMode: 'pixels', width: 0, height: 10 }, viewport)).toThrow(/at least/);
+    });
+
+    it('resolves the background', () => {
+        expect(exportBackground({ ...DEFAULT_PNG_EXPORT, background: 'transparent' }, '#ffffff')).toBeNull();
+        expect(exportBackground({ ...DEFAULT_PNG_EXPORT, background: 'theme' }, '#09090b')).toBe('#09090b');
+        expect(exportBackground({ ...DEFAULT_PNG_EXPORT, background: 'custom', backgroundColor: '#fafafa' }, '#09090b')).toBe('#fafafa');
+    });
+
+    it('covers the image with tiles', () => {
+        const tiles = exportTiles(5000, 3000, 2048);
+        expect(tiles).toHaveLength(6);
+        expect(tiles[2]).toEqual({ x: 4096, y: 0, width: 904, height: 2048 });
+        expect(tiles.reduce((n, t) => n + t.width * t.height, 0)).toBe(5000 * 3000);
+    });
+});
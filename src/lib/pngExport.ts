@@ -0,0 +1,80 @@
+// High-resolution PNG export: output size, background and overlays. The scene is rendered in
+// tiles (see Scene.tsx) so the image can be larger than the WebGL canvas allows.
+import type { SceneThemeName } from './vectorExport';
+
+export interface PngExportSettings {
+    sizeMode: 'scale' | 'pixels';
+    scale: number; // multiple of the on-screen canvas size
+    width: number; // explicit size in pixels
+    height: number;
+    background: 'transparent' | 'theme' | 'custom';
+    backgroundColor: string; // used with background 'custom'
+    theme: SceneThemeName;
+    includeTriad: boolean;
+    includeLegend: boolean; // only drawn in value color modes
+}
+
+export const DEFAULT_PNG_EXPORT: PngExportSettings = {
+    sizeMode: 'scale',
+    scale: 2,
+    width: 3840,
+    height: 2160,
+    background: 'theme',
+    backgroundColor: '#ffffff',
+    theme: 'light',
+    includeTriad: true,
+    includeLegend: true,
+};
+
+export const EXPORT_SCALES = [2, 3, 4, 6, 8];
+
+// Browsers refuse canvases with a longer side (and some with a larger area)
+export const MAX_EXPORT_SIDE = 16384;
+
+export class ExportSizeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExportSizeError';
+    }
+}
+
+/**
+ * Output size for a canvas of `viewport` CSS pixels, and the factor overlays (triad, legend) are
+ * scaled by so they keep their on-screen proportions.
+ */
+export function resolveExportSize(
+    settings: PngExportSettings,
+    viewport: { width: number; height: number },
+): { width: number; height: number; overlayScale: number } {
+    const width = Math.round(settings.sizeMode === 'scale' ? viewport.width * settings.scale : settings.width);
+    const height = Math.round(settings.sizeMode === 'scale' ? viewport.height * settings.scale : settings.height);
+    if (!(width >= 1 && height >= 1)) throw new ExportSizeError('Image size must be at least 1 × 1 pixels');
+    if (width > MAX_EXPORT_SIDE || height > MAX_EXPORT_SIDE) {
+        throw new ExportSizeError(`${width} × ${height} is too large: sides are limited to ${MAX_EXPORT_SIDE} pixels`);
+    }
+    return { width, height, overlayScale: height / viewport.height };
+}
+
+/** Background fill of the exported image, or null for transparent */
+export function exportBackground(settings: PngExportSettings, themeBackground: string): string | null {
+    if (settings.background === 'transparent') return null;
+    return settings.background === 'custom' ? settings.backgroundColor : themeBackground;
+}
+
+export interface Tile {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Splits an image into tiles of at most `size` pixels per side, row by row */
+export function exportTiles(width: number, height: number, size: number): Tile[] {
+    const tiles: Tile[] = [];
+    for (let y = 0; y < height; y += size) {
+        for (let x = 0; x < width; x += size) {
+            tiles.push({ x, y, width: Math.min(size, width - x), height: Math.min(size, height - y) });
+        }
+    }
+    return tiles;
+}
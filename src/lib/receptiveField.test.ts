@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+    attendedKeys, attentionPatternLayout, convOutputShape, convPatternLayout, formatConv, maskDensity, parseConvSpec,
+    receptiveField, DEFAULT_CONV_FIELDS, PATTERN_GROUPS, PatternError, type AttentionSpec,
+} from './receptiveField';
+
+describe('Convolution receptive fields', () => {
+    it('parses conv fields, repeating single values over the spatial dims', () => {
+        expect(parseConvSpec(DEFAULT_CONV_FIELDS)).toEqual({ input: [8, 8], kernel: [3, 3], stride: [1, 1], padding: [1, 1], dilation: [1, 1] });
+        expect(parseConvSpec({ ...DEFAULT_CONV_FIELDS, kernel: '3, 5', padding: '0' }).kernel).toEqual([3, 5]);
+        expect(() => parseConvSpec({ ...DEFAULT_CONV_FIELDS, kernel: '3, 3, 3' })).toThrow(/'kernel' needs 1 or 2 values/);
+        expect(() => parseConvSpec({ ...DEFAULT_CONV_FIELDS, stride: '0' })).toThrow(/at least 1/);
+        expect(() => parseConvSpec({ ...DEFAULT_CONV_FIELDS, input: '' })).toThrow(PatternError);
+    });
+
+    it('computes output shapes like torch.nn.Conv2d', () => {
+        const spec = (fields: Partial<typeof DEFAULT_CONV_FIELDS>) => parseConvSpec({ ...DEFAULT_CONV_FIELDS, ...fields });
+        expect(convOutputShape(spec({}))).toEqual([8, 8]);
+        expect(convOutputShape(spec({ input: '7, 7', stride: '2', padding: '0' }))).toEqual([3, 3]);
+        expect(convOutputShape(spec({ input: '10', dilation: '2', padding: '0' }))).toEqual([6]);
+        expect(() => convOutputShape(spec({ input: '2', kernel: '5', padding: '0' }))).toThrow(PatternError);
+        expect(formatConv(spec({ padding: '1, 0' }))).toBe('conv2d(kernel=3, stride=1, padding=(1, 0), dilation=1)');
+    });
+
+    it('finds the input cells an output cell reads, including padding', () => {
+        const spec = parseConvSpec({ input: '8, 8', kernel: '3', stride: '2', padding: '1', dilation: '1' });
+        const field = receptiveField(spec, [0, 1]);
+        expect(field).toHaveLength(9);
+        expect(field[0]).toEqual([-1, 1]);
+        expect(field[8]).toEqual([1, 3]);
+        const dilated = parseConvSpec({ input: '9', kernel: '3', stride: '1', padding: '0', dilation: '3' });
+        expect(receptiveField(dilated, [2])).toEqual([[2], [5], [8]]);
+    });
+
+    it('lays out the padded input and output with their links', () => {
+        const spec = parseConvSpec({ input: '4, 4', kernel: '3', stride: '1', padding: '1', dilation: '1' });
+        const { instances, panels, related } = convPatternLayout(spec, 'first-to-last');
+        expect(instances).toHaveLength(36 + 16);
+        expect(panels.map(p => p.caption)).toEqual(['Input [4, 4]', 'conv2d(kernel=3, stride=1, padding=1, dilation=1) → [4, 4]']);
+        expect(instances.filter(inst => inst.style === 'ghost')).toHaveLength(20);
+
+        // The corner output reads 3 × 3 cells, 5 of them padding; the centre input feeds 9 outputs
+        const corner = instances.findIndex(inst => inst.group === PATTERN_GROUPS.output && inst.indexPath.join() === '0,0');
+        expect(related[corner].map(i => instances[i].indexPath.join())).toEqual(['-1,-1', '-1,0', '-1,1', '0,-1', '0,0', '0,1', '1,-1', '1,0', '1,1']);
+        expect(related[corner].filter(i => instances[i].style === 'ghost')).toHaveLength(5);
+        const centre = instances.findIndex(inst => inst.group === PATTERN_GROUPS.input && inst.indexPath.join() === '1,1');
+        expect(related[centre].every(i => instances[i].group === PATTERN_GROUPS.output)).toBe(true);
+        expect(related[centre]).toHaveLength(9);
+    });
+});
+
+describe('Attention masks', () => {
+    const spec = (mask: AttentionSpec['mask']): AttentionSpec => ({ mask, length: 8, window: 3, block: 4 });
+
+    it('keeps the keys each mask type allows', () => {
+        expect(attendedKeys(spec('causal'), 2)).toEqual([0, 1, 2]);
+        expect(attendedKeys(spec('sliding-window'), 5)).toEqual([3, 4, 5]);
+        expect(attendedKeys(spec('sliding-window'), 1)).toEqual([0, 1]);
+        // Own block plus the last key of each earlier block
+        expect(attendedKeys(spec('block-sparse'), 6)).toEqual([3, 4, 5, 6]);
+        expect(attendedKeys(spec('block-sparse'), 2)).toEqual([0, 1, 2]);
+        expect(maskDensity(spec('causal'))).toBeCloseTo(36 / 64);
+    });
+
+    it('links queries, keys and mask cells', () => {
+        const { instances, panels, related } = attentionPatternLayout(spec('sliding-window'));
+        expect(instances).toHaveLength(8 + 64 + 8);
+        expect(panels).toHaveLength(2);
+        const query = instances.findIndex(inst => inst.group === PATTERN_GROUPS.queries && inst.indexPath[0] === 5);
+        const linked = related[query].map(i => `${instances[i].group}:${instances[i].indexPath.join(',')}`).sort();
+        expect(linked).toEqual(['Keys:3', 'Keys:4', 'Keys:5', 'Mask:5,3', 'Mask:5,4', 'Mask:5,5']);
+        const masked = instances.findIndex(inst => inst.id === 'Mask:5,6');
+        expect(instances[masked].style).toBe('ghost');
+        expect(related[masked]).toEqual([]);
+        // Keys sit above their mask column, queries beside their mask row
+        const key = instances.find(inst => inst.id === 'Keys:3')!;
+        expect(instances.find(inst => inst.id === 'Mask:0,3')!.position[0]).toBe(key.position[0]);
+        expect(instances[query].position[1]).toBe(instances.find(inst => inst.id === 'Mask:5,0')!.position[1]);
+        expect(() => attentionPatternLayout({ ...spec('causal'), length: 0 })).toThrow(PatternError);
+    });
+});
@@ -0,0 +1,210 @@
+// Convolution receptive fields and attention masks: which input cells each output cell reads, and
+// the input / output grids of the pattern preview with the cells to highlight on hover.
+import { arrangeSideBySide, type BoxInstance, type SideBySidePanel } from './layout';
+import { presetLayout, type DimOrderPreset } from './dimAssignment';
+
+export type PatternKind = 'conv' | 'attention';
+
+export class PatternError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PatternError';
+    }
+}
+
+// Pattern grids are drawn in full (never downsampled), so each dim and the padded input are capped
+export const MAX_PATTERN_SIZE = 64;
+const MAX_PATTERN_CELLS = 16384;
+
+/** Convolution over 1 to 3 spatial dims; every field has one entry per spatial dim */
+export interface ConvSpec {
+    input: number[];
+    kernel: number[];
+    stride: number[];
+    padding: number[];
+    dilation: number[];
+}
+
+/** The conv fields as typed in the sidebar */
+export type ConvFields = Record<keyof ConvSpec, string>;
+
+export const DEFAULT_CONV_FIELDS: ConvFields = { input: '8, 8', kernel: '3', stride: '1', padding: '1', dilation: '1' };
+
+// Non-negative integers separated by anything, e.g. "3, 3" or "(1, 0)"
+const parseInts = (input: string) => (input.match(/\d+/g) ?? []).map(Number);
+
+/** Parse the conv fields; as in PyTorch, a single number applies to every spatial dim */
+export function parseConvSpec(fields: ConvFields): ConvSpec {
+    const input = parseInts(fields.input);
+    if (input.length < 1 || input.length > 3) throw new PatternError('Input size needs 1 to 3 spatial dims, e.g. 8, 8');
+    if (input.some(n => n < 1 || n > MAX_PATTERN_SIZE)) {
+        throw new PatternError(`Input sizes must be between 1 and ${MAX_PATTERN_SIZE}`);
+    }
+    const param = (name: Exclude<keyof ConvSpec, 'input'>, min: number): number[] => {
+        const values = parseInts(fields[name]);
+        if (values.length !== 1 && values.length !== input.length) {
+            throw new PatternError(`'${name}' needs 1 or ${input.length} values`);
+        }
+        if (values.some(v => v < min)) throw new PatternError(`'${name}' must be at least ${min}`);
+        return values.length === 1 ? input.map(() => values[0]) : values;
+    };
+    return { input, kernel: param('kernel', 1), stride: param('stride', 1), padding: param('padding', 0), dilation: param('dilation', 1) };
+}
+
+/** Output size per dim: ⌊(n + 2p − d·(k − 1) − 1) / s⌋ + 1, as in torch.nn.Conv*d */
+export function convOutputShape(spec: ConvSpec): number[] {
+    return spec.input.map((n, d) => {
+        const size = Math.floor((n + 2 * spec.padding[d] - spec.dilation[d] * (spec.kernel[d] - 1) - 1) / spec.stride[d]) + 1;
+        if (size < 1) throw new PatternError(`The dilated kernel is larger than the padded input along dim ${d}`);
+        return size;
+    });
+}
+
+/**
+ * Input positions read by an output cell, row-major over the kernel. Positions in the padding are
+ * included, with indices below 0 or from the input size up.
+ */
+export function receptiveField(spec: ConvSpec, outIndex: number[]): number[][] {
+    const perDim = outIndex.map((o, d) => Array.from(
+        { length: spec.kernel[d] },
+        (_, j) => o * spec.stride[d] - spec.padding[d] + j * spec.dilation[d],
+    ));
+    return perDim.reduce<number[][]>((paths, positions) => paths.flatMap(path => positions.map(p => [...path, p])), [[]]);
+}
+
+/** Written call, e.g. `conv2d(kernel=3, stride=2, padding=(1, 0), dilation=1)` */
+export function formatConv(spec: ConvSpec): string {
+    const arg = (values: number[]) => (values.every(v => v === values[0]) ? String(values[0]) : `(${values.join(', ')})`);
+    return `conv${spec.input.length}d(kernel=${arg(spec.kernel)}, stride=${arg(spec.stride)}, padding=${arg(spec.padding)}, dilation=${arg(spec.dilation)})`;
+}
+
+export type AttentionMask = 'causal' | 'sliding-window' | 'block-sparse';
+
+export interface AttentionSpec {
+    mask: AttentionMask;
+    length: number; // sequence length (queries and keys)
+    window: number; // sliding-window: keys per query, including itself
+    block: number; // block-sparse: block size
+}
+
+export const DEFAULT_ATTENTION: AttentionSpec = { mask: 'causal', length: 16, window: 4, block: 4 };
+
+/**
+ * Whether a query attends to a key. All masks are causal (key ≤ query); sliding-window keeps the
+ * last `window` keys, and block-sparse is the fixed pattern of Sparse Transformers: the keys of the
+ * query's own block plus the last key of every earlier block, which summarizes it.
+ */
+export function attends(spec: AttentionSpec, query: number, key: number): boolean {
+    if (key > query) return false;
+    switch (spec.mask) {
+        case 'causal':
+            return true;
+        case 'sliding-window':
+            return query - key < spec.window;
+        case 'block-sparse':
+            return Math.floor(key / spec.block) === Math.floor(query / spec.block) || key % spec.block === spec.block - 1;
+    }
+}
+
+export function attendedKeys(spec: AttentionSpec, query: number): number[] {
+    return Array.from({ length: spec.length }, (_, k) => k).filter(k => attends(spec, query, k));
+}
+
+/** Fraction of the query × key pairs the mask keeps */
+export function maskDensity(spec: AttentionSpec): number {
+    let kept = 0;
+    for (let q = 0; q < spec.length; q++) kept += attendedKeys(spec, q).length;
+    return kept / (spec.length * spec.length);
+}
+
+/** Arranged cells of the pattern preview, and per cell the cells highlighted when hovering it */
+export interface PatternLayout {
+    instances: BoxInstance[];
+    panels: SideBySidePanel[];
+    related: number[][];
+}
+
+export const PATTERN_GROUPS = { input: 'Input', output: 'Output', keys: 'Keys', mask: 'Mask', queries: 'Queries' } as const;
+
+/**
+ * The (padded) input next to the output. Padding cells are ghosts; hovering an output cell
+ * highlights its receptive field, and hovering an input cell the outputs that read it.
+ */
+export function convPatternLayout(spec: ConvSpec, dimOrder: DimOrderPreset): PatternLayout {
+    const outShape = convOutputShape(spec);
+    const padded = spec.input.map((n, d) => n + 2 * spec.padding[d]);
+    if (padded.reduce((a, b) => a * b, 1) > MAX_PATTERN_CELLS) {
+        throw new PatternError(`The padded input has more than ${MAX_PATTERN_CELLS} cells`);
+    }
+    const maxCellsPerDim = Math.max(...padded, ...outShape);
+    const input = presetLayout(padded, { dimOrder, maxCellsPerDim }).map(inst => {
+        const indexPath = inst.indexPath.map((i, d) => i - spec.padding[d]);
+        const isPadding = indexPath.some((i, d) => i < 0 || i >= spec.input[d]);
+        return { ...inst, indexPath, id: `${PATTERN_GROUPS.input}:${indexPath.join(',')}`, group: PATTERN_GROUPS.input, style: isPadding ? 'ghost' as const : undefined };
+    });
+    const output = presetLayout(outShape, { dimOrder, maxCellsPerDim })
+        .map(inst => ({ ...inst, id: `${PATTERN_GROUPS.output}:${inst.id}`, group: PATTERN_GROUPS.output }));
+    const { instances, panels } = arrangeSideBySide(
+        [input, output],
+        [`Input [${spec.input.join(', ')}]`, `${formatConv(spec)} → [${outShape.join(', ')}]`],
+    );
+
+    const inputIds = new Map(input.map((inst, i) => [inst.id, i]));
+    const related: number[][] = instances.map(() => []);
+    output.forEach((inst, o) => {
+        const outId = input.length + o;
+        for (const path of receptiveField(spec, inst.indexPath)) {
+            const inId = inputIds.get(`${PATTERN_GROUPS.input}:${path.join(',')}`)!;
+            related[outId].push(inId);
+            related[inId].push(outId);
+        }
+    });
+    return { instances, panels, related };
+}
+
+/**
+ * The query × key mask with the keys in a row above it and the queries (the attention outputs) in
+ * a column to its right; masked pairs are ghosts. Hovering a query highlights the keys it attends
+ * to, hovering a key the queries attending to it, and hovering a mask cell its key and query.
+ */
+export function attentionPatternLayout(spec: AttentionSpec): PatternLayout {
+    const n = spec.length;
+    if (!Number.isInteger(n) || n < 1 || n > MAX_PATTERN_SIZE) {
+        throw new PatternError(`Sequence length must be between 1 and ${MAX_PATTERN_SIZE}`);
+    }
+    if (spec.window < 1 || spec.block < 1) throw new PatternError('Window and block sizes must be at least 1');
+    const cell = (group: string, indexPath: number[], x: number, y: number, ghost = false): BoxInstance => ({
+        id: `${group}:${indexPath.join(',')}`,
+        position: [x - (n + 2) / 2, y + (n - 1) / 2, 0],
+        indexPath,
+        group,
+        style: ghost ? 'ghost' : undefined,
+    });
+    // Indices increase in +X (keys) and -Y (queries), like the other grids
+    const keys = Array.from({ length: n }, (_, k) => cell(PATTERN_GROUPS.keys, [k], k, 2));
+    const mask = Array.from({ length: n * n }, (_, i) => {
+        const q = Math.floor(i / n), k = i % n;
+        return cell(PATTERN_GROUPS.mask, [q, k], k, -q, !attends(spec, q, k));
+    });
+    const queries = Array.from({ length: n }, (_, q) => cell(PATTERN_GROUPS.queries, [q], n + 2, -q));
+    const instances = [...keys, ...mask, ...queries];
+
+    const maskId = (q: number, k: number) => n + q * n + k;
+    const queryId = (q: number) => n + n * n + q;
+    const related: number[][] = instances.map(() => []);
+    for (let q = 0; q < n; q++) {
+        for (const k of attendedKeys(spec, q)) {
+            related[queryId(q)].push(k, maskId(q, k));
+            related[k].push(queryId(q), maskId(q, k));
+            related[maskId(q, k)].push(k, queryId(q));
+        }
+    }
+
+    const [left, right] = [keys[0].position[0], keys[n - 1].position[0]];
+    const top = keys[0].position[1];
+    const panels: SideBySidePanel[] = [
+        { caption: `Keys [${n}] · ${spec.mask} mask`, center: [(left + right) / 2, top, 0], top },
+        { caption: 'Queries', center: [queries[0].position[0], 0, 0], top: queries[0].position[1] },
+    ];
+    return { instances, panels, related };
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { frameCount, orbitPose, recordingSize, sweepIndex, DEFAULT_RECORDING } from './recording';
+
+describe('Recording', () => {
+    it('computes frame counts and even output sizes', () => {
+        expect(frameCount({ ...DEFAULT_RECORDING, duration: 2, fps: 15 })).toBe(30);
+        expect(frameCount({ ...DEFAULT_RECORDING, duration: 0, fps: 15 })).toBe(1);
+        expect(recordingSize({ width: 1001, height: 601 }, null)).toEqual({ width: 1002, height: 602 });
+        expect(recordingSize({ width: 1600, height: 900 }, 720)).toEqual({ width: 1280, height: 720 });
+    });
+
+    it('orbits around the target at a constant height and distance', () => {
+        const pose = { position: [5, 3, 0] as [number, number, number], target: [1, 0, 0] as [number, number, number] };
+        expect(orbitPose(pose, 0).position).toEqual([5, 3, 0]);
+        const quarter = orbitPose(pose, 0.25).position;
+        expect(quarter[0]).toBeCloseTo(1);
+        expect(quarter[1]).toBe(3);
+        expect(quarter[2]).toBeCloseTo(-4);
+        expect(orbitPose(pose, 0.5).position[0]).toBeCloseTo(-3);
+    });
+
+    it('steps through every slice of the domain', () => {
+        const shown = Array.from({ length: 10 }, (_, f) => sweepIndex([0, 2, 4, 6], f, 10));
+        expect(shown).toEqual([0, 0, 0, 2, 2, 4, 4, 4, 6, 6]);
+        expect(sweepIndex([3], 5, 6)).toBe(3);
+    });
+});
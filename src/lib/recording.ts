@@ -0,0 +1,98 @@
+// Animation recording: turntable orbits of the camera and sweeps through one sliced dimension,
+// rendered frame by frame and encoded as WebM (MediaRecorder) or GIF (gif.ts).
+import type { CameraPose } from './viewState';
+
+export type RecordingKind = 'orbit' | 'sweep';
+export type RecordingFormat = 'webm' | 'gif';
+
+export interface RecordingSettings {
+    kind: RecordingKind;
+    format: RecordingFormat;
+    duration: number; // seconds
+    fps: number;
+    height: number | null; // output height in pixels (width follows the canvas); null = canvas size
+    sweepDim: number | null; // sliced dim stepped through by 'sweep'
+}
+
+export const DEFAULT_RECORDING: RecordingSettings = {
+    kind: 'orbit',
+    format: 'webm',
+    duration: 6,
+    fps: 30,
+    height: 720,
+    sweepDim: null,
+};
+
+export const RECORDING_FPS = [10, 15, 24, 30, 60];
+export const RECORDING_HEIGHTS = [360, 480, 720, 1080];
+export const MAX_RECORDING_DURATION = 60;
+
+export function frameCount(settings: RecordingSettings): number {
+    return Math.max(1, Math.round(settings.duration * settings.fps));
+}
+
+/** Output size for a canvas of `viewport` pixels; video encoders need even dimensions */
+export function recordingSize(viewport: { width: number; height: number }, height: number | null): { width: number; height: number } {
+    const h = height ?? viewport.height;
+    const even = (n: number) => Math.max(2, 2 * Math.round(n / 2));
+    return { width: even((viewport.width * h) / viewport.height), height: even(h) };
+}
+
+/**
+ * Camera pose at `t` ∈ [0, 1) of a full turn around the vertical axis through the orbit target,
+ * starting from `pose`; height and distance to the target stay the same.
+ */
+export function orbitPose(pose: CameraPose, t: number): CameraPose {
+    const angle = 2 * Math.PI * t;
+    const [tx, , tz] = pose.target;
+    const dx = pose.position[0] - tx;
+    const dz = pose.position[2] - tz;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return {
+        ...pose,
+        position: [tx + dx * cos + dz * sin, pose.position[1], tz - dx * sin + dz * cos],
+    };
+}
+
+/** Slice index shown in `frame` of a sweep: every index of the domain gets an equal share of frames */
+export function sweepIndex(domain: number[], frame: number, frames: number): number {
+    const position = Math.min(domain.length - 1, Math.floor((frame * domain.length) / frames));
+    return domain[position];
+}
+
+export function webmSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+}
+
+/**
+ * Records a canvas into WebM one frame at a time: draw into the canvas, then call `frame()`.
+ * MediaRecorder timestamps frames by wall-clock time, so `frame()` waits out the rest of the
+ * frame's slot to keep the video at the requested rate.
+ */
+export function createWebmRecorder(canvas: HTMLCanvasElement, fps: number) {
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(t => MediaRecorder.isTypeSupported(t));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start();
+    let next = performance.now();
+
+    return {
+        async frame() {
+            track.requestFrame();
+            next += 1000 / fps;
+            const wait = next - performance.now();
+            if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+        },
+        async finish(): Promise<Blob> {
+            recorder.stop();
+            await stopped;
+            stream.getTracks().forEach(t => t.stop());
+            return new Blob(chunks, { type: 'video/webm' });
+        },
+    };
+}
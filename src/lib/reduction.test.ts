@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { reduceDims, reducedShape, reducedIndex, reduceTensor, formatReduction, type ReductionSpec } from './reduction';
+import { createTensor, tensorFromNested, toContiguousArray } from './tensor';
+
+// [[[0, 1, 2], [3, 4, 5]], [[6, 7, 8], [9, 10, 11]]]
+const t = createTensor(Float64Array.from({ length: 12 }, (_, i) => i), [2, 2, 3], 'float64');
+const spec = (op: ReductionSpec['op'], dims: number[], keepdim = false): ReductionSpec => ({ op, dims, keepdim });
+const values = (spec: ReductionSpec) => Array.from(toContiguousArray(reduceTensor(t, spec)));
+
+describe('Reductions', () => {
+    it('computes result shapes with and without keepdim', () => {
+        expect(reducedShape([2, 3, 4], spec('sum', [1]))).toEqual([2, 4]);
+        expect(reducedShape([2, 3, 4], spec('sum', [2, 0, 2], true))).toEqual([1, 3, 1]);
+        expect(reducedShape([2, 3, 4], spec('sum', []))).toEqual([]);
+        expect(reduceDims(spec('sum', [5, 1]), 3)).toEqual([1]);
+    });
+
+    it('maps input indices to the output cell they collapse into', () => {
+        expect(reducedIndex([1, 2, 3], [1], false)).toEqual([1, 3]);
+        expect(reducedIndex([1, 2, 3], [0, 2], true)).toEqual([0, 2, 0]);
+    });
+
+    it('reduces over one or several dims', () => {
+        expect(values(spec('sum', [2]))).toEqual([3, 12, 21, 30]);
+        expect(values(spec('mean', [0, 1]))).toEqual([4.5, 5.5, 6.5]);
+        expect(values(spec('max', [1]))).toEqual([3, 4, 5, 9, 10, 11]);
+        expect(values(spec('sum', []))).toEqual([66]);
+        expect(values(spec('norm', [2]))[0]).toBeCloseTo(Math.sqrt(5));
+        expect(reduceTensor(t, spec('sum', [1], true)).shape).toEqual([2, 1, 3]);
+    });
+
+    it('returns argmax positions within the reduced dims', () => {
+        const r = reduceTensor(tensorFromNested([[3, 9, 1], [7, 2, 7]], [2, 3]), spec('argmax', [1]));
+        expect(r.dtype).toBe('int64');
+        expect(Array.from(toContiguousArray(r))).toEqual([1, 0]);
+        // Flat position over dims (1, 2): the last element of each 2×3 block
+        expect(values(spec('argmax', [1, 2]))).toEqual([5, 5]);
+    });
+
+    it('propagates missing values', () => {
+        const ragged = tensorFromNested([[1, 2], [3]], [2, 2]);
+        expect(Array.from(toContiguousArray(reduceTensor(ragged, spec('sum', [1]))))).toEqual([3, NaN]);
+        expect(Array.from(toContiguousArray(reduceTensor(ragged, spec('argmax', [1]))))).toEqual([1, 1]);
+    });
+
+    it('formats the PyTorch call', () => {
+        expect(formatReduction(spec('sum', [1]), 3)).toBe('x.sum(dim=1)');
+        expect(formatReduction(spec('mean', [2, 1], true), 3)).toBe('x.mean(dim=(1, 2), keepdim=True)');
+        expect(formatReduction(spec('norm', []), 3)).toBe('x.norm()');
+    });
+});
@@ -0,0 +1,105 @@
+// Reductions (sum / mean / max / argmax / norm) over a set of dims, with PyTorch's keepdim semantics.
+import { allocateStorage, createTensor, numel, tensorGet, type Tensor } from './tensor';
+
+export type ReduceOp = 'sum' | 'mean' | 'max' | 'argmax' | 'norm';
+
+export const REDUCE_OPS: ReduceOp[] = ['sum', 'mean', 'max', 'argmax', 'norm'];
+
+export interface ReductionSpec {
+    op: ReduceOp;
+    dims: number[]; // empty reduces over every dim
+    keepdim: boolean;
+}
+
+/** Sorted, de-duplicated dims to reduce; none means all of them */
+export function reduceDims(spec: ReductionSpec, rank: number): number[] {
+    const dims = [...new Set(spec.dims.filter(d => d >= 0 && d < rank))].sort((a, b) => a - b);
+    return dims.length > 0 ? dims : Array.from({ length: rank }, (_, d) => d);
+}
+
+export function reducedShape(shape: number[], spec: ReductionSpec): number[] {
+    const dims = reduceDims(spec, shape.length);
+    return spec.keepdim
+        ? shape.map((size, d) => (dims.includes(d) ? 1 : size))
+        : shape.filter((_, d) => !dims.includes(d));
+}
+
+/** Output index an input element is reduced into */
+export function reducedIndex(indexPath: number[], dims: number[], keepdim: boolean): number[] {
+    return keepdim
+        ? indexPath.map((idx, d) => (dims.includes(d) ? 0 : idx))
+        : indexPath.filter((_, d) => !dims.includes(d));
+}
+
+/**
+ * Reduce a tensor. Missing values count as NaN and propagate, as in NumPy; argmax returns the first
+ * NaN if there is one. Over several dims, argmax is the row-major flat position within the reduced
+ * dims (what `x.flatten(...).argmax()` over those dims would give).
+ */
+export function reduceTensor(t: Tensor, spec: ReductionSpec): Tensor {
+    const { shape } = t;
+    const dims = reduceDims(spec, shape.length);
+    const kept = shape.map((_, d) => d).filter(d => !dims.includes(d));
+    const outShape = reducedShape(shape, spec);
+    const outSize = numel(kept.map(d => shape[d]));
+    const groupSize = numel(dims.map(d => shape[d]));
+
+    const acc = new Float64Array(outSize).fill(spec.op === 'max' || spec.op === 'argmax' ? -Infinity : 0);
+    const best = spec.op === 'argmax' ? new Float64Array(outSize).fill(-1) : null;
+
+    const n = numel(shape);
+    const index = new Array<number>(shape.length).fill(0);
+    for (let i = 0; i < n; i++) {
+        let out = 0;
+        for (const d of kept) out = out * shape[d] + index[d];
+        const v = tensorGet(t, index) ?? NaN;
+
+        switch (spec.op) {
+            case 'sum':
+            case 'mean':
+                acc[out] += v;
+                break;
+            case 'norm':
+                acc[out] += v * v;
+                break;
+            case 'max':
+                acc[out] = Number.isNaN(v) ? NaN : Math.max(acc[out], v);
+                break;
+            case 'argmax': {
+                if (Number.isNaN(acc[out])) break;
+                if (Number.isNaN(v) || v > acc[out] || best![out] < 0) {
+                    let pos = 0;
+                    for (const d of dims) pos = pos * shape[d] + index[d];
+                    acc[out] = v;
+                    best![out] = pos;
+                }
+                break;
+            }
+        }
+
+        // Row-major odometer over the input index
+        for (let d = shape.length - 1; d >= 0; d--) {
+            if (++index[d] < shape[d]) break;
+            index[d] = 0;
+        }
+    }
+
+    const dtype = spec.op === 'argmax' ? 'int64' : 'float64';
+    const data = allocateStorage(dtype, outSize);
+    for (let o = 0; o < outSize; o++) {
+        if (spec.op === 'argmax') data[o] = best![o];
+        else if (spec.op === 'mean') data[o] = acc[o] / groupSize;
+        else if (spec.op === 'norm') data[o] = Math.sqrt(acc[o]);
+        else data[o] = acc[o];
+    }
+    return createTensor(data, outShape, dtype);
+}
+
+/** PyTorch call for the reduction, e.g. `x.sum(dim=(1, 2), keepdim=True)` */
+export function formatReduction(spec: ReductionSpec, rank: number, name = 'x'): string {
+    const dims = reduceDims(spec, rank);
+    const args: string[] = [];
+    if (dims.length < rank) args.push(`dim=${dims.length === 1 ? dims[0] : `(${dims.join(', ')})`}`);
+    if (spec.keepdim) args.push('keepdim=True');
+    return `${name}.${spec.op}(${args.join(', ')})`;
+}
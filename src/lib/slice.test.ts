@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseSliceExpression, resolveSelection, resolveSelections, formatSliceExpression, SliceParseError } from './slice';
+
+describe('Slice expressions', () => {
+    it('parses indices, ranges and lists', () => {
+        expect(parseSliceExpression('x[0, :, 2:10:2, ::4]', 4)).toEqual([
+            { kind: 'index', index: 0 },
+            { kind: 'all' },
+            { kind: 'range', start: 2, stop: 10, step: 2 },
+            { kind: 'range', start: undefined, stop: undefined, step: 4 },
+        ]);
+        expect(parseSliceExpression('[1, 3], -1', 3)).toEqual([
+            { kind: 'list', indices: [1, 3] },
+            { kind: 'index', index: -1 },
+            { kind: 'all' },
+        ]);
+        expect(parseSliceExpression('', 2)).toEqual([{ kind: 'all' }, { kind: 'all' }]);
+    });
+
+    it('expands the ellipsis', () => {
+        expect(parseSliceExpression('t[..., 0]', 3).map(s => s.kind)).toEqual(['all', 'all', 'index']);
+        expect(parseSliceExpression('1, ..., ::2', 4).map(s => s.kind)).toEqual(['index', 'all', 'all', 'range']);
+    });
+
+    it('rejects malformed expressions', () => {
+        expect(() => parseSliceExpression('x[0, 1, 2]', 2)).toThrow(/Too many indices/);
+        expect(() => parseSliceExpression('::0', 1)).toThrow(/step cannot be zero/);
+        expect(() => parseSliceExpression('a', 1)).toThrow(SliceParseError);
+        expect(() => parseSliceExpression('[1, 2', 1)).toThrow(/Unbalanced/);
+        expect(() => parseSliceExpression('..., ...', 3)).toThrow(/Only one/);
+        expect(() => parseSliceExpression('1:2:3:4', 1)).toThrow(/Too many ':'/);
+    });
+
+    it('resolves selections with NumPy semantics', () => {
+        expect(resolveSelection({ kind: 'range', start: 2, stop: 10, step: 2 }, 8)).toEqual([2, 4, 6]);
+        expect(resolveSelection({ kind: 'range', start: -3 }, 5)).toEqual([2, 3, 4]);
+        expect(resolveSelection({ kind: 'range', step: -2 }, 5)).toEqual([4, 2, 0]);
+        expect(resolveSelection({ kind: 'range', start: 3, stop: 0, step: -1 }, 5)).toEqual([3, 2, 1]);
+        expect(resolveSelection({ kind: 'range', start: 4, stop: 2 }, 5)).toEqual([]);
+        expect(resolveSelection({ kind: 'list', indices: [3, -1, 3] }, 5)).toEqual([3, 4]);
+        expect(resolveSelection({ kind: 'index', index: -1 }, 5)).toEqual([4]);
+    });
+
+    it('bounds-checks single indices and lists', () => {
+        expect(() => resolveSelections(parseSliceExpression('0, 7', 2), [2, 5])).toThrow(/Index 7 is out of bounds for dim 1 with size 5/);
+        expect(() => resolveSelection({ kind: 'list', indices: [-6] }, 5)).toThrow(/out of bounds/);
+    });
+
+    it('formats selections back to an expression', () => {
+        expect(formatSliceExpression(parseSliceExpression('x[0, :, 2:10:2, ::4]', 5))).toBe('x[0, :, 2:10:2, ::4]');
+        expect(formatSliceExpression(parseSliceExpression('1:, [0, 2]', 3))).toBe('x[1:, [0, 2]]');
+        expect(formatSliceExpression(parseSliceExpression('', 3))).toBe('x[...]');
+    });
+});
@@ -0,0 +1,139 @@
+// NumPy-style per-dimension selection, e.g. `x[0, :, 2:10:2, ::4]` or `[..., [1, 3, 5]]`.
+
+export type DimSelection =
+    | { kind: 'all' }
+    | { kind: 'index'; index: number }
+    | { kind: 'range'; start?: number; stop?: number; step?: number }
+    | { kind: 'list'; indices: number[] };
+
+export class SliceParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SliceParseError';
+    }
+}
+
+const INT = /^[+-]?\d+$/;
+
+/** Split on commas that are not inside [ ] */
+function splitTopLevel(body: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of body) {
+        if (ch === '[') depth++;
+        if (ch === ']') depth--;
+        if (depth < 0) throw new SliceParseError("Unbalanced ']' in selection");
+        if (ch === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (depth !== 0) throw new SliceParseError("Unbalanced '[' in selection");
+    parts.push(current.trim());
+    return parts;
+}
+
+function parseInteger(text: string, what: string): number {
+    if (!INT.test(text)) throw new SliceParseError(`Expected an integer ${what}, got '${text}'`);
+    return parseInt(text, 10);
+}
+
+function parseItem(item: string): DimSelection | 'ellipsis' {
+    if (item === '...') return 'ellipsis';
+    if (item === ':' || item === '::') return { kind: 'all' };
+    if (item.startsWith('[')) {
+        if (!item.endsWith(']')) throw new SliceParseError(`Malformed index list '${item}'`);
+        const inner = item.slice(1, -1).trim();
+        if (!inner) throw new SliceParseError('Index lists must not be empty');
+        return { kind: 'list', indices: inner.split(',').map(s => parseInteger(s.trim(), 'in index list')) };
+    }
+    if (item.includes(':')) {
+        const fields = item.split(':').map(s => s.trim());
+        if (fields.length > 3) throw new SliceParseError(`Too many ':' in '${item}'`);
+        const [start, stop, step] = fields.map((f, i) => (f === '' ? undefined : parseInteger(f, ['start', 'stop', 'step'][i])));
+        if (step === 0) throw new SliceParseError('Slice step cannot be zero');
+        return { kind: 'range', start, stop, step };
+    }
+    if (item === '') throw new SliceParseError('Empty index in selection');
+    return { kind: 'index', index: parseInteger(item, 'index') };
+}
+
+/**
+ * Parse a selection expression for a tensor of the given rank. The `name[...]` wrapper is optional
+ * (`0, :, ::2` works too); missing trailing dims, or those covered by `...`, select everything.
+ */
+export function parseSliceExpression(expr: string, rank: number): DimSelection[] {
+    const trimmed = expr.trim();
+    if (!trimmed) return Array.from({ length: rank }, () => ({ kind: 'all' }));
+
+    const wrapped = trimmed.match(/^[A-Za-z_]\w*\s*\[([\s\S]*)\]$/);
+    const items = splitTopLevel(wrapped ? wrapped[1] : trimmed).map(parseItem);
+    const ellipses = items.filter(i => i === 'ellipsis').length;
+    if (ellipses > 1) throw new SliceParseError("Only one '...' is allowed");
+    const explicit = items.length - ellipses;
+    if (explicit > rank) throw new SliceParseError(`Too many indices: ${explicit} given for a tensor of rank ${rank}`);
+
+    const fill = Array.from({ length: rank - explicit }, (): DimSelection => ({ kind: 'all' }));
+    const at = items.indexOf('ellipsis');
+    const sels = items.filter((i): i is DimSelection => i !== 'ellipsis');
+    return at >= 0 ? [...sels.slice(0, at), ...fill, ...sels.slice(at)] : [...sels, ...fill];
+}
+
+function normalizeIndex(index: number, size: number, dim: number): number {
+    const i = index < 0 ? index + size : index;
+    if (i < 0 || i >= size) throw new SliceParseError(`Index ${index} is out of bounds for dim ${dim} with size ${size}`);
+    return i;
+}
+
+/** Resolve a selection to the original indices it picks, in order (duplicates dropped) */
+export function resolveSelection(sel: DimSelection, size: number, dim = 0): number[] {
+    switch (sel.kind) {
+        case 'all':
+            return Array.from({ length: size }, (_, i) => i);
+        case 'index':
+            return [normalizeIndex(sel.index, size, dim)];
+        case 'list':
+            return [...new Set(sel.indices.map(i => normalizeIndex(i, size, dim)))];
+        case 'range': {
+            const step = sel.step ?? 1;
+            const out: number[] = [];
+            if (step > 0) {
+                const start = Math.min(Math.max(sel.start === undefined ? 0 : sel.start < 0 ? sel.start + size : sel.start, 0), size);
+                const stop = Math.min(Math.max(sel.stop === undefined ? size : sel.stop < 0 ? sel.stop + size : sel.stop, 0), size);
+                for (let i = start; i < stop; i += step) out.push(i);
+            } else {
+                const start = Math.min(Math.max(sel.start === undefined ? size - 1 : sel.start < 0 ? sel.start + size : sel.start, -1), size - 1);
+                const stop = sel.stop === undefined ? -1 : Math.min(Math.max(sel.stop < 0 ? sel.stop + size : sel.stop, -1), size - 1);
+                for (let i = start; i > stop; i += step) out.push(i);
+            }
+            return out;
+        }
+    }
+}
+
+/** Validate every selection against a shape; throws SliceParseError on out-of-bounds indices */
+export function resolveSelections(sels: DimSelection[], shape: number[]): number[][] {
+    return shape.map((size, d) => resolveSelection(sels[d] ?? { kind: 'all' }, size, d));
+}
+
+export function formatSelection(sel: DimSelection): string {
+    switch (sel.kind) {
+        case 'all': return ':';
+        case 'index': return String(sel.index);
+        case 'list': return `[${sel.indices.join(', ')}]`;
+        case 'range': {
+            const s = `${sel.start ?? ''}:${sel.stop ?? ''}`;
+            return sel.step !== undefined && sel.step !== 1 ? `${s}:${sel.step}` : s;
+        }
+    }
+}
+
+/** Format selections as an expression, dropping trailing full-dimension selections (`x[...]` if all are) */
+export function formatSliceExpression(sels: DimSelection[], name = 'x'): string {
+    let end = sels.length;
+    while (end > 0 && sels[end - 1].kind === 'all') end--;
+    return `${name}[${end === 0 ? '...' : sels.slice(0, end).map(formatSelection).join(', ')}]`;
+}
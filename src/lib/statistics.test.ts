@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { histogram, histogramBin, statisticsAlong, tensorStatistics } from './statistics';
+import { createTensor, fortranStrides, tensorFromNested } from './tensor';
+
+describe('Tensor statistics', () => {
+    it('summarizes every element and counts special values', () => {
+        const t = createTensor(Float64Array.of(0, 1, 2, 3, NaN, Infinity, -Infinity, 0), [2, 4], 'float64');
+        const stats = tensorStatistics(t);
+        expect(stats).toMatchObject({ count: 8, finite: 5, missing: 0, nan: 1, posInf: 1, negInf: 1, zeros: 2, min: 0, max: 3 });
+        expect(stats.mean).toBeCloseTo(6 / 5);
+        expect(stats.std).toBeCloseTo(Math.sqrt((1.44 * 2 + 0.04 + 0.64 + 3.24) / 5));
+
+        // Values missing from ragged data are counted apart from NaN
+        const ragged = tensorFromNested([[1, 2], [3]], [2, 2]);
+        expect(tensorStatistics(ragged)).toMatchObject({ finite: 3, missing: 1, nan: 0, mean: 2 });
+        expect(tensorStatistics(createTensor(Float64Array.of(NaN), [1], 'float64')).mean).toBeNaN();
+        // Large offsets don't lose the spread
+        expect(tensorStatistics(createTensor(Float64Array.of(1e9 + 1, 1e9 + 3), [2], 'float64')).std).toBe(1);
+    });
+
+    it('bins finite values like numpy.histogram', () => {
+        const t = createTensor(Float32Array.of(0, 1, 2, 3, 4, 4, NaN, Infinity), [8], 'float32');
+        const hist = histogram(t, 4)!;
+        expect(hist.edges).toEqual([0, 1, 2, 3, 4]);
+        expect(hist.counts).toEqual([1, 1, 1, 3]);
+        expect(histogramBin(hist, 4)).toBe(3);
+        expect(histogramBin(hist, 0.99)).toBe(0);
+        expect(histogramBin(hist, 5)).toBe(-1);
+        expect(histogramBin(hist, NaN)).toBe(-1);
+        expect(histogramBin(hist, undefined)).toBe(-1);
+
+        // A constant tensor is binned around its value
+        const constant = histogram(createTensor(Float64Array.of(2, 2), [2], 'float64'), 2)!;
+        expect(constant.edges).toEqual([1.5, 2, 2.5]);
+        expect(constant.counts).toEqual([0, 2]);
+        expect(histogram(createTensor(Float64Array.of(NaN), [1], 'float64'), 4)).toBeNull();
+    });
+
+    it('summarizes each index along a dimension', () => {
+        // [2, 3, 2]: per-channel (dim 1) statistics over the batch and last dims
+        const t = tensorFromNested([[[1, 2], [3, 4], [5, NaN]], [[3, 4], [5, 6], [7, 8]]], [2, 3, 2]);
+        const perChannel = statisticsAlong(t, 1);
+        expect(perChannel.map(s => s.mean)).toEqual([2.5, 4.5, 20 / 3]);
+        expect(perChannel.map(s => s.missing)).toEqual([0, 0, 1]);
+        expect(perChannel[0]).toMatchObject({ count: 4, min: 1, max: 4, sum: 10 });
+        expect(perChannel[0].std).toBeCloseTo(Math.sqrt(1.25));
+
+        // Strided storage is read in index order
+        const fortran = createTensor(Float64Array.of(1, 4, 2, 5, 3, 6), [2, 3], 'float64', { strides: fortranStrides([2, 3]) });
+        expect(statisticsAlong(fortran, 0).map(s => s.sum)).toEqual([6, 15]);
+    });
+});
@@ -0,0 +1,133 @@
+// Statistics over every element of a tensor (not just the displayed cells): summary values, special
+// value counts, a histogram, and per-index statistics along one dimension (e.g. per channel).
+import type { ValueSummary } from './cellSelection';
+import { numel, toContiguousArray, toContiguousValid, type Tensor } from './tensor';
+
+export interface TensorStatistics {
+    count: number; // elements
+    finite: number;
+    missing: number; // absent from ragged data
+    nan: number;
+    posInf: number;
+    negInf: number;
+    zeros: number;
+    // Over the finite values; NaN when there are none
+    min: number;
+    max: number;
+    mean: number;
+    std: number; // population standard deviation
+}
+
+export interface Histogram {
+    edges: number[]; // bins + 1 ascending edges
+    counts: number[];
+}
+
+export const HISTOGRAM_BINS = [16, 32, 64] as const;
+
+// Running mean and variance (Welford), stable for large values with a small spread
+interface Moments {
+    n: number;
+    mean: number;
+    m2: number;
+    min: number;
+    max: number;
+}
+
+const emptyMoments = (): Moments => ({ n: 0, mean: 0, m2: 0, min: Infinity, max: -Infinity });
+
+function addValue(m: Moments, v: number) {
+    m.n++;
+    const delta = v - m.mean;
+    m.mean += delta / m.n;
+    m.m2 += delta * (v - m.mean);
+    if (v < m.min) m.min = v;
+    if (v > m.max) m.max = v;
+}
+
+export function tensorStatistics(tensor: Tensor): TensorStatistics {
+    const data = toContiguousArray(tensor);
+    const valid = toContiguousValid(tensor);
+    const m = emptyMoments();
+    let missing = 0, nan = 0, posInf = 0, negInf = 0, zeros = 0;
+    for (let i = 0; i < data.length; i++) {
+        if (valid && !valid[i]) {
+            missing++;
+            continue;
+        }
+        const v = data[i];
+        if (Number.isFinite(v)) {
+            addValue(m, v);
+            if (v === 0) zeros++;
+        } else if (Number.isNaN(v)) nan++;
+        else if (v > 0) posInf++;
+        else negInf++;
+    }
+    const none = m.n === 0;
+    return {
+        count: data.length, finite: m.n, missing, nan, posInf, negInf, zeros,
+        min: none ? NaN : m.min,
+        max: none ? NaN : m.max,
+        mean: none ? NaN : m.mean,
+        std: none ? NaN : Math.sqrt(m.m2 / m.n),
+    };
+}
+
+/**
+ * Histogram of the finite values with equal-width bins over [min, max]; as in numpy.histogram the
+ * last bin includes max. A constant tensor gets bins around its value.
+ */
+export function histogram(tensor: Tensor, bins: number, stats: TensorStatistics = tensorStatistics(tensor)): Histogram | null {
+    if (stats.finite === 0) return null;
+    const [lo, hi] = stats.min < stats.max ? [stats.min, stats.max] : [stats.min - 0.5, stats.max + 0.5];
+    const edges = Array.from({ length: bins + 1 }, (_, i) => (i === bins ? hi : lo + ((hi - lo) * i) / bins));
+    const counts = new Array<number>(bins).fill(0);
+    const result = { edges, counts };
+    const data = toContiguousArray(tensor);
+    const valid = toContiguousValid(tensor);
+    for (let i = 0; i < data.length; i++) {
+        if (valid && !valid[i]) continue;
+        const bin = histogramBin(result, data[i]);
+        if (bin >= 0) counts[bin]++;
+    }
+    return result;
+}
+
+/** Bin a value falls into, or -1 for values outside the histogram (and non-finite ones) */
+export function histogramBin({ edges }: Histogram, value: number | undefined): number {
+    const bins = edges.length - 1;
+    const lo = edges[0], hi = edges[bins];
+    if (value === undefined || !Number.isFinite(value) || value < lo || value > hi) return -1;
+    return Math.min(bins - 1, Math.floor(((value - lo) / (hi - lo)) * bins));
+}
+
+/**
+ * Statistics of each index along a dimension (e.g. per channel) over all other dimensions, in
+ * index order. Only finite values are summarized; the others count as missing.
+ */
+export function statisticsAlong(tensor: Tensor, dim: number): ValueSummary[] {
+    const size = tensor.shape[dim];
+    const inner = numel(tensor.shape.slice(dim + 1));
+    const data = toContiguousArray(tensor);
+    const valid = toContiguousValid(tensor);
+    const moments = Array.from({ length: size }, emptyMoments);
+    const missing = new Array<number>(size).fill(0);
+    for (let i = 0; i < data.length; i++) {
+        const index = Math.floor(i / inner) % size;
+        const v = data[i];
+        if ((valid && !valid[i]) || !Number.isFinite(v)) missing[index]++;
+        else addValue(moments[index], v);
+    }
+    return moments.map((m, index) => {
+        const none = m.n === 0;
+        return {
+            count: m.n,
+            missing: missing[index],
+            sum: m.mean * m.n,
+            mean: none ? NaN : m.mean,
+            std: none ? NaN : Math.sqrt(m.m2 / m.n),
+            min: none ? NaN : m.min,
+            max: none ? NaN : m.max,
+        };
+    });
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStore } from './store';
+
+describe('External store', () => {
+    it('notifies subscribers only on changes', () => {
+        const store = createStore(0);
+        const listener = vi.fn();
+        const unsubscribe = store.subscribe(listener);
+
+        store.set(1);
+        store.set(1);
+        expect(store.getSnapshot()).toBe(1);
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        unsubscribe();
+        store.set(2);
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+});
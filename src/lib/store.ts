@@ -0,0 +1,29 @@
+/**
+ * A tiny external store for fast-changing UI state (hover, animation progress).
+ * Components subscribe with useSyncExternalStore, so updates don't re-render the whole App.
+ */
+export interface Store<T> {
+    set(value: T): void;
+    subscribe(listener: () => void): () => void;
+    getSnapshot(): T;
+}
+
+export function createStore<T>(initial: T): Store<T> {
+    let current = initial;
+    const listeners = new Set<() => void>();
+
+    return {
+        set(value: T) {
+            if (current === value) return;
+            current = value;
+            listeners.forEach(l => l());
+        },
+        subscribe(listener: () => void) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        getSnapshot() {
+            return current;
+        },
+    };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+    contiguousStrides, fortranStrides, createTensor, tensorGet, tensorFromNested, toContiguousArray, storageIndex,
+} from './tensor';
+import { computeLayout, getValue, parseTensor, type LayoutConfig } from './layout';
+
+// Nested array where each value encodes its own index path, e.g. [1, 2, 3] → 123
+function nestedOf(shape: number[], path: number[] = []): unknown {
+    if (path.length === shape.length) return path.reduce((a, i) => a * 10 + i, 0);
+    return Array.from({ length: shape[path.length] }, (_, i) => nestedOf(shape, [...path, i]));
+}
+
+describe('Tensor storage', () => {
+    it('computes contiguous and Fortran strides', () => {
+        expect(contiguousStrides([2, 3, 4])).toEqual([12, 4, 1]);
+        expect(fortranStrides([2, 3, 4])).toEqual([1, 2, 6]);
+        expect(contiguousStrides([])).toEqual([]);
+    });
+
+    it('reads elements through strides and offset', () => {
+        const data = new Int32Array([9, 0, 1, 2, 3, 4, 5]);
+        const t = createTensor(data, [2, 3], 'int32', { offset: 1 });
+        expect(tensorGet(t, [0, 0])).toBe(0);
+        expect(tensorGet(t, [1, 2])).toBe(5);
+        expect(tensorGet(t, [2, 0])).toBeUndefined();
+        expect(storageIndex(t, [0, -1])).toBe(-1);
+
+        // Transposed view of the same storage
+        const tt = createTensor(data, [3, 2], 'int32', { strides: [1, 3], offset: 1 });
+        expect(tensorGet(tt, [2, 1])).toBe(5);
+        expect(Array.from(toContiguousArray(tt))).toEqual([0, 3, 1, 4, 2, 5]);
+    });
+
+    it('converts nested arrays and marks ragged entries missing', () => {
+        const t = tensorFromNested([[1, 2, 3], [4], 'x'], [3, 3]);
+        expect(t.dtype).toBe('float64');
+        expect(tensorGet(t, [0, 2])).toBe(3);
+        expect(tensorGet(t, [1, 0])).toBe(4);
+        expect(tensorGet(t, [1, 1])).toBeUndefined();
+        expect(tensorGet(t, [2, 0])).toBeUndefined();
+
+        const dense = tensorFromNested([[1, 2], [3, 4]], [2, 2]);
+        expect(dense.valid).toBeUndefined();
+        expect(Array.from(dense.data)).toEqual([1, 2, 3, 4]);
+    });
+});
+
+describe('Tensor-backed layout matches nested getValue lookup', () => {
+    const cases: { name: string; json: string; config: Omit<LayoutConfig, 'shape' | 'tensor'> }[] = [
+        {
+            name: '3D dense tiling',
+            json: JSON.stringify(nestedOf([3, 4, 5])),
+            config: { spatialDims: [1, 0, 2], outerDims: [], mode: 'tiling', sliceIndices: {}, maxCellsPerDim: 8 },
+        },
+        {
+            name: '5D downsampled tiling',
+            json: JSON.stringify(nestedOf([2, 3, 9, 4, 2])),
+            config: { spatialDims: [1, 0, 2], outerDims: [3, 4], mode: 'tiling', sliceIndices: {}, maxCellsPerDim: 4 },
+        },
+        {
+            name: '4D slicing',
+            json: JSON.stringify(nestedOf([2, 3, 4, 5])),
+            config: { spatialDims: [2, 3, null], outerDims: [0, 1], mode: 'slicing', sliceIndices: { 0: 1, 1: 2 }, maxCellsPerDim: 8 },
+        },
+        {
+            name: 'ragged 2D',
+            json: '[[1, 2, 3], [4, 5], [6, "a", 8]]',
+            config: { spatialDims: [1, 0, null], outerDims: [], mode: 'tiling', sliceIndices: {}, maxCellsPerDim: 8 },
+        },
+    ];
+
+    for (const { name, json, config } of cases) {
+        it(name, () => {
+            const parsed = parseTensor(json)!;
+            const tensor = tensorFromNested(parsed.data, parsed.shape);
+            const layout = computeLayout({ ...config, shape: parsed.shape, tensor });
+            const reference = computeLayout({ ...config, shape: parsed.shape });
+
+            expect(layout.length).toBe(reference.length);
+            layout.forEach((inst, i) => {
+                expect(inst.id).toBe(reference[i].id);
+                expect(inst.position).toEqual(reference[i].position);
+                expect(inst.value).toBe(getValue(parsed.data, inst.indexPath));
+            });
+        });
+    }
+});
@@ -0,0 +1,179 @@
+// Strided tensor backed by a flat TypedArray — the common in-memory format for pasted
+// JSON data and loaded NumPy files.
+
+export type DType =
+    | 'float16' | 'float32' | 'float64'
+    | 'int8' | 'int16' | 'int32' | 'int64'
+    | 'uint8' | 'bool';
+
+/** Flat numeric storage; 16-bit floats widen to Float32Array, 64-bit ints to Float64Array */
+export type NumericArray = Float32Array | Float64Array | Int8Array | Int16Array | Int32Array | Uint8Array;
+
+export interface Tensor {
+    shape: number[];
+    strides: number[]; // in elements, not bytes
+    offset: number;    // storage offset of element [0, 0, ...]
+    dtype: DType;
+    data: NumericArray;
+    valid?: Uint8Array; // per storage element; 0 marks missing values (e.g. ragged JSON)
+}
+
+/** Bytes per element of each dtype in files and in memory (before any widening of the storage) */
+export const DTYPE_SIZES: Record<DType, number> = {
+    float16: 2, float32: 4, float64: 8,
+    int8: 1, int16: 2, int32: 4, int64: 8,
+    uint8: 1, bool: 1,
+};
+
+/** Allocate flat storage for a dtype */
+export function allocateStorage(dtype: DType, length: number): NumericArray {
+    switch (dtype) {
+        case 'float16':
+        case 'float32': return new Float32Array(length);
+        case 'float64':
+        case 'int64': return new Float64Array(length);
+        case 'int8': return new Int8Array(length);
+        case 'int16': return new Int16Array(length);
+        case 'int32': return new Int32Array(length);
+        case 'uint8':
+        case 'bool': return new Uint8Array(length);
+    }
+}
+
+/** Row-major (C-contiguous) strides for a shape */
+export function contiguousStrides(shape: number[]): number[] {
+    const strides = new Array<number>(shape.length);
+    let s = 1;
+    for (let d = shape.length - 1; d >= 0; d--) {
+        strides[d] = s;
+        s *= shape[d];
+    }
+    return strides;
+}
+
+/** Column-major (Fortran) strides for a shape */
+export function fortranStrides(shape: number[]): number[] {
+    const strides = new Array<number>(shape.length);
+    let s = 1;
+    for (let d = 0; d < shape.length; d++) {
+        strides[d] = s;
+        s *= shape[d];
+    }
+    return strides;
+}
+
+export function numel(shape: number[]): number {
+    return shape.reduce((a, b) => a * b, 1);
+}
+
+export function createTensor(
+    data: NumericArray,
+    shape: number[],
+    dtype: DType,
+    options: { strides?: number[]; offset?: number; valid?: Uint8Array } = {},
+): Tensor {
+    return {
+        shape: [...shape],
+        strides: options.strides ?? contiguousStrides(shape),
+        offset: options.offset ?? 0,
+        dtype,
+        data,
+        valid: options.valid,
+    };
+}
+
+/** Storage index of an element, or -1 when the index path is out of bounds */
+export function storageIndex(t: Tensor, indexPath: number[]): number {
+    let idx = t.offset;
+    for (let d = 0; d < t.shape.length; d++) {
+        const i = indexPath[d];
+        if (i === undefined || i < 0 || i >= t.shape[d]) return -1;
+        idx += i * t.strides[d];
+    }
+    return idx;
+}
+
+/** Value at an index path; `undefined` when out of bounds or missing */
+export function tensorGet(t: Tensor, indexPath: number[]): number | undefined {
+    const idx = storageIndex(t, indexPath);
+    if (idx < 0 || idx >= t.data.length) return undefined;
+    if (t.valid && !t.valid[idx]) return undefined;
+    return t.data[idx];
+}
+
+/**
+ * Convert a nested JS array (the pasted JSON format) into a contiguous float64 tensor.
+ * Ragged rows and non-numeric entries are marked missing, matching the nested lookup in `getValue`.
+ */
+export function tensorFromNested(nested: unknown[], shape: number[]): Tensor {
+    const n = numel(shape);
+    const data = new Float64Array(n);
+    const valid = new Uint8Array(n);
+    let hasMissing = false;
+    let flat = 0;
+
+    function fill(node: unknown, dim: number) {
+        if (dim === shape.length) {
+            if (typeof node === 'number') {
+                data[flat] = node;
+                valid[flat] = 1;
+            } else {
+                data[flat] = NaN;
+                hasMissing = true;
+            }
+            flat++;
+            return;
+        }
+        const size = shape[dim];
+        const arr = Array.isArray(node) ? node : null;
+        for (let i = 0; i < size; i++) {
+            if (arr && i < arr.length) {
+                fill(arr[i], dim + 1);
+            } else {
+                // Missing subtree: skip its whole block
+                const block = numel(shape.slice(dim + 1));
+                data.fill(NaN, flat, flat + block);
+                flat += block;
+                hasMissing = true;
+            }
+        }
+    }
+
+    fill(nested, 0);
+    return createTensor(data, shape, 'float64', { valid: hasMissing ? valid : undefined });
+}
+
+/** Visit every element in row-major logical order with its storage index */
+export function forEachStorageIndex(t: Tensor, fn: (flatIndex: number, storageIdx: number) => void) {
+    const n = numel(t.shape);
+    const rank = t.shape.length;
+    const idx = new Array<number>(rank).fill(0);
+    let src = t.offset;
+    for (let i = 0; i < n; i++) {
+        fn(i, src);
+        // Odometer increment over the logical index, adjusting the storage offset incrementally
+        for (let d = rank - 1; d >= 0; d--) {
+            idx[d]++;
+            src += t.strides[d];
+            if (idx[d] < t.shape[d]) break;
+            src -= t.strides[d] * t.shape[d];
+            idx[d] = 0;
+        }
+    }
+}
+
+/** Copy a (possibly strided) tensor's values into a new row-major array of the same type */
+export function toContiguousArray(t: Tensor): NumericArray {
+    const out = new (t.data.constructor as { new(length: number): NumericArray })(numel(t.shape));
+    forEachStorageIndex(t, (i, src) => { out[i] = t.data[src]; });
+    return out;
+}
+
+/** Row-major copy of the missing-value mask, or `undefined` when every value is present */
+export function toContiguousValid(t: Tensor): Uint8Array | undefined {
+    const valid = t.valid;
+    if (!valid) return undefined;
+    const out = new Uint8Array(numel(t.shape));
+    forEachStorageIndex(t, (i, src) => { out[i] = valid[src]; });
+    return out;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseTensorOp, applyTensorOp, sourceFlatIndex, viewIndexOf, unravelIndex, ravelIndex,
+    buildOpTransition, transitionFrame, opResultLabels, TensorOpError,
+} from './tensorOps';
+import { computeLayout } from './layout';
+
+describe('Tensor ops', () => {
+    it('parses PyTorch-style calls', () => {
+        expect(parseTensorOp('reshape(4, -1)')).toEqual({ kind: 'reshape', shape: [4, -1] });
+        expect(parseTensorOp('x.view(6, 20)')).toEqual({ kind: 'reshape', shape: [6, 20] });
+        expect(parseTensorOp('permute(0, 2, 1)')).toEqual({ kind: 'permute', dims: [0, 2, 1] });
+        expect(parseTensorOp('flatten()')).toEqual({ kind: 'flatten', startDim: 0, endDim: -1 });
+        expect(parseTensorOp('flatten(1)')).toEqual({ kind: 'flatten', startDim: 1, endDim: -1 });
+        expect(parseTensorOp(' unsqueeze(-1) ')).toEqual({ kind: 'unsqueeze', dim: -1 });
+        expect(() => parseTensorOp('squeeze(0)')).toThrow(/Unknown operation/);
+        expect(() => parseTensorOp('transpose(0)')).toThrow(/takes 2 arguments/);
+        expect(() => parseTensorOp('reshape(a)')).toThrow(TensorOpError);
+    });
+
+    it('computes result shapes and validates like PyTorch', () => {
+        expect(applyTensorOp([2, 3, 4], parseTensorOp('reshape(4, -1)')).shape).toEqual([4, 6]);
+        expect(applyTensorOp([2, 3, 4], parseTensorOp('permute(2, 0, 1)'))).toEqual({ shape: [4, 2, 3], strides: [1, 12, 4] });
+        expect(applyTensorOp([2, 3, 4], parseTensorOp('transpose(0, -1)')).shape).toEqual([4, 3, 2]);
+        expect(applyTensorOp([2, 3, 4], parseTensorOp('flatten(1)')).shape).toEqual([2, 12]);
+        expect(applyTensorOp([2, 3], parseTensorOp('unsqueeze(1)')).shape).toEqual([2, 1, 3]);
+        expect(applyTensorOp([2, 3], parseTensorOp('unsqueeze(-1)')).shape).toEqual([2, 3, 1]);
+
+        expect(() => applyTensorOp([2, 3], parseTensorOp('reshape(4, 2)'))).toThrow(/Cannot reshape \[2, 3\]/);
+        expect(() => applyTensorOp([2, 3], parseTensorOp('reshape(-1, -1)'))).toThrow(/Only one/);
+        expect(() => applyTensorOp([2, 3], parseTensorOp('reshape(4, -1)'))).toThrow(/cannot be split/);
+        expect(() => applyTensorOp([2, 3], parseTensorOp('permute(0, 0)'))).toThrow(/must not repeat/);
+        expect(() => applyTensorOp([2, 3], parseTensorOp('permute(0)'))).toThrow(/needs 2/);
+        expect(() => applyTensorOp([2, 3], parseTensorOp('transpose(0, 2)'))).toThrow(/out of range/);
+    });
+
+    it('carries dimension labels through the op', () => {
+        const labels = ['B', 'C', 'H'];
+        expect(opResultLabels(labels, 3, parseTensorOp('permute(2, 0, 1)'))).toEqual(['H', 'B', 'C']);
+        expect(opResultLabels(labels, 3, parseTensorOp('transpose(0, -1)'))).toEqual(['H', 'C', 'B']);
+        expect(opResultLabels(labels, 3, parseTensorOp('flatten(1)'))).toEqual(['B', 'C·H']);
+        expect(opResultLabels(['B'], 2, parseTensorOp('unsqueeze(1)'))).toEqual(['B', '1', 'd1']);
+        expect(opResultLabels(labels, 3, parseTensorOp('reshape(-1)'))).toEqual([]);
+    });
+
+    it('maps result elements back to source elements via strides', () => {
+        const shape = [2, 3, 4];
+        const view = applyTensorOp(shape, parseTensorOp('permute(2, 0, 1)'));
+        // out[k, i, j] = src[i, j, k]
+        expect(unravelIndex(sourceFlatIndex(view, [3, 1, 2]), shape)).toEqual([1, 2, 3]);
+
+        for (const op of ['reshape(3, 8)', 'transpose(0, 2)', 'flatten(0, 1)', 'unsqueeze(0)', 'permute(1, 2, 0)']) {
+            const v = applyTensorOp(shape, parseTensorOp(op));
+            for (let flat = 0; flat < 24; flat++) {
+                expect(sourceFlatIndex(v, viewIndexOf(v, flat))).toBe(flat);
+            }
+        }
+        expect(ravelIndex([1, 2, 3], shape)).toBe(23);
+    });
+
+    it('builds a transition that preserves element identity', () => {
+        const shape = [2, 3];
+        const view = applyTensorOp(shape, parseTensorOp('transpose(0, 1)'));
+        const base = { outerDims: [], mode: 'tiling' as const, sliceIndices: {}, maxCellsPerDim: 10 };
+        const source = computeLayout({ ...base, shape, spatialDims: [1, 0, null] });
+        const target = computeLayout({ ...base, shape: view.shape, spatialDims: [1, 0, null] });
+        const tr = buildOpTransition(source, shape, target, view);
+
+        expect(tr.instances.length).toBe(6);
+        const el = tr.instances.find(i => i.value === ravelIndex([0, 2], shape))!;
+        expect(el.indexPath).toEqual([2, 0]);
+        expect(el.sourceIndexPath).toEqual([0, 2]);
+
+        const i = tr.instances.indexOf(el);
+        const positions = new Float32Array(18);
+        const scales = new Float32Array(6);
+        transitionFrame(tr, 0, positions, scales);
+        expect([...positions.slice(i * 3, i * 3 + 3)]).toEqual(source.find(s => s.id === '0,2')!.position);
+        transitionFrame(tr, 1, positions, scales);
+        expect([...positions.slice(i * 3, i * 3 + 3)]).toEqual(target.find(s => s.id === '2,0')!.position);
+        expect([...scales]).toEqual([1, 1, 1, 1, 1, 1]);
+    });
+
+    it('grows elements that are only shown in the result', () => {
+        const shape = [10];
+        const view = applyTensorOp(shape, parseTensorOp('reshape(2, 5)'));
+        const base = { outerDims: [], mode: 'tiling' as const, sliceIndices: {} };
+        const source = computeLayout({ ...base, shape, spatialDims: [0, null, null], maxCellsPerDim: 4 });
+        const target = computeLayout({ ...base, shape: view.shape, spatialDims: [1, 0, null], maxCellsPerDim: 10 });
+        const tr = buildOpTransition(source, shape, target, view);
+        expect(tr.instances.length).toBe(10);
+
+        const hidden = tr.instances.findIndex(inst => inst.value === 1); // index 1 is downsampled away in the source
+        const positions = new Float32Array(30);
+        const scales = new Float32Array(10);
+        transitionFrame(tr, 0, positions, scales);
+        expect(scales[hidden]).toBe(0);
+        transitionFrame(tr, 1, positions, scales);
+        expect(scales[hidden]).toBe(1);
+    });
+});
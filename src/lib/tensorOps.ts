@@ -0,0 +1,255 @@
+// Shape operations (reshape / permute / transpose / flatten / unsqueeze) as strided views,
+// and the element correspondence used to animate a layout into its result.
+import { contiguousStrides, numel } from './tensor';
+import type { BoxInstance } from './layout';
+
+export type TensorOp =
+    | { kind: 'reshape'; shape: number[] } // may contain one -1
+    | { kind: 'permute'; dims: number[] }
+    | { kind: 'transpose'; dim0: number; dim1: number }
+    | { kind: 'flatten'; startDim: number; endDim: number }
+    | { kind: 'unsqueeze'; dim: number };
+
+/** Result of an op: its shape, and strides into the source's row-major element order */
+export interface OpView {
+    shape: number[];
+    strides: number[];
+}
+
+export class TensorOpError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TensorOpError';
+    }
+}
+
+const OP_ARITY: Record<TensorOp['kind'], [number, number]> = {
+    reshape: [1, Infinity],
+    permute: [1, Infinity],
+    transpose: [2, 2],
+    flatten: [0, 2],
+    unsqueeze: [1, 1],
+};
+
+/** Parse PyTorch-style calls such as `reshape(4, -1)`, `x.permute(0, 2, 1)`, `view(6, 20)` or `flatten(1)` */
+export function parseTensorOp(text: string): TensorOp {
+    const m = text.trim().match(/^(?:[A-Za-z_]\w*\s*\.\s*)?([A-Za-z_]+)\s*\(([^()]*)\)$/);
+    if (!m) throw new TensorOpError("Expected a call like 'reshape(4, -1)' or 'permute(0, 2, 1)'");
+    const name = m[1] === 'view' ? 'reshape' : m[1];
+    if (!(name in OP_ARITY)) {
+        throw new TensorOpError(`Unknown operation '${m[1]}' (supported: reshape, view, permute, transpose, flatten, unsqueeze)`);
+    }
+    const kind = name as TensorOp['kind'];
+
+    const argText = m[2].trim();
+    const args = argText === '' ? [] : argText.split(',').map(s => s.trim());
+    if (args.length > 0 && args[args.length - 1] === '') args.pop(); // trailing comma
+    const values = args.map(a => {
+        if (!/^[+-]?\d+$/.test(a)) throw new TensorOpError(`Expected integer arguments, got '${a}'`);
+        return parseInt(a, 10);
+    });
+    const [min, max] = OP_ARITY[kind];
+    if (values.length < min || values.length > max) {
+        throw new TensorOpError(`${kind} takes ${min === max ? min : max === Infinity ? `at least ${min}` : `${min} to ${max}`} arguments`);
+    }
+
+    switch (kind) {
+        case 'reshape': return { kind, shape: values };
+        case 'permute': return { kind, dims: values };
+        case 'transpose': return { kind, dim0: values[0], dim1: values[1] };
+        case 'flatten': return { kind, startDim: values[0] ?? 0, endDim: values[1] ?? -1 };
+        case 'unsqueeze': return { kind, dim: values[0] };
+    }
+}
+
+export function formatTensorOp(op: TensorOp): string {
+    switch (op.kind) {
+        case 'reshape': return `reshape(${op.shape.join(', ')})`;
+        case 'permute': return `permute(${op.dims.join(', ')})`;
+        case 'transpose': return `transpose(${op.dim0}, ${op.dim1})`;
+        case 'flatten': return `flatten(${op.startDim}, ${op.endDim})`;
+        case 'unsqueeze': return `unsqueeze(${op.dim})`;
+    }
+}
+
+function normalizeDim(dim: number, rank: number): number {
+    const d = dim < 0 ? dim + rank : dim;
+    if (d < 0 || d >= rank) throw new TensorOpError(`Dimension ${dim} is out of range for a tensor of rank ${rank}`);
+    return d;
+}
+
+function permuted(shape: number[], dims: number[]): OpView {
+    const strides = contiguousStrides(shape);
+    return { shape: dims.map(d => shape[d]), strides: dims.map(d => strides[d]) };
+}
+
+/** Apply an op to a (contiguous) source shape, validating it the way PyTorch would */
+export function applyTensorOp(shape: number[], op: TensorOp): OpView {
+    const rank = shape.length;
+    const total = numel(shape);
+
+    switch (op.kind) {
+        case 'reshape': {
+            const inferred = op.shape.filter(n => n === -1).length;
+            if (inferred > 1) throw new TensorOpError('Only one dimension can be inferred (-1)');
+            if (op.shape.some(n => n === 0 || n < -1)) throw new TensorOpError('Reshape sizes must be positive (or -1)');
+            const known = op.shape.filter(n => n !== -1).reduce((a, b) => a * b, 1);
+            let out = op.shape;
+            if (inferred) {
+                if (total % known !== 0) throw new TensorOpError(`Shape [${shape.join(', ')}] (${total} elements) cannot be split into ${known}-element groups`);
+                out = op.shape.map(n => (n === -1 ? total / known : n));
+            }
+            if (numel(out) !== total) {
+                throw new TensorOpError(`Cannot reshape [${shape.join(', ')}] (${total} elements) into [${out.join(', ')}] (${numel(out)} elements)`);
+            }
+            return { shape: out, strides: contiguousStrides(out) };
+        }
+        case 'permute': {
+            if (op.dims.length !== rank) throw new TensorOpError(`permute needs ${rank} dimensions, got ${op.dims.length}`);
+            const dims = op.dims.map(d => normalizeDim(d, rank));
+            if (new Set(dims).size !== rank) throw new TensorOpError('permute dimensions must not repeat');
+            return permuted(shape, dims);
+        }
+        case 'transpose': {
+            const dims = shape.map((_, i) => i);
+            const a = normalizeDim(op.dim0, rank);
+            const b = normalizeDim(op.dim1, rank);
+            [dims[a], dims[b]] = [dims[b], dims[a]];
+            return permuted(shape, dims);
+        }
+        case 'flatten': {
+            const start = normalizeDim(op.startDim, rank);
+            const end = normalizeDim(op.endDim, rank);
+            if (start > end) throw new TensorOpError('flatten start dimension must not come after the end dimension');
+            const out = [...shape.slice(0, start), numel(shape.slice(start, end + 1)), ...shape.slice(end + 1)];
+            return { shape: out, strides: contiguousStrides(out) };
+        }
+        case 'unsqueeze': {
+            const d = normalizeDim(op.dim, rank + 1);
+            const out = [...shape.slice(0, d), 1, ...shape.slice(d)];
+            return { shape: out, strides: contiguousStrides(out) };
+        }
+    }
+}
+
+/** Dimension labels for the op result (call after applyTensorOp has validated the op); reshape loses them */
+export function opResultLabels(labels: string[], rank: number, op: TensorOp): string[] {
+    const all = Array.from({ length: rank }, (_, d) => labels[d] || `d${d}`);
+    switch (op.kind) {
+        case 'reshape':
+            return [];
+        case 'permute':
+            return op.dims.map(d => all[normalizeDim(d, rank)]);
+        case 'transpose': {
+            const out = [...all];
+            const a = normalizeDim(op.dim0, rank);
+            const b = normalizeDim(op.dim1, rank);
+            [out[a], out[b]] = [out[b], out[a]];
+            return out;
+        }
+        case 'flatten': {
+            const start = normalizeDim(op.startDim, rank);
+            const end = normalizeDim(op.endDim, rank);
+            return [...all.slice(0, start), all.slice(start, end + 1).join('·'), ...all.slice(end + 1)];
+        }
+        case 'unsqueeze': {
+            const d = normalizeDim(op.dim, rank + 1);
+            return [...all.slice(0, d), '1', ...all.slice(d)];
+        }
+    }
+}
+
+/** Row-major flat index of a source element */
+export function ravelIndex(index: number[], shape: number[]): number {
+    let flat = 0;
+    for (let d = 0; d < shape.length; d++) flat = flat * shape[d] + index[d];
+    return flat;
+}
+
+export function unravelIndex(flat: number, shape: number[]): number[] {
+    const index = new Array<number>(shape.length);
+    for (let d = shape.length - 1; d >= 0; d--) {
+        index[d] = flat % shape[d];
+        flat = Math.floor(flat / shape[d]);
+    }
+    return index;
+}
+
+/** Source flat index of an element of the op result */
+export function sourceFlatIndex(view: OpView, index: number[]): number {
+    return index.reduce((acc, i, d) => acc + i * view.strides[d], 0);
+}
+
+/**
+ * Index in the op result of a source element. All supported ops produce strides that are a
+ * permutation of contiguous strides (plus size-1 dims), so each coordinate divides out directly.
+ */
+export function viewIndexOf(view: OpView, flat: number): number[] {
+    return view.shape.map((size, d) => (size === 1 ? 0 : Math.floor(flat / view.strides[d]) % size));
+}
+
+/** Per-element start and end positions; elements hidden at one end (downsampling) grow or shrink in place */
+export interface OpTransition {
+    instances: BoxInstance[]; // indexPath in the result, sourceIndexPath in the source, value = source flat index
+    from: Float32Array; // xyz per instance
+    to: Float32Array;
+    fromVisible: Uint8Array;
+    toVisible: Uint8Array;
+}
+
+/** Match source-layout cells with result-layout cells by element identity */
+export function buildOpTransition(source: BoxInstance[], sourceShape: number[], target: BoxInstance[], view: OpView): OpTransition {
+    const byFlat = new Map<number, { from?: BoxInstance; to?: BoxInstance }>();
+    for (const inst of source) byFlat.set(ravelIndex(inst.indexPath, sourceShape), { from: inst });
+    for (const inst of target) {
+        const flat = sourceFlatIndex(view, inst.indexPath);
+        const entry = byFlat.get(flat);
+        if (entry) entry.to = inst;
+        else byFlat.set(flat, { to: inst });
+    }
+
+    const n = byFlat.size;
+    const out: OpTransition = {
+        instances: [],
+        from: new Float32Array(n * 3),
+        to: new Float32Array(n * 3),
+        fromVisible: new Uint8Array(n),
+        toVisible: new Uint8Array(n),
+    };
+    let i = 0;
+    for (const [flat, { from, to }] of byFlat) {
+        const start = from?.position ?? to!.position;
+        const end = to?.position ?? start;
+        out.from.set(start, i * 3);
+        out.to.set(end, i * 3);
+        out.fromVisible[i] = from ? 1 : 0;
+        out.toVisible[i] = to ? 1 : 0;
+        const indexPath = to?.indexPath ?? viewIndexOf(view, flat);
+        out.instances.push({
+            id: indexPath.join(','),
+            position: [...end],
+            indexPath,
+            sourceIndexPath: from?.indexPath ?? unravelIndex(flat, sourceShape),
+            value: flat,
+        });
+        i++;
+    }
+    return out;
+}
+
+/** Smoothstep easing so motion starts and ends gently */
+function ease(t: number): number {
+    const c = Math.max(0, Math.min(1, t));
+    return c * c * (3 - 2 * c);
+}
+
+/** Interpolate positions and scales (0..1) at progress t into preallocated arrays */
+export function transitionFrame(tr: OpTransition, t: number, positions: Float32Array, scales: Float32Array): void {
+    const e = ease(t);
+    for (let i = 0; i < tr.instances.length; i++) {
+        for (let k = 0; k < 3; k++) {
+            positions[i * 3 + k] = tr.from[i * 3 + k] + (tr.to[i * 3 + k] - tr.from[i * 3 + k]) * e;
+        }
+        scales[i] = (tr.fromVisible[i] ? 1 - e : 0) + (tr.toVisible[i] ? e : 0);
+    }
+}
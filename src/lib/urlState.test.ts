@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+    base64UrlEncode, base64UrlDecode, buildHash, parseHash, encodeViewParam, decodeViewParam,
+    encodeTensorParam, decodeTensorParam, embedTensor, MAX_EMBED_ELEMENTS, UrlStateError,
+} from './urlState';
+import { createTensor, tensorFromNested, tensorGet } from './tensor';
+import { DEFAULT_COLOR_SCALE } from './colormap';
+
+const view = {
+    shape: [2, 3, 4],
+    labels: ['B', 'H', 'W'],
+    dimOrder: 'first-to-last' as const,
+    mode: 'slicing' as const,
+    maxCells: 8,
+    sliceIndices: { 2: 3 },
+    colorMode: 'axis' as const,
+    cubeColor: '#646a96',
+    colorScale: DEFAULT_COLOR_SCALE,
+    camera: { position: [5.12345, 5, 5] as [number, number, number], target: [0, 0, 0] as [number, number, number] },
+};
+
+describe('URL state', () => {
+    it('round-trips base64url', () => {
+        const bytes = new Uint8Array([0, 250, 251, 252, 253, 254, 255, 62, 63]);
+        const encoded = base64UrlEncode(bytes);
+        expect(encoded).not.toMatch(/[+/=]/);
+        expect(base64UrlDecode(encoded)).toEqual(bytes);
+    });
+
+    it('builds and parses hashes', () => {
+        expect(buildHash({})).toBe('');
+        const hash = buildHash({ view: 'abc', data: 'float32;2x2;0;xyz' });
+        expect(parseHash(hash)).toEqual({ view: 'abc', data: 'float32;2x2;0;xyz' });
+        expect(parseHash('')).toEqual({ view: undefined, data: undefined });
+    });
+
+    it('round-trips the view state with rounded camera coordinates', () => {
+        const param = encodeViewParam(view);
+        const decoded = decodeViewParam(param);
+        expect(decoded.sliceIndices).toEqual({ 2: 3 });
+        expect(decoded.labels).toEqual(['B', 'H', 'W']);
+        expect(decoded.camera?.position).toEqual([5.123, 5, 5]);
+        // Re-encoding a restored view yields the same parameter
+        expect(encodeViewParam(decoded)).toBe(param);
+    });
+
+    it('rejects unreadable view params', () => {
+        expect(() => decodeViewParam('%%%')).toThrow(UrlStateError);
+    });
+
+    it('round-trips embedded tensors including dtype and missing values', async () => {
+        const t = createTensor(new Int16Array([1, -2, 3, 4, 5, 6]), [2, 3], 'int16');
+        const decoded = await decodeTensorParam(await encodeTensorParam(t));
+        expect(decoded.dtype).toBe('int16');
+        expect(decoded.shape).toEqual([2, 3]);
+        expect(Array.from(decoded.data)).toEqual([1, -2, 3, 4, 5, 6]);
+
+        const ragged = tensorFromNested([[1, 2], [3]], [2, 2]);
+        const back = await decodeTensorParam(await encodeTensorParam(ragged));
+        expect(tensorGet(back, [1, 0])).toBe(3);
+        expect(tensorGet(back, [1, 1])).toBeUndefined();
+
+        // Strided (transposed) tensors are embedded in logical order
+        const transposed = createTensor(new Float32Array([0, 1, 2, 3, 4, 5]), [3, 2], 'float32', { strides: [1, 3] });
+        const tb = await decodeTensorParam(await encodeTensorParam(transposed));
+        expect(Array.from(tb.data)).toEqual([0, 3, 1, 4, 2, 5]);
+    });
+
+    it('rejects malformed tensor params', async () => {
+        await expect(decodeTensorParam('complex;2;0;abc')).rejects.toThrow(/malformed/);
+        await expect(decodeTensorParam('float32;2x0;0;abc')).rejects.toThrow(/shape/);
+        const good = await encodeTensorParam(createTensor(new Float32Array([1, 2]), [2], 'float32'));
+        await expect(decodeTensorParam(good.replace('float32;2;', 'float32;3;'))).rejects.toThrow(/expected 12/);
+        // Huge shapes are rejected as a UrlStateError before anything is allocated
+        await expect(decodeTensorParam(good.replace('float32;2;', 'float32;100000x100000;'))).rejects.toThrow(UrlStateError);
+        await expect(decodeTensorParam(good.replace('float32;2;', `float32;${MAX_EMBED_ELEMENTS + 1};`))).rejects.toThrow(/limit/);
+    });
+
+    it('refuses to embed tensors over the size cap', async () => {
+        const big = createTensor(new Float32Array(MAX_EMBED_ELEMENTS + 1), [MAX_EMBED_ELEMENTS + 1], 'float32');
+        const result = await embedTensor(big);
+        expect(result.param).toBeNull();
+        expect(result.warning).toMatch(/limit/);
+
+        const small = await embedTensor(createTensor(new Float32Array([1, 2, 3]), [3], 'float32'));
+        expect(small.param).toMatch(/^float32;3;0;/);
+        expect(small.warning).toBeNull();
+    });
+});
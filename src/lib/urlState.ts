@@ -0,0 +1,134 @@
+// Share links: the view state (and optionally a small data tensor) encoded in the URL hash.
+//   #view=<base64url JSON view state>&data=<dtype>;<shape>;<masked>;<base64url deflated bytes>
+import { parseViewState, VIEW_STATE_VERSION, type ViewState, type Vec3 } from './viewState';
+import {
+    allocateStorage, createTensor, numel, toContiguousArray, toContiguousValid, type DType, type Tensor,
+} from './tensor';
+import { deflateRaw, inflateRaw } from './compression';
+
+export const MAX_EMBED_ELEMENTS = 4096;
+export const MAX_EMBED_CHARS = 16000;
+
+export interface HashParams {
+    view?: string;
+    data?: string;
+}
+
+export class UrlStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UrlStateError';
+    }
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+    let bin = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(str: string): Uint8Array {
+    const b64 = str.replace(/-/g, '+').replace(/_/g, '/');
+    const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+    const out = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+    return out;
+}
+
+export function parseHash(hash: string): HashParams {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return {
+        view: params.get('view') ?? undefined,
+        data: params.get('data') ?? undefined,
+    };
+}
+
+export function buildHash({ view, data }: HashParams): string {
+    const parts: string[] = [];
+    if (view) parts.push(`view=${view}`);
+    if (data) parts.push(`data=${data}`);
+    return parts.length ? `#${parts.join('&')}` : '';
+}
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+/** Encode a view state; camera coordinates are rounded so re-encoding a restored view is stable */
+export function encodeViewParam(state: Omit<ViewState, 'version'>): string {
+    const out: ViewState = {
+        version: VIEW_STATE_VERSION,
+        ...state,
+        camera: state.camera && {
+            position: state.camera.position.map(round3) as Vec3,
+            target: state.camera.target.map(round3) as Vec3,
+            projection: state.camera.projection,
+            zoom: state.camera.zoom === undefined ? undefined : round3(state.camera.zoom),
+        },
+    };
+    return base64UrlEncode(new TextEncoder().encode(JSON.stringify(out)));
+}
+
+export function decodeViewParam(param: string, fixedShape?: number[] | null): ViewState {
+    let json: string;
+    try {
+        json = new TextDecoder().decode(base64UrlDecode(param));
+    } catch {
+        throw new UrlStateError('The link does not contain a readable view state');
+    }
+    return parseViewState(json, fixedShape);
+}
+
+const DTYPES: readonly DType[] = ['float16', 'float32', 'float64', 'int8', 'int16', 'int32', 'int64', 'uint8', 'bool'];
+
+/** Compress a tensor's values (row-major, plus the missing-value mask if any) into a hash parameter */
+export async function encodeTensorParam(t: Tensor): Promise<string> {
+    const values = toContiguousArray(t);
+    const valid = toContiguousValid(t);
+    const valueBytes = new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+    const raw = new Uint8Array(valueBytes.length + (valid?.length ?? 0));
+    raw.set(valueBytes);
+    if (valid) raw.set(valid, valueBytes.length);
+    const packed = base64UrlEncode(await deflateRaw(raw));
+    return `${t.dtype};${t.shape.join('x')};${valid ? 1 : 0};${packed}`;
+}
+
+export async function decodeTensorParam(param: string): Promise<Tensor> {
+    const [dtype, shapeStr, masked, packed] = param.split(';');
+    if (!DTYPES.includes(dtype as DType) || packed === undefined) {
+        throw new UrlStateError('The link contains malformed tensor data');
+    }
+    const shape = shapeStr ? shapeStr.split('x').map(Number) : [];
+    if (shape.some(n => !Number.isInteger(n) || n <= 0)) throw new UrlStateError('The link contains an invalid tensor shape');
+    // Links never carry more than embedTensor writes, so larger shapes are rejected before allocating
+    const n = numel(shape);
+    if (n > MAX_EMBED_ELEMENTS) throw new UrlStateError(`The link's tensor has ${n} values (limit ${MAX_EMBED_ELEMENTS})`);
+
+    let raw: Uint8Array;
+    try {
+        raw = await inflateRaw(base64UrlDecode(packed));
+    } catch {
+        throw new UrlStateError('The link contains corrupt tensor data');
+    }
+    const byteLength = n * allocateStorage(dtype as DType, 0).BYTES_PER_ELEMENT;
+    const expected = byteLength + (masked === '1' ? n : 0);
+    if (raw.length !== expected) throw new UrlStateError(`The link's tensor data has ${raw.length} bytes, expected ${expected}`);
+
+    const data = allocateStorage(dtype as DType, n);
+    new Uint8Array(data.buffer).set(raw.subarray(0, byteLength));
+    const valid = masked === '1' ? raw.slice(byteLength) : undefined;
+    return createTensor(data, shape, dtype as DType, { valid });
+}
+
+/** Try to embed a tensor under the size caps; returns a warning instead when it is too large */
+export async function embedTensor(t: Tensor): Promise<{ param: string | null; warning: string | null }> {
+    const n = numel(t.shape);
+    if (n > MAX_EMBED_ELEMENTS) {
+        return { param: null, warning: `Data has ${n} values (limit ${MAX_EMBED_ELEMENTS}); the link only contains the view.` };
+    }
+    const param = await encodeTensorParam(t);
+    if (param.length > MAX_EMBED_CHARS) {
+        return { param: null, warning: `Compressed data is ${param.length} characters (limit ${MAX_EMBED_CHARS}); the link only contains the view.` };
+    }
+    return { param, warning: null };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildVectorDrawing, createProjector, layoutBoxes, projectBoxes, toPdf, toSvg, AXIS_COLORS, SCENE_THEMES,
+    type ProjectionView, type VectorBox,
+} from './vectorExport';
+import type { BoxInstance } from './layout';
+
+const view: ProjectionView = {
+    eye: [5, 5, 5], target: [0, 0, 0], up: [0, 1, 0], fov: 50, width: 200, height: 100, origin: [0, 0, 0],
+};
+const cell = (x: number, value?: number, style?: BoxInstance['style']): BoxInstance => ({
+    id: String(x), position: [x, 0, 0], indexPath: [x], value, style,
+});
+
+describe('Vector export', () => {
+    it('projects the target to the center and nearer points lower on screen', () => {
+        const project = createProjector(view);
+        expect(project([0, 0, 0])!.point).toEqual([100, 50]);
+        expect(project([0, -1, 0])!.point[1]).toBeGreaterThan(50);
+        expect(project([10, 10, 10])).toBeNull(); // behind the camera
+        // The layout origin is shifted by the scene's centering offset
+        expect(createProjector({ ...view, origin: [1, 0, 0] })([-1, 0, 0])!.point).toEqual([100, 50]);
+    });
+
+    it('draws the three camera-facing faces of each cube, far to near', () => {
+        const boxes: VectorBox[] = [
+            { center: [0, 0, 0], size: 1, fill: '#111111' },
+            { center: [2, 0, 0], size: 1, fill: AXIS_COLORS },
+        ];
+        const faces = projectBoxes(boxes, view);
+        expect(faces).toHaveLength(6);
+        // The cube at x=0 is farther from the eye, so its faces come first
+        expect(faces.slice(0, 3).every(f => f.fill === '#111111')).toBe(true);
+        expect(new Set(faces.slice(3).map(f => f.fill))).toEqual(new Set(Object.values(AXIS_COLORS)));
+        // A cube the camera is level with only shows the faces it can see
+        expect(projectBoxes([{ center: [5, 0, 0], size: 1, fill: '#111111' }], view)).toHaveLength(2);
+    });
+
+    it('projects orthographic views without perspective', () => {
+        const front: ProjectionView = { ...view, eye: [0, 0, 10], zoom: 20 };
+        const project = createProjector(front);
+        expect(project([1, 1, 0])!.point).toEqual([120, 30]);
+        expect(project([1, 1, -5])!.point).toEqual([120, 30]); // depth does not shrink
+        // Looking straight along -Z only the +Z faces are visible, far to near
+        const faces = projectBoxes([
+            { center: [0, 0, 0], size: 1, fill: '#222222' },
+            { center: [0, 0, -3], size: 1, fill: '#111111' },
+        ], front);
+        expect(faces.map(f => f.fill)).toEqual(['#111111', '#222222']);
+    });
+
+    it('colors boxes like the grid', () => {
+        const coloring = { mode: 'value', colormap: 'grayscale', range: { min: 0, max: 1 }, nanColor: '#ff00ff' } as const;
+        const [low, missing, ghost] = layoutBoxes([cell(0, 0), cell(1), cell(2, 1, 'ghost')], coloring);
+        expect(low.fill).toBe('#000000');
+        expect(missing.fill).toBe('#ff00ff');
+        expect(ghost.size).toBeLessThan(low.size);
+        expect(layoutBoxes([cell(0, 0, 'conflict')], { mode: 'uniform', color: '#646a96' })[0].fill).toBe('#dc2626');
+    });
+
+    it('adds a color legend and follows the light theme', () => {
+        const legend = { colormap: 'viridis', range: { min: -1, max: 1 }, nanColor: '#ff00ff', title: 'Offset' } as const;
+        const drawing = buildVectorDrawing([], view, { legend, theme: 'light' });
+        expect(drawing.texts.map(t => t.text)).toEqual(['Offset (Viridis)', '-1', '0', '1', 'NaN / missing']);
+        expect(drawing.texts.every(t => t.color === SCENE_THEMES.light.text)).toBe(true);
+
+        const [ghost] = layoutBoxes([cell(0, undefined, 'ghost')], { mode: 'uniform', color: '#000000' }, 'light');
+        expect(ghost.fill).toBe('#b3b3b3');
+    });
+
+    it('writes deterministic SVG and PDF', () => {
+        const drawing = buildVectorDrawing(
+            layoutBoxes([cell(0), cell(1)], { mode: 'uniform', color: '#646a96' }),
+            view,
+            { background: '#ffffff', triad: { x: { primary: 'W', tiled: ['C'] }, y: { primary: 'H', tiled: [] }, z: { primary: '<N>', tiled: [] } } },
+        );
+        const svg = toSvg(drawing);
+        expect(svg).toBe(toSvg(drawing));
+        expect(svg).toContain('&lt;N&gt;');
+        expect(svg).toMatchSnapshot();
+
+        const pdf = toPdf(drawing);
+        expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+        // The xref entries point at the objects
+        const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+        offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+        expect(pdf).toMatchSnapshot();
+    });
+});
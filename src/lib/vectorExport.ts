@@ -0,0 +1,437 @@
+// Vector export of the scene (SVG and PDF): cubes are projected with the scene camera, their
+// visible faces drawn back to front (painter's algorithm) with outlines like the edge shader in
+// TensorGrid.tsx, plus the coordinate triad and color legend. Output only depends on the inputs,
+// so it is stable enough to snapshot-test.
+import type { BoxInstance } from './layout';
+import {
+    formatLegendTick, hexToRgb, rgbToHex, sampleColormap, valueToColor, COLORMAP_LABELS,
+    type ColormapName, type RGB, type ValueRange,
+} from './colormap';
+
+export type Vec3 = [number, number, number];
+export type Point2 = [number, number];
+
+/** Camera and output size the scene is projected with */
+export interface ProjectionView {
+    eye: Vec3;
+    target: Vec3;
+    up: Vec3;
+    fov: number; // vertical field of view in degrees
+    zoom?: number; // orthographic projection in pixels per world unit; perspective when absent
+    width: number;
+    height: number;
+    origin: Vec3; // world position of the layout's origin (the grid is centered in the scene)
+}
+
+/** Colors of a cube's faces by the axis of their normal */
+export interface FaceFills {
+    x: string;
+    y: string;
+    z: string;
+}
+
+export interface VectorBox {
+    center: Vec3;
+    size: number; // edge length
+    fill: string | FaceFills;
+}
+
+export interface TriadAxisLabel {
+    primary: string;
+    tiled: string[];
+}
+
+export type TriadLabels = Record<'x' | 'y' | 'z', TriadAxisLabel>;
+
+/** Display list shared by the SVG and PDF writers; coordinates in pixels, y pointing down */
+export interface VectorDrawing {
+    width: number;
+    height: number;
+    background: string | null; // null = transparent
+    polygons: { points: Point2[]; fill: string; stroke: string | null }[];
+    lines: { from: Point2; to: Point2; color: string; width: number }[];
+    texts: { at: Point2; text: string; color: string; size: number; bold?: boolean }[];
+}
+
+/** Color legend of the value color mode, as shown in the top-right corner of the canvas */
+export interface LegendSpec {
+    colormap: ColormapName;
+    range: ValueRange | null;
+    nanColor: string;
+    title?: string;
+}
+
+export interface VectorExportOptions {
+    background?: string | null;
+    theme?: SceneThemeName; // edge and overlay text colors; 'dark' by default
+    triad?: TriadLabels; // drawn in the bottom-right corner when given
+    legend?: LegendSpec; // drawn in the top-right corner when given
+}
+
+export type SceneThemeName = 'dark' | 'light';
+
+/** Colors that depend on the background the scene is shown on */
+export interface SceneTheme {
+    background: string;
+    edge: string;
+    text: string;
+    panel: string; // legend background
+}
+
+export const SCENE_THEMES: Record<SceneThemeName, SceneTheme> = {
+    dark: { background: '#09090b', edge: '#000000', text: '#d4d4d8', panel: '#18181b' },
+    // For figures on white paper: softer edges, ghosts fading towards white
+    light: { background: '#ffffff', edge: '#3f3f46', text: '#27272a', panel: '#f4f4f5' },
+};
+
+// Matching TensorGrid.tsx: cube scale, axis face colors, broadcast ghost / conflict styles
+export const CUBE_SCALE = 0.85;
+const GHOST_SCALE = 0.6;
+export const GHOST_FADE = 0.7;
+const CONFLICT_COLOR = '#dc2626';
+export const AXIS_COLORS: FaceFills = { x: '#ef4444', y: '#22c55e', z: '#3b82f6' };
+const NEAR = 0.1;
+
+export type BoxColoring =
+    | { mode: 'uniform'; color: string }
+    | { mode: 'axis' }
+    | { mode: 'value'; colormap: ColormapName; range: ValueRange | null; nanColor: string };
+
+function mix(a: RGB, b: RGB, t: number): RGB {
+    return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+/** Cubes of a layout with the colors TensorGrid gives them (without hover or selection) */
+export function layoutBoxes(layout: BoxInstance[], coloring: BoxColoring, theme: SceneThemeName = 'dark'): VectorBox[] {
+    const background = hexToRgb(SCENE_THEMES[theme].background);
+    const styled = (hex: string, inst: BoxInstance) => {
+        if (inst.style === 'conflict') return CONFLICT_COLOR;
+        if (inst.style === 'ghost') return rgbToHex(mix(hexToRgb(hex), background, GHOST_FADE));
+        return hex;
+    };
+    return layout.map(inst => {
+        const size = CUBE_SCALE * (inst.style === 'ghost' ? GHOST_SCALE : 1);
+        let fill: string | FaceFills;
+        if (coloring.mode === 'axis') {
+            fill = { x: styled(AXIS_COLORS.x, inst), y: styled(AXIS_COLORS.y, inst), z: styled(AXIS_COLORS.z, inst) };
+        } else if (coloring.mode === 'value') {
+            const rgb = coloring.range ? valueToColor(inst.value, coloring.range, coloring.colormap) : null;
+            fill = styled(rgb ? rgbToHex(rgb) : coloring.nanColor, inst);
+        } else {
+            fill = styled(coloring.color, inst);
+        }
+        return { center: inst.position, size, fill };
+    });
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+function normalize(v: Vec3): Vec3 {
+    const len = Math.hypot(v[0], v[1], v[2]) || 1;
+    return [v[0] / len, v[1] / len, v[2] / len];
+}
+
+/** Camera basis: right, up and forward (towards the target) unit vectors */
+function cameraBasis(view: ProjectionView): { right: Vec3; up: Vec3; forward: Vec3 } {
+    const forward = normalize(sub(view.target, view.eye));
+    const right = normalize(cross(forward, view.up));
+    return { right, up: cross(right, forward), forward };
+}
+
+/** Returns a function mapping layout coordinates to pixels and view depth (null behind the camera) */
+export function createProjector(view: ProjectionView): (p: Vec3) => { point: Point2; depth: number } | null {
+    const { right, up, forward } = cameraBasis(view);
+    const focal = view.height / 2 / Math.tan((view.fov * Math.PI) / 360);
+    const eye = sub(view.eye, view.origin);
+    return p => {
+        const d = sub(p, eye);
+        const depth = dot(d, forward);
+        if (depth < NEAR) return null;
+        const scale = view.zoom ?? focal / depth;
+        return {
+            point: [view.width / 2 + dot(d, right) * scale, view.height / 2 - dot(d, up) * scale],
+            depth,
+        };
+    };
+}
+
+// Corners of the face with normal +axis, in winding order; negated for the -axis face
+const FACE_CORNERS: Record<0 | 1 | 2, Vec3[]> = {
+    0: [[1, -1, -1], [1, 1, -1], [1, 1, 1], [1, -1, 1]],
+    1: [[-1, 1, -1], [1, 1, -1], [1, 1, 1], [-1, 1, 1]],
+    2: [[-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1]],
+};
+const AXES = ['x', 'y', 'z'] as const;
+
+/**
+ * Projects the boxes' camera-facing faces and orders them far to near. A face is visible when the
+ * eye lies on its outer side; faces are sorted by the distance of their center to the eye, which
+ * is exact for the non-intersecting, axis-aligned cubes of a grid. Orthographic views look along
+ * one direction instead, so visibility follows the sign of the view direction and faces are
+ * sorted by depth along it.
+ */
+export function projectBoxes(boxes: VectorBox[], view: ProjectionView, edge = SCENE_THEMES.dark.edge): VectorDrawing['polygons'] {
+    const project = createProjector(view);
+    const eye = sub(view.eye, view.origin);
+    const { forward } = cameraBasis(view);
+    const orthographic = view.zoom !== undefined;
+    const faces: { points: Point2[]; fill: string; distance: number; order: number }[] = [];
+
+    boxes.forEach((box, b) => {
+        const half = box.size / 2;
+        for (const axis of [0, 1, 2] as const) {
+            const offset = orthographic ? -forward[axis] : eye[axis] - box.center[axis];
+            if (orthographic ? Math.abs(offset) < 1e-9 : Math.abs(offset) <= half) continue;
+            const sign = offset > 0 ? 1 : -1;
+            const faceCenter: Vec3 = [...box.center];
+            faceCenter[axis] += sign * half;
+
+            const points: Point2[] = [];
+            for (const corner of FACE_CORNERS[axis]) {
+                const projected = project([
+                    box.center[0] + corner[0] * sign * half,
+                    box.center[1] + corner[1] * sign * half,
+                    box.center[2] + corner[2] * sign * half,
+                ]);
+                if (!projected) break;
+                points.push(projected.point);
+            }
+            if (points.length < 4) continue; // crosses the near plane
+
+            const toEye = sub(faceCenter, eye);
+            faces.push({
+                points,
+                fill: typeof box.fill === 'string' ? box.fill : box.fill[AXES[axis]],
+                distance: orthographic ? dot(toEye, forward) : dot(toEye, toEye),
+                order: b * 3 + axis,
+            });
+        }
+    });
+
+    faces.sort((a, b) => b.distance - a.distance || a.order - b.order);
+    return faces.map(({ points, fill }) => ({ points, fill, stroke: edge }));
+}
+
+// Triad arrow directions as in AxisTriad.tsx (the directions indices increase in)
+const TRIAD_DIRS: Record<'x' | 'y' | 'z', Vec3> = { x: [1, 0, 0], y: [0, -1, 0], z: [0, 0, -1] };
+const TRIAD_LENGTH = 36;
+const TRIAD_MARGIN = 64;
+
+type Overlay = Pick<VectorDrawing, 'polygons' | 'lines' | 'texts'>;
+
+/** Axis arrows and labels rotated like the main camera, anchored in the bottom-right corner */
+function triadShapes(view: ProjectionView, labels: TriadLabels): Overlay {
+    const { right, up, forward } = cameraBasis(view);
+    const origin: Point2 = [view.width - TRIAD_MARGIN, view.height - TRIAD_MARGIN];
+    const out: Overlay = { polygons: [], lines: [], texts: [] };
+
+    // Arrows pointing away from the viewer are drawn first
+    const axes = [...AXES].sort((a, b) => dot(TRIAD_DIRS[b], forward) - dot(TRIAD_DIRS[a], forward));
+    for (const axis of axes) {
+        const dir = TRIAD_DIRS[axis];
+        const dx = dot(dir, right);
+        const dy = -dot(dir, up);
+        const color = AXIS_COLORS[axis];
+        const tip: Point2 = [origin[0] + dx * TRIAD_LENGTH, origin[1] + dy * TRIAD_LENGTH];
+        const base: Point2 = [origin[0] + dx * TRIAD_LENGTH * 0.75, origin[1] + dy * TRIAD_LENGTH * 0.75];
+        const head = 4; // half width of the arrow head
+        out.lines.push({ from: origin, to: base, color, width: 2 });
+        out.polygons.push({
+            points: [tip, [base[0] - dy * head, base[1] + dx * head], [base[0] + dy * head, base[1] - dx * head]],
+            fill: color,
+            stroke: null,
+        });
+        const at: Point2 = [origin[0] + dx * (TRIAD_LENGTH + 14), origin[1] + dy * (TRIAD_LENGTH + 14)];
+        out.texts.push({ at, text: labels[axis].primary, color, size: 11, bold: true });
+        if (labels[axis].tiled.length > 0) {
+            out.texts.push({ at: [at[0], at[1] + 10], text: labels[axis].tiled.join(', '), color, size: 8 });
+        }
+    }
+    return out;
+}
+
+const LEGEND_WIDTH = 224;
+const LEGEND_MARGIN = 16;
+const LEGEND_STEPS = 48;
+
+/** Title, colormap bar with min / mid / max ticks and the NaN swatch, in the top-right corner */
+function legendShapes(view: ProjectionView, legend: LegendSpec, theme: SceneTheme): Overlay {
+    const left = view.width - LEGEND_MARGIN - LEGEND_WIDTH;
+    const top = LEGEND_MARGIN;
+    const pad = 12;
+    const barLeft = left + pad;
+    const barWidth = LEGEND_WIDTH - 2 * pad;
+    const rect = (x: number, y: number, w: number, h: number): Point2[] => [[x, y], [x + w, y], [x + w, y + h], [x, y + h]];
+    const out: Overlay = { polygons: [], lines: [], texts: [] };
+
+    out.polygons.push({ points: rect(left, top, LEGEND_WIDTH, 78), fill: theme.panel, stroke: null });
+    out.texts.push({ at: [left + LEGEND_WIDTH / 2, top + 14], text: `${legend.title ?? 'Value'} (${COLORMAP_LABELS[legend.colormap]})`, color: theme.text, size: 11, bold: true });
+    const step = barWidth / LEGEND_STEPS;
+    for (let i = 0; i < LEGEND_STEPS; i++) {
+        const fill = rgbToHex(sampleColormap(legend.colormap, (i + 0.5) / LEGEND_STEPS));
+        // Slightly overlapping segments so no seams show between them
+        out.polygons.push({ points: rect(barLeft + i * step, top + 26, step + 0.5, 12), fill, stroke: null });
+    }
+    const ticks = legend.range
+        ? [legend.range.min, (legend.range.min + legend.range.max) / 2, legend.range.max].map(formatLegendTick)
+        : ['', 'No numeric data', ''];
+    ticks.forEach((text, i) => {
+        if (text) out.texts.push({ at: [barLeft + (barWidth * i) / 2, top + 50], text, color: theme.text, size: 10 });
+    });
+    out.polygons.push({ points: rect(barLeft, top + 60, 10, 10), fill: legend.nanColor, stroke: theme.edge });
+    out.texts.push({ at: [barLeft + 50, top + 65], text: 'NaN / missing', color: theme.text, size: 10 });
+    return out;
+}
+
+export function buildVectorDrawing(boxes: VectorBox[], view: ProjectionView, options: VectorExportOptions = {}): VectorDrawing {
+    const theme = SCENE_THEMES[options.theme ?? 'dark'];
+    const drawing: VectorDrawing = {
+        width: view.width,
+        height: view.height,
+        background: options.background ?? null,
+        polygons: projectBoxes(boxes, view, theme.edge),
+        lines: [],
+        texts: [],
+    };
+    const overlays = [
+        options.triad ? triadShapes(view, options.triad) : null,
+        options.legend ? legendShapes(view, options.legend, theme) : null,
+    ];
+    for (const overlay of overlays) {
+        if (!overlay) continue;
+        drawing.polygons.push(...overlay.polygons);
+        drawing.lines.push(...overlay.lines);
+        drawing.texts.push(...overlay.texts);
+    }
+    return drawing;
+}
+
+// Two decimals are plenty at screen scale; "-0" is normalized so output doesn't flicker
+const num = (n: number) => {
+    const s = n.toFixed(2).replace(/\.?0+$/, '');
+    return s === '-0' ? '0' : s;
+};
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function toSvg(drawing: VectorDrawing): string {
+    const { width, height } = drawing;
+    const lines = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ];
+    if (drawing.background) lines.push(`<rect width="${width}" height="${height}" fill="${drawing.background}"/>`);
+    lines.push(`<g stroke-width="1" stroke-linejoin="round">`);
+    for (const poly of drawing.polygons) {
+        const points = poly.points.map(p => `${num(p[0])},${num(p[1])}`).join(' ');
+        lines.push(`<polygon points="${points}" fill="${poly.fill}"${poly.stroke ? ` stroke="${poly.stroke}"` : ''}/>`);
+    }
+    lines.push('</g>');
+    for (const line of drawing.lines) {
+        lines.push(`<line x1="${num(line.from[0])}" y1="${num(line.from[1])}" x2="${num(line.to[0])}" y2="${num(line.to[1])}" stroke="${line.color}" stroke-width="${line.width}"/>`);
+    }
+    for (const text of drawing.texts) {
+        lines.push(
+            `<text x="${num(text.at[0])}" y="${num(text.at[1])}" fill="${text.color}" font-size="${text.size}"${text.bold ? ' font-weight="bold"' : ''}`
+            + ` font-family="Helvetica, Arial, sans-serif" text-anchor="middle" dominant-baseline="middle">${escapeXml(text.text)}</text>`,
+        );
+    }
+    lines.push('</svg>');
+    return lines.join('\n') + '\n';
+}
+
+/** Draws the drawing onto a 2D canvas context (e.g. overlays of a raster export) */
+export function paintDrawing(ctx: CanvasRenderingContext2D, drawing: VectorDrawing): void {
+    if (drawing.background) {
+        ctx.fillStyle = drawing.background;
+        ctx.fillRect(0, 0, drawing.width, drawing.height);
+    }
+    ctx.lineJoin = 'round';
+    for (const poly of drawing.polygons) {
+        ctx.beginPath();
+        poly.points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.closePath();
+        ctx.fillStyle = poly.fill;
+        ctx.fill();
+        if (poly.stroke) {
+            ctx.strokeStyle = poly.stroke;
+            ctx.lineWidth = 1;
+            ctx.stroke();
+        }
+    }
+    for (const line of drawing.lines) {
+        ctx.beginPath();
+        ctx.moveTo(...line.from);
+        ctx.lineTo(...line.to);
+        ctx.strokeStyle = line.color;
+        ctx.lineWidth = line.width;
+        ctx.stroke();
+    }
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const text of drawing.texts) {
+        ctx.font = `${text.bold ? 'bold ' : ''}${text.size}px Helvetica, Arial, sans-serif`;
+        ctx.fillStyle = text.color;
+        ctx.fillText(text.text, ...text.at);
+    }
+}
+
+// PDF strings only carry the standard fonts' Latin-1 text; anything else becomes '?'
+function pdfString(text: string): string {
+    return `(${text.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1')})`;
+}
+
+function pdfColor(hex: string, op: 'rg' | 'RG'): string {
+    return `${hexToRgb(hex).map(c => num(c)).join(' ')} ${op}`;
+}
+
+/** Single-page PDF (1 px = 1 pt) with the drawing's paths and Helvetica text */
+export function toPdf(drawing: VectorDrawing): string {
+    const { width, height } = drawing;
+    const y = (v: number) => num(height - v);
+    const ops: string[] = [];
+    if (drawing.background) ops.push(pdfColor(drawing.background, 'rg'), `0 0 ${width} ${height} re f`);
+    ops.push('1 w 1 j');
+    for (const poly of drawing.polygons) {
+        ops.push(pdfColor(poly.fill, 'rg'));
+        if (poly.stroke) ops.push(pdfColor(poly.stroke, 'RG'));
+        const [first, ...rest] = poly.points;
+        ops.push(`${num(first[0])} ${y(first[1])} m ${rest.map(p => `${num(p[0])} ${y(p[1])} l`).join(' ')} h ${poly.stroke ? 'B' : 'f'}`);
+    }
+    for (const line of drawing.lines) {
+        ops.push(pdfColor(line.color, 'RG'), `${line.width} w`);
+        ops.push(`${num(line.from[0])} ${y(line.from[1])} m ${num(line.to[0])} ${y(line.to[1])} l S`);
+    }
+    for (const text of drawing.texts) {
+        // Centered using Helvetica's average advance of ~0.55 em
+        const x = text.at[0] - (text.text.length * text.size * 0.55) / 2;
+        ops.push(
+            pdfColor(text.color, 'rg'),
+            `BT /${text.bold ? 'F2' : 'F1'} ${text.size} Tf ${num(x)} ${num(height - text.at[1] - text.size * 0.35)} Td ${pdfString(text.text)} Tj ET`,
+        );
+    }
+    const content = ops.join('\n');
+
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Contents 4 0 R /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>',
+    ];
+    // Everything is ASCII, so string lengths are byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+        offsets.push(pdf.length);
+        pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return pdf;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { parseViewState, serializeViewState, migrateLegacyViewState, ViewStateError, VIEW_STATE_VERSION } from './viewState';
+import { DEFAULT_COLOR_SCALE } from './colormap';
+
+const fullState = {
+    shape: [2, 3, 4, 5],
+    labels: ['B', 'C', 'H', 'W'],
+    dimOrder: 'last-to-first' as const,
+    mode: 'slicing' as const,
+    maxCells: 6,
+    sliceIndices: { 0: 1, 1: 2 },
+    selection: 'x[:, 1:, ::2]',
+    colorMode: 'value' as const,
+    cubeColor: '#123456',
+    colorScale: { ...DEFAULT_COLOR_SCALE, colormap: 'magma' as const },
+    memoryLayout: { preset: 'custom' as const, customStrides: '60, 1, 15, 3', offset: 2, dtype: 'float16' as const, showPath: true },
+    camera: { position: [1, 2, 3] as [number, number, number], target: [0, -1, 0] as [number, number, number] },
+};
+
+describe('View state import', () => {
+    it('round-trips the current schema', () => {
+        const json = serializeViewState(fullState);
+        expect(JSON.parse(json).version).toBe(VIEW_STATE_VERSION);
+        expect(parseViewState(json)).toEqual({ version: VIEW_STATE_VERSION, ...fullState });
+    });
+
+    it('migrates the unversioned export format', () => {
+        const legacy = {
+            shape: [2, 3, 4, 5],
+            spatialDims: [2, 3, 1],
+            outerDims: [0],
+            mode: 'tiling',
+            maxCells: 8,
+            sliceIndices: { 0: 1 },
+        };
+        expect(migrateLegacyViewState(legacy).dimOrder).toBe('last-to-first');
+        const state = parseViewState(JSON.stringify(legacy));
+        expect(state.version).toBe(VIEW_STATE_VERSION);
+        expect(state.shape).toEqual([2, 3, 4, 5]);
+        expect(state.mode).toBe('tiling');
+        expect(state.sliceIndices).toEqual({ 0: 1 });
+        expect(state.labels).toEqual([]);
+        expect(state.colorMode).toBe('uniform');
+        expect(state.camera).toBeUndefined();
+
+        const firstToLast = parseViewState({ ...legacy, spatialDims: [1, 0, 2], outerDims: [3] });
+        expect(firstToLast.dimOrder).toBe('first-to-last');
+    });
+
+    it('rejects unknown versions and malformed files', () => {
+        expect(() => parseViewState({ ...fullState, version: 99 })).toThrow(/Unsupported settings version 99/);
+        expect(() => parseViewState('not json')).toThrow(ViewStateError);
+        expect(() => parseViewState('[1, 2]')).toThrow(/JSON object/);
+        expect(() => parseViewState({ ...fullState, version: 1, mode: 'stacked' })).toThrow(/'mode'/);
+        expect(() => parseViewState({ ...fullState, version: 1, camera: { position: [0, 0], target: [0, 0, 0] } }))
+            .toThrow(/camera.position/);
+        expect(() => parseViewState({ ...fullState, version: 1, camera: { ...fullState.camera, projection: 'fisheye' } }))
+            .toThrow(/camera.projection/);
+        expect(() => parseViewState({ ...fullState, version: 1, camera: { ...fullState.camera, zoom: 0 } })).toThrow(/camera.zoom/);
+        expect(() => parseViewState({ ...fullState, version: 1, sliceIndices: { 0: 5 } })).toThrow(/out of range/);
+        expect(() => parseViewState({ ...fullState, version: 1, selection: [0, 1] })).toThrow(/'selection'/);
+        expect(() => parseViewState({ ...fullState, version: 1, memoryLayout: { preset: 'nhwc' } })).toThrow(/memoryLayout.preset/);
+        expect(() => parseViewState({ ...fullState, version: 1, memoryLayout: { offset: -1 } })).toThrow(/memoryLayout.offset/);
+    });
+
+    it('reports shape mismatches against loaded data', () => {
+        const json = serializeViewState(fullState);
+        expect(() => parseViewState(json, [2, 3, 4])).toThrow(/shape \[2, 3, 4, 5\] but the loaded data has shape \[2, 3, 4\]/);
+        expect(parseViewState(json, [2, 3, 4, 5]).shape).toEqual([2, 3, 4, 5]);
+    });
+
+    it('validates custom dimension assignments', () => {
+        const custom = { spatial: [3, 2, null], tiles: [{ dim: 0, axis: 'x' }, { dim: 1, axis: 'z' }] };
+        const state = parseViewState(serializeViewState({ ...fullState, dimAssignment: custom as never }));
+        expect(state.dimAssignment).toEqual(custom);
+
+        const duplicate = { spatial: [3, 3, null], tiles: [{ dim: 0, axis: 'x' }, { dim: 1, axis: 'z' }] };
+        expect(() => parseViewState({ ...fullState, version: 1, dimAssignment: duplicate })).toThrow(/exactly once/);
+        const badAxis = { spatial: [3, 2, null], tiles: [{ dim: 0, axis: 'w' }, { dim: 1, axis: 'z' }] };
+        expect(() => parseViewState({ ...fullState, version: 1, dimAssignment: badAxis })).toThrow(/dimAssignment/);
+    });
+});
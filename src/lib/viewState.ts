@@ -0,0 +1,235 @@
+// Versioned schema for saved view settings ("Export JSON" / "Import settings").
+import { DEFAULT_COLOR_SCALE, COLORMAP_LABELS, type ColorScaleSettings, type ColormapName } from './colormap';
+import { AXES, type DimAssignment } from './dimAssignment';
+import { DEFAULT_MEMORY_LAYOUT, STRIDE_PRESET_LABELS, type MemoryLayoutSettings, type StridePreset } from './memoryLayout';
+import { DTYPE_SIZES, type DType } from './tensor';
+
+export const VIEW_STATE_VERSION = 1;
+
+export type Vec3 = [number, number, number];
+export type DimOrder = 'first-to-last' | 'last-to-first';
+export type LayoutMode = 'tiling' | 'slicing';
+export type ColorModeName = 'uniform' | 'axis' | 'value' | 'memory';
+
+export type Projection = 'perspective' | 'orthographic';
+
+export interface CameraPose {
+    position: Vec3;
+    target: Vec3;
+    projection?: Projection; // perspective when absent
+    zoom?: number; // orthographic zoom (pixels per world unit)
+}
+
+export interface ViewState {
+    version: typeof VIEW_STATE_VERSION;
+    shape: number[];
+    labels: string[];
+    dimOrder: DimOrder;
+    dimAssignment?: DimAssignment; // custom axis mapping; absent when following the dimOrder preset
+    mode: LayoutMode;
+    maxCells: number;
+    sliceIndices: Record<number, number>;
+    selection?: string; // NumPy-style slice expression (see slice.ts); absent shows every dim
+    colorMode: ColorModeName;
+    cubeColor: string;
+    colorScale: ColorScaleSettings;
+    memoryLayout?: MemoryLayoutSettings; // strides used by the 'memory' color mode
+    camera?: CameraPose;
+}
+
+export class ViewStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ViewStateError';
+    }
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(v: unknown): v is Json {
+    return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function expectShape(v: unknown): number[] {
+    if (!Array.isArray(v) || v.some(n => !Number.isInteger(n) || n <= 0)) {
+        throw new ViewStateError("'shape' must be an array of positive integers");
+    }
+    return v as number[];
+}
+
+function expectOneOf<T extends string>(v: unknown, field: string, options: readonly T[]): T {
+    if (typeof v !== 'string' || !options.includes(v as T)) {
+        throw new ViewStateError(`'${field}' must be one of ${options.map(o => `'${o}'`).join(', ')}`);
+    }
+    return v as T;
+}
+
+function expectVec3(v: unknown, field: string): Vec3 {
+    if (!Array.isArray(v) || v.length !== 3 || v.some(n => typeof n !== 'number' || !Number.isFinite(n))) {
+        throw new ViewStateError(`'${field}' must be an array of 3 finite numbers`);
+    }
+    return [v[0], v[1], v[2]];
+}
+
+function expectSliceIndices(v: unknown, shape: number[]): Record<number, number> {
+    if (v === undefined) return {};
+    if (!isObject(v)) throw new ViewStateError("'sliceIndices' must be an object mapping dimension to index");
+    const out: Record<number, number> = {};
+    for (const [key, idx] of Object.entries(v)) {
+        const dim = Number(key);
+        if (!Number.isInteger(dim) || dim < 0 || dim >= shape.length) {
+            throw new ViewStateError(`'sliceIndices' refers to dimension ${key}, but the shape has ${shape.length} dimensions`);
+        }
+        if (!Number.isInteger(idx) || (idx as number) < 0 || (idx as number) >= shape[dim]) {
+            throw new ViewStateError(`Slice index ${String(idx)} is out of range for dimension ${dim} (size ${shape[dim]})`);
+        }
+        out[dim] = idx as number;
+    }
+    return out;
+}
+
+function expectDimAssignment(v: unknown, rank: number): DimAssignment | undefined {
+    if (v === undefined) return undefined;
+    const invalid = () => new ViewStateError("'dimAssignment' must have 'spatial' ([x, y, z] dims or null) and 'tiles' ([{ dim, axis }])");
+    if (!isObject(v) || !Array.isArray(v.spatial) || v.spatial.length !== 3 || !Array.isArray(v.tiles)) throw invalid();
+    const validDim = (d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) < rank;
+    if (v.spatial.some(d => d !== null && !validDim(d))) throw invalid();
+    if (v.tiles.some(t => !isObject(t) || !validDim(t.dim) || !AXES.includes(t.axis as never))) throw invalid();
+
+    const dims = [...v.spatial.filter(d => d !== null), ...v.tiles.map(t => (t as Json).dim)];
+    if (new Set(dims).size !== dims.length || dims.length !== rank) {
+        throw new ViewStateError(`'dimAssignment' must assign each of the ${rank} dimensions exactly once`);
+    }
+    return v as unknown as DimAssignment;
+}
+
+function expectColorScale(v: unknown): ColorScaleSettings {
+    if (v === undefined) return { ...DEFAULT_COLOR_SCALE };
+    if (!isObject(v)) throw new ViewStateError("'colorScale' must be an object");
+    const merged = { ...DEFAULT_COLOR_SCALE, ...v } as ColorScaleSettings;
+    expectOneOf<ColormapName>(merged.colormap, 'colorScale.colormap', Object.keys(COLORMAP_LABELS) as ColormapName[]);
+    expectOneOf(merged.rangeMode, 'colorScale.rangeMode', ['auto', 'manual'] as const);
+    for (const key of ['manualMin', 'manualMax', 'clipPercent'] as const) {
+        if (typeof merged[key] !== 'number') throw new ViewStateError(`'colorScale.${key}' must be a number`);
+    }
+    return merged;
+}
+
+function expectMemoryLayout(v: unknown): MemoryLayoutSettings | undefined {
+    if (v === undefined) return undefined;
+    if (!isObject(v)) throw new ViewStateError("'memoryLayout' must be an object");
+    const merged = { ...DEFAULT_MEMORY_LAYOUT, ...v } as MemoryLayoutSettings;
+    expectOneOf<StridePreset>(merged.preset, 'memoryLayout.preset', Object.keys(STRIDE_PRESET_LABELS) as StridePreset[]);
+    expectOneOf<DType>(merged.dtype, 'memoryLayout.dtype', Object.keys(DTYPE_SIZES) as DType[]);
+    if (typeof merged.customStrides !== 'string') throw new ViewStateError("'memoryLayout.customStrides' must be a string like '1, 12, 3'");
+    if (!Number.isInteger(merged.offset) || merged.offset < 0) throw new ViewStateError("'memoryLayout.offset' must be a non-negative integer");
+    if (typeof merged.showPath !== 'boolean') throw new ViewStateError("'memoryLayout.showPath' must be a boolean");
+    return merged;
+}
+
+/**
+ * Upgrade the unversioned export format ({ shape, spatialDims, outerDims, mode, maxCells, sliceIndices })
+ * to the current schema. The dimension order is recovered from which dim was mapped to Y.
+ */
+export function migrateLegacyViewState(raw: Json): Json {
+    const shape = expectShape(raw.shape);
+    const spatialDims = Array.isArray(raw.spatialDims) ? raw.spatialDims : [];
+    const yDim = spatialDims[1];
+    const dimOrder: DimOrder = shape.length > 1 && yDim === shape.length - 1 ? 'last-to-first' : 'first-to-last';
+    return {
+        version: VIEW_STATE_VERSION,
+        shape,
+        labels: [],
+        dimOrder,
+        mode: raw.mode,
+        maxCells: raw.maxCells,
+        sliceIndices: raw.sliceIndices,
+        colorMode: 'uniform',
+    };
+}
+
+/**
+ * Validate (and migrate if needed) a parsed settings file.
+ * When `fixedShape` is given (data is loaded, so the shape cannot change), the file's shape must match it.
+ */
+export function parseViewState(input: unknown, fixedShape?: number[] | null): ViewState {
+    let raw: unknown = input;
+    if (typeof input === 'string') {
+        try {
+            raw = JSON.parse(input);
+        } catch {
+            throw new ViewStateError('File is not valid JSON');
+        }
+    }
+    if (!isObject(raw)) throw new ViewStateError('Settings file must contain a JSON object');
+
+    if (raw.version === undefined) {
+        raw = migrateLegacyViewState(raw);
+    } else if (raw.version !== VIEW_STATE_VERSION) {
+        throw new ViewStateError(`Unsupported settings version ${String(raw.version)} (this app reads version ${VIEW_STATE_VERSION})`);
+    }
+    const obj = raw as Json;
+
+    const shape = expectShape(obj.shape);
+    if (fixedShape && (fixedShape.length !== shape.length || fixedShape.some((n, i) => n !== shape[i]))) {
+        throw new ViewStateError(`Settings are for shape [${shape.join(', ')}] but the loaded data has shape [${fixedShape.join(', ')}]`);
+    }
+
+    const labels = obj.labels ?? [];
+    if (!Array.isArray(labels) || labels.some(l => typeof l !== 'string')) {
+        throw new ViewStateError("'labels' must be an array of strings");
+    }
+
+    const maxCells = obj.maxCells;
+    if (!Number.isInteger(maxCells) || (maxCells as number) < 1) {
+        throw new ViewStateError("'maxCells' must be a positive integer");
+    }
+
+    const cubeColor = obj.cubeColor ?? '#646a96';
+    if (typeof cubeColor !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(cubeColor)) {
+        throw new ViewStateError("'cubeColor' must be a hex color like #646a96");
+    }
+
+    if (obj.selection !== undefined && typeof obj.selection !== 'string') {
+        throw new ViewStateError("'selection' must be a slice expression string like 'x[0, :, ::2]'");
+    }
+
+    let camera: CameraPose | undefined;
+    if (obj.camera !== undefined) {
+        if (!isObject(obj.camera)) throw new ViewStateError("'camera' must be an object with position and target");
+        const { zoom } = obj.camera;
+        if (zoom !== undefined && (typeof zoom !== 'number' || !(zoom > 0) || !Number.isFinite(zoom))) {
+            throw new ViewStateError("'camera.zoom' must be a positive number");
+        }
+        camera = {
+            position: expectVec3(obj.camera.position, 'camera.position'),
+            target: expectVec3(obj.camera.target, 'camera.target'),
+            projection: obj.camera.projection === undefined
+                ? undefined
+                : expectOneOf(obj.camera.projection, 'camera.projection', ['perspective', 'orthographic'] as const),
+            zoom,
+        };
+    }
+
+    return {
+        version: VIEW_STATE_VERSION,
+        shape,
+        labels: labels as string[],
+        dimOrder: expectOneOf(obj.dimOrder ?? 'first-to-last', 'dimOrder', ['first-to-last', 'last-to-first'] as const),
+        dimAssignment: expectDimAssignment(obj.dimAssignment, shape.length),
+        mode: expectOneOf(obj.mode, 'mode', ['tiling', 'slicing'] as const),
+        maxCells: maxCells as number,
+        sliceIndices: expectSliceIndices(obj.sliceIndices, shape),
+        selection: obj.selection as string | undefined,
+        colorMode: expectOneOf(obj.colorMode ?? 'uniform', 'colorMode', ['uniform', 'axis', 'value', 'memory'] as const),
+        cubeColor,
+        colorScale: expectColorScale(obj.colorScale),
+        memoryLayout: expectMemoryLayout(obj.memoryLayout),
+        camera,
+    };
+}
+
+export function serializeViewState(state: Omit<ViewState, 'version'>): string {
+    const out: ViewState = { version: VIEW_STATE_VERSION, ...state };
+    return JSON.stringify(out, null, 2);
+}
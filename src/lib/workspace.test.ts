@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+    activeTensor, addTensor, createWorkspace, duplicateTensor, memoryStorage, parseWorkspace, removeTensor,
+    renameTensor, uniqueName, updateTensor, workspaceLayoutConfig, workspaceTensorData, WorkspaceError, type WorkspaceTensor,
+} from './workspace';
+import { parseViewState } from './viewState';
+import { DEFAULT_COLOR_SCALE } from './colormap';
+import { createTensor } from './tensor';
+
+const view = parseViewState({
+    shape: [2, 3],
+    labels: ['H', 'W'],
+    dimOrder: 'last-to-first',
+    mode: 'tiling',
+    maxCells: 8,
+    sliceIndices: {},
+    colorMode: 'value',
+    cubeColor: '#3b82f6',
+    colorScale: DEFAULT_COLOR_SCALE,
+});
+const entry = (name: string, dataStr = ''): Omit<WorkspaceTensor, 'id'> => ({ name, view, dataStr, file: null, selectedArray: 0 });
+
+describe('Workspace', () => {
+    it('adds, renames and duplicates tensors with unique names', () => {
+        expect(uniqueName('x', ['x', 'x 2'])).toBe('x 3');
+        let ws = createWorkspace(entry('weights'));
+        ws = addTensor(ws, entry('weights'));
+        expect(ws.tensors.map(t => t.name)).toEqual(['weights', 'weights 2']);
+        expect(activeTensor(ws).name).toBe('weights 2');
+
+        ws = renameTensor(ws, ws.activeId, '  grads ');
+        expect(activeTensor(ws).name).toBe('grads');
+        expect(renameTensor(ws, ws.activeId, ' ')).toBe(ws);
+        expect(activeTensor(renameTensor(ws, ws.activeId, 'weights')).name).toBe('weights 2');
+
+        // The copy goes right after its source and becomes active
+        ws = duplicateTensor(ws, ws.tensors[0].id);
+        expect(ws.tensors.map(t => t.name)).toEqual(['weights', 'weights copy', 'grads']);
+        expect(activeTensor(ws).name).toBe('weights copy');
+        expect(new Set(ws.tensors.map(t => t.id)).size).toBe(3);
+    });
+
+    it('removes tensors but keeps the last one', () => {
+        let ws = addTensor(addTensor(createWorkspace(entry('a')), entry('b')), entry('c'));
+        ws = removeTensor(ws, ws.activeId);
+        expect(ws.tensors.map(t => t.name)).toEqual(['a', 'b']);
+        expect(activeTensor(ws).name).toBe('b');
+        ws = removeTensor(ws, ws.tensors[0].id);
+        expect(activeTensor(ws).name).toBe('b');
+        expect(removeTensor(ws, ws.activeId)).toBe(ws);
+    });
+
+    it('reads data from pasted JSON or a loaded file', () => {
+        expect(workspaceTensorData(entry('a', '[[1, 2], [3, 4]]'))?.shape).toEqual([2, 2]);
+        expect(workspaceTensorData(entry('a', '[1, 2'))).toBeNull();
+        expect(workspaceTensorData(entry('a'))).toBeNull();
+        const tensor = createTensor(Float32Array.of(1, 2, 3, 4, 5, 6), [2, 3], 'float32');
+        const file = { fileName: 'x.npz', arrays: [{ name: 'a', tensor }, { name: 'b', tensor }] };
+        expect(workspaceTensorData({ ...entry('a'), file, selectedArray: 1 })).toBe(tensor);
+
+        // Inactive tensors are laid out from their saved settings
+        const config = workspaceLayoutConfig({ ...view, selection: 'x[:, 1:]' }, tensor);
+        expect(config.spatialDims).toEqual([1, 0, null]);
+        expect(config.selectedIndices).toEqual([null, [1, 2]]);
+        expect(config.tensor).toBe(tensor);
+        expect(workspaceLayoutConfig({ ...view, selection: 'x[' }, null).selectedIndices).toBeUndefined();
+    });
+
+    it('round-trips through storage and validates what it loads', async () => {
+        const storage = memoryStorage();
+        expect(await storage.load()).toBeNull();
+        const tensor = createTensor(Float32Array.of(1, 2, 3, 4, 5, 6), [2, 3], 'float32');
+        const ws = { ...addTensor(createWorkspace(entry('a', '[1]')), entry('b')), showAll: true, axis: 'z' as const };
+        const withFile = { ...ws, tensors: [ws.tensors[0], { ...ws.tensors[1], file: { fileName: 'b.npy', arrays: [{ name: 'b', tensor }] } }] };
+        await storage.save(withFile);
+        const loaded = await storage.load();
+        expect(loaded!.tensors.map(t => t.name)).toEqual(['a', 'b']);
+        expect(loaded!.tensors[0].view).toEqual(view);
+        expect({ ...loaded!, tensors: [] }).toEqual({ ...withFile, tensors: [] });
+        expect(Array.from(loaded!.tensors[1].file!.arrays[0].tensor.data)).toEqual([1, 2, 3, 4, 5, 6]);
+
+        expect(() => parseWorkspace({ tensors: [] })).toThrow(WorkspaceError);
+        expect(() => parseWorkspace({ tensors: [{ name: 'a', view }] })).toThrow(WorkspaceError);
+        // A file whose shape no longer matches its saved view is rejected like a mismatched settings file
+        const mismatched = { ...withFile.tensors[1], view: { ...view, shape: [6] } };
+        expect(() => parseWorkspace({ ...withFile, tensors: [mismatched] })).toThrow();
+        // Loaded arrays must keep typed data matching their dtype, with strides inside it
+        const withArray = (tensor: unknown) => ({
+            ...withFile,
+            tensors: [{ ...withFile.tensors[1], file: { fileName: 'b.npy', arrays: [{ name: 'b', tensor }] } }],
+        });
+        expect(() => parseWorkspace(withArray({ ...tensor, data: [1, 2, 3, 4, 5, 6] }))).toThrow(/Float32Array/);
+        expect(() => parseWorkspace(withArray({ ...tensor, data: Float64Array.of(1, 2, 3, 4, 5, 6) }))).toThrow(WorkspaceError);
+        expect(() => parseWorkspace(withArray({ ...tensor, strides: [4, 1] }))).toThrow(/past its 6 stored values/);
+        expect(() => parseWorkspace(withArray({ data: tensor.data }))).toThrow(WorkspaceError);
+        expect(() => parseWorkspace({ ...withFile, tensors: [{ ...withFile.tensors[1], file: { fileName: 'b.npy', arrays: [] } }] }))
+            .toThrow(WorkspaceError);
+        const fallback = parseWorkspace({ tensors: [withFile.tensors[0]], activeId: 'gone', axis: 'w' });
+        expect(fallback.activeId).toBe(withFile.tensors[0].id);
+        expect(fallback.axis).toBe('x');
+        expect(fallback.showAll).toBe(false);
+    });
+
+    it('stores loaded files under their own keys and writes them only when they change', async () => {
+        const records = new Map<string, unknown>();
+        const storage = memoryStorage(records);
+        const file = { fileName: 'b.npy', arrays: [{ name: 'b', tensor: createTensor(Float32Array.of(1, 2, 3, 4, 5, 6), [2, 3], 'float32') }] };
+        const ws = addTensor(createWorkspace(entry('a')), { ...entry('b'), file });
+        await storage.save(ws);
+        const fileKeys = () => [...records.keys()].filter(key => key !== 'current');
+        const [key] = fileKeys();
+        expect(fileKeys()).toHaveLength(1);
+        const stored = records.get(key);
+
+        // Edits that keep the file rewrite only the workspace record
+        await storage.save(renameTensor(ws, ws.tensors[0].id, 'renamed'));
+        expect(records.get(key)).toBe(stored);
+        const loaded = (await storage.load())!;
+        expect(loaded.tensors[1].file!.fileName).toBe('b.npy');
+        expect(Array.from(loaded.tensors[1].file!.arrays[0].tensor.data)).toEqual([1, 2, 3, 4, 5, 6]);
+        await storage.save(loaded);
+        expect(records.get(key)).toBe(stored);
+
+        // A new file replaces the old record, and removed files are deleted
+        await storage.save(updateTensor(loaded, loaded.tensors[1].id, { file: { ...file, fileName: 'c.npy' } }));
+        expect(fileKeys()).toHaveLength(1);
+        expect(fileKeys()[0]).not.toBe(key);
+        await storage.save(removeTensor(loaded, loaded.tensors[1].id));
+        expect(fileKeys()).toHaveLength(0);
+
+        records.set('current', { ...(records.get('current') as object), tensors: [{ ...ws.tensors[1], file: null, fileKey: 'file:gone' }] });
+        await expect(storage.load()).rejects.toThrow(/missing/);
+    });
+});
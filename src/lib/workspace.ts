@@ -0,0 +1,323 @@
+// Workspace of named tensors, each with its own shape, labels, data and view settings. The app
+// edits the active tensor in its own state and keeps snapshots of all of them here; the workspace
+// is saved to IndexedDB so it survives reloads.
+import { normalizeAssignment, outerDimsOf, presetAssignment } from './dimAssignment';
+import { parseTensor, type Axis, type LayoutConfig, type PackedLayout } from './layout';
+import type { NamedTensor } from './npy';
+import { parseSliceExpression, resolveSelections } from './slice';
+import { allocateStorage, DTYPE_SIZES, numel, tensorFromNested, type DType, type Tensor } from './tensor';
+import { parseViewState, type ViewState } from './viewState';
+
+export interface WorkspaceTensor {
+    id: string;
+    name: string;
+    view: ViewState;
+    dataStr: string; // pasted JSON data
+    file: { fileName: string; arrays: NamedTensor[] } | null; // loaded .npy / .npz, used instead of dataStr
+    selectedArray: number;
+}
+
+export interface Workspace {
+    tensors: WorkspaceTensor[];
+    activeId: string;
+    showAll: boolean; // draw every tensor in the scene, side by side
+    axis: Axis; // direction the tensors are arranged along when shown together
+}
+
+export class WorkspaceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkspaceError';
+    }
+}
+
+let idCounter = 0;
+export function newTensorId(): string {
+    return `${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+}
+
+/** `base`, or `base 2`, `base 3`, ... when that name is taken */
+export function uniqueName(base: string, taken: string[]): string {
+    if (!taken.includes(base)) return base;
+    for (let n = 2; ; n++) {
+        const name = `${base} ${n}`;
+        if (!taken.includes(name)) return name;
+    }
+}
+
+export function createWorkspace(first: Omit<WorkspaceTensor, 'id'>): Workspace {
+    const id = newTensorId();
+    return { tensors: [{ ...first, id }], activeId: id, showAll: false, axis: 'x' };
+}
+
+export function activeTensor(workspace: Workspace): WorkspaceTensor {
+    return workspace.tensors.find(t => t.id === workspace.activeId) ?? workspace.tensors[0];
+}
+
+/** Replaces fields of one tensor, e.g. the snapshot of the active tensor's current state */
+export function updateTensor(workspace: Workspace, id: string, patch: Partial<Omit<WorkspaceTensor, 'id'>>): Workspace {
+    return { ...workspace, tensors: workspace.tensors.map(t => (t.id === id ? { ...t, ...patch } : t)) };
+}
+
+/** Adds a tensor (named uniquely) after the active one and makes it active */
+export function addTensor(workspace: Workspace, tensor: Omit<WorkspaceTensor, 'id'>): Workspace {
+    const id = newTensorId();
+    const entry = { ...tensor, id, name: uniqueName(tensor.name, workspace.tensors.map(t => t.name)) };
+    const at = workspace.tensors.findIndex(t => t.id === workspace.activeId) + 1;
+    return { ...workspace, tensors: [...workspace.tensors.slice(0, at), entry, ...workspace.tensors.slice(at)], activeId: id };
+}
+
+export function duplicateTensor(workspace: Workspace, id: string): Workspace {
+    const source = workspace.tensors.find(t => t.id === id);
+    if (!source) return workspace;
+    return addTensor({ ...workspace, activeId: id }, { ...source, name: `${source.name} copy` });
+}
+
+/** Renames a tensor; blank names are ignored and taken names get a number */
+export function renameTensor(workspace: Workspace, id: string, name: string): Workspace {
+    const trimmed = name.trim();
+    if (!trimmed) return workspace;
+    const taken = workspace.tensors.filter(t => t.id !== id).map(t => t.name);
+    return updateTensor(workspace, id, { name: uniqueName(trimmed, taken) });
+}
+
+/** Removes a tensor; the last one is kept. The next (or previous) tensor becomes active */
+export function removeTensor(workspace: Workspace, id: string): Workspace {
+    const index = workspace.tensors.findIndex(t => t.id === id);
+    if (index < 0 || workspace.tensors.length === 1) return workspace;
+    const tensors = workspace.tensors.filter(t => t.id !== id);
+    const activeId = workspace.activeId === id ? tensors[Math.min(index, tensors.length - 1)].id : workspace.activeId;
+    return { ...workspace, tensors, activeId };
+}
+
+/** The data of a tensor: the selected array of its file, or its parsed JSON */
+export function workspaceTensorData(tensor: Pick<WorkspaceTensor, 'dataStr' | 'file' | 'selectedArray'>): Tensor | null {
+    if (tensor.file) return (tensor.file.arrays[tensor.selectedArray] ?? tensor.file.arrays[0])?.tensor ?? null;
+    if (!tensor.dataStr.trim()) return null;
+    const parsed = parseTensor(tensor.dataStr);
+    return parsed ? tensorFromNested(parsed.data, parsed.shape) : null;
+}
+
+/** Layout of a tensor that isn't being edited, as it arrives from the layout worker */
+export interface WorkspaceLayout {
+    tensor: Tensor | null;
+    shape: number[];
+    layout: PackedLayout;
+    progress: number | null; // fraction laid out while partial, null when complete
+}
+
+/** Layout settings of a tensor that isn't being edited, from its saved view settings */
+export function workspaceLayoutConfig(view: ViewState, tensor: Tensor | null): LayoutConfig {
+    const shape = tensor?.shape ?? view.shape;
+    const assignment = view.dimAssignment
+        ? normalizeAssignment(view.dimAssignment, shape.length)
+        : presetAssignment(shape.length, view.dimOrder);
+    let selectedIndices: (number[] | null)[] | undefined;
+    try {
+        const sels = parseSliceExpression(view.selection ?? '', shape.length);
+        const resolved = resolveSelections(sels, shape);
+        selectedIndices = sels.map((sel, d) => (sel.kind === 'all' ? null : resolved[d]));
+    } catch {
+        selectedIndices = undefined; // an invalid expression falls back to the full tensor, as in the editor
+    }
+    return {
+        shape,
+        spatialDims: assignment.spatial,
+        outerDims: outerDimsOf(assignment),
+        tileAssignments: assignment.tiles,
+        mode: view.mode,
+        sliceIndices: view.sliceIndices,
+        maxCellsPerDim: view.maxCells,
+        selectedIndices,
+        tensor: tensor ?? undefined,
+    };
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isIntArray = (v: unknown, min: number): v is number[] => Array.isArray(v) && v.every(n => Number.isInteger(n) && n >= min);
+
+// Stored typed arrays may come from another realm (structured clone), so they are told apart by tag, not instanceof
+const typedArrayTag = (v: unknown) => (ArrayBuffer.isView(v) ? Object.prototype.toString.call(v) : null);
+
+/** Validates a stored tensor: typed storage matching the dtype, and strides that stay inside it */
+function parseStoredTensor(v: unknown, where: string): Tensor {
+    if (!isObject(v) || typeof v.dtype !== 'string' || !Object.hasOwn(DTYPE_SIZES, v.dtype)) {
+        throw new WorkspaceError(`${where} has no valid dtype`);
+    }
+    const dtype = v.dtype as DType;
+    const storage = allocateStorage(dtype, 0);
+    if (typedArrayTag(v.data) !== typedArrayTag(storage)) {
+        throw new WorkspaceError(`${where} needs its data as a ${storage.constructor.name}`);
+    }
+    const data = v.data as Tensor['data'];
+    if (!isIntArray(v.shape, 0) || !isIntArray(v.strides, -Infinity) || v.strides.length !== v.shape.length) {
+        throw new WorkspaceError(`${where} needs a shape and strides of the same rank`);
+    }
+    const { shape, strides } = v;
+    const offset = v.offset ?? 0;
+    if (typeof offset !== 'number' || !Number.isInteger(offset)) throw new WorkspaceError(`${where} has an invalid storage offset`);
+    if (numel(shape) > 0) {
+        let lo = offset, hi = offset;
+        shape.forEach((n, d) => {
+            const span = (n - 1) * strides[d];
+            if (span < 0) lo += span;
+            else hi += span;
+        });
+        if (lo < 0 || hi >= data.length) throw new WorkspaceError(`${where} indexes past its ${data.length} stored values`);
+    }
+    if (v.valid !== undefined && (typedArrayTag(v.valid) !== typedArrayTag(new Uint8Array()) || (v.valid as Uint8Array).length !== data.length)) {
+        throw new WorkspaceError(`${where} has an invalid missing-value mask`);
+    }
+    return { shape, strides, offset, dtype, data, valid: v.valid as Uint8Array | undefined };
+}
+
+function parseStoredFile(v: unknown, where: string): WorkspaceTensor['file'] {
+    if (v === null || v === undefined) return null;
+    if (!isObject(v) || typeof v.fileName !== 'string' || !Array.isArray(v.arrays) || v.arrays.length === 0) {
+        throw new WorkspaceError(`${where} has a loaded file without arrays`);
+    }
+    const arrays = v.arrays.map((a: unknown, i): NamedTensor => {
+        if (!isObject(a) || typeof a.name !== 'string') throw new WorkspaceError(`Array ${i + 1} of ${where} needs a name`);
+        return { name: a.name, tensor: parseStoredTensor(a.tensor, `Array '${a.name}' of ${where}`) };
+    });
+    return { fileName: v.fileName, arrays };
+}
+
+/** Validates a stored workspace; view settings go through the same checks as settings files */
+export function parseWorkspace(raw: unknown): Workspace {
+    if (!isObject(raw) || !Array.isArray(raw.tensors) || raw.tensors.length === 0) {
+        throw new WorkspaceError('Workspace must contain at least one tensor');
+    }
+    const tensors = raw.tensors.map((t: unknown, i): WorkspaceTensor => {
+        if (!isObject(t) || typeof t.id !== 'string' || typeof t.name !== 'string') {
+            throw new WorkspaceError(`Tensor ${i + 1} needs an id and a name`);
+        }
+        const file = parseStoredFile(t.file, `tensor '${t.name}'`);
+        const data = file ? (file.arrays[Number(t.selectedArray) || 0] ?? file.arrays[0]).tensor : null;
+        return {
+            id: t.id,
+            name: t.name,
+            view: parseViewState(t.view, data?.shape),
+            dataStr: typeof t.dataStr === 'string' ? t.dataStr : '',
+            file,
+            selectedArray: Number.isInteger(t.selectedArray) ? t.selectedArray as number : 0,
+        };
+    });
+    const activeId = tensors.some(t => t.id === raw.activeId) ? raw.activeId as string : tensors[0].id;
+    const axis = raw.axis === 'y' || raw.axis === 'z' ? raw.axis : 'x';
+    return { tensors, activeId, showAll: raw.showAll === true, axis };
+}
+
+/** Where the workspace is kept between sessions */
+export interface WorkspaceStorage {
+    load(): Promise<Workspace | null>;
+    save(workspace: Workspace): Promise<void>;
+}
+
+const DB_NAME = 'tensor-grid';
+const DB_STORE = 'workspace';
+const DB_KEY = 'current';
+const FILE_KEY_PREFIX = 'file:';
+
+/** Key-value records the workspace is kept in; `write` applies its puts and deletes together */
+interface RecordStore {
+    get(key: string): Promise<unknown>;
+    write(puts: [string, unknown][], deletes: string[]): Promise<void>;
+}
+
+/**
+ * Storage over key-value records. Loaded files are kept under their own keys and written only when
+ * a new file object appears, so the saves after each edit only rewrite the small workspace record.
+ */
+function recordStorage(records: RecordStore): WorkspaceStorage {
+    const fileKeys = new WeakMap<object, string>(); // file objects already stored
+    let storedKeys = new Set<string>();
+    return {
+        async load() {
+            const raw = await records.get(DB_KEY);
+            if (raw === undefined) return null;
+            if (!isObject(raw) || !Array.isArray(raw.tensors)) return parseWorkspace(raw);
+            const keys = raw.tensors.map((t: unknown) => (isObject(t) && typeof t.fileKey === 'string' ? t.fileKey : null));
+            const files = await Promise.all(keys.map(key => (key === null ? undefined : records.get(key))));
+            const tensors = raw.tensors.map((t: unknown, i) => {
+                if (keys[i] === null) return t; // no file, or stored inline by an earlier version
+                if (files[i] === undefined) throw new WorkspaceError(`The loaded file of tensor ${i + 1} is missing from the stored workspace`);
+                return { ...(t as object), file: files[i] };
+            });
+            const workspace = parseWorkspace({ ...raw, tensors });
+            workspace.tensors.forEach((t, i) => {
+                if (t.file && keys[i] !== null) fileKeys.set(t.file, keys[i]);
+            });
+            storedKeys = new Set(keys.filter(key => key !== null));
+            return workspace;
+        },
+        async save(workspace) {
+            const puts: [string, unknown][] = [];
+            const added = new Map<object, string>();
+            const tensors = workspace.tensors.map(t => {
+                if (!t.file) return t;
+                let key = fileKeys.get(t.file) ?? added.get(t.file);
+                if (key === undefined) {
+                    key = `${FILE_KEY_PREFIX}${newTensorId()}`;
+                    added.set(t.file, key);
+                    puts.push([key, t.file]);
+                }
+                return { ...t, file: null, fileKey: key };
+            });
+            const keys = new Set(tensors.flatMap(t => ('fileKey' in t ? [t.fileKey] : [])));
+            puts.push([DB_KEY, { ...workspace, tensors }]);
+            await records.write(puts, [...storedKeys].filter(key => !keys.has(key)));
+            added.forEach((key, file) => fileKeys.set(file, key));
+            storedKeys = keys;
+        },
+    };
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** IndexedDB storage; typed arrays of loaded data are stored as they are (structured clone) */
+export function indexedDbStorage(factory: IDBFactory = indexedDB): WorkspaceStorage {
+    let db: Promise<IDBDatabase> | null = null;
+    const open = () => {
+        db ??= new Promise((resolve, reject) => {
+            const request = factory.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        return db;
+    };
+    return recordStorage({
+        async get(key) {
+            return requestResult((await open()).transaction(DB_STORE, 'readonly').objectStore(DB_STORE).get(key));
+        },
+        async write(puts, deletes) {
+            const transaction = (await open()).transaction(DB_STORE, 'readwrite');
+            const store = transaction.objectStore(DB_STORE);
+            for (const [key, value] of puts) store.put(value, key);
+            for (const key of deletes) store.delete(key);
+            await new Promise<void>((resolve, reject) => {
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => reject(transaction.error);
+                transaction.onabort = () => reject(transaction.error);
+            });
+        },
+    });
+}
+
+/** In-memory storage, for browsers without IndexedDB (and tests); records are cloned like IndexedDB does */
+export function memoryStorage(records = new Map<string, unknown>()): WorkspaceStorage {
+    return recordStorage({
+        get: async key => (records.has(key) ? structuredClone(records.get(key)) : undefined),
+        write: async (puts, deletes) => {
+            for (const [key, value] of puts) records.set(key, structuredClone(value));
+            for (const key of deletes) records.delete(key);
+        },
+    });
+}